@@ -12,8 +12,16 @@ import { LoginForm } from "@/components/LoginForm";
 import { Layout } from "./components/Layout";
 import { Dashboard } from "./pages/dashboard";
 import { Conversas } from "./pages/conversas";
+import { CaixaEntrada } from "./pages/caixa-entrada";
 import { Pipeline } from "./pages/pipeline";
 import { Consultas } from "./pages/consultas";
+import { ListaEspera } from "./pages/lista-espera";
+import { Recepcao } from "./pages/recepcao";
+import { Fechamentos } from "./pages/fechamentos";
+import { Campanhas } from "./pages/campanhas";
+import { AgendarOnline } from "./pages/agendar";
+import { AgendamentoConfirmado } from "./pages/agendamento-confirmado";
+import { GerenciarConsulta } from "./pages/gerenciar-consulta";
 import { Contatos } from "./pages/contatos";
 import { Configuracoes } from "./pages/configuracoes";
 import { LiviaConfig } from "./pages/livia-config";
@@ -36,6 +44,18 @@ function Router() {
     return location.substring(1);
   };
 
+  // Public booking portal and patient appointment links: no login and no app layout
+  if (location.startsWith('/agendar/') || location.startsWith('/consulta/')) {
+    return (
+      <Switch>
+        <Route path="/agendar/:clinicId/confirmacao" component={AgendamentoConfirmado} />
+        <Route path="/agendar/:clinicId" component={AgendarOnline} />
+        <Route path="/consulta/:token" component={GerenciarConsulta} />
+        <Route component={NotFound} />
+      </Switch>
+    );
+  }
+
   if (loading) {
     console.log('⏳ Loading state - showing skeleton');
     return (
@@ -67,8 +87,13 @@ function Router() {
       <Switch>
         <Route path="/" component={Dashboard} />
         <Route path="/conversas" component={Conversas} />
+        <Route path="/caixa-entrada" component={CaixaEntrada} />
         <Route path="/pipeline" component={Pipeline} />
         <Route path="/consultas" component={Consultas} />
+        <Route path="/lista-espera" component={ListaEspera} />
+        <Route path="/recepcao" component={Recepcao} />
+        <Route path="/fechamentos" component={Fechamentos} />
+        <Route path="/campanhas" component={Campanhas} />
         <Route path="/contatos" component={Contatos} />
         <Route path="/contatos/:id" component={ContatoDetalhes} />
         {/* <Route path="/prontuario/:id?" component={Prontuario} /> */}
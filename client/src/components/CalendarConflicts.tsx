@@ -0,0 +1,112 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ArrowRight, CalendarX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Appointment, CalendarSyncConflict } from "@shared/schema";
+
+type CalendarConflictItem = CalendarSyncConflict & {
+  appointment?: Appointment;
+  contact_name: string | null;
+  provider: string | null;
+  calendar_email: string | null;
+};
+
+const providerLabels: Record<string, string> = {
+  google: "Google Agenda",
+  microsoft: "Outlook",
+  caldav: "CalDAV",
+};
+
+const formatDateTime = (value: string | Date | null | undefined) =>
+  value ? format(new Date(value), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : '—';
+
+// Review queue of the logged professional: appointments whose event was moved or deleted in an external calendar
+export function CalendarConflicts() {
+  const { toast } = useToast();
+
+  const { data: conflicts = [] } = useQuery<CalendarConflictItem[]>({
+    queryKey: ['/api/calendar/conflicts'],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolution }: { id: number; resolution: 'clinic' | 'calendar' }) => {
+      const res = await apiRequest("POST", `/api/calendar/conflicts/${id}/resolve`, { resolution });
+      return res.json();
+    },
+    onSuccess: (_data, { resolution }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/conflicts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      toast({
+        title: "Conflito resolvido",
+        description: resolution === 'clinic' ? "A agenda externa foi atualizada com a consulta." : "A consulta foi atualizada conforme a agenda externa.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível resolver o conflito.", variant: "destructive" });
+    },
+  });
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-yellow-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="w-5 h-5 text-yellow-600" />
+          Alterações feitas na agenda externa ({conflicts.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {conflicts.map(conflict => (
+          <div key={conflict.id} className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 border rounded-lg p-3">
+            <div className="min-w-0 text-sm">
+              <div className="font-medium">
+                {conflict.contact_name || `Consulta #${conflict.appointment_id}`}
+                <span className="text-slate-500 font-normal">
+                  {' · '}{providerLabels[conflict.provider || ''] || conflict.provider}
+                  {conflict.calendar_email ? ` (${conflict.calendar_email})` : ''}
+                </span>
+              </div>
+              {conflict.kind === 'moved' ? (
+                <div className="flex items-center gap-2 text-slate-700 mt-1">
+                  <span>{formatDateTime(conflict.appointment?.scheduled_date ?? conflict.appointment_starts_at)}</span>
+                  <ArrowRight className="w-4 h-4" />
+                  <span>{formatDateTime(conflict.calendar_starts_at)}</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-slate-700 mt-1">
+                  <CalendarX className="w-4 h-4" />
+                  Evento removido da agenda; consulta em {formatDateTime(conflict.appointment?.scheduled_date ?? conflict.appointment_starts_at)}
+                </div>
+              )}
+              {conflict.clinic_changed && (
+                <div className="text-xs text-yellow-700 mt-1">A consulta também foi alterada na clínica desde a última sincronização.</div>
+              )}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: 'clinic' })}
+                disabled={resolveMutation.isPending}
+              >
+                Manter consulta
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: 'calendar' })}
+                disabled={resolveMutation.isPending}
+              >
+                {conflict.kind === 'moved' ? 'Mover consulta' : 'Cancelar consulta'}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
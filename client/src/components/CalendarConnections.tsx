@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { AlertTriangle, CalendarDays, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { CalendarIntegration } from "@shared/schema";
+
+type CalendarConnection = Omit<CalendarIntegration, 'access_token' | 'refresh_token' | 'watch_token'> & {
+  status: 'connected' | 'reconnect' | 'error' | 'paused';
+};
+
+interface CalendarProviderOption {
+  name: string;
+  label: string;
+  auth: 'oauth' | 'password';
+  configured: boolean;
+  push: boolean;
+}
+
+const statusBadges: Record<CalendarConnection['status'], { label: string; className: string }> = {
+  connected: { label: "Conectada", className: "bg-green-100 text-green-800 border-green-200" },
+  reconnect: { label: "Reconexão necessária", className: "bg-red-100 text-red-800 border-red-200" },
+  error: { label: "Erro na sincronização", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+  paused: { label: "Pausada", className: "bg-slate-100 text-slate-700 border-slate-200" },
+};
+
+// Connected calendars of the logged user; an account whose credentials were refused is reconnected from here
+export function CalendarConnections() {
+  const { toast } = useToast();
+  const [caldavReconnect, setCaldavReconnect] = useState<CalendarConnection | null>(null);
+  const [password, setPassword] = useState("");
+
+  const { data: connections = [], isLoading } = useQuery<CalendarConnection[]>({
+    queryKey: ['/api/calendar/connections'],
+  });
+  const { data: providers = [] } = useQuery<CalendarProviderOption[]>({
+    queryKey: ['/api/calendar/providers'],
+  });
+
+  const providerLabel = (name: string) => providers.find(provider => provider.name === name)?.label || name;
+
+  // OAuth providers: the consent screen is opened again and the callback brings the user back
+  const reconnectOAuthMutation = useMutation({
+    mutationFn: async (connection: CalendarConnection) => {
+      const res = await apiRequest("GET", `/api/calendar/auth/${connection.provider}?clinic_id=${connection.clinic_id}`);
+      return res.json();
+    },
+    onSuccess: (data: { authUrl?: string }) => {
+      if (data.authUrl) window.location.href = data.authUrl;
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível iniciar a reconexão da agenda.", variant: "destructive" });
+    },
+  });
+
+  // CalDAV: a new app password for the same server and user
+  const reconnectCaldavMutation = useMutation({
+    mutationFn: async ({ connection, password }: { connection: CalendarConnection; password: string }) => {
+      const res = await apiRequest("POST", "/api/calendar/integrations/caldav", {
+        clinic_id: connection.clinic_id,
+        server_url: connection.server_url,
+        username: connection.email,
+        password,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/connections'] });
+      setCaldavReconnect(null);
+      setPassword("");
+      toast({ title: "Agenda reconectada", description: "A sincronização foi retomada." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Usuário ou senha de app inválidos.", variant: "destructive" });
+    },
+  });
+
+  const reconnect = (connection: CalendarConnection) => {
+    if (connection.provider === 'caldav') {
+      setCaldavReconnect(connection);
+    } else {
+      reconnectOAuthMutation.mutate(connection);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          Agendas conectadas
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-slate-500">Carregando...</p>}
+        {!isLoading && connections.length === 0 && (
+          <p className="text-sm text-slate-500">Nenhuma agenda conectada.</p>
+        )}
+        {connections.map(connection => (
+          <div key={connection.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{providerLabel(connection.provider)}</span>
+                <Badge className={`${statusBadges[connection.status].className} border`}>
+                  {statusBadges[connection.status].label}
+                </Badge>
+              </div>
+              <div className="text-sm text-slate-600 truncate">
+                {connection.email}{connection.calendar_name ? ` · ${connection.calendar_name}` : ''}
+              </div>
+              {connection.status === 'reconnect' && (
+                <div className="flex items-center gap-1 text-xs text-red-600 mt-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  O acesso à agenda expirou ou foi revogado. Reconecte para voltar a sincronizar.
+                </div>
+              )}
+              {connection.status === 'error' && connection.sync_errors && (
+                <div className="text-xs text-yellow-700 mt-1 truncate">{connection.sync_errors}</div>
+              )}
+              {connection.last_sync_at && (
+                <div className="text-xs text-slate-500 mt-1">
+                  Última sincronização: {format(new Date(connection.last_sync_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                </div>
+              )}
+            </div>
+            {connection.status === 'reconnect' && (
+              <Button
+                size="sm"
+                onClick={() => reconnect(connection)}
+                disabled={reconnectOAuthMutation.isPending}
+              >
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Reconectar
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!caldavReconnect} onOpenChange={open => !open && setCaldavReconnect(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reconectar agenda CalDAV</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              Informe uma nova senha de app para {caldavReconnect?.email}.
+            </p>
+            <Input
+              type="password"
+              placeholder="Senha de app"
+              value={password}
+              onChange={event => setPassword(event.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCaldavReconnect(null)}>Cancelar</Button>
+              <Button
+                onClick={() => caldavReconnect && reconnectCaldavMutation.mutate({ connection: caldavReconnect, password })}
+                disabled={!password || reconnectCaldavMutation.isPending}
+              >
+                Reconectar
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -6,10 +6,14 @@ import { ChevronLeft, ChevronRight, Clock, AlertTriangle } from "lucide-react";
 import { format, addDays, subDays, getDay } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_CLINIC_TIMEZONE, getZonedDateKey, getZonedTime, toZonedTime } from "@shared/timezone";
+import { findOverlappingClosure, isClosedDay, type ClosureRule } from "@shared/clinic-closures";
 
 interface FindTimeSlotsProps {
   selectedDate?: string;
   duration: number;
+  professionalId?: number | null;
+  professionalName?: string | null;
   onTimeSelect: (time: string, date: string) => void;
   onClose: () => void;
 }
@@ -22,6 +26,20 @@ interface TimeSlot {
   reason?: string; // Reason for unavailability
 }
 
+interface WorkingBlock {
+  start: string;
+  end: string;
+}
+
+// Effective working hours of a professional on a date (GET /api/clinic/:id/professionals/:userId/working-hours)
+interface ProfessionalSchedule {
+  date: string;
+  isWorkingDay: boolean;
+  blocks: WorkingBlock[];
+  source: 'clinic' | 'professional' | 'override' | 'closure';
+  reason?: string | null;
+}
+
 interface ClinicConfig {
   working_days: string[];
   work_start: string;
@@ -29,16 +47,17 @@ interface ClinicConfig {
   has_lunch_break: boolean;
   lunch_start: string;
   lunch_end: string;
+  timezone: string;
 }
 
-export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }: FindTimeSlotsProps) {
+export function FindTimeSlots({ selectedDate, duration, professionalId, professionalName, onTimeSelect, onClose }: FindTimeSlotsProps) {
   const [currentDate, setCurrentDate] = useState(() => {
     if (selectedDate && selectedDate !== '') {
       // Create date from string and ensure it's at local midnight to avoid timezone issues
       const date = new Date(selectedDate + 'T00:00:00');
       return date;
     }
-    return new Date();
+    return toZonedTime(new Date(), DEFAULT_CLINIC_TIMEZONE);
   });
   const [selectedTime, setSelectedTime] = useState<string>('');
   const [timeSlots, setTimeSlots] = useState<{
@@ -60,16 +79,55 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
       work_end: data.work_end || "18:00",
       has_lunch_break: data.has_lunch_break !== false,
       lunch_start: data.lunch_start || "12:00",
-      lunch_end: data.lunch_end || "13:00"
+      lunch_end: data.lunch_end || "13:00",
+      timezone: data.timezone || DEFAULT_CLINIC_TIMEZONE
     })
   });
 
+  // Slots and appointments are compared on the clinic's wall clock
+  const clinicTimezone = clinicConfig?.timezone || DEFAULT_CLINIC_TIMEZONE;
+
+  const currentDateKey = format(currentDate, 'yyyy-MM-dd');
+
+  // Holidays and closure days; a professional's schedule already has them applied
+  const { data: clinicClosures = [] } = useQuery<ClosureRule[]>({
+    queryKey: ["/api/clinic/1/closures"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/closures');
+      if (!response.ok) throw new Error('Failed to fetch clinic closures');
+      return response.json();
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  // Fetch the selected professional's schedule for the day (weekly template + date overrides)
+  const { data: professionalSchedule } = useQuery<ProfessionalSchedule>({
+    queryKey: ['/api/clinic/1/professionals', professionalId, 'working-hours', currentDateKey],
+    queryFn: async () => {
+      const response = await fetch(`/api/clinic/1/professionals/${professionalId}/working-hours?date=${currentDateKey}`);
+      if (!response.ok) throw new Error('Failed to fetch professional working hours');
+      return response.json();
+    },
+    enabled: !!professionalId,
+  });
+
+  // Clinic hours as blocks, the lunch break splitting the day in two
+  const getClinicBlocks = (config: ClinicConfig): WorkingBlock[] => {
+    if (!config.has_lunch_break) {
+      return [{ start: config.work_start, end: config.work_end }];
+    }
+    return [
+      { start: config.work_start, end: config.lunch_start },
+      { start: config.lunch_end, end: config.work_end }
+    ].filter(block => block.start < block.end);
+  };
+
   const navigateDate = (direction: 'prev' | 'next') => {
     setCurrentDate(prev => direction === 'prev' ? subDays(prev, 1) : addDays(prev, 1));
   };
 
   const goToToday = () => {
-    setCurrentDate(new Date());
+    setCurrentDate(toZonedTime(new Date(), clinicTimezone));
   };
 
   const formatDateHeader = (date: Date) => {
@@ -84,8 +142,7 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
 
   const handleConfirm = () => {
     if (selectedTime) {
-      const dateString = currentDate.toISOString().split('T')[0]; // Format as YYYY-MM-DD
-      onTimeSelect(selectedTime, dateString);
+      onTimeSelect(selectedTime, currentDateKey);
       onClose();
     }
   };
@@ -97,6 +154,11 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
   };
 
   const isWorkingDay = (date: Date, config: ClinicConfig): boolean => {
+    // The professional's schedule takes precedence over the clinic working days
+    if (professionalSchedule && professionalSchedule.date === format(date, 'yyyy-MM-dd')) {
+      return professionalSchedule.isWorkingDay;
+    }
+    if (isClosedDay(clinicClosures, format(date, 'yyyy-MM-dd'))) return false;
     const dayKey = getDayOfWeekKey(date);
     return config.working_days.includes(dayKey);
   };
@@ -153,17 +215,11 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
   const hasConflict = (startTime: string, endTime: string): boolean => {
     const slotStart = timeToMinutes(startTime);
     const slotEnd = timeToMinutes(endTime);
-    const currentDateStr = currentDate.toISOString().split('T')[0];
-
     return existingAppointments.some((appointment: any) => {
-      const appointmentDate = new Date(appointment.scheduled_date).toISOString().split('T')[0];
-      if (appointmentDate !== currentDateStr) return false;
-
-      const appointmentTime = new Date(appointment.scheduled_date).toLocaleTimeString('pt-BR', { 
-        hour: '2-digit', 
-        minute: '2-digit',
-        hour12: false 
-      });
+      const appointmentDate = getZonedDateKey(appointment.scheduled_date, clinicTimezone);
+      if (appointmentDate !== currentDateKey) return false;
+
+      const appointmentTime = getZonedTime(appointment.scheduled_date, clinicTimezone);
       const appointmentStart = timeToMinutes(appointmentTime);
       const appointmentEnd = appointmentStart + appointment.duration_minutes;
 
@@ -181,18 +237,20 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
       const afternoon: TimeSlot[] = [];
       const evening: TimeSlot[] = [];
 
-      // Parse work hours
-      const workStartMinutes = timeToMinutes(clinicConfig.work_start);
-      const workEndMinutes = timeToMinutes(clinicConfig.work_end);
-      const lunchStartMinutes = timeToMinutes(clinicConfig.lunch_start);
-      const lunchEndMinutes = timeToMinutes(clinicConfig.lunch_end);
-      
+      // Working blocks come from the professional's schedule when one is selected
+      const workingBlocks = professionalSchedule ? professionalSchedule.blocks : getClinicBlocks(clinicConfig);
+      const isDayAvailable = isWorkingDay(currentDate, clinicConfig);
+
       // Generate slots in 30-minute intervals, but check for full duration availability
-      for (let currentMinutes = workStartMinutes; currentMinutes < workEndMinutes; currentMinutes += 30) {
+      for (const block of workingBlocks) {
+      const blockStartMinutes = timeToMinutes(block.start);
+      const blockEndMinutes = timeToMinutes(block.end);
+
+      for (let currentMinutes = blockStartMinutes; currentMinutes < blockEndMinutes; currentMinutes += 30) {
         const slotEndMinutes = currentMinutes + duration;
         
-        // Skip if slot would exceed work hours
-        if (slotEndMinutes > workEndMinutes) continue;
+        // Skip if slot would exceed the working block
+        if (slotEndMinutes > blockEndMinutes) continue;
         
         const startTime = minutesToTime(currentMinutes);
         const endTime = minutesToTime(slotEndMinutes);
@@ -202,16 +260,16 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
         let unavailabilityReason: string | undefined;
 
         // Check if it's a working day
-        if (!isWorkingDay(currentDate, clinicConfig)) {
+        if (!isDayAvailable) {
           unavailabilityReason = "Dia não útil";
           isAvailable = false;
         }
 
-        // Check lunch break conflicts (only if lunch break is enabled)
-        if (isAvailable && clinicConfig.has_lunch_break) {
-          // Check if any part of the appointment overlaps with lunch time
-          if (currentMinutes < lunchEndMinutes && slotEndMinutes > lunchStartMinutes) {
-            unavailabilityReason = "Conflito com horário de almoço";
+        // Partial-day closures (e.g. maintenance in the afternoon)
+        if (isAvailable && !professionalSchedule) {
+          const closure = findOverlappingClosure(clinicClosures, currentDateKey, startTime, endTime);
+          if (closure) {
+            unavailabilityReason = closure.reason || "Clínica fechada";
             isAvailable = false;
           }
         }
@@ -240,12 +298,13 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
           evening.push(timeSlot);
         }
       }
+      }
 
       setTimeSlots({ morning, afternoon, evening });
     };
 
     generateTimeSlots();
-  }, [currentDate, clinicConfig, duration, existingAppointments]);
+  }, [currentDate, clinicConfig, professionalSchedule, duration, existingAppointments, clinicClosures]);
 
   const renderTimeSlots = (slots: TimeSlot[], title: string) => {
     // Only show available slots
@@ -300,6 +359,7 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
         <DialogTitle className="text-2xl">Procurar Horários Disponíveis</DialogTitle>
         <p className="text-slate-600">
           Selecione um horário para a consulta de {duration} minutos
+          {professionalName ? ` com ${professionalName}` : ''}
         </p>
       </DialogHeader>
 
@@ -400,6 +460,25 @@ export function FindTimeSlots({ selectedDate, duration, onTimeSelect, onClose }:
         </Button>
       </div>
 
+      {/* Professional Working Hours Info */}
+      {professionalSchedule && professionalSchedule.source !== 'clinic' && (
+        <div className="mt-6 p-4 bg-slate-50 rounded-lg border border-slate-200">
+          <h4 className="font-medium text-slate-900 mb-2">
+            Expediente {professionalName ? `de ${professionalName}` : 'do profissional'}
+          </h4>
+          <div className="text-sm text-slate-700 space-y-1">
+            {professionalSchedule.isWorkingDay ? (
+              <p><strong>Horários:</strong> {professionalSchedule.blocks.map(block => `${block.start} às ${block.end}`).join(', ')}</p>
+            ) : (
+              <p>Sem expediente neste dia</p>
+            )}
+            {professionalSchedule.reason && (
+              <p><strong>Observação:</strong> {professionalSchedule.reason}</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Working Hours Info */}
       {clinicConfig && (
         <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
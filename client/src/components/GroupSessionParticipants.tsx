@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Users, UserPlus, X } from "lucide-react";
+
+interface Participant {
+  id: number;
+  contact_id: number;
+  attendance_status: 'inscrito' | 'presente' | 'faltou';
+  payment_status: 'pendente' | 'pago' | 'isento';
+  payment_amount: number | null;
+}
+
+interface ParticipantsResponse {
+  capacity: number | null;
+  participants: Participant[];
+}
+
+const attendanceLabels: Record<Participant['attendance_status'], string> = {
+  inscrito: 'Inscrito',
+  presente: 'Presente',
+  faltou: 'Faltou',
+};
+
+const paymentLabels: Record<Participant['payment_status'], string> = {
+  pendente: 'Pendente',
+  pago: 'Pago',
+  isento: 'Isento',
+};
+
+async function sendParticipantRequest(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Não foi possível atualizar os participantes.');
+  return data;
+}
+
+// Participant list of a group session: enrollment, attendance and payment per patient
+export function GroupSessionParticipants({
+  appointmentId,
+  contacts,
+}: {
+  appointmentId: number;
+  contacts: { id: number; name: string }[];
+}) {
+  const { toast } = useToast();
+  const [contactToEnroll, setContactToEnroll] = useState("");
+
+  const { data } = useQuery<ParticipantsResponse>({
+    queryKey: ['/api/appointments', appointmentId, 'participants'],
+    queryFn: async () => {
+      const response = await fetch(`/api/appointments/${appointmentId}/participants`);
+      if (!response.ok) throw new Error('Failed to fetch participants');
+      return response.json();
+    },
+  });
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/appointments', appointmentId, 'participants'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Erro", description: error.message, variant: "destructive" });
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: (contactId: number) =>
+      sendParticipantRequest(`/api/appointments/${appointmentId}/participants`, 'POST', { contact_id: contactId }),
+    onSuccess: () => setContactToEnroll(""),
+    onError,
+    onSettled,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ participantId, updates }: { participantId: number; updates: Partial<Participant> }) =>
+      sendParticipantRequest(`/api/appointments/${appointmentId}/participants/${participantId}`, 'PATCH', updates),
+    onError,
+    onSettled,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (participantId: number) =>
+      sendParticipantRequest(`/api/appointments/${appointmentId}/participants/${participantId}`, 'DELETE'),
+    onError,
+    onSettled,
+  });
+
+  if (!data) return null;
+
+  const { capacity, participants } = data;
+  const isFull = capacity != null && participants.length >= capacity;
+  const enrolledIds = new Set(participants.map(participant => participant.contact_id));
+  const getContactName = (contactId: number) =>
+    contacts.find(contact => contact.id === contactId)?.name || 'Paciente não encontrado';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <Users className="w-4 h-4" />
+          Participantes
+        </span>
+        <span className={`text-sm font-medium ${isFull ? 'text-red-600' : 'text-slate-600'}`}>
+          {participants.length}/{capacity ?? '-'} {isFull && '· lotada'}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {participants.map((participant) => (
+          <div key={participant.id} className="flex items-center gap-2 rounded border border-slate-200 p-2">
+            <span className="flex-1 text-sm truncate">{getContactName(participant.contact_id)}</span>
+            <Select
+              value={participant.attendance_status}
+              onValueChange={(value) => updateMutation.mutate({
+                participantId: participant.id,
+                updates: { attendance_status: value as Participant['attendance_status'] },
+              })}
+            >
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(attendanceLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={participant.payment_status}
+              onValueChange={(value) => updateMutation.mutate({
+                participantId: participant.id,
+                updates: { payment_status: value as Participant['payment_status'] },
+              })}
+            >
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(paymentLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 text-slate-500 hover:text-red-600"
+              disabled={participants.length <= 1 || removeMutation.isPending}
+              onClick={() => removeMutation.mutate(participant.id)}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {!isFull && (
+        <div className="flex items-center gap-2">
+          <Select value={contactToEnroll} onValueChange={setContactToEnroll}>
+            <SelectTrigger className="h-9 flex-1">
+              <SelectValue placeholder="Adicionar paciente" />
+            </SelectTrigger>
+            <SelectContent>
+              {contacts
+                .filter(contact => !enrolledIds.has(contact.id))
+                .map(contact => (
+                  <SelectItem key={contact.id} value={contact.id.toString()}>{contact.name}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="sm"
+            disabled={!contactToEnroll || enrollMutation.isPending}
+            onClick={() => enrollMutation.mutate(parseInt(contactToEnroll))}
+          >
+            <UserPlus className="w-4 h-4 mr-1" />
+            Inscrever
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+import { format } from "date-fns";
+
+interface ContactReliability {
+  score: number | null;
+  level: 'alta' | 'media' | 'baixa' | null;
+  stats: {
+    attended: number;
+    no_shows: number;
+    late_cancellations: number;
+    confirmed: number;
+    past_appointments: number;
+  };
+  no_shows: { appointment_id: number; scheduled_date: string | null; doctor_name: string | null }[];
+  requires_confirmation: boolean;
+  self_booking_blocked: boolean;
+}
+
+const levelStyles: Record<string, string> = {
+  alta: "bg-green-100 text-green-800 border-green-200",
+  media: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  baixa: "bg-red-100 text-red-800 border-red-200",
+};
+
+// Attendance score of a patient, with the no-show history on hover
+export function ReliabilityBadge({ contactId }: { contactId: number }) {
+  const { data: reliability } = useQuery<ContactReliability>({
+    queryKey: ['/api/contacts', contactId, 'reliability'],
+    queryFn: async () => {
+      const response = await fetch(`/api/contacts/${contactId}/reliability`);
+      if (!response.ok) throw new Error('Failed to fetch contact reliability');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  if (!reliability) return null;
+
+  if (reliability.score === null) {
+    return <Badge variant="outline" className="text-slate-500">Sem histórico</Badge>;
+  }
+
+  const Icon = reliability.level === 'baixa' ? ShieldAlert : ShieldCheck;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex items-center gap-1">
+          <Badge className={`${levelStyles[reliability.level!]} border cursor-default`}>
+            <Icon className="w-3 h-3 mr-1" />
+            Confiabilidade {reliability.score}
+          </Badge>
+          {reliability.requires_confirmation && (
+            <Badge className="bg-orange-100 text-orange-800 border border-orange-200">Exige confirmação</Badge>
+          )}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <div className="space-y-1 text-xs">
+          <div>{reliability.stats.attended} comparecimentos · {reliability.stats.no_shows} faltas · {reliability.stats.late_cancellations} cancelamentos tardios</div>
+          <div>{reliability.stats.confirmed} consultas confirmadas</div>
+          {reliability.no_shows.length > 0 && (
+            <div className="pt-1 border-t">
+              Faltas: {reliability.no_shows
+                .map(noShow => noShow.scheduled_date ? format(new Date(noShow.scheduled_date), 'dd/MM/yyyy') : '-')
+                .join(', ')}
+            </div>
+          )}
+          {reliability.self_booking_blocked && (
+            <div className="text-red-600">Agendamento online bloqueado</div>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
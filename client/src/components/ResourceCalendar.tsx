@@ -0,0 +1,170 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfDay, endOfDay } from "date-fns";
+import { DoorOpen, Stethoscope } from "lucide-react";
+import type { Appointment } from "../../../server/domains/appointments/appointments.schema";
+
+interface ClinicResource {
+  id: number;
+  name: string;
+  type: 'room' | 'equipment';
+  capacity: number;
+  open_time: string | null;
+  close_time: string | null;
+}
+
+interface ResourceBooking {
+  resource_id: number;
+  appointment_id: number;
+}
+
+interface ResourceCalendarProps {
+  date: Date;
+  appointments: Appointment[];
+  getPatientName: (contactId: number, appointment?: Appointment) => string;
+  getEventColor: (status: string, isGoogleCalendarEvent?: boolean) => { bg: string; text: string; border: string; dot: string };
+  onAppointmentClick: (appointment: Appointment) => void;
+}
+
+const START_HOUR = 7;
+const END_HOUR = 22;
+const PIXELS_PER_HOUR = 120;
+const PIXELS_PER_MINUTE = PIXELS_PER_HOUR / 60;
+
+// Day view with one column per room/equipment of the clinic
+export function ResourceCalendar({ date, appointments, getPatientName, getEventColor, onAppointmentClick }: ResourceCalendarProps) {
+  const dayStart = startOfDay(date);
+  const dayEnd = endOfDay(date);
+
+  const { data: resources = [], isLoading: resourcesLoading } = useQuery<ClinicResource[]>({
+    queryKey: ['/api/clinic/1/resources'],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/resources');
+      if (!response.ok) throw new Error('Failed to fetch resources');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const { data: bookings = [] } = useQuery<ResourceBooking[]>({
+    queryKey: ['/api/clinic/1/resource-bookings', format(date, 'yyyy-MM-dd')],
+    queryFn: async () => {
+      const params = new URLSearchParams({ start: dayStart.toISOString(), end: dayEnd.toISOString() });
+      const response = await fetch(`/api/clinic/1/resource-bookings?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch resource bookings');
+      return response.json();
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  });
+
+  // Appointments of the day grouped by the resource they reserve
+  const appointmentsByResource = useMemo(() => {
+    const appointmentsById = new Map(appointments.map(appointment => [appointment.id, appointment]));
+    const map = new Map<number, Appointment[]>();
+    bookings.forEach(booking => {
+      const appointment = appointmentsById.get(booking.appointment_id);
+      if (!appointment?.scheduled_date) return;
+      if (!map.has(booking.resource_id)) map.set(booking.resource_id, []);
+      map.get(booking.resource_id)!.push(appointment);
+    });
+    return map;
+  }, [appointments, bookings]);
+
+  const hours = Array.from({ length: END_HOUR - START_HOUR }, (_, i) => i + START_HOUR);
+
+  const isClosedHour = (resource: ClinicResource, hour: number) => {
+    if (!resource.open_time || !resource.close_time) return false;
+    const hourStart = `${hour.toString().padStart(2, '0')}:00`;
+    const hourEnd = `${(hour + 1).toString().padStart(2, '0')}:00`;
+    return hourEnd <= resource.open_time || hourStart >= resource.close_time;
+  };
+
+  if (resourcesLoading) {
+    return <div className="text-center py-12 text-slate-500">Carregando recursos...</div>;
+  }
+
+  if (resources.length === 0) {
+    return (
+      <div className="text-center py-12 bg-slate-50 rounded-lg border">
+        <DoorOpen className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-slate-700 mb-2">Nenhum recurso cadastrado</h3>
+        <p className="text-slate-600">Cadastre salas e equipamentos para ver a agenda por recurso.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-200 rounded-lg overflow-x-auto">
+      <div className="flex min-w-max">
+        {/* Time column */}
+        <div className="w-24 bg-slate-50 flex-shrink-0">
+          <div className="p-2 text-center font-medium border-b h-16 flex items-center justify-center">Hora</div>
+          {hours.map((hour) => (
+            <div
+              key={hour}
+              className="p-2 text-sm text-slate-600 border-b flex items-start justify-center"
+              style={{ height: `${PIXELS_PER_HOUR}px` }}
+            >
+              <span className="font-medium">{hour.toString().padStart(2, '0')}h</span>
+            </div>
+          ))}
+        </div>
+
+        {/* One column per resource */}
+        {resources.map((resource) => {
+          const resourceAppointments = appointmentsByResource.get(resource.id) || [];
+
+          return (
+            <div key={resource.id} className="w-56 flex-shrink-0 bg-white border-l border-slate-200">
+              <div className="p-2 text-center border-b bg-slate-50 h-16 flex flex-col items-center justify-center">
+                <div className="flex items-center gap-1.5 font-medium text-slate-800">
+                  {resource.type === 'room' ? <DoorOpen className="w-4 h-4" /> : <Stethoscope className="w-4 h-4" />}
+                  <span className="truncate">{resource.name}</span>
+                </div>
+                {resource.capacity > 1 && (
+                  <span className="text-xs text-slate-500">Capacidade: {resource.capacity}</span>
+                )}
+              </div>
+
+              <div className="relative">
+                {hours.map((hour) => (
+                  <div
+                    key={hour}
+                    className={`border-b border-slate-100 ${isClosedHour(resource, hour) ? 'bg-gray-100' : 'bg-white'}`}
+                    style={{ height: `${PIXELS_PER_HOUR}px` }}
+                  />
+                ))}
+
+                {resourceAppointments.map((appointment) => {
+                  const start = new Date(appointment.scheduled_date!);
+                  const duration = appointment.duration_minutes || 60;
+                  const minutesFromStart = (start.getHours() - START_HOUR) * 60 + start.getMinutes();
+                  const colors = getEventColor(appointment.status, !!appointment.google_calendar_event_id);
+
+                  return (
+                    <div
+                      key={appointment.id}
+                      className={`absolute left-1 right-1 text-xs p-2 ${colors.bg} ${colors.text} ${colors.border} border rounded cursor-pointer hover:opacity-90 overflow-hidden shadow-sm`}
+                      style={{
+                        top: `${minutesFromStart * PIXELS_PER_MINUTE}px`,
+                        height: `${Math.max(duration * PIXELS_PER_MINUTE, 20)}px`
+                      }}
+                      onClick={() => onAppointmentClick(appointment)}
+                    >
+                      <div className="font-medium truncate">
+                        {format(start, 'HH:mm')} {getPatientName(appointment.contact_id, appointment)}
+                      </div>
+                      {appointment.doctor_name && (
+                        <div className="opacity-90 truncate">Dr. {appointment.doctor_name}</div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
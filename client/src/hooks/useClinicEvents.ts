@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Keeps appointment and inbox queries in sync across staff browsers: whenever the
+ * server reports a change for the clinic, the cached lists are refetched.
+ */
+export function useClinicEvents(clinicId: number) {
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+      socket = new WebSocket(`${protocol}://${window.location.host}/ws/clinic?clinicId=${clinicId}`);
+
+      socket.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data);
+          if (event.type === 'appointments.changed') {
+            queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+          }
+          if (event.type === 'conversations.changed') {
+            queryClient.invalidateQueries({ queryKey: [`/api/clinic/${clinicId}/conversations`] });
+            queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+          }
+          if (event.type === 'calendar_conflicts.changed') {
+            queryClient.invalidateQueries({ queryKey: ['/api/calendar/conflicts'] });
+          }
+        } catch (error) {
+          console.error('Invalid clinic event:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [clinicId]);
+}
@@ -0,0 +1,97 @@
+import { Link, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, CheckCircle, Clock, Phone, Stethoscope } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { DEFAULT_CLINIC_TIMEZONE, toZonedTime } from "@shared/timezone";
+import { getBookingConfirmationKey } from "./agendar";
+
+interface BookingConfirmation {
+  appointment_id: number;
+  scheduled_date: string;
+  duration_minutes: number;
+  service_name: string;
+  professional_name: string;
+  clinic_name: string;
+  clinic_phone: string | null;
+  timeZone: string;
+  requires_confirmation: boolean;
+  manage_path: string | null;
+}
+
+// Confirmation page of the public booking portal (/agendar/:clinicId/confirmacao)
+export function AgendamentoConfirmado() {
+  const { clinicId } = useParams<{ clinicId: string }>();
+  const stored = sessionStorage.getItem(getBookingConfirmationKey(clinicId));
+  const booking: BookingConfirmation | null = stored ? JSON.parse(stored) : null;
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center space-y-4">
+            <p className="text-slate-600">Nenhum agendamento recente encontrado.</p>
+            <Link href={`/agendar/${clinicId}`}>
+              <Button>Agendar um horário</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const start = toZonedTime(booking.scheduled_date, booking.timeZone || DEFAULT_CLINIC_TIMEZONE);
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardContent className="p-6 space-y-6">
+          <div className="text-center space-y-2">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+            <h1 className="text-xl font-bold text-slate-900">Agendamento realizado!</h1>
+            <p className="text-slate-500">{booking.clinic_name}</p>
+          </div>
+
+          <div className="space-y-3 text-slate-700">
+            <p className="flex items-center gap-2">
+              <Stethoscope className="w-4 h-4 text-slate-400" />
+              {booking.service_name} com {booking.professional_name}
+            </p>
+            <p className="flex items-center gap-2">
+              <CalendarDays className="w-4 h-4 text-slate-400" />
+              {format(start, "EEEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+            </p>
+            <p className="flex items-center gap-2">
+              <Clock className="w-4 h-4 text-slate-400" />
+              {format(start, 'HH:mm')} ({booking.duration_minutes} min)
+            </p>
+          </div>
+
+          {booking.requires_confirmation ? (
+            <p className="text-sm bg-orange-50 text-orange-800 rounded-lg p-3">
+              A clínica entrará em contato para confirmar o seu horário.
+            </p>
+          ) : (
+            <p className="text-sm bg-green-50 text-green-800 rounded-lg p-3">
+              Seu horário está reservado. Caso não possa comparecer, remarque ou cancele com antecedência.
+            </p>
+          )}
+
+          {booking.manage_path && (
+            <Link href={booking.manage_path}>
+              <Button variant="outline" className="w-full">Remarcar ou cancelar</Button>
+            </Link>
+          )}
+
+          {booking.clinic_phone && (
+            <p className="text-sm text-slate-500 flex items-center justify-center gap-2">
+              <Phone className="w-4 h-4" />
+              {booking.clinic_phone}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
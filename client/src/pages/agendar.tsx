@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { queryClient } from "@/lib/queryClient";
+import { AlertTriangle, CalendarDays, Clock, Stethoscope } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { DEFAULT_CLINIC_TIMEZONE, addDaysToDateKey, getZonedDateKey, getZonedTime } from "@shared/timezone";
+
+// Schema for the patient details
+const patientSchema = z.object({
+  name: z.string().trim().min(3, "Informe seu nome completo"),
+  phone: z.string().trim().refine(phone => phone.replace(/\D/g, '').length >= 10, "Informe um telefone com DDD"),
+  email: z.string().trim().email("E-mail inválido").optional().or(z.literal('')),
+  website: z.string().optional(), // honeypot, hidden from people
+});
+
+type PatientForm = z.infer<typeof patientSchema>;
+
+interface BookingCatalog {
+  clinic: { id: number; name: string; phone: string | null; address_city: string | null; address_state: string | null };
+  timeZone: string;
+  windowDays: number;
+  minNoticeHours: number;
+  services: { key: string; name: string; duration_minutes: number; price_cents: number | null; professional_ids: number[] }[];
+  professionals: { id: number; name: string }[];
+}
+
+interface BookingSlot {
+  startTime: string;
+  endTime: string;
+  professionalId: number;
+  professionalName: string;
+}
+
+// Booking summary the confirmation page reads (see agendamento-confirmado.tsx)
+export const getBookingConfirmationKey = (clinicId: string) => `agendamento-online:${clinicId}`;
+
+const formatPrice = (cents: number) => `R$ ${(cents / 100).toFixed(2).replace('.', ',')}`;
+
+const formatDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return format(new Date(year, month - 1, day), "EEEE, dd 'de' MMMM", { locale: ptBR });
+};
+
+// Public booking portal of a clinic (/agendar/:clinicId), used without login
+export function AgendarOnline() {
+  const { clinicId } = useParams<{ clinicId: string }>();
+  const [, navigate] = useLocation();
+  const [serviceKey, setServiceKey] = useState("");
+  const [professionalId, setProfessionalId] = useState("any");
+  const [dateKey, setDateKey] = useState("");
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+
+  const form = useForm<PatientForm>({
+    resolver: zodResolver(patientSchema),
+    defaultValues: { name: "", phone: "", email: "", website: "" },
+  });
+
+  const { data: catalog, isLoading, error: catalogError } = useQuery<BookingCatalog>({
+    queryKey: ['/api/public/booking', clinicId],
+    queryFn: async () => {
+      const response = await fetch(`/api/public/booking/${clinicId}`);
+      if (!response.ok) throw new Error('Agendamento online indisponível');
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const timeZone = catalog?.timeZone || DEFAULT_CLINIC_TIMEZONE;
+  const today = getZonedDateKey(new Date(), timeZone);
+  const lastBookableDay = addDaysToDateKey(today, catalog?.windowDays ?? 30);
+  const service = catalog?.services.find(candidate => candidate.key === serviceKey);
+  const serviceProfessionals = catalog?.professionals.filter(professional => service?.professional_ids.includes(professional.id)) || [];
+
+  const { data: slots = [], isFetching: slotsLoading } = useQuery<BookingSlot[]>({
+    queryKey: ['/api/public/booking', clinicId, 'slots', serviceKey, professionalId, dateKey],
+    queryFn: async () => {
+      const response = await fetch(`/api/public/booking/${clinicId}/slots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: dateKey,
+          appointmentType: serviceKey,
+          professionalId: professionalId === 'any' ? undefined : parseInt(professionalId),
+        }),
+      });
+      if (!response.ok) throw new Error('Não foi possível carregar os horários');
+      return (await response.json()).slots;
+    },
+    enabled: !!catalog && !!serviceKey && !!dateKey,
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: async (patient: PatientForm) => {
+      const response = await fetch(`/api/public/booking/${clinicId}/appointments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...patient,
+          appointmentType: serviceKey,
+          professionalId: selectedSlot!.professionalId,
+          startTime: selectedSlot!.startTime,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Não foi possível concluir o agendamento.');
+      return data;
+    },
+    onSuccess: (booking) => {
+      sessionStorage.setItem(getBookingConfirmationKey(clinicId), JSON.stringify(booking));
+      navigate(`/agendar/${clinicId}/confirmacao`);
+    },
+    onError: () => {
+      // The slot may have just been taken; show the current ones
+      queryClient.invalidateQueries({ queryKey: ['/api/public/booking', clinicId, 'slots'] });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="min-h-screen flex items-center justify-center text-slate-500">Carregando...</div>;
+  }
+
+  if (catalogError || !catalog) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center space-y-2">
+            <AlertTriangle className="w-8 h-8 text-yellow-500 mx-auto" />
+            <p className="font-medium">Agendamento online indisponível</p>
+            <p className="text-sm text-slate-500">Entre em contato com a clínica para marcar seu horário.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const resetFrom = (step: 'service' | 'professional' | 'date') => {
+    if (step === 'service') setProfessionalId("any");
+    setSelectedSlot(null);
+    bookMutation.reset();
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-slate-900">{catalog.clinic.name}</h1>
+          {catalog.clinic.address_city && (
+            <p className="text-slate-500">{catalog.clinic.address_city}{catalog.clinic.address_state && ` - ${catalog.clinic.address_state}`}</p>
+          )}
+        </div>
+
+        {/* Service and professional */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Stethoscope className="w-5 h-5" />
+              Atendimento
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm text-slate-700">Serviço</label>
+              <Select value={serviceKey} onValueChange={(value) => { setServiceKey(value); resetFrom('service'); }}>
+                <SelectTrigger className="h-11">
+                  <SelectValue placeholder="Escolha o serviço" />
+                </SelectTrigger>
+                <SelectContent>
+                  {catalog.services.map(option => (
+                    <SelectItem key={option.key} value={option.key}>
+                      {option.name} · {option.duration_minutes} min{option.price_cents != null && ` · ${formatPrice(option.price_cents)}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {service && (
+              <div className="space-y-2">
+                <label className="text-sm text-slate-700">Profissional</label>
+                <Select value={professionalId} onValueChange={(value) => { setProfessionalId(value); resetFrom('professional'); }}>
+                  <SelectTrigger className="h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Qualquer profissional</SelectItem>
+                    {serviceProfessionals.map(professional => (
+                      <SelectItem key={professional.id} value={professional.id.toString()}>{professional.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Day and time */}
+        {service && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <CalendarDays className="w-5 h-5" />
+                Data e horário
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                type="date"
+                className="h-11"
+                min={today}
+                max={lastBookableDay}
+                value={dateKey}
+                onChange={(event) => { setDateKey(event.target.value); resetFrom('date'); }}
+              />
+              <p className="text-xs text-slate-500">
+                Agendamentos com pelo menos {catalog.minNoticeHours}h de antecedência, até {catalog.windowDays} dias à frente.
+              </p>
+
+              {dateKey && (
+                slotsLoading ? (
+                  <p className="text-sm text-slate-500">Buscando horários...</p>
+                ) : slots.length === 0 ? (
+                  <p className="text-sm text-slate-500">Nenhum horário livre em {formatDateKey(dateKey)}. Tente outro dia.</p>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {slots.map(slot => {
+                      const selected = selectedSlot?.startTime === slot.startTime && selectedSlot.professionalId === slot.professionalId;
+                      return (
+                        <Button
+                          key={`${slot.professionalId}-${slot.startTime}`}
+                          type="button"
+                          variant={selected ? "default" : "outline"}
+                          className="h-auto py-2 flex flex-col"
+                          onClick={() => setSelectedSlot(slot)}
+                        >
+                          <span className="font-medium">{getZonedTime(slot.startTime, timeZone)}</span>
+                          {professionalId === 'any' && <span className="text-[10px] opacity-80 truncate max-w-full">{slot.professionalName}</span>}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                )
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Patient details */}
+        {selectedSlot && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Clock className="w-5 h-5" />
+                Seus dados
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-slate-600 mb-4">
+                {service?.name} com {selectedSlot.professionalName}, {formatDateKey(dateKey)} às {getZonedTime(selectedSlot.startTime, timeZone)}
+              </p>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((patient) => bookMutation.mutate(patient))} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome completo</FormLabel>
+                        <FormControl>
+                          <Input className="h-11" autoComplete="name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Telefone / WhatsApp</FormLabel>
+                        <FormControl>
+                          <Input className="h-11" type="tel" placeholder="(11) 99999-9999" autoComplete="tel" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>E-mail (opcional)</FormLabel>
+                        <FormControl>
+                          <Input className="h-11" type="email" autoComplete="email" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {/* Honeypot: off-screen for people, bots fill it and get rejected */}
+                  <input
+                    type="text"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    aria-hidden="true"
+                    className="absolute -left-[10000px] h-0 w-0 opacity-0"
+                    {...form.register("website")}
+                  />
+
+                  {bookMutation.error && (
+                    <p className="text-sm text-red-600 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      {(bookMutation.error as Error).message}
+                    </p>
+                  )}
+
+                  <Button type="submit" className="w-full h-11" disabled={bookMutation.isPending}>
+                    {bookMutation.isPending ? 'Agendando...' : 'Confirmar agendamento'}
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
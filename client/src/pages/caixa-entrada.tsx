@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useClinicEvents } from "@/hooks/useClinicEvents";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bot, CheckCircle, Inbox, MessageCircle, RotateCcw, Send, UserCheck } from "lucide-react";
+import { format, isToday } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { ConversationSummary, Message } from "@shared/schema";
+
+type InboxFilter = 'todas' | 'fila' | 'minhas' | 'fechadas';
+
+const filterLabels: Record<InboxFilter, string> = {
+  todas: 'Abertas',
+  fila: 'Na fila',
+  minhas: 'Minhas',
+  fechadas: 'Fechadas',
+};
+
+// What the automation did, shown on messages it sent so staff can audit it
+const aiActionLabels: Record<string, string> = {
+  enviou_lembrete: 'Lembrete automático',
+  confirmou_consulta: 'Confirmou a consulta',
+  encaminhou_recepcao: 'Encaminhou para a recepção',
+  agendou_consulta: 'Agendou consulta',
+  enviou_followup: 'Enviou follow-up',
+};
+
+const intentLabels: Record<string, string> = {
+  confirm: 'Confirmação',
+  cancel: 'Pedido de cancelamento',
+  reschedule: 'Pedido de remarcação',
+  opt_out: 'Saiu das campanhas',
+  unknown: 'Não reconhecida',
+};
+
+const statusLabels: Record<string, string> = {
+  aberta: 'Aberta',
+  aguardando_equipe: 'Na fila',
+  fechada: 'Fechada',
+};
+
+interface MessagesPage {
+  messages: Message[];
+  has_more: boolean;
+}
+
+const formatMessageTime = (value: Date | string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isToday(date) ? format(date, 'HH:mm') : format(date, "dd/MM HH:mm", { locale: ptBR });
+};
+
+// Patient conversation inbox (/caixa-entrada): queue, replies, assignment and closing
+export function CaixaEntrada() {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<InboxFilter>('todas');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [reply, setReply] = useState("");
+
+  // New patient messages arrive without reloading
+  useClinicEvents(1);
+
+  const { data: currentUser } = useQuery<{ id: number }>({
+    queryKey: ['/api/user'],
+    queryFn: async () => {
+      const response = await fetch('/api/user');
+      if (!response.ok) throw new Error('Failed to fetch user');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: clinicUsers = [] } = useQuery({
+    queryKey: ['/api/clinic/1/users/management'],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/users/management');
+      if (!response.ok) throw new Error('Failed to fetch clinic users');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const { data: conversations = [], isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: ['/api/clinic/1/conversations', filter, currentUser?.id],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filter === 'fila') params.set('status', 'aguardando_equipe');
+      if (filter === 'fechadas') params.set('status', 'fechada');
+      if (filter === 'minhas' && currentUser) params.set('assigned_user_id', currentUser.id.toString());
+      const response = await fetch(`/api/clinic/1/conversations?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch conversations');
+      const rows: ConversationSummary[] = await response.json();
+      // "Abertas" and "Minhas" hide closed conversations
+      return filter === 'todas' || filter === 'minhas' ? rows.filter(row => row.status !== 'fechada') : rows;
+    },
+  });
+
+  const selected = conversations.find(conversation => conversation.id === selectedId);
+
+  const {
+    data: messagePages,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/conversations', selectedId, 'messages'],
+    queryFn: async ({ pageParam }): Promise<MessagesPage> => {
+      const params = pageParam ? `?before=${pageParam}` : '';
+      const response = await fetch(`/api/conversations/${selectedId}/messages${params}`);
+      if (!response.ok) throw new Error('Failed to fetch messages');
+      return response.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.has_more ? lastPage.messages[lastPage.messages.length - 1]?.id : undefined,
+    enabled: selectedId !== null,
+  });
+
+  // Pages come newest first; the thread reads oldest to newest
+  const thread = (messagePages?.pages || []).flatMap(page => page.messages).slice().reverse();
+
+  const invalidateInbox = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/clinic/1/conversations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/conversations', selectedId, 'messages'] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (conversationId: number) => {
+      await apiRequest("POST", `/api/conversations/${conversationId}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clinic/1/conversations'] });
+    },
+  });
+
+  // Opening a conversation with unread messages marks it as read
+  useEffect(() => {
+    if (selected && selected.unread_count > 0 && !markReadMutation.isPending) {
+      markReadMutation.mutate(selected.id);
+    }
+  }, [selected?.id, selected?.unread_count]);
+
+  const replyMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest("POST", `/api/conversations/${selectedId}/messages`, { content });
+      return res.json();
+    },
+    onSuccess: () => {
+      setReply("");
+      invalidateInbox();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao enviar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { status?: string; assigned_user_id?: number | null }) => {
+      const res = await apiRequest("PATCH", `/api/conversations/${selectedId}`, updates);
+      return res.json();
+    },
+    onSuccess: invalidateInbox,
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const getUserName = (userId: number | null) =>
+    userId ? clinicUsers.find((user: any) => user.id === userId)?.name || 'Equipe' : 'Equipe';
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <Inbox className="w-6 h-6" />
+          Caixa de entrada
+        </h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 h-[calc(100vh-10rem)]">
+        {/* Conversation list */}
+        <Card className="flex flex-col overflow-hidden">
+          <div className="flex gap-1 p-2 border-b border-slate-200">
+            {(Object.keys(filterLabels) as InboxFilter[]).map(key => (
+              <Button
+                key={key}
+                size="sm"
+                variant={filter === key ? "default" : "ghost"}
+                onClick={() => { setFilter(key); setSelectedId(null); }}
+              >
+                {filterLabels[key]}
+              </Button>
+            ))}
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            {isLoading ? (
+              <p className="p-4 text-sm text-slate-500">Carregando...</p>
+            ) : conversations.length === 0 ? (
+              <p className="p-4 text-sm text-slate-500">Nenhuma conversa.</p>
+            ) : conversations.map(conversation => (
+              <button
+                key={conversation.id}
+                type="button"
+                onClick={() => setSelectedId(conversation.id)}
+                className={`w-full text-left p-3 border-b border-slate-100 hover:bg-slate-50 ${selectedId === conversation.id ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`truncate ${conversation.unread_count > 0 ? 'font-semibold text-slate-900' : 'text-slate-700'}`}>
+                    {conversation.contact_name || conversation.contact_phone || 'Paciente'}
+                  </span>
+                  <span className="text-xs text-slate-400 shrink-0">
+                    {formatMessageTime(conversation.last_message?.timestamp ?? conversation.updated_at)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2 mt-1">
+                  <span className="text-sm text-slate-500 truncate">
+                    {conversation.last_message?.ai_action && <Bot className="w-3 h-3 inline mr-1 text-purple-500" />}
+                    {conversation.last_message?.content || 'Sem mensagens'}
+                  </span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    {conversation.status === 'aguardando_equipe' && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-orange-100 text-orange-700">Na fila</span>
+                    )}
+                    {conversation.unread_count > 0 && (
+                      <span className="text-[10px] min-w-[1.25rem] text-center px-1.5 py-0.5 rounded-full bg-blue-600 text-white">
+                        {conversation.unread_count}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        {/* Thread */}
+        <Card className="lg:col-span-2 flex flex-col overflow-hidden">
+          {!selected ? (
+            <CardContent className="flex-1 flex items-center justify-center text-slate-400">
+              <MessageCircle className="w-6 h-6 mr-2" />
+              Selecione uma conversa
+            </CardContent>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-slate-200">
+                <div>
+                  <p className="font-semibold text-slate-900">{selected.contact_name || 'Paciente'}</p>
+                  <p className="text-xs text-slate-500">{selected.contact_phone} · {statusLabels[selected.status] || selected.status}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={selected.assigned_user_id?.toString() || "none"}
+                    onValueChange={(value) => updateMutation.mutate({ assigned_user_id: value === "none" ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger className="h-9 w-44">
+                      <UserCheck className="w-4 h-4 mr-1" />
+                      <SelectValue placeholder="Responsável" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sem responsável</SelectItem>
+                      {clinicUsers.map((user: any) => (
+                        <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selected.status === 'fechada' ? (
+                    <Button size="sm" variant="outline" onClick={() => updateMutation.mutate({ status: 'aberta' })}>
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Reabrir
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => updateMutation.mutate({ status: 'fechada' })}>
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Fechar
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-slate-50">
+                {hasNextPage && (
+                  <div className="text-center">
+                    <Button size="sm" variant="ghost" disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+                      {isFetchingNextPage ? 'Carregando...' : 'Carregar mensagens anteriores'}
+                    </Button>
+                  </div>
+                )}
+                {thread.map(message => {
+                  const fromPatient = message.sender_type === 'patient';
+                  const automated = !!message.ai_action;
+                  return (
+                    <div key={message.id} className={`flex ${fromPatient ? 'justify-start' : 'justify-end'}`}>
+                      <div
+                        className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                          fromPatient
+                            ? 'bg-white border border-slate-200 text-slate-800'
+                            : automated
+                              ? 'bg-purple-50 border border-dashed border-purple-300 text-purple-900'
+                              : 'bg-blue-600 text-white'
+                        }`}
+                      >
+                        {automated && (
+                          <p className="flex items-center gap-1 text-[11px] font-medium text-purple-700 mb-1">
+                            <Bot className="w-3 h-3" />
+                            {aiActionLabels[message.ai_action!] || message.ai_action}
+                          </p>
+                        )}
+                        <p className="whitespace-pre-wrap">{message.content}</p>
+                        <p className={`text-[10px] mt-1 ${fromPatient || automated ? 'text-slate-400' : 'text-blue-100'}`}>
+                          {message.sender_type === 'staff' && `${getUserName(message.sender_user_id)} · `}
+                          {fromPatient && message.intent && message.intent !== 'unknown' && `${intentLabels[message.intent]} · `}
+                          {formatMessageTime(message.timestamp)}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <form
+                className="flex gap-2 p-3 border-t border-slate-200"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  if (reply.trim()) replyMutation.mutate(reply.trim());
+                }}
+              >
+                <Input
+                  value={reply}
+                  onChange={(event) => setReply(event.target.value)}
+                  placeholder="Escreva uma resposta..."
+                  maxLength={4000}
+                />
+                <Button type="submit" disabled={!reply.trim() || replyMutation.isPending}>
+                  <Send className="w-4 h-4" />
+                </Button>
+              </form>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
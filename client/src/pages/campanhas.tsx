@@ -0,0 +1,395 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Megaphone, Plus, Send, Users, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { CampaignSummary } from "@shared/schema";
+
+// Schema for the campaign form
+const campaignFormSchema = z.object({
+  name: z.string().min(1, "Nome é obrigatório"),
+  template_id: z.string().min(1, "Escolha um template"),
+  source: z.string(),
+  return_due: z.string(),
+  scheduled_at: z.string().optional(),
+});
+
+type CampaignForm = z.infer<typeof campaignFormSchema>;
+
+interface AiTemplate {
+  id: number;
+  template_name: string;
+  content: string;
+}
+
+interface AudiencePreview {
+  count: number;
+  sample: { id: number; name: string }[];
+}
+
+const statusLabels: Record<string, { label: string; className: string }> = {
+  rascunho: { label: 'Rascunho', className: 'bg-slate-100 text-slate-700 border-slate-200' },
+  agendada: { label: 'Agendada', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  enviando: { label: 'Enviando', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  concluida: { label: 'Concluída', className: 'bg-green-100 text-green-800 border-green-200' },
+  cancelada: { label: 'Cancelada', className: 'bg-red-100 text-red-700 border-red-200' },
+};
+
+const sourceOptions = [
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'site', label: 'Site' },
+  { value: 'indicacao', label: 'Indicação' },
+  { value: 'outros', label: 'Outros' },
+];
+
+const returnPeriodOptions = [
+  { value: '15_dias', label: 'Retorno de 15 dias vencido' },
+  { value: '1_mes', label: 'Retorno de 1 mês vencido' },
+  { value: '6_meses', label: 'Retorno de 6 meses vencido' },
+  { value: '12_meses', label: 'Retorno de 12 meses vencido' },
+];
+
+// Audience filters as the API expects them ("todas"/"nenhum" mean no filter)
+const toAudience = (data: Pick<CampaignForm, 'source' | 'return_due'>) => ({
+  ...(data.source !== 'todas' ? { sources: [data.source] } : {}),
+  ...(data.return_due !== 'nenhum' ? { return_due: data.return_due } : {}),
+});
+
+export function Campanhas() {
+  const { toast } = useToast();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const form = useForm<CampaignForm>({
+    resolver: zodResolver(campaignFormSchema),
+    defaultValues: {
+      name: "",
+      template_id: "",
+      source: "todas",
+      return_due: "nenhum",
+      scheduled_at: "",
+    },
+  });
+
+  const { data: campaigns = [], isLoading: campaignsLoading } = useQuery<CampaignSummary[]>({
+    queryKey: ["/api/clinic/1/campaigns"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/campaigns');
+      if (!response.ok) throw new Error('Failed to fetch campaigns');
+      return response.json();
+    },
+    // Follow delivery progress while a campaign is sending
+    refetchInterval: (query) =>
+      query.state.data?.some(campaign => campaign.status === 'enviando') ? 30 * 1000 : false,
+  });
+
+  const { data: templates = [] } = useQuery<AiTemplate[]>({
+    queryKey: ["/api/clinics/1/ai-templates"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinics/1/ai-templates');
+      if (!response.ok) throw new Error('Failed to fetch templates');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const source = form.watch("source");
+  const returnDue = form.watch("return_due");
+  const audience = toAudience({ source, return_due: returnDue });
+
+  const { data: audiencePreview } = useQuery<AudiencePreview>({
+    queryKey: ["/api/clinic/1/campaigns/audience-preview", audience],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/clinic/1/campaigns/audience-preview", audience);
+      return res.json();
+    },
+    enabled: isCreateDialogOpen,
+  });
+
+  const invalidateCampaigns = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/clinic/1/campaigns"] });
+  };
+
+  const createCampaignMutation = useMutation({
+    mutationFn: async (data: CampaignForm) => {
+      const res = await apiRequest("POST", "/api/clinic/1/campaigns", {
+        name: data.name,
+        template_id: parseInt(data.template_id),
+        audience: toAudience(data),
+        scheduled_at: data.scheduled_at ? new Date(data.scheduled_at).toISOString() : null,
+      });
+      return res.json();
+    },
+    onSuccess: (campaign: CampaignSummary) => {
+      invalidateCampaigns();
+      toast({
+        title: "Campanha criada",
+        description: campaign.status === 'agendada'
+          ? "O envio começa no horário agendado."
+          : "A campanha foi salva como rascunho. Envie quando estiver pronta.",
+      });
+      setIsCreateDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao criar campanha", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const sendNowMutation = useMutation({
+    mutationFn: async (campaignId: number) => {
+      const res = await apiRequest("POST", `/api/campaigns/${campaignId}/schedule`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({ title: "Envio iniciado", description: "As mensagens saem aos poucos nos próximos minutos." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao enviar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (campaignId: number) => {
+      const res = await apiRequest("POST", `/api/campaigns/${campaignId}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({ title: "Campanha cancelada", description: "Quem ainda não recebeu não vai receber a mensagem." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cancelar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const describeProgress = (campaign: CampaignSummary) => {
+    const counts = campaign.recipient_counts;
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    if (total === 0) return null;
+    return `${counts.sent} de ${total} enviadas` +
+      (counts.failed ? ` · ${counts.failed} com falha` : '') +
+      (counts.skipped ? ` · ${counts.skipped} não enviadas` : '');
+  };
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Campanhas</h1>
+          <p className="text-slate-600">Mensagens em massa para retornos vencidos e grupos de pacientes</p>
+        </div>
+        <Button onClick={() => setIsCreateDialogOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="w-4 h-4 mr-2" />
+          Nova campanha
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Campanhas ({campaigns.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {campaignsLoading ? (
+            <p className="text-slate-500 text-sm">Carregando campanhas...</p>
+          ) : campaigns.length === 0 ? (
+            <div className="text-center py-8">
+              <Megaphone className="w-10 h-10 text-slate-400 mx-auto mb-3" />
+              <p className="text-slate-500 text-sm">Nenhuma campanha ainda. Crie uma para chamar pacientes com retorno vencido.</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {campaigns.map((campaign) => {
+                const status = statusLabels[campaign.status] || statusLabels.rascunho;
+                const progress = describeProgress(campaign);
+                return (
+                  <div key={campaign.id} className="flex items-center justify-between py-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-800">{campaign.name}</span>
+                        <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+                      </div>
+                      <div className="text-sm text-slate-600">
+                        {campaign.status === 'agendada' && campaign.scheduled_at
+                          ? `Envio em ${format(new Date(campaign.scheduled_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`
+                          : campaign.completed_at
+                            ? `Encerrada em ${format(new Date(campaign.completed_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`
+                            : `Criada em ${format(new Date(campaign.created_at!), "dd/MM/yyyy", { locale: ptBR })}`}
+                        {progress && ` · ${progress}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {(campaign.status === 'rascunho' || campaign.status === 'agendada') && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => sendNowMutation.mutate(campaign.id)}
+                          disabled={sendNowMutation.isPending}
+                        >
+                          <Send className="w-4 h-4 mr-1" />
+                          Enviar agora
+                        </Button>
+                      )}
+                      {['rascunho', 'agendada', 'enviando'].includes(campaign.status) && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => cancelMutation.mutate(campaign.id)}
+                          disabled={cancelMutation.isPending}
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New campaign dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Nova campanha</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createCampaignMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex.: Retornos semestrais de março" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="template_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mensagem *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Escolha um template" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id.toString()}>{template.template_name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="source"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Origem do contato</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="todas">Todas</SelectItem>
+                          {sourceOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="return_due"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Retorno</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="nenhum">Qualquer paciente</SelectItem>
+                          {returnPeriodOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex items-center gap-2 rounded-md bg-slate-50 p-3 text-sm text-slate-700">
+                <Users className="w-4 h-4 text-slate-500" />
+                {audiencePreview
+                  ? `${audiencePreview.count} ${audiencePreview.count === 1 ? 'paciente recebe' : 'pacientes recebem'} esta campanha hoje`
+                  : 'Calculando público...'}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="scheduled_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Agendar envio</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <p className="text-xs text-slate-500">
+                Sem data, a campanha fica como rascunho. Pacientes que responderam SAIR não recebem campanhas.
+              </p>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={createCampaignMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+                  {createCampaignMutation.isPending ? "Salvando..." : "Criar campanha"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
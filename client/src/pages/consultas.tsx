@@ -16,9 +16,10 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Calendar, List, Clock, User, Stethoscope, CalendarDays, ChevronLeft, ChevronRight, Phone, MessageCircle, MapPin, Plus, Check, ChevronsUpDown, Edit, Trash2, X, Eye, MoreVertical, AlertTriangle, Search, Mail, CheckCircle, FileText } from "lucide-react";
+import { Calendar, List, Clock, User, Stethoscope, CalendarDays, ChevronLeft, ChevronRight, Phone, MessageCircle, MapPin, Plus, Check, ChevronsUpDown, Edit, Trash2, X, Eye, MoreVertical, AlertTriangle, Search, Mail, CheckCircle, FileText, Repeat, CalendarOff, Globe } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
+import { useClinicEvents } from "@/hooks/useClinicEvents";
 import { useAvailabilityCheck, formatConflictMessage, createTimeSlots } from "@/hooks/useAvailability";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { mockAppointments, mockContacts } from "@/lib/mock-data";
@@ -27,8 +28,16 @@ import { ptBR } from "date-fns/locale";
 import { EventTooltip } from "@/components/EventTooltip";
 import { AppointmentEditor } from "@/components/AppointmentEditor";
 import { FindTimeSlots } from "@/components/FindTimeSlots";
+import { ResourceCalendar } from "@/components/ResourceCalendar";
 import { AppointmentTagSelector } from "@/components/AppointmentTagSelector";
+import { ReliabilityBadge } from "@/components/ReliabilityBadge";
+import { GroupSessionParticipants } from "@/components/GroupSessionParticipants";
+import { CalendarConflicts } from "@/components/CalendarConflicts";
 import type { Appointment } from "../../../server/domains/appointments/appointments.schema";
+import type { AppointmentStatusHistory } from "@shared/schema";
+import { DEFAULT_CLINIC_TIMEZONE, toZonedTime, zonedTimeToUtc } from "@shared/timezone";
+import { findOverlappingClosure, getClosuresOn, isClosedAt, isClosedDay, isFullDayClosure, type ClosureRule } from "@shared/clinic-closures";
+import { getNextAppointmentStatuses, normalizeAppointmentStatus, type AppointmentStatus } from "@shared/appointment-status";
 import type { Contact } from "../../../server/domains/contacts/contacts.schema";
 
 // Schema for appointment creation form
@@ -40,6 +49,8 @@ const appointmentSchema = z.object({
   duration: z.string().min(1, "Duração é obrigatória"),
   type: z.string().min(1, "Tipo é obrigatório"),
   notes: z.string().optional(),
+  resource_ids: z.array(z.number()).optional(),
+  capacity: z.string().optional(), // vazio = consulta individual
 });
 
 type AppointmentForm = z.infer<typeof appointmentSchema>;
@@ -79,99 +90,87 @@ const patientSchema = z.object({
 type PatientForm = z.infer<typeof patientSchema>;
 
 // Status configuration with proper colors and ordering
-const statusConfig = {
-  pendente: { 
-    label: "Pendente", 
-    color: "bg-yellow-100 text-yellow-800 border-yellow-200",
-    badgeColor: "bg-yellow-500",
-    order: 0
-  },
+const statusConfig: Record<AppointmentStatus, { label: string; color: string; badgeColor: string; order: number }> = {
   agendada: { 
     label: "Agendado", 
     color: "bg-blue-100 text-blue-800 border-blue-200",
     badgeColor: "bg-blue-500",
-    order: 1
+    order: 0
   },
   confirmada: { 
     label: "Confirmado", 
     color: "bg-green-100 text-green-800 border-green-200",
     badgeColor: "bg-green-500",
+    order: 1
+  },
+  paciente_aguardando: { 
+    label: "Aguardando", 
+    color: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    badgeColor: "bg-yellow-500",
     order: 2
   },
-  realizada: { 
+  paciente_em_atendimento: { 
+    label: "Em atendimento", 
+    color: "bg-indigo-100 text-indigo-800 border-indigo-200",
+    badgeColor: "bg-indigo-500",
+    order: 3
+  },
+  finalizada: { 
     label: "Realizado", 
     color: "bg-purple-100 text-purple-800 border-purple-200",
     badgeColor: "bg-purple-500",
-    order: 3
+    order: 4
   },
   faltou: { 
     label: "Faltou", 
     color: "bg-orange-100 text-orange-800 border-orange-200",
     badgeColor: "bg-orange-500",
-    order: 4
+    order: 5
   },
-  cancelada: { 
-    label: "Cancelado", 
+  cancelada_paciente: { 
+    label: "Cancelado pelo paciente", 
     color: "bg-red-100 text-red-800 border-red-200",
     badgeColor: "bg-red-500",
-    order: 5
+    order: 6
+  },
+  cancelada_dentista: { 
+    label: "Cancelado pela clínica", 
+    color: "bg-red-100 text-red-800 border-red-200",
+    badgeColor: "bg-red-500",
+    order: 7
   }
-} as const;
-
-// Legacy status mapping - only for display purposes
-const legacyStatusMapping: Record<string, keyof typeof statusConfig> = {
-  scheduled: "agendada",
-  agendado: "agendada", // Portuguese variant
-  confirmed: "confirmada", 
-  completed: "realizada",
-  cancelled: "cancelada",
-  no_show: "faltou",
-  pending: "pendente"
 };
 
-// Main status list for dropdowns (no duplicates)
-const mainStatusList = [
-  'pendente',
-  'agendada', 
-  'confirmada',
-  'realizada',
-  'faltou',
-  'cancelada'
-] as const;
-
-// Helper function to get status config (including legacy mapping)
+// Helper function to get status config (legacy values are mapped to the current lifecycle)
 const getStatusConfig = (status: string) => {
-  const mappedStatus = legacyStatusMapping[status] || status;
-  return statusConfig[mappedStatus as keyof typeof statusConfig];
+  const mappedStatus = normalizeAppointmentStatus(status);
+  return mappedStatus ? statusConfig[mappedStatus] : undefined;
+};
+
+const getStatusLabel = (status: string) => getStatusConfig(status)?.label || status;
+
+// Recurrence labels for appointments that belong to a series
+const recurrenceLabels: Record<string, string> = {
+  weekly: "Semanal",
+  biweekly: "Quinzenal",
+  monthly: "Mensal",
 };
 
-// Support legacy status names for display
-const statusLabels: Record<string, { label: string; color: string }> = {
-  ...Object.fromEntries(
-    Object.entries(statusConfig).map(([key, value]) => [key, { label: value.label, color: value.color }])
-  ),
-  // Legacy status labels
-  scheduled: { label: "Agendado", color: "bg-blue-100 text-blue-800" },
-  agendado: { label: "Agendado", color: "bg-blue-100 text-blue-800" }, // Portuguese variant
-  confirmed: { label: "Confirmado", color: "bg-green-100 text-green-800" },
-  completed: { label: "Realizado", color: "bg-purple-100 text-purple-800" },
-  cancelled: { label: "Cancelado", color: "bg-red-100 text-red-800" },
-  no_show: { label: "Faltou", color: "bg-orange-100 text-orange-800" },
-  pending: { label: "Pendente", color: "bg-yellow-100 text-yellow-800" },
+// Describes the position of an appointment in its series, e.g. "Semanal · 3/10"
+const getSeriesLabel = (appointment: Appointment) => {
+  if (!appointment.recurrence_series_id) return null;
+  const rule = recurrenceLabels[appointment.recurrence_rule || ''] || 'Recorrente';
+  const position = (appointment.recurrence_index ?? 0) + 1;
+  return appointment.recurrence_count ? `${rule} · ${position}/${appointment.recurrence_count}` : `${rule} · ${position}ª sessão`;
 };
 
 export function Consultas() {
   const [isLoading, setIsLoading] = useState(true);
   const [viewMode, setViewMode] = useState<"list" | "calendar">("list");
-  const [calendarView, setCalendarView] = useState<"month" | "week" | "day">("week");
+  const [calendarView, setCalendarView] = useState<"month" | "week" | "day" | "resources">("week");
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedProfessionals, setSelectedProfessionals] = useState<number[]>([]);
-  
-  // Create a stable reference for "today" to avoid timezone issues
-  const today = useMemo(() => {
-    const now = new Date();
-    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  }, []);
+
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -232,6 +231,22 @@ export function Consultas() {
   const { toast } = useToast();
   const availabilityCheck = useAvailabilityCheck();
 
+  // Copies the patient's self-service link (reschedule/cancel) of an appointment
+  const copyManageLink = async (appointmentId: number) => {
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/manage-link`);
+      if (!response.ok) throw new Error('Failed to create manage link');
+      const { path } = await response.json();
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+      toast({ title: "Link copiado", description: "Envie ao paciente para remarcar ou cancelar." });
+    } catch {
+      toast({ title: "Erro", description: "Não foi possível copiar o link do paciente.", variant: "destructive" });
+    }
+  };
+
+  // Changes made from other browsers (e.g. check-ins at the reception board) refresh the agenda
+  useClinicEvents(1);
+
 
 
   // Form for creating appointments
@@ -245,6 +260,8 @@ export function Consultas() {
       duration: "30",
       type: "consulta",
       notes: "",
+      resource_ids: [],
+      capacity: "",
     },
   });
 
@@ -417,20 +434,23 @@ export function Consultas() {
         body: JSON.stringify({ status }),
         headers: { 'Content-Type': 'application/json' }
       });
-      if (!response.ok) throw new Error('Failed to update status');
+      if (response.status === 409) throw new Error('Essa mudança de status não é permitida para a consulta.');
+      if (!response.ok) throw new Error('Não foi possível atualizar o status da consulta.');
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { appointmentId }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments', appointmentId, 'status-history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
       toast({
         title: "Status atualizado",
         description: "O status da consulta foi atualizado com sucesso.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Erro",
-        description: "Não foi possível atualizar o status da consulta.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -450,18 +470,21 @@ export function Consultas() {
         doctor_name: patientName,
         specialty: data.type,
         appointment_type: data.type,
-        scheduled_date: new Date(`${data.scheduled_date}T${data.scheduled_time}`),
+        scheduled_date: zonedTimeToUtc(data.scheduled_date, data.scheduled_time, clinicTimezone),
         duration_minutes: parseInt(data.duration),
         status: "agendada",
         payment_status: "pendente",
-        payment_amount: 0,
-        session_notes: data.notes || null
+        payment_amount: getCatalogType(data.type)?.default_price_cents ?? 0,
+        session_notes: data.notes || null,
+        resource_ids: data.resource_ids || [],
+        capacity: data.capacity ? parseInt(data.capacity) : null
       };
       const res = await apiRequest("POST", "/api/appointments", appointmentData);
       return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments", { clinic_id: 1 }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clinic/1/resource-bookings"] });
       toast({
         title: "Consulta criada",
         description: "A consulta foi agendada com sucesso.",
@@ -493,6 +516,30 @@ export function Consultas() {
     refetchOnWindowFocus: false,
   });
 
+  // Fetch clinic rooms and equipment that appointments can reserve
+  const { data: clinicResources = [] } = useQuery({
+    queryKey: ['/api/clinic/1/resources'],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/resources');
+      if (!response.ok) throw new Error('Failed to fetch resources');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+
+  // Status changes of the appointment open in the details dialog
+  const { data: statusHistory = [] } = useQuery<AppointmentStatusHistory[]>({
+    queryKey: ['/api/appointments', selectedAppointment?.id, 'status-history'],
+    queryFn: async () => {
+      const response = await fetch(`/api/appointments/${selectedAppointment!.id}/status-history`);
+      if (!response.ok) throw new Error('Failed to fetch status history');
+      return response.json();
+    },
+    enabled: !!selectedAppointment && !selectedAppointment.google_calendar_event_id,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+
   // Fetch contacts with optimized caching
   const { data: contacts = [] } = useQuery({
     queryKey: ['/api/contacts', { clinic_id: 1 }],
@@ -584,10 +631,90 @@ export function Consultas() {
       work_end: data.work_end || "18:00", 
       lunch_start: data.lunch_start || "12:00",
       lunch_end: data.lunch_end || "13:00",
-      has_lunch_break: data.has_lunch_break
+      has_lunch_break: data.has_lunch_break,
+      timezone: data.timezone || DEFAULT_CLINIC_TIMEZONE
     })
   });
 
+  // The agenda always shows the clinic's wall clock, whatever the browser's timezone is
+  const clinicTimezone = clinicConfig?.timezone || DEFAULT_CLINIC_TIMEZONE;
+  const toClinicTime = React.useCallback((value: string | Date) => toZonedTime(value, clinicTimezone), [clinicTimezone]);
+
+  // Stable reference for the clinic's "today"
+  const today = useMemo(() => startOfDay(toZonedTime(new Date(), clinicTimezone)), [clinicTimezone]);
+
+  // Appointment type catalog: default duration, price, buffers and allowed professionals
+  const { data: appointmentTypes = [] } = useQuery<{
+    id: number;
+    key: string;
+    name: string;
+    default_duration_minutes: number;
+    buffer_before_minutes: number;
+    buffer_after_minutes: number;
+    default_price_cents: number | null;
+    color: string | null;
+    professional_ids: number[] | null;
+  }[]>({
+    queryKey: ["/api/clinic/1/appointment-types"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/appointment-types');
+      if (!response.ok) throw new Error('Failed to fetch appointment types');
+      return response.json();
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  });
+
+  const getCatalogType = (key?: string | null) =>
+    key ? appointmentTypes.find(type => type.key === key) : undefined;
+
+  // Holidays and closure days of the clinic (one-off, yearly and partial-day)
+  const { data: clinicClosures = [] } = useQuery<(ClosureRule & { id: number })[]>({
+    queryKey: ["/api/clinic/1/closures"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/closures');
+      if (!response.ok) throw new Error('Failed to fetch clinic closures');
+      return response.json();
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  });
+
+  // Closure an appointment falls on, flagging patients that need to be rescheduled
+  const getAppointmentClosure = (appointment: Appointment) => {
+    if (!appointment.scheduled_date || clinicClosures.length === 0) return undefined;
+    const start = toClinicTime(appointment.scheduled_date);
+    const end = new Date(start.getTime() + (appointment.duration_minutes || 60) * 60000);
+    const dateKey = format(start, 'yyyy-MM-dd');
+    return findOverlappingClosure(
+      clinicClosures,
+      dateKey,
+      format(start, 'HH:mm'),
+      format(end, 'yyyy-MM-dd') === dateKey ? format(end, 'HH:mm') : '24:00'
+    );
+  };
+
+  // Fetch the selected professional's working hours for the chosen date (weekly template + overrides)
+  const scheduleProfessionalId = form.watch("user_id");
+  const scheduleDate = form.watch("scheduled_date");
+  const { data: professionalSchedule } = useQuery({
+    queryKey: ["/api/clinic/1/professionals", scheduleProfessionalId, "working-hours", scheduleDate],
+    queryFn: async () => {
+      const response = await fetch(`/api/clinic/1/professionals/${scheduleProfessionalId}/working-hours?date=${scheduleDate}`);
+      if (!response.ok) throw new Error('Failed to fetch professional working hours');
+      return response.json() as Promise<{
+        date: string;
+        isWorkingDay: boolean;
+        blocks: { start: string; end: string }[];
+        source: 'clinic' | 'professional' | 'override' | 'closure';
+        reason?: string | null;
+      }>;
+    },
+    enabled: !!scheduleProfessionalId && !!scheduleDate,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+
   // Helper functions for working hours validation
   const getDayOfWeekKey = (date: Date): string => {
     const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
@@ -595,6 +722,7 @@ export function Consultas() {
   };
 
   const isWorkingDay = (date: Date, config: any): boolean => {
+    if (isClosedDay(clinicClosures, format(date, 'yyyy-MM-dd'))) return false;
     if (!config?.working_days) return true;
     const dayKey = getDayOfWeekKey(date);
     return config.working_days.includes(dayKey);
@@ -627,6 +755,49 @@ export function Consultas() {
     
     // Use enhanced analysis to get detailed warning information
     const dayOfWeek = format(selectedDate, 'EEEE', { locale: ptBR });
+
+    // Professional with own schedule: validate against their blocks instead of clinic hours
+    if (professionalSchedule && professionalSchedule.date === date && professionalSchedule.source !== 'clinic') {
+      const scheduleDetails = professionalSchedule.blocks.map(block => `${block.start}–${block.end}`).join(', ');
+
+      if (!professionalSchedule.isWorkingDay) {
+        setWorkingHoursWarning({
+          hasWarning: true,
+          message: `o profissional não atende neste dia`,
+          type: 'non_working_day',
+          details: professionalSchedule.reason || `Sem expediente em ${dayOfWeek.toLowerCase()}`
+        });
+        return;
+      }
+
+      if (!professionalSchedule.blocks.some(block => time >= block.start && time < block.end)) {
+        setWorkingHoursWarning({
+          hasWarning: true,
+          message: `é fora do expediente do profissional`,
+          type: 'outside_hours',
+          details: `Expediente: ${scheduleDetails}`
+        });
+        return;
+      }
+
+      setWorkingHoursWarning(null);
+      return;
+    }
+
+    const closure = getClosuresOn(clinicClosures, date).find(closure =>
+      isFullDayClosure(closure) || (time >= closure.start_time! && time < closure.end_time!)
+    );
+    if (closure) {
+      setWorkingHoursWarning({
+        hasWarning: true,
+        message: `a clínica estará fechada`,
+        type: 'non_working_day',
+        details: isFullDayClosure(closure)
+          ? closure.reason || 'Fechamento da clínica'
+          : `${closure.reason || 'Fechamento da clínica'}: ${closure.start_time} às ${closure.end_time}`
+      });
+      return;
+    }
     
     if (!isWorkingDay(selectedDate, clinicConfig)) {
       const workingDaysNames = clinicConfig.working_days?.map((day: string) => {
@@ -668,7 +839,7 @@ export function Consultas() {
 
     // Clear warnings for normal working hours
     setWorkingHoursWarning(null);
-  }, [clinicConfig]);
+  }, [clinicConfig, professionalSchedule, clinicClosures]);
 
   // Helper functions for calendar background colors
   const isUnavailableDay = (date: Date): boolean => {
@@ -682,6 +853,11 @@ export function Consultas() {
     return !isWorkingHour(timeString, clinicConfig) || isLunchTime(timeString, clinicConfig);
   };
 
+  // Professional a calendar click books for: only unambiguous when a single one is selected
+  const getBookingProfessionalId = (): number | null => {
+    return selectedProfessionals.length === 1 ? selectedProfessionals[0] : null;
+  };
+
   // Enhanced function: Allow booking in any slot, but analyze availability status
   const analyzeTimeSlot = (date: Date, hour: number, minute: number = 0) => {
     if (!clinicConfig) return {
@@ -694,11 +870,15 @@ export function Consultas() {
     const slotDateTime = new Date(date);
     slotDateTime.setHours(hour, minute, 0, 0);
     
-    // Check for appointment conflicts first
-    const dayAppointments = getAppointmentsForDate(date);
+    // Check for appointment conflicts first. Only the agenda of the professional being
+    // booked blocks the slot, so different professionals can be booked in parallel
+    const bookingProfessionalId = getBookingProfessionalId();
+    const dayAppointments = bookingProfessionalId ? getAppointmentsForDate(date) : [];
     const hasConflict = dayAppointments.some((apt: Appointment) => {
       if (!apt.scheduled_date) return false;
-      const aptDate = new Date(apt.scheduled_date);
+      const appointmentProfessionalId = apt.user_id || getProfessionalIdByName(apt.doctor_name);
+      if (appointmentProfessionalId !== bookingProfessionalId) return false;
+      const aptDate = toClinicTime(apt.scheduled_date);
       const aptEndDate = new Date(aptDate.getTime() + (getAppointmentDuration(apt) * 60000));
       
       const slotEnd = new Date(slotDateTime.getTime() + (15 * 60000));
@@ -716,9 +896,9 @@ export function Consultas() {
     }
     
     // All slots are clickable, but check for warnings
-    const isWorkingDay = !isUnavailableDay(date);
-    const isWorkingHour = !isUnavailableHour(hour);
     const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+    const isWorkingDay = !isUnavailableDay(date) && !isClosedAt(clinicClosures, format(date, 'yyyy-MM-dd'), timeString);
+    const isWorkingHour = !isUnavailableHour(hour);
     const isLunchHour = clinicConfig.has_lunch_break && isLunchTime(timeString, clinicConfig);
     
     // Determine warning type
@@ -760,6 +940,11 @@ export function Consultas() {
     form.setValue("scheduled_time", formattedTime);
     form.setValue("duration", "30"); // Default duration
     form.setValue("type", "consulta"); // Default type
+
+    const bookingProfessionalId = getBookingProfessionalId();
+    if (bookingProfessionalId) {
+      form.setValue("user_id", bookingProfessionalId.toString());
+    }
     
     setIsCreateDialogOpen(true);
   };
@@ -789,7 +974,7 @@ export function Consultas() {
     }
 
     setIsCheckingAvailability(true);
-    const startDateTime = new Date(`${date}T${time}`);
+    const startDateTime = zonedTimeToUtc(date, time, clinicTimezone);
     const durationMinutes = parseInt(duration);
     const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
 
@@ -797,7 +982,11 @@ export function Consultas() {
       const result = await availabilityCheck.mutateAsync({
         startDateTime: startDateTime.toISOString(),
         endDateTime: endDateTime.toISOString(),
-        professionalName: professionalName
+        professionalName: professionalName,
+        clinicId: 1,
+        professionalId: form.getValues("user_id") ? Number(form.getValues("user_id")) : undefined,
+        resourceIds: form.getValues("resource_ids") || [],
+        appointmentType: form.getValues("type") || undefined
       });
 
       if (result.conflict) {
@@ -819,7 +1008,7 @@ export function Consultas() {
     } finally {
       setIsCheckingAvailability(false);
     }
-  }, [availabilityCheck]);
+  }, [availabilityCheck, clinicTimezone]);
 
   // Find available time slots
   const findAvailableSlots = React.useCallback(async (date: string, duration: string, professionalName?: string) => {
@@ -831,14 +1020,18 @@ export function Consultas() {
 
     for (const slot of slots) {
       try {
-        const startDateTime = slot.datetime;
+        const startDateTime = zonedTimeToUtc(date, format(slot.datetime, 'HH:mm'), clinicTimezone);
         const durationMinutes = parseInt(duration);
         const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
 
         const result = await availabilityCheck.mutateAsync({
           startDateTime: startDateTime.toISOString(),
           endDateTime: endDateTime.toISOString(),
-          professionalName: professionalName
+          professionalName: professionalName,
+          clinicId: 1,
+          professionalId: form.getValues("user_id") ? Number(form.getValues("user_id")) : undefined,
+          resourceIds: form.getValues("resource_ids") || [],
+          appointmentType: form.getValues("type") || undefined
         });
 
         if (!result.conflict) {
@@ -863,6 +1056,16 @@ export function Consultas() {
   const watchedTime = form.watch("scheduled_time");
   const watchedDuration = form.watch("duration");
   const watchedProfessionalId = form.watch("user_id");
+  const watchedResourceIds = form.watch("resource_ids");
+  const watchedType = form.watch("type");
+
+  // Types the selected professional performs (a type without professionals is open to all)
+  const availableAppointmentTypes = appointmentTypes.filter(type =>
+    !type.professional_ids?.length || !watchedProfessionalId || type.professional_ids.includes(Number(watchedProfessionalId))
+  );
+  const watchedCatalogType = getCatalogType(watchedType);
+  const durationOptions = Array.from(new Set([30, 60, 90, 120, ...(watchedCatalogType ? [watchedCatalogType.default_duration_minutes] : [])]))
+    .sort((a, b) => a - b);
 
   // Helper function to get professional name by ID
   const getProfessionalNameById = React.useCallback((userId: string | number) => {
@@ -909,7 +1112,14 @@ export function Consultas() {
     }, 500);
 
     return () => clearTimeout(timeoutId);
-  }, [watchedDate, watchedTime, watchedDuration, watchedProfessionalId]);
+  }, [watchedDate, watchedTime, watchedDuration, watchedProfessionalId, watchedResourceIds, watchedType]);
+
+  // Re-validate working hours once the professional's schedule arrives
+  useEffect(() => {
+    if (watchedDate && watchedTime) {
+      checkWorkingHours(watchedDate, watchedTime);
+    }
+  }, [professionalSchedule]);
 
   useEffect(() => {
     if (!appointmentsLoading) {
@@ -923,6 +1133,11 @@ export function Consultas() {
     if (appointment?.google_calendar_event_id) {
       return appointment.doctor_name || 'Evento do Google Calendar';
     }
+    // Sessões em grupo mostram o tipo e a ocupação (ex.: 4/8) em vez do titular
+    if (appointment?.capacity) {
+      const typeName = getCatalogType(appointment.appointment_type)?.name || 'Sessão em grupo';
+      return `${typeName} · ${(appointment as Appointment & { participant_count?: number }).participant_count ?? 0}/${appointment.capacity}`;
+    }
     const contact = contacts.find((c: any) => c.id === contactId);
     return contact ? contact.name : 'Paciente não encontrado';
   };
@@ -940,7 +1155,7 @@ export function Consultas() {
   // Calculate appointment top position based on start time within the hour
   const getAppointmentTopPosition = (scheduledDate: string | Date | null): number => {
     if (!scheduledDate) return 0;
-    const date = new Date(scheduledDate);
+    const date = toClinicTime(scheduledDate);
     const minutes = date.getMinutes();
     return minutes * PIXELS_PER_MINUTE; // Position based on minutes past the hour
   };
@@ -1000,7 +1215,7 @@ export function Consultas() {
   }, [getAppointmentDuration, collisionCache]);
 
   // Memoized layout cache for performance optimization
-  const layoutCache = useMemo(() => new Map<string, Map<string, { width: number; left: number; group: number }>>(), [appointments]);
+  const layoutCache = useMemo(() => new Map<string, Map<string, { width: number; left: number; group: number }>>(), [appointments, clinicTimezone]);
 
   const calculateEventLayout = React.useCallback((appointments: Appointment[], targetDate: Date) => {
     const dateKey = format(targetDate, 'yyyy-MM-dd');
@@ -1012,7 +1227,7 @@ export function Consultas() {
 
     const dayAppointments = appointments.filter(apt => {
       if (!apt.scheduled_date) return false;
-      const aptDate = new Date(apt.scheduled_date);
+      const aptDate = toClinicTime(apt.scheduled_date);
       return isSameDay(aptDate, targetDate);
     });
 
@@ -1100,12 +1315,12 @@ export function Consultas() {
     // Cache the result for future use
     layoutCache.set(dateKey, layoutMap);
     return layoutMap;
-  }, [checkEventsOverlap, layoutCache]);
+  }, [checkEventsOverlap, layoutCache, toClinicTime]);
 
   // Check if appointment spans multiple hours
   const getAppointmentEndHour = (appointment: Appointment): number => {
     if (!appointment.scheduled_date) return 0;
-    const startDate = new Date(appointment.scheduled_date);
+    const startDate = toClinicTime(appointment.scheduled_date);
     const duration = getAppointmentDuration(appointment);
     const endDate = new Date(startDate.getTime() + duration * 60000);
     return endDate.getHours();
@@ -1133,6 +1348,7 @@ export function Consultas() {
       'bg-blue-100 text-blue-800 border-blue-200': { bg: 'bg-white', text: 'text-blue-700', border: 'border-blue-400', dot: 'bg-blue-500' },
       'bg-green-100 text-green-800 border-green-200': { bg: 'bg-white', text: 'text-green-700', border: 'border-green-400', dot: 'bg-green-500' },
       'bg-purple-100 text-purple-800 border-purple-200': { bg: 'bg-white', text: 'text-purple-700', border: 'border-purple-400', dot: 'bg-purple-500' },
+      'bg-indigo-100 text-indigo-800 border-indigo-200': { bg: 'bg-white', text: 'text-indigo-700', border: 'border-indigo-400', dot: 'bg-indigo-500' },
       'bg-orange-100 text-orange-800 border-orange-200': { bg: 'bg-white', text: 'text-orange-700', border: 'border-orange-400', dot: 'bg-orange-500' },
       'bg-red-100 text-red-800 border-red-200': { bg: 'bg-white', text: 'text-red-700', border: 'border-red-400', dot: 'bg-red-500' },
     };
@@ -1165,7 +1381,7 @@ export function Consultas() {
       const start = startOfWeek(currentDate, { weekStartsOn: 1 });
       const end = endOfWeek(currentDate, { weekStartsOn: 1 });
       return eachDayOfInterval({ start, end });
-    } else if (calendarView === 'day') {
+    } else if (calendarView === 'day' || calendarView === 'resources') {
       return [currentDate];
     } else {
       // Month view
@@ -1182,7 +1398,7 @@ export function Consultas() {
     appointments.forEach((appointment: Appointment) => {
       if (!appointment.scheduled_date) return;
       
-      const appointmentDate = new Date(appointment.scheduled_date);
+      const appointmentDate = toClinicTime(appointment.scheduled_date);
       const dateKey = format(appointmentDate, 'yyyy-MM-dd');
       
       if (!dateMap.has(dateKey)) {
@@ -1192,7 +1408,7 @@ export function Consultas() {
     });
     
     return dateMap;
-  }, [appointments]);
+  }, [appointments, toClinicTime]);
 
   const getAppointmentsForDate = React.useCallback((date: Date) => {
     const dateKey = format(date, 'yyyy-MM-dd');
@@ -1270,6 +1486,8 @@ export function Consultas() {
         </Button>
       </div>
 
+      <CalendarConflicts />
+
       {/* Comprehensive Appointment Editor */}
       <AppointmentEditor
         appointmentId={editingAppointmentId}
@@ -1407,6 +1625,11 @@ export function Consultas() {
                       Cadastrar
                     </Button>
                   </div>
+                  {field.value && (
+                    <div className="pt-1">
+                      <ReliabilityBadge contactId={parseInt(field.value)} />
+                    </div>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -1448,24 +1671,108 @@ export function Consultas() {
                     <FormItem>
                       <FormLabel className="text-sm text-gray-700">Tipo de Consulta *</FormLabel>
                       <FormControl>
-                        <Select value={field.value} onValueChange={field.onChange}>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            // Prefill the duration from the catalog
+                            const catalogType = getCatalogType(value);
+                            if (catalogType) {
+                              form.setValue("duration", catalogType.default_duration_minutes.toString());
+                            }
+                          }}
+                        >
                           <SelectTrigger className="h-11">
                             <SelectValue placeholder="Consulta" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="consulta">Consulta</SelectItem>
-                            <SelectItem value="retorno">Retorno</SelectItem>
-                            <SelectItem value="avaliacao">Avaliação</SelectItem>
-                            <SelectItem value="procedimento">Procedimento</SelectItem>
+                            {appointmentTypes.length > 0 ? (
+                              availableAppointmentTypes.map((type) => (
+                                <SelectItem key={type.id} value={type.key}>
+                                  <span className="flex items-center gap-2">
+                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: type.color || '#94a3b8' }} />
+                                    {type.name}
+                                  </span>
+                                </SelectItem>
+                              ))
+                            ) : (
+                              <>
+                                <SelectItem value="consulta">Consulta</SelectItem>
+                                <SelectItem value="retorno">Retorno</SelectItem>
+                                <SelectItem value="avaliacao">Avaliação</SelectItem>
+                                <SelectItem value="procedimento">Procedimento</SelectItem>
+                              </>
+                            )}
                           </SelectContent>
                         </Select>
                       </FormControl>
+                      {watchedCatalogType && (
+                        <p className="text-xs text-slate-500">
+                          {watchedCatalogType.default_price_cents != null
+                            ? `R$ ${(watchedCatalogType.default_price_cents / 100).toFixed(2).replace('.', ',')}`
+                            : 'Sem valor padrão'}
+                          {watchedCatalogType.buffer_before_minutes > 0 && ` · preparo ${watchedCatalogType.buffer_before_minutes} min`}
+                          {watchedCatalogType.buffer_after_minutes > 0 && ` · limpeza ${watchedCatalogType.buffer_after_minutes} min`}
+                        </p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
 
+              {/* Group session: seats shared by several patients */}
+              <FormField
+                control={form.control}
+                name="capacity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm text-gray-700">Vagas (sessão em grupo)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={2} placeholder="Individual" className="h-11" {...field} />
+                    </FormControl>
+                    <p className="text-xs text-slate-500">
+                      Deixe em branco para consulta individual. Os demais pacientes são inscritos nos detalhes da sessão.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Rooms and equipment reserved by the appointment */}
+              {clinicResources.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="resource_ids"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm text-gray-700">Salas e equipamentos</FormLabel>
+                      <div className="flex flex-wrap gap-2">
+                        {clinicResources.map((resource: any) => {
+                          const selected = (field.value || []).includes(resource.id);
+                          return (
+                            <Button
+                              key={resource.id}
+                              type="button"
+                              size="sm"
+                              variant={selected ? "default" : "outline"}
+                              className="text-xs"
+                              onClick={() => field.onChange(selected
+                                ? (field.value || []).filter((id: number) => id !== resource.id)
+                                : [...(field.value || []), resource.id]
+                              )}
+                            >
+                              {resource.name}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               {/* Date, Time, Duration and Find Time Button */}
               <div className="space-y-2">
                 <div className="grid grid-cols-12 gap-3 items-start">
@@ -1525,10 +1832,9 @@ export function Consultas() {
                                 <SelectValue placeholder="60" />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="30">30</SelectItem>
-                                <SelectItem value="60">60</SelectItem>
-                                <SelectItem value="90">90</SelectItem>
-                                <SelectItem value="120">120</SelectItem>
+                                {durationOptions.map((minutes) => (
+                                  <SelectItem key={minutes} value={minutes.toString()}>{minutes}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </FormControl>
@@ -1547,7 +1853,7 @@ export function Consultas() {
                           variant="outline"
                           className="w-full h-11 text-blue-500 hover:text-white hover:bg-blue-500 border-blue-500 font-normal px-6"
                           onClick={() => {
-                            const targetDate = watchedDate || format(new Date(), 'yyyy-MM-dd');
+                            const targetDate = watchedDate || format(today, 'yyyy-MM-dd');
                             const targetDuration = watchedDuration || '30';
                             setFindTimeSlotsOpen(true);
                           }}
@@ -1741,7 +2047,7 @@ export function Consultas() {
                   size="sm"
                   onClick={() => {
                     setCalendarView("day");
-                    setCurrentDate(new Date());
+                    setCurrentDate(today);
                   }}
                   className="text-xs"
                 >
@@ -1763,6 +2069,14 @@ export function Consultas() {
                 >
                   Mês
                 </Button>
+                <Button
+                  variant={calendarView === "resources" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setCalendarView("resources")}
+                  className="text-xs"
+                >
+                  Recursos
+                </Button>
               </div>
 
               {/* Calendar Navigation */}
@@ -1773,14 +2087,14 @@ export function Consultas() {
                 <span className="text-sm font-medium min-w-32 text-center">
                   {calendarView === 'month' && format(currentDate, "MMMM yyyy", { locale: ptBR })}
                   {calendarView === 'week' && `${format(startOfWeek(currentDate), "dd MMM", { locale: ptBR })} - ${format(endOfWeek(currentDate), "dd MMM yyyy", { locale: ptBR })}`}
-                  {calendarView === 'day' && format(currentDate, "dd 'de' MMMM yyyy", { locale: ptBR })}
+                  {(calendarView === 'day' || calendarView === 'resources') && format(currentDate, "dd 'de' MMMM yyyy", { locale: ptBR })}
                 </span>
                 <Button variant="outline" size="sm" onClick={() => navigateCalendar('next')}>
                   <ChevronRight className="w-4 h-4" />
                 </Button>
               </div>
 
-              <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+              <Button variant="outline" size="sm" onClick={() => setCurrentDate(today)}>
                 Hoje
               </Button>
             </div>
@@ -1831,7 +2145,7 @@ export function Consultas() {
                                 <div className="flex items-center space-x-4 text-sm text-slate-600">
                                   <span className="flex items-center">
                                     <Clock className="w-4 h-4 mr-1" />
-                                    {appointment.scheduled_date ? format(new Date(appointment.scheduled_date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : 'Data não definida'}
+                                    {appointment.scheduled_date ? format(toClinicTime(appointment.scheduled_date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : 'Data não definida'}
                                   </span>
                                   {appointment.doctor_name && !appointment.google_calendar_event_id && (
                                     <span className="flex items-center">
@@ -1839,6 +2153,24 @@ export function Consultas() {
                                       {appointment.doctor_name}
                                     </span>
                                   )}
+                                  {appointment.recurrence_series_id && (
+                                    <span className="flex items-center">
+                                      <Repeat className="w-4 h-4 mr-1" />
+                                      {getSeriesLabel(appointment)}
+                                    </span>
+                                  )}
+                                  {appointment.booking_source === 'online' && (
+                                    <span className="flex items-center text-blue-600">
+                                      <Globe className="w-4 h-4 mr-1" />
+                                      Agendado online
+                                    </span>
+                                  )}
+                                  {getAppointmentClosure(appointment) && (
+                                    <span className="flex items-center text-red-600">
+                                      <CalendarOff className="w-4 h-4 mr-1" />
+                                      Clínica fechada: {getAppointmentClosure(appointment)!.reason}
+                                    </span>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -1848,17 +2180,19 @@ export function Consultas() {
                                 <DropdownMenuTrigger asChild>
                                   <div onClick={(e) => e.stopPropagation()}>
                                     <Badge 
-                                      className={`${statusLabels[appointment.status]?.color || 'bg-gray-100 text-gray-800'} cursor-pointer hover:opacity-80 hover:shadow-sm transition-all duration-200 border border-opacity-20`}
+                                      className={`${getStatusConfig(appointment.status)?.color || 'bg-gray-100 text-gray-800'} cursor-pointer hover:opacity-80 hover:shadow-sm transition-all duration-200 border border-opacity-20`}
                                     >
-                                      {statusLabels[appointment.status]?.label || appointment.status}
+                                      {getStatusLabel(appointment.status)}
                                       <span className="ml-1 text-xs opacity-60">▼</span>
                                     </Badge>
                                   </div>
                                 </DropdownMenuTrigger>
                                 <DropdownMenuContent align="end" className="w-48">
-                                  {/* Status Change Options */}
-                                  {mainStatusList
-                                    .filter((status) => status !== appointment.status)
+                                  {/* Status Change Options - only the moves the lifecycle allows */}
+                                  {getNextAppointmentStatuses(appointment.status).length === 0 && (
+                                    <DropdownMenuItem disabled>Status final</DropdownMenuItem>
+                                  )}
+                                  {getNextAppointmentStatuses(appointment.status)
                                     .map((status) => {
                                       const config = statusConfig[status];
                                       return (
@@ -1953,7 +2287,7 @@ export function Consultas() {
                             const displayName = appointment.google_calendar_event_id 
                               ? (appointment.doctor_name || 'Evento do Google Calendar')
                               : getPatientName(appointment.contact_id, appointment);
-                            const time = appointment.scheduled_date ? format(new Date(appointment.scheduled_date), 'HH:mm') : '';
+                            const time = appointment.scheduled_date ? format(toClinicTime(appointment.scheduled_date), 'HH:mm') : '';
                             const colors = getEventColor(appointment.status, !!appointment.google_calendar_event_id);
 
                             return (
@@ -1965,6 +2299,7 @@ export function Consultas() {
                                   <div className="flex items-center gap-1">
                                     <div className={`w-2 h-2 ${colors.dot} rounded-full flex-shrink-0`}></div>
                                     <span className="truncate">{time} {displayName.split(' ')[0]}</span>
+                                    {appointment.recurrence_series_id && <Repeat className="w-3 h-3 flex-shrink-0 opacity-70" />}
                                   </div>
                                 </div>
                               </EventTooltip>
@@ -2090,10 +2425,10 @@ export function Consultas() {
                           
                           const colors = getEventColor(appointment.status, !!appointment.google_calendar_event_id);
                           const patientName = getPatientName(appointment.contact_id, appointment);
-                          const time = appointment.scheduled_date ? format(new Date(appointment.scheduled_date), 'HH:mm') : '';
+                          const time = appointment.scheduled_date ? format(toClinicTime(appointment.scheduled_date), 'HH:mm') : '';
                           const duration = getAppointmentDuration(appointment);
                           
-                          const aptStart = new Date(appointment.scheduled_date);
+                          const aptStart = toClinicTime(appointment.scheduled_date);
                           const startHour = aptStart.getHours();
                           const startMinutes = aptStart.getMinutes();
                           
@@ -2132,7 +2467,10 @@ export function Consultas() {
                                 <div className="flex items-start gap-1.5 h-full">
                                   <div className={`w-2 h-2 ${colors.dot} rounded-full flex-shrink-0 mt-1`}></div>
                                   <div className="flex-1 overflow-hidden">
-                                    <div className="text-xs truncate">{patientName}</div>
+                                    <div className="text-xs truncate flex items-center gap-1">
+                                      {appointment.recurrence_series_id && <Repeat className="w-3 h-3 flex-shrink-0" />}
+                                      <span className="truncate">{patientName}</span>
+                                    </div>
                                     <div className="text-xs opacity-80 mt-1">
                                       {duration}min
                                     </div>
@@ -2245,11 +2583,11 @@ export function Consultas() {
                               
                               const colors = getEventColor(appointment.status, !!appointment.google_calendar_event_id);
                               const patientName = getPatientName(appointment.contact_id, appointment);
-                              const time = appointment.scheduled_date ? format(new Date(appointment.scheduled_date), 'HH:mm') : '';
+                              const time = appointment.scheduled_date ? format(toClinicTime(appointment.scheduled_date), 'HH:mm') : '';
                               const duration = getAppointmentDuration(appointment);
                               const height = getAppointmentHeight(duration);
                               
-                              const startDate = new Date(appointment.scheduled_date);
+                              const startDate = toClinicTime(appointment.scheduled_date);
                               const startHour = startDate.getHours();
                               const startMinutes = startDate.getMinutes();
                               
@@ -2287,6 +2625,12 @@ export function Consultas() {
                                         {appointment.doctor_name && !appointment.google_calendar_event_id && (
                                           <div className="text-xs mt-1 opacity-90">Dr. {appointment.doctor_name}</div>
                                         )}
+                                        {appointment.recurrence_series_id && (
+                                          <div className="text-xs mt-1 opacity-90 flex items-center gap-1">
+                                            <Repeat className="w-3 h-3" />
+                                            {getSeriesLabel(appointment)}
+                                          </div>
+                                        )}
                                         {appointment.appointment_type && (
                                           <div className="text-xs mt-1 opacity-90 truncate">{appointment.appointment_type}</div>
                                         )}
@@ -2303,6 +2647,21 @@ export function Consultas() {
                   </div>
                 </div>
               )}
+
+              {calendarView === "resources" && (
+                <div className="space-y-4">
+                  <div className="text-center text-lg font-semibold">
+                    {format(currentDate, "EEEE, dd 'de' MMMM", { locale: ptBR })}
+                  </div>
+                  <ResourceCalendar
+                    date={currentDate}
+                    appointments={appointments}
+                    getPatientName={getPatientName}
+                    getEventColor={getEventColor}
+                    onAppointmentClick={handleAppointmentClick}
+                  />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -2360,7 +2719,7 @@ export function Consultas() {
                         <p className="text-sm text-gray-600">Data e Hora</p>
                         <p className="font-medium flex items-center gap-2">
                           <Clock className="w-3 h-3" />
-                          {selectedAppointment.scheduled_date ? format(new Date(selectedAppointment.scheduled_date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : 'Data não definida'}
+                          {selectedAppointment.scheduled_date ? format(toClinicTime(selectedAppointment.scheduled_date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : 'Data não definida'}
                         </p>
                       </div>
                       <div>
@@ -2391,7 +2750,14 @@ export function Consultas() {
               ) : (
                 /* Regular Appointment Layout */
                 <div className="space-y-6">
-                  {/* Patient Information */}
+                  {/* Group session participants */}
+                  {!!selectedAppointment.capacity && (
+                    <div className="bg-slate-50 p-4 rounded-lg">
+                      <GroupSessionParticipants appointmentId={selectedAppointment.id} contacts={contacts as Contact[]} />
+                    </div>
+                  )}
+
+                  {/* Patient Information (the holder, for group sessions) */}
                   <div className="bg-slate-50 p-4 rounded-lg">
                     <h3 className="font-semibold text-slate-800 mb-3 flex items-center gap-2">
                       <User className="w-4 h-4" />
@@ -2400,7 +2766,10 @@ export function Consultas() {
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
                         <p className="text-sm text-slate-600">Nome</p>
-                        <p className="font-medium">{getPatientName(selectedAppointment.contact_id, selectedAppointment)}</p>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <p className="font-medium">{getPatientName(selectedAppointment.contact_id)}</p>
+                          {selectedAppointment.contact_id && <ReliabilityBadge contactId={selectedAppointment.contact_id} />}
+                        </div>
                       </div>
                       {getPatientInfo(selectedAppointment.contact_id) && (
                         <>
@@ -2431,14 +2800,20 @@ export function Consultas() {
                       <p className="font-medium flex items-center gap-2">
                         <Clock className="w-4 h-4" />
                         {selectedAppointment.scheduled_date 
-                          ? format(new Date(selectedAppointment.scheduled_date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })
+                          ? format(toClinicTime(selectedAppointment.scheduled_date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })
                           : 'Não definido'
                         }
                       </p>
+                      {getAppointmentClosure(selectedAppointment) && (
+                        <p className="text-sm text-red-600 flex items-center gap-1 mt-1">
+                          <CalendarOff className="w-4 h-4" />
+                          Clínica fechada ({getAppointmentClosure(selectedAppointment)!.reason}) — reagende o paciente
+                        </p>
+                      )}
                     </div>
                     <div>
                       <p className="text-sm text-slate-600">Status</p>
-                      <span className="font-medium">{statusLabels[selectedAppointment.status]?.label || selectedAppointment.status}</span>
+                      <span className="font-medium">{getStatusLabel(selectedAppointment.status)}</span>
                     </div>
                     <div>
                       <p className="text-sm text-slate-600">Duração</p>
@@ -2448,8 +2823,68 @@ export function Consultas() {
                       <p className="text-sm text-slate-600">Especialidade</p>
                       <p className="font-medium">{selectedAppointment.specialty || 'Não especificado'}</p>
                     </div>
+                    {selectedAppointment.recurrence_series_id && (
+                      <div>
+                        <p className="text-sm text-slate-600">Recorrência</p>
+                        <p className="font-medium flex items-center gap-2">
+                          <Repeat className="w-4 h-4" />
+                          {getSeriesLabel(selectedAppointment)}
+                          {selectedAppointment.recurrence_exception && (
+                            <span className="text-xs text-slate-500">(editada individualmente)</span>
+                          )}
+                        </p>
+                      </div>
+                    )}
+                    {selectedAppointment.cancellation_reason && (
+                      <div>
+                        <p className="text-sm text-slate-600">Motivo do cancelamento</p>
+                        <p className="font-medium">{selectedAppointment.cancellation_reason}</p>
+                      </div>
+                    )}
+                    {!selectedAppointment.capacity && ['agendada', 'confirmada'].includes(selectedAppointment.status) && (
+                      <div>
+                        <p className="text-sm text-slate-600">Link do paciente</p>
+                        <Button variant="outline" size="sm" onClick={() => copyManageLink(selectedAppointment.id)}>
+                          Copiar link para remarcar/cancelar
+                        </Button>
+                      </div>
+                    )}
                   </div>
 
+                  {/* Attendance milestones and status history */}
+                  {(selectedAppointment.arrived_at || selectedAppointment.started_at || selectedAppointment.finished_at || statusHistory.length > 0) && (
+                    <div className="bg-slate-50 p-4 rounded-lg">
+                      <h3 className="font-semibold text-slate-800 mb-3">Atendimento</h3>
+                      <div className="grid grid-cols-3 gap-4 mb-3">
+                        {([
+                          ['Chegada', selectedAppointment.arrived_at],
+                          ['Início', selectedAppointment.started_at],
+                          ['Término', selectedAppointment.finished_at],
+                        ] as const).map(([label, value]) => (
+                          <div key={label}>
+                            <p className="text-sm text-slate-600">{label}</p>
+                            <p className="font-medium">{value ? format(new Date(value), 'HH:mm') : '—'}</p>
+                          </div>
+                        ))}
+                      </div>
+                      {statusHistory.length > 0 && (
+                        <ul className="space-y-1 text-sm text-slate-700 border-t pt-3">
+                          {statusHistory.map((change) => (
+                            <li key={change.id} className="flex items-center gap-2">
+                              <span className="text-slate-500">
+                                {change.created_at ? format(new Date(change.created_at), "dd/MM 'às' HH:mm", { locale: ptBR }) : ''}
+                              </span>
+                              <span>
+                                {change.from_status ? `${getStatusLabel(change.from_status)} → ` : ''}{getStatusLabel(change.to_status)}
+                              </span>
+                              {change.reason && <span className="text-slate-500">({change.reason})</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
                   {/* Notes */}
                   {selectedAppointment.session_notes && (
                     <div className="bg-blue-50 p-4 rounded-lg">
@@ -2486,7 +2921,7 @@ export function Consultas() {
               const displayName = appointment.google_calendar_event_id 
                 ? (appointment.doctor_name || 'Evento do Google Calendar')
                 : getPatientName(appointment.contact_id, appointment);
-              const time = appointment.scheduled_date ? format(new Date(appointment.scheduled_date), 'HH:mm') : '';
+              const time = appointment.scheduled_date ? format(toClinicTime(appointment.scheduled_date), 'HH:mm') : '';
               
               return (
                 <div
@@ -2516,8 +2951,8 @@ export function Consultas() {
                         -
                       </Badge>
                     ) : (
-                      <Badge className={statusLabels[appointment.status]?.color || 'bg-gray-100 text-gray-800'}>
-                        {statusLabels[appointment.status]?.label || appointment.status}
+                      <Badge className={getStatusConfig(appointment.status)?.color || 'bg-gray-100 text-gray-800'}>
+                        {getStatusLabel(appointment.status)}
                       </Badge>
                     )}
                   </div>
@@ -2540,6 +2975,7 @@ export function Consultas() {
           <FindTimeSlots
             selectedDate={watchedDate || ''}
             duration={parseInt(watchedDuration) || 30}
+            professionalId={watchedProfessionalId ? Number(watchedProfessionalId) : null}
             professionalName={getProfessionalNameById(watchedProfessionalId)}
             onTimeSelect={(time, date) => {
               form.setValue("scheduled_time", time);
@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AlertTriangle, CalendarOff, Download, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { DEFAULT_CLINIC_TIMEZONE, toZonedTime } from "@shared/timezone";
+
+// Schema for the closure form
+const closureSchema = z.object({
+  date: z.string().min(1, "Data é obrigatória"),
+  reason: z.string().min(1, "Motivo é obrigatório"),
+  repeat: z.enum(["once", "yearly"]),
+  start_time: z.string().optional(),
+  end_time: z.string().optional(),
+}).refine(data => !!data.start_time === !!data.end_time, {
+  message: "Informe o início e o fim, ou deixe ambos vazios para fechar o dia inteiro",
+  path: ["end_time"],
+}).refine(data => !data.start_time || !data.end_time || data.start_time < data.end_time, {
+  message: "O horário final deve ser posterior ao inicial",
+  path: ["end_time"],
+});
+
+type ClosureForm = z.infer<typeof closureSchema>;
+
+interface ClinicClosure {
+  id: number;
+  date: string;
+  recurs_yearly: boolean;
+  start_time: string | null;
+  end_time: string | null;
+  reason: string;
+  source: string;
+}
+
+interface AffectedAppointment {
+  appointment_id: number;
+  contact_id: number;
+  doctor_name: string | null;
+  scheduled_date: string;
+  closure_id: number;
+  closure_reason: string;
+}
+
+const formatDateKey = (dateKey: string, pattern: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return format(new Date(year, month - 1, day), pattern, { locale: ptBR });
+};
+
+export function Fechamentos() {
+  const { toast } = useToast();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const form = useForm<ClosureForm>({
+    resolver: zodResolver(closureSchema),
+    defaultValues: {
+      date: "",
+      reason: "",
+      repeat: "once",
+      start_time: "",
+      end_time: "",
+    },
+  });
+
+  const { data: closures = [], isLoading: closuresLoading } = useQuery<ClinicClosure[]>({
+    queryKey: ["/api/clinic/1/closures"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/closures');
+      if (!response.ok) throw new Error('Failed to fetch clinic closures');
+      return response.json();
+    },
+  });
+
+  // Booked patients on closure days, waiting to be rescheduled
+  const { data: affectedAppointments = [] } = useQuery<AffectedAppointment[]>({
+    queryKey: ["/api/clinic/1/closures/affected-appointments"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/closures/affected-appointments');
+      if (!response.ok) throw new Error('Failed to fetch appointments on closure days');
+      return response.json();
+    },
+  });
+
+  const { data: clinic } = useQuery<{ timezone?: string | null }>({
+    queryKey: ["/api/clinic/1/config"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/config');
+      if (!response.ok) throw new Error('Failed to fetch clinic config');
+      return response.json();
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+  const clinicTimezone = clinic?.timezone || DEFAULT_CLINIC_TIMEZONE;
+
+  const { data: contacts = [] } = useQuery({
+    queryKey: ['/api/contacts', { clinic_id: 1 }],
+    queryFn: async () => {
+      const response = await fetch('/api/contacts?clinic_id=1');
+      if (!response.ok) throw new Error('Failed to fetch contacts');
+      return response.json();
+    },
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+
+  const getContactName = (contactId: number) =>
+    contacts.find((contact: any) => contact.id === contactId)?.name || 'Paciente';
+
+  const invalidateClosures = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/clinic/1/closures"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/clinic/1/closures/affected-appointments"] });
+  };
+
+  const describeAffected = (count: number) =>
+    count === 0
+      ? "Nenhuma consulta agendada é afetada."
+      : `${count} ${count === 1 ? 'consulta agendada cai' : 'consultas agendadas caem'} no fechamento e ${count === 1 ? 'precisa' : 'precisam'} ser reagendada${count === 1 ? '' : 's'}.`;
+
+  const createClosureMutation = useMutation({
+    mutationFn: async (data: ClosureForm) => {
+      const res = await apiRequest("POST", "/api/clinic/1/closures", {
+        date: data.date,
+        reason: data.reason,
+        recurs_yearly: data.repeat === "yearly",
+        start_time: data.start_time || null,
+        end_time: data.end_time || null,
+      });
+      return res.json();
+    },
+    onSuccess: (result: { affectedAppointments: AffectedAppointment[] }) => {
+      invalidateClosures();
+      toast({ title: "Fechamento adicionado", description: describeAffected(result.affectedAppointments.length) });
+      setIsCreateDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao adicionar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importHolidaysMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/clinic/1/closures/import-holidays", {
+        year: new Date().getFullYear()
+      });
+      return res.json();
+    },
+    onSuccess: (result: { created: ClinicClosure[]; affectedAppointments: AffectedAppointment[] }) => {
+      invalidateClosures();
+      toast({
+        title: result.created.length > 0 ? `${result.created.length} feriados importados` : "Feriados já cadastrados",
+        description: describeAffected(result.affectedAppointments.length),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao importar feriados", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteClosureMutation = useMutation({
+    mutationFn: async (closureId: number) => {
+      await apiRequest("DELETE", `/api/clinic/1/closures/${closureId}`);
+    },
+    onSuccess: () => {
+      invalidateClosures();
+      toast({ title: "Removido", description: "O fechamento foi removido da agenda." });
+    },
+  });
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Feriados e Fechamentos</h1>
+          <p className="text-slate-600">Dias em que a clínica não atende ficam bloqueados na agenda e na busca de horários</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => importHolidaysMutation.mutate()} disabled={importHolidaysMutation.isPending}>
+            <Download className="w-4 h-4 mr-2" />
+            Importar feriados nacionais
+          </Button>
+          <Button onClick={() => setIsCreateDialogOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar fechamento
+          </Button>
+        </div>
+      </div>
+
+      {/* Appointments on closure days */}
+      {affectedAppointments.length > 0 && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-700">
+              <AlertTriangle className="w-5 h-5" />
+              Consultas em dias de fechamento ({affectedAppointments.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {affectedAppointments.map((affected) => (
+                <div key={`${affected.appointment_id}-${affected.closure_id}`} className="flex items-center justify-between py-3">
+                  <div className="space-y-1">
+                    <div className="font-medium text-slate-800">{getContactName(affected.contact_id)}</div>
+                    <div className="text-sm text-slate-600">
+                      {format(toZonedTime(affected.scheduled_date, clinicTimezone), "EEEE, dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                      {affected.doctor_name ? ` · ${affected.doctor_name}` : ''}
+                    </div>
+                  </div>
+                  <Badge variant="secondary" className="bg-red-100 text-red-700 border-red-200">{affected.closure_reason}</Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Closures */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Fechamentos cadastrados ({closures.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {closuresLoading ? (
+            <p className="text-slate-500 text-sm">Carregando fechamentos...</p>
+          ) : closures.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarOff className="w-10 h-10 text-slate-400 mx-auto mb-3" />
+              <p className="text-slate-500 text-sm">Nenhum fechamento cadastrado. Importe os feriados nacionais para começar.</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {closures.map((closure) => (
+                <div key={closure.id} className="flex items-center justify-between py-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-slate-800">{closure.reason}</span>
+                      {closure.recurs_yearly && (
+                        <Badge variant="secondary" className="bg-blue-100 text-blue-800 border-blue-200">Todo ano</Badge>
+                      )}
+                      {closure.source === 'national_holiday' && (
+                        <Badge variant="secondary" className="bg-green-100 text-green-800 border-green-200">Feriado nacional</Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-slate-600">
+                      {closure.recurs_yearly
+                        ? `${formatDateKey(closure.date, "dd 'de' MMMM")} (desde ${closure.date.slice(0, 4)})`
+                        : formatDateKey(closure.date, "EEEE, dd/MM/yyyy")}
+                      {' · '}
+                      {closure.start_time && closure.end_time
+                        ? `${closure.start_time} às ${closure.end_time}`
+                        : 'Dia inteiro'}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => deleteClosureMutation.mutate(closure.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add closure dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Adicionar fechamento</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createClosureMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motivo *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex.: Manutenção do consultório" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="repeat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repetição</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="once">Apenas nesta data</SelectItem>
+                          <SelectItem value="yearly">Todo ano</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="start_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fechado a partir de</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="end_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Até</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-slate-500">Deixe os horários vazios para fechar o dia inteiro.</p>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={createClosureMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+                  {createClosureMutation.isPending ? "Salvando..." : "Adicionar"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
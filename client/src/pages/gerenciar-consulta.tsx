@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { queryClient } from "@/lib/queryClient";
+import { AlertTriangle, CalendarDays, Clock, Phone, Stethoscope, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { DEFAULT_CLINIC_TIMEZONE, addDaysToDateKey, getZonedDateKey, getZonedTime, toZonedTime } from "@shared/timezone";
+
+interface LinkedAppointment {
+  appointment_id: number;
+  scheduled_date: string | null;
+  duration_minutes: number | null;
+  status: string;
+  service_name: string;
+  professional_name: string | null;
+  clinic_name: string;
+  clinic_phone: string | null;
+  timeZone: string;
+  cutoff_hours: number;
+  window_days: number;
+  change_deadline: string | null;
+  can_change: boolean;
+  manage_path?: string;
+}
+
+interface RescheduleSlot {
+  startTime: string;
+  endTime: string;
+}
+
+const statusMessages: Record<string, string> = {
+  cancelada_paciente: 'Esta consulta foi cancelada.',
+  cancelada_dentista: 'Esta consulta foi cancelada pela clínica.',
+  finalizada: 'Esta consulta já foi realizada.',
+  faltou: 'Esta consulta já passou.',
+};
+
+async function sendLinkRequest(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Não foi possível alterar a consulta.');
+  return data;
+}
+
+// Patient's self-service page of an appointment (/consulta/:token), reached from a signed link
+export function GerenciarConsulta() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const [mode, setMode] = useState<'view' | 'cancel' | 'reschedule'>('view');
+  const [reason, setReason] = useState("");
+  const [dateKey, setDateKey] = useState("");
+  const [selectedSlot, setSelectedSlot] = useState<RescheduleSlot | null>(null);
+
+  const { data: appointment, isLoading, error: linkError } = useQuery<LinkedAppointment>({
+    queryKey: ['/api/public/appointments', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/public/appointments/${token}`);
+      if (!response.ok) throw new Error('Link inválido ou expirado');
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const timeZone = appointment?.timeZone || DEFAULT_CLINIC_TIMEZONE;
+  const today = getZonedDateKey(new Date(), timeZone);
+
+  const { data: slots = [], isFetching: slotsLoading } = useQuery<RescheduleSlot[]>({
+    queryKey: ['/api/public/appointments', token, 'slots', dateKey],
+    queryFn: async () => (await sendLinkRequest(`/api/public/appointments/${token}/slots`, { date: dateKey })).slots,
+    enabled: mode === 'reschedule' && !!dateKey,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => sendLinkRequest(`/api/public/appointments/${token}/cancel`, { reason }),
+    onSuccess: (updated: LinkedAppointment) => {
+      queryClient.setQueryData(['/api/public/appointments', token], updated);
+      setMode('view');
+    },
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: () => sendLinkRequest(`/api/public/appointments/${token}/reschedule`, { startTime: selectedSlot!.startTime }),
+    onSuccess: (updated: LinkedAppointment) => {
+      // The old link expires at the old start; continue on the new one
+      setMode('view');
+      setSelectedSlot(null);
+      if (updated.manage_path) {
+        queryClient.setQueryData(['/api/public/appointments', updated.manage_path.split('/').pop()], updated);
+        navigate(updated.manage_path, { replace: true });
+      }
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/public/appointments', token, 'slots'] });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="min-h-screen flex items-center justify-center text-slate-500">Carregando...</div>;
+  }
+
+  if (linkError || !appointment) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center space-y-2">
+            <AlertTriangle className="w-8 h-8 text-yellow-500 mx-auto" />
+            <p className="font-medium">Link inválido ou expirado</p>
+            <p className="text-sm text-slate-500">Entre em contato com a clínica para alterar sua consulta.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const start = appointment.scheduled_date ? toZonedTime(appointment.scheduled_date, timeZone) : null;
+  const deadline = appointment.change_deadline ? toZonedTime(appointment.change_deadline, timeZone) : null;
+  const mutationError = (cancelMutation.error || rescheduleMutation.error) as Error | null;
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8 px-4">
+      <div className="max-w-md mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{appointment.clinic_name}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3 text-slate-700">
+              <p className="flex items-center gap-2">
+                <Stethoscope className="w-4 h-4 text-slate-400" />
+                {appointment.service_name}{appointment.professional_name && ` com ${appointment.professional_name}`}
+              </p>
+              {start && (
+                <>
+                  <p className="flex items-center gap-2">
+                    <CalendarDays className="w-4 h-4 text-slate-400" />
+                    {format(start, "EEEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                  </p>
+                  <p className="flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-slate-400" />
+                    {format(start, 'HH:mm')}{appointment.duration_minutes && ` (${appointment.duration_minutes} min)`}
+                  </p>
+                </>
+              )}
+            </div>
+
+            {statusMessages[appointment.status] ? (
+              <p className="text-sm bg-slate-100 text-slate-700 rounded-lg p-3">{statusMessages[appointment.status]}</p>
+            ) : appointment.can_change ? (
+              deadline && (
+                <p className="text-xs text-slate-500">
+                  Você pode remarcar ou cancelar até {format(deadline, "dd/MM 'às' HH:mm")} ({appointment.cutoff_hours}h antes da consulta).
+                </p>
+              )
+            ) : (
+              <p className="text-sm bg-orange-50 text-orange-800 rounded-lg p-3">
+                O prazo para alterar pelo link terminou. Para remarcar ou cancelar, entre em contato com a clínica.
+              </p>
+            )}
+
+            {appointment.can_change && mode === 'view' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => setMode('reschedule')}>
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  Remarcar
+                </Button>
+                <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setMode('cancel')}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancelar
+                </Button>
+              </div>
+            )}
+
+            {appointment.clinic_phone && (
+              <p className="text-sm text-slate-500 flex items-center justify-center gap-2">
+                <Phone className="w-4 h-4" />
+                {appointment.clinic_phone}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Cancellation */}
+        {appointment.can_change && mode === 'cancel' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Cancelar consulta</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm text-slate-700">Motivo do cancelamento</label>
+                <Input className="h-11" value={reason} maxLength={500} onChange={(event) => setReason(event.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => { setMode('view'); cancelMutation.reset(); }}>Voltar</Button>
+                <Button
+                  variant="destructive"
+                  disabled={reason.trim().length < 3 || cancelMutation.isPending}
+                  onClick={() => cancelMutation.mutate()}
+                >
+                  {cancelMutation.isPending ? 'Cancelando...' : 'Confirmar cancelamento'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Rescheduling */}
+        {appointment.can_change && mode === 'reschedule' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Escolha um novo horário</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                type="date"
+                className="h-11"
+                min={today}
+                max={addDaysToDateKey(today, appointment.window_days)}
+                value={dateKey}
+                onChange={(event) => { setDateKey(event.target.value); setSelectedSlot(null); rescheduleMutation.reset(); }}
+              />
+
+              {dateKey && (
+                slotsLoading ? (
+                  <p className="text-sm text-slate-500">Buscando horários...</p>
+                ) : slots.length === 0 ? (
+                  <p className="text-sm text-slate-500">Nenhum horário livre neste dia. Tente outro dia.</p>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {slots.map(slot => (
+                      <Button
+                        key={slot.startTime}
+                        type="button"
+                        variant={selectedSlot?.startTime === slot.startTime ? "default" : "outline"}
+                        onClick={() => setSelectedSlot(slot)}
+                      >
+                        {getZonedTime(slot.startTime, timeZone)}
+                      </Button>
+                    ))}
+                  </div>
+                )
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => { setMode('view'); rescheduleMutation.reset(); }}>Voltar</Button>
+                <Button
+                  disabled={!selectedSlot || rescheduleMutation.isPending}
+                  onClick={() => rescheduleMutation.mutate()}
+                >
+                  {rescheduleMutation.isPending ? 'Remarcando...' : 'Confirmar novo horário'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {mutationError && (
+          <p className="text-sm text-red-600 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {mutationError.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
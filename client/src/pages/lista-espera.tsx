@@ -0,0 +1,537 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Clock, Phone, Plus, Check, SkipForward, Trash2, User, Hourglass } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+const weekDays = [
+  { key: 'monday', label: 'Seg' },
+  { key: 'tuesday', label: 'Ter' },
+  { key: 'wednesday', label: 'Qua' },
+  { key: 'thursday', label: 'Qui' },
+  { key: 'friday', label: 'Sex' },
+  { key: 'saturday', label: 'Sáb' },
+  { key: 'sunday', label: 'Dom' },
+];
+
+const entryStatusLabels: Record<string, { label: string; className: string }> = {
+  waiting: { label: 'Aguardando', className: 'bg-slate-100 text-slate-700 border-slate-200' },
+  offered: { label: 'Oferta pendente', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  booked: { label: 'Agendado', className: 'bg-green-100 text-green-800 border-green-200' },
+  cancelled: { label: 'Cancelado', className: 'bg-red-100 text-red-700 border-red-200' },
+};
+
+// Schema for the waitlist entry form
+const waitlistSchema = z.object({
+  contact_id: z.string().min(1, "Paciente é obrigatório"),
+  preferred_user_id: z.string().optional(),
+  preferred_days: z.array(z.string()),
+  preferred_start_time: z.string().optional(),
+  preferred_end_time: z.string().optional(),
+  duration_minutes: z.string().min(1, "Duração é obrigatória"),
+  priority: z.string(),
+  notes: z.string().optional(),
+});
+
+type WaitlistForm = z.infer<typeof waitlistSchema>;
+
+interface WaitlistEntry {
+  id: number;
+  contact_id: number;
+  preferred_user_id: number | null;
+  preferred_days: string[] | null;
+  preferred_start_time: string | null;
+  preferred_end_time: string | null;
+  duration_minutes: number;
+  priority: number;
+  notes: string | null;
+  status: string;
+  created_at: string;
+}
+
+interface WaitlistOffer {
+  id: number;
+  slot_start: string;
+  duration_minutes: number;
+  expires_at: string;
+  entry: WaitlistEntry | null;
+  contact: { id: number; name: string; phone: string | null } | null;
+  professional_name: string | null;
+}
+
+export function ListaEspera() {
+  const { toast } = useToast();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const form = useForm<WaitlistForm>({
+    resolver: zodResolver(waitlistSchema),
+    defaultValues: {
+      contact_id: "",
+      preferred_user_id: "",
+      preferred_days: [],
+      preferred_start_time: "",
+      preferred_end_time: "",
+      duration_minutes: "30",
+      priority: "0",
+      notes: "",
+    },
+  });
+
+  // Pending offers: slots held for a waitlisted contact until confirmed or skipped
+  const { data: offers = [], isLoading: offersLoading } = useQuery<WaitlistOffer[]>({
+    queryKey: ['/api/clinic/1/waitlist/offers'],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/waitlist/offers');
+      if (!response.ok) throw new Error('Failed to fetch waitlist offers');
+      return response.json();
+    },
+    refetchInterval: 60 * 1000, // new offers appear as soon as a slot frees up
+  });
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery<WaitlistEntry[]>({
+    queryKey: ['/api/clinic/1/waitlist'],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/waitlist');
+      if (!response.ok) throw new Error('Failed to fetch waitlist');
+      return response.json();
+    },
+  });
+
+  const { data: contacts = [] } = useQuery({
+    queryKey: ['/api/contacts', { clinic_id: 1 }],
+    queryFn: async () => {
+      const response = await fetch('/api/contacts?clinic_id=1');
+      if (!response.ok) throw new Error('Failed to fetch contacts');
+      return response.json();
+    },
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+
+  const { data: clinicUsers = [] } = useQuery({
+    queryKey: ['/api/clinic/1/users/management'],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/users/management');
+      if (!response.ok) throw new Error('Failed to fetch clinic users');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const getContactName = (contactId: number) =>
+    contacts.find((contact: any) => contact.id === contactId)?.name || 'Paciente';
+
+  const getProfessionalName = (userId: number | null) =>
+    userId ? clinicUsers.find((user: any) => user.id === userId)?.name || 'Profissional' : 'Qualquer profissional';
+
+  const invalidateWaitlist = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/clinic/1/waitlist/offers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/clinic/1/waitlist'] });
+  };
+
+  const createEntryMutation = useMutation({
+    mutationFn: async (data: WaitlistForm) => {
+      const res = await apiRequest("POST", "/api/clinic/1/waitlist", {
+        contact_id: parseInt(data.contact_id),
+        preferred_user_id: data.preferred_user_id ? parseInt(data.preferred_user_id) : null,
+        preferred_days: data.preferred_days,
+        preferred_start_time: data.preferred_start_time || null,
+        preferred_end_time: data.preferred_end_time || null,
+        duration_minutes: parseInt(data.duration_minutes),
+        priority: parseInt(data.priority),
+        notes: data.notes || null
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateWaitlist();
+      toast({ title: "Paciente adicionado", description: "O paciente entrou na lista de espera." });
+      setIsCreateDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao adicionar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      await apiRequest("DELETE", `/api/clinic/1/waitlist/${entryId}`);
+    },
+    onSuccess: () => {
+      invalidateWaitlist();
+      toast({ title: "Removido", description: "O paciente saiu da lista de espera." });
+    },
+  });
+
+  const confirmOfferMutation = useMutation({
+    mutationFn: async (offerId: number) => {
+      const res = await apiRequest("POST", `/api/clinic/1/waitlist/offers/${offerId}/confirm`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateWaitlist();
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", { clinic_id: 1 }] });
+      toast({ title: "Consulta agendada", description: "O horário foi confirmado para o paciente." });
+    },
+    onError: (error: Error) => {
+      invalidateWaitlist();
+      toast({ title: "Não foi possível confirmar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const skipOfferMutation = useMutation({
+    mutationFn: async (offerId: number) => {
+      const res = await apiRequest("POST", `/api/clinic/1/waitlist/offers/${offerId}/skip`);
+      return res.json();
+    },
+    onSuccess: (result: { nextOffer: WaitlistOffer | null }) => {
+      invalidateWaitlist();
+      toast({
+        title: "Oferta pulada",
+        description: result.nextOffer
+          ? "O horário foi oferecido ao próximo paciente da lista."
+          : "Nenhum outro paciente da lista se encaixa neste horário.",
+      });
+    },
+  });
+
+  const waitingEntries = entries.filter(entry => entry.status === 'waiting' || entry.status === 'offered');
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Lista de Espera</h1>
+          <p className="text-slate-600">Horários vagos são oferecidos automaticamente aos pacientes da lista</p>
+        </div>
+        <Button onClick={() => setIsCreateDialogOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="w-4 h-4 mr-2" />
+          Adicionar à lista
+        </Button>
+      </div>
+
+      {/* Offers queue */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hourglass className="w-5 h-5 text-amber-600" />
+            Ofertas aguardando confirmação
+            {offers.length > 0 && (
+              <Badge variant="secondary" className="bg-amber-100 text-amber-800 border-amber-200">{offers.length}</Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {offersLoading ? (
+            <p className="text-slate-500 text-sm">Carregando ofertas...</p>
+          ) : offers.length === 0 ? (
+            <p className="text-slate-500 text-sm">Nenhum horário vago aguardando confirmação.</p>
+          ) : (
+            <div className="space-y-3">
+              {offers.map((offer) => (
+                <div key={offer.id} className="flex items-center justify-between p-4 border border-amber-200 bg-amber-50 rounded-lg">
+                  <div className="space-y-1">
+                    <div className="font-medium text-slate-800">{offer.contact?.name || 'Paciente'}</div>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-4 h-4" />
+                        {format(new Date(offer.slot_start), "EEEE, dd/MM 'às' HH:mm", { locale: ptBR })}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <User className="w-4 h-4" />
+                        {offer.professional_name || 'Profissional'}
+                      </span>
+                      {offer.contact?.phone && (
+                        <span className="flex items-center gap-1">
+                          <Phone className="w-4 h-4" />
+                          {offer.contact.phone}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      Reserva válida até {format(new Date(offer.expires_at), "dd/MM HH:mm")}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => skipOfferMutation.mutate(offer.id)}
+                      disabled={skipOfferMutation.isPending || confirmOfferMutation.isPending}
+                    >
+                      <SkipForward className="w-4 h-4 mr-1" />
+                      Pular
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700"
+                      onClick={() => confirmOfferMutation.mutate(offer.id)}
+                      disabled={skipOfferMutation.isPending || confirmOfferMutation.isPending}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Confirmar
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Waiting contacts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Pacientes na lista ({waitingEntries.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entriesLoading ? (
+            <p className="text-slate-500 text-sm">Carregando lista...</p>
+          ) : waitingEntries.length === 0 ? (
+            <p className="text-slate-500 text-sm">Nenhum paciente na lista de espera.</p>
+          ) : (
+            <div className="divide-y">
+              {waitingEntries.map((entry) => {
+                const status = entryStatusLabels[entry.status] || entryStatusLabels.waiting;
+                return (
+                  <div key={entry.id} className="flex items-center justify-between py-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-800">{getContactName(entry.contact_id)}</span>
+                        <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+                        {entry.priority > 0 && (
+                          <Badge variant="secondary" className="bg-blue-100 text-blue-800 border-blue-200">Prioridade {entry.priority}</Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-slate-600">
+                        {getProfessionalName(entry.preferred_user_id)}
+                        {' · '}
+                        {entry.preferred_days?.length
+                          ? entry.preferred_days.map(day => weekDays.find(d => d.key === day)?.label || day).join(', ')
+                          : 'Qualquer dia'}
+                        {' · '}
+                        {entry.preferred_start_time || entry.preferred_end_time
+                          ? `${entry.preferred_start_time || '--:--'} às ${entry.preferred_end_time || '--:--'}`
+                          : 'Qualquer horário'}
+                        {' · '}
+                        {entry.duration_minutes} min
+                      </div>
+                      {entry.notes && <div className="text-xs text-slate-500">{entry.notes}</div>}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => deleteEntryMutation.mutate(entry.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add to waitlist dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Adicionar à lista de espera</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createEntryMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="contact_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Paciente *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o paciente" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {contacts.map((contact: any) => (
+                          <SelectItem key={contact.id} value={contact.id.toString()}>{contact.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="preferred_user_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Profissional</FormLabel>
+                    <Select value={field.value || "any"} onValueChange={(value) => field.onChange(value === "any" ? "" : value)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Qualquer profissional" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="any">Qualquer profissional</SelectItem>
+                        {clinicUsers
+                          .filter((user: any) => user.is_professional === true)
+                          .map((user: any) => (
+                            <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="preferred_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dias preferidos</FormLabel>
+                    <div className="flex flex-wrap gap-2">
+                      {weekDays.map((day) => {
+                        const selected = field.value.includes(day.key);
+                        return (
+                          <Button
+                            key={day.key}
+                            type="button"
+                            size="sm"
+                            variant={selected ? "default" : "outline"}
+                            className="text-xs"
+                            onClick={() => field.onChange(selected
+                              ? field.value.filter((key) => key !== day.key)
+                              : [...field.value, day.key]
+                            )}
+                          >
+                            {day.label}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="preferred_start_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>A partir de</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="preferred_end_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Até</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="duration_minutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duração</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="15">15 minutos</SelectItem>
+                          <SelectItem value="30">30 minutos</SelectItem>
+                          <SelectItem value="45">45 minutos</SelectItem>
+                          <SelectItem value="60">1 hora</SelectItem>
+                          <SelectItem value="90">1h30</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Prioridade</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="0">Normal</SelectItem>
+                          <SelectItem value="1">Alta</SelectItem>
+                          <SelectItem value="2">Urgente</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Observações</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={createEntryMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+                  {createEntryMutation.isPending ? "Salvando..." : "Adicionar"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
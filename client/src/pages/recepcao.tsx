@@ -0,0 +1,221 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Clock, LogIn, Megaphone, CheckCircle, User, Timer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useClinicEvents } from "@/hooks/useClinicEvents";
+import { queryClient } from "@/lib/queryClient";
+import { format, differenceInMinutes } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Appointment } from "../../../server/domains/appointments/appointments.schema";
+import type { AppointmentStatus } from "@shared/appointment-status";
+import { DEFAULT_CLINIC_TIMEZONE, getZonedDateKey, toZonedTime } from "@shared/timezone";
+
+// Columns of the board, in the order a patient moves through them
+const boardColumns: { key: string; title: string; statuses: string[]; headerClass: string }[] = [
+  { key: 'expected', title: 'Previstos', statuses: ['agendada', 'confirmada'], headerClass: 'text-blue-700' },
+  { key: 'waiting', title: 'Aguardando', statuses: ['paciente_aguardando'], headerClass: 'text-amber-700' },
+  { key: 'in_progress', title: 'Em atendimento', statuses: ['paciente_em_atendimento'], headerClass: 'text-indigo-700' },
+  { key: 'done', title: 'Finalizados', statuses: ['finalizada'], headerClass: 'text-purple-700' },
+];
+
+// Action offered on each card, moving the patient to the next column
+const boardActions: Record<string, { label: string; status: AppointmentStatus; icon: typeof LogIn; className: string }> = {
+  agendada: { label: 'Check-in', status: 'paciente_aguardando', icon: LogIn, className: 'bg-blue-600 hover:bg-blue-700' },
+  confirmada: { label: 'Check-in', status: 'paciente_aguardando', icon: LogIn, className: 'bg-blue-600 hover:bg-blue-700' },
+  paciente_aguardando: { label: 'Chamar', status: 'paciente_em_atendimento', icon: Megaphone, className: 'bg-amber-600 hover:bg-amber-700' },
+  paciente_em_atendimento: { label: 'Finalizar', status: 'finalizada', icon: CheckCircle, className: 'bg-indigo-600 hover:bg-indigo-700' },
+};
+
+const formatWaitingTime = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h${(minutes % 60).toString().padStart(2, '0')}`;
+
+export function Recepcao() {
+  const { toast } = useToast();
+  const [now, setNow] = useState(new Date());
+
+  const { data: clinic } = useQuery<{ timezone?: string | null }>({
+    queryKey: ["/api/clinic/1/config"],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/config');
+      if (!response.ok) throw new Error('Failed to fetch clinic config');
+      return response.json();
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  // "Today" and the times shown are the clinic's, not the browser's
+  const clinicTimezone = clinic?.timezone || DEFAULT_CLINIC_TIMEZONE;
+  const today = getZonedDateKey(now, clinicTimezone);
+  const formatClinicTime = (value: string | Date) => format(toZonedTime(value, clinicTimezone), 'HH:mm');
+
+  // Other reception and professional browsers see check-ins as they happen
+  useClinicEvents(1);
+
+  // Waiting times tick without refetching
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: appointments = [], isLoading } = useQuery<(Appointment & { is_google_calendar_event?: boolean })[]>({
+    queryKey: ['/api/appointments', { clinic_id: 1, date: today }],
+    queryFn: async () => {
+      const response = await fetch(`/api/appointments?clinic_id=1&date=${today}`);
+      if (!response.ok) throw new Error('Failed to fetch appointments');
+      return response.json();
+    },
+  });
+
+  const { data: contacts = [] } = useQuery({
+    queryKey: ['/api/contacts', { clinic_id: 1 }],
+    queryFn: async () => {
+      const response = await fetch('/api/contacts?clinic_id=1');
+      if (!response.ok) throw new Error('Failed to fetch contacts');
+      return response.json();
+    },
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+
+  const { data: clinicUsers = [] } = useQuery({
+    queryKey: ['/api/clinic/1/users/management'],
+    queryFn: async () => {
+      const response = await fetch('/api/clinic/1/users/management');
+      if (!response.ok) throw new Error('Failed to fetch clinic users');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Status changes go through the same lifecycle checks as the agenda
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ appointmentId, status }: { appointmentId: number; status: AppointmentStatus }) => {
+      const response = await fetch(`/api/appointments/${appointmentId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status }),
+        headers: { 'Content-Type': 'application/json' }
+      });
+      if (response.status === 409) throw new Error('O status da consulta mudou. Atualize o quadro e tente novamente.');
+      if (!response.ok) throw new Error('Não foi possível atualizar o status da consulta.');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Today's appointments grouped by professional, earliest first
+  const professionals = useMemo(() => {
+    const groups = new Map<number, { name: string; appointments: Appointment[] }>();
+    appointments
+      .filter(appointment => !appointment.is_google_calendar_event && appointment.scheduled_date)
+      .sort((a, b) => new Date(a.scheduled_date!).getTime() - new Date(b.scheduled_date!).getTime())
+      .forEach(appointment => {
+        if (!groups.has(appointment.user_id)) {
+          const user = clinicUsers.find((u: any) => u.id === appointment.user_id);
+          groups.set(appointment.user_id, { name: user?.name || appointment.doctor_name || 'Profissional', appointments: [] });
+        }
+        groups.get(appointment.user_id)!.appointments.push(appointment);
+      });
+    return Array.from(groups.entries()).map(([userId, group]) => ({ userId, ...group }));
+  }, [appointments, clinicUsers]);
+
+  const getPatientName = (contactId: number) =>
+    contacts.find((contact: any) => contact.id === contactId)?.name || 'Paciente';
+
+  const waitingCount = appointments.filter(appointment => appointment.status === 'paciente_aguardando').length;
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Recepção</h1>
+          <p className="text-slate-600 capitalize">{format(toZonedTime(now, clinicTimezone), "EEEE, dd 'de' MMMM", { locale: ptBR })}</p>
+        </div>
+        <Badge variant="secondary" className="bg-amber-100 text-amber-800 border-amber-200 text-sm">
+          {waitingCount} {waitingCount === 1 ? 'paciente aguardando' : 'pacientes aguardando'}
+        </Badge>
+      </div>
+
+      {isLoading ? (
+        <p className="text-slate-500 text-sm">Carregando consultas de hoje...</p>
+      ) : professionals.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 rounded-lg border">
+          <Clock className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-slate-700 mb-2">Nenhuma consulta hoje</h3>
+          <p className="text-slate-600">As consultas do dia aparecem aqui para check-in.</p>
+        </div>
+      ) : (
+        professionals.map((professional) => (
+          <Card key={professional.userId}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <User className="w-5 h-5 text-slate-600" />
+                {professional.name}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+                {boardColumns.map((column) => {
+                  const columnAppointments = professional.appointments.filter(appointment => column.statuses.includes(appointment.status));
+
+                  return (
+                    <div key={column.key} className="bg-slate-50 rounded-lg p-3 space-y-2">
+                      <div className={`text-sm font-semibold ${column.headerClass}`}>
+                        {column.title} ({columnAppointments.length})
+                      </div>
+                      {columnAppointments.map((appointment) => {
+                        const action = boardActions[appointment.status];
+                        const waitingMinutes = appointment.status === 'paciente_aguardando' && appointment.arrived_at
+                          ? Math.max(0, differenceInMinutes(now, new Date(appointment.arrived_at)))
+                          : null;
+
+                        return (
+                          <div key={appointment.id} className="bg-white border rounded-lg p-3 space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium text-slate-800 truncate">{getPatientName(appointment.contact_id)}</span>
+                              <span className="text-sm text-slate-500">{formatClinicTime(appointment.scheduled_date!)}</span>
+                            </div>
+                            {waitingMinutes !== null && (
+                              <div className={`flex items-center gap-1 text-xs ${waitingMinutes >= 30 ? 'text-red-600' : 'text-amber-700'}`}>
+                                <Timer className="w-3 h-3" />
+                                Aguardando há {formatWaitingTime(waitingMinutes)}
+                              </div>
+                            )}
+                            {appointment.status === 'paciente_em_atendimento' && appointment.started_at && (
+                              <div className="text-xs text-slate-500">Início às {formatClinicTime(appointment.started_at)}</div>
+                            )}
+                            {appointment.status === 'finalizada' && appointment.finished_at && (
+                              <div className="text-xs text-slate-500">Término às {formatClinicTime(appointment.finished_at)}</div>
+                            )}
+                            {action && (
+                              <Button
+                                size="sm"
+                                className={`w-full ${action.className}`}
+                                onClick={() => updateStatusMutation.mutate({ appointmentId: appointment.id, status: action.status })}
+                                disabled={updateStatusMutation.isPending}
+                              >
+                                <action.icon className="w-4 h-4 mr-1" />
+                                {action.label}
+                              </Button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { Appointment } from "@shared/schema";
+import { isGroupSession } from "./group-session-service";
+
+// clinic_settings key of the self-service cutoff: no patient changes closer than this to the appointment
+export const SELF_SERVICE_SETTING_KEYS = {
+  cutoffHours: 'self_service_cutoff_hours',
+} as const;
+
+const DEFAULT_CUTOFF_HOURS = 24;
+// Links of appointments without a date stay valid this long
+const UNDATED_LINK_TTL_MS = 30 * 24 * 3600000;
+
+// Statuses a patient may still cancel or reschedule from the link
+const SELF_SERVICE_STATUSES = ['agendada', 'confirmada'];
+
+export const selfServiceCancelSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+export const selfServiceRescheduleSchema = z.object({
+  startTime: z.string().datetime(),
+});
+
+/**
+ * Anyone holding the secret can act on any appointment, so the public development
+ * fallback is only used with NODE_ENV=development. Without a secret no link is
+ * issued or accepted.
+ */
+function getLinkSecret(): string | null {
+  const secret = process.env.APPOINTMENT_LINK_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+  return process.env.NODE_ENV === 'development' ? 'default-appointment-link-secret-for-dev' : null;
+}
+
+export function isAppointmentLinkConfigured(): boolean {
+  return getLinkSecret() !== null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Token of the patient's management link: "<appointment id>.<expiry in unix seconds>.<HMAC>".
+ * It expires when the appointment starts, so a rescheduled appointment gets a new one.
+ */
+export function createAppointmentLinkToken(appointment: Pick<Appointment, 'id' | 'scheduled_date'>, now: Date = new Date()): string {
+  const secret = getLinkSecret();
+  if (!secret) {
+    throw new Error('Appointment link secret not configured');
+  }
+  const expiresAt = appointment.scheduled_date
+    ? new Date(appointment.scheduled_date).getTime()
+    : now.getTime() + UNDATED_LINK_TTL_MS;
+  const payload = `${appointment.id}.${Math.floor(expiresAt / 1000)}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+// Appointment id of a valid, unexpired token; null otherwise
+export function verifyAppointmentLinkToken(token: string, now: Date = new Date()): number | null {
+  const secret = getLinkSecret();
+  const [id, expiresAt, signature] = token.split('.');
+  if (!secret || !id || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${id}.${expiresAt}`, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  if (parseInt(expiresAt) * 1000 <= now.getTime()) return null;
+  const appointmentId = parseInt(id);
+  return isNaN(appointmentId) ? null : appointmentId;
+}
+
+// Null when links are not configured, so messages and booking responses simply leave it out
+export function getAppointmentLinkPath(appointment: Pick<Appointment, 'id' | 'scheduled_date'>): string | null {
+  return isAppointmentLinkConfigured() ? `/consulta/${createAppointmentLinkToken(appointment)}` : null;
+}
+
+/**
+ * Rules of the patient's self-service page: which appointments can still be
+ * cancelled or rescheduled from the link, given the clinic cutoff.
+ */
+export class AppointmentLinkService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getCutoffHours(clinicId: number): Promise<number> {
+    const setting = await this.storage.getClinicSetting(clinicId, SELF_SERVICE_SETTING_KEYS.cutoffHours);
+    const value = setting ? parseInt(setting.setting_value) : NaN;
+    return isNaN(value) || value < 0 ? DEFAULT_CUTOFF_HOURS : value;
+  }
+
+  // Last moment the patient may change the appointment; null when it has no date
+  getChangeDeadline(appointment: Appointment, cutoffHours: number): Date | null {
+    if (!appointment.scheduled_date) return null;
+    return new Date(new Date(appointment.scheduled_date).getTime() - cutoffHours * 3600000);
+  }
+
+  /**
+   * Throws when the patient may no longer change the appointment: it is not an open
+   * individual appointment, or the cutoff before its start has passed.
+   */
+  assertCanChange(appointment: Appointment, cutoffHours: number, now: Date = new Date()): void {
+    if (!SELF_SERVICE_STATUSES.includes(appointment.status) || isGroupSession(appointment)) {
+      throw new Error('Appointment cannot be changed');
+    }
+    const deadline = this.getChangeDeadline(appointment, cutoffHours);
+    if (!deadline || deadline <= now) {
+      throw new Error('Change cutoff passed');
+    }
+  }
+
+  canChange(appointment: Appointment, cutoffHours: number, now: Date = new Date()): boolean {
+    try {
+      this.assertCanChange(appointment, cutoffHours, now);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
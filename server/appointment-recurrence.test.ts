@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateOccurrenceDates, shiftOccurrenceDate } from "./appointment-recurrence";
+
+const NEW_YORK = 'America/New_York';
+const SAO_PAULO = 'America/Sao_Paulo';
+
+const iso = (dates: (Date | null)[]) => dates.map(date => date?.toISOString());
+
+test("weekly occurrences keep their wall-clock time across the spring-forward change", () => {
+  // 10:00 EST, then 10:00 EDT after 2026-03-08
+  const dates = generateOccurrenceDates(new Date('2026-03-02T15:00:00.000Z'), { frequency: 'weekly', count: 3 }, NEW_YORK);
+  assert.deepEqual(iso(dates), [
+    '2026-03-02T15:00:00.000Z',
+    '2026-03-09T14:00:00.000Z',
+    '2026-03-16T14:00:00.000Z',
+  ]);
+});
+
+test("weekly occurrences keep their wall-clock time across the fall-back change", () => {
+  const dates = generateOccurrenceDates(new Date('2026-10-26T13:00:00.000Z'), { frequency: 'weekly', count: 2 }, NEW_YORK);
+  assert.deepEqual(iso(dates), ['2026-10-26T13:00:00.000Z', '2026-11-02T14:00:00.000Z']);
+});
+
+test("late-evening São Paulo series stay on the same local weekday", () => {
+  // Mondays at 23:30 in São Paulo are Tuesdays in UTC
+  const dates = generateOccurrenceDates(new Date('2026-05-12T02:30:00.000Z'), { frequency: 'biweekly', count: 3 }, SAO_PAULO);
+  assert.deepEqual(iso(dates), [
+    '2026-05-12T02:30:00.000Z',
+    '2026-05-26T02:30:00.000Z',
+    '2026-06-09T02:30:00.000Z',
+  ]);
+});
+
+test("until is an inclusive calendar day", () => {
+  const dates = generateOccurrenceDates(
+    new Date('2026-05-04T13:00:00.000Z'),
+    { frequency: 'weekly', until: new Date('2026-05-18') },
+    SAO_PAULO
+  );
+  assert.equal(dates.length, 3);
+});
+
+test("monthly series starting on the 31st clamp without drifting", () => {
+  const dates = generateOccurrenceDates(new Date('2026-01-31T13:00:00.000Z'), { frequency: 'monthly', count: 3 }, SAO_PAULO);
+  assert.deepEqual(iso(dates), [
+    '2026-01-31T13:00:00.000Z',
+    '2026-02-28T13:00:00.000Z',
+    '2026-03-31T13:00:00.000Z',
+  ]);
+});
+
+test("shifting a series moves every occurrence by the same wall-clock change across DST", () => {
+  // The 2026-03-02 occurrence moves from 10:00 to 11:00; the one after the change must land on 11:00 EDT
+  const shifted = shiftOccurrenceDate(
+    new Date('2026-03-09T14:00:00.000Z'),
+    new Date('2026-03-02T15:00:00.000Z'),
+    new Date('2026-03-02T16:00:00.000Z'),
+    NEW_YORK
+  );
+  assert.equal(shifted?.toISOString(), '2026-03-09T15:00:00.000Z');
+});
+
+test("shifting across midnight moves occurrences to the next local day", () => {
+  const shifted = shiftOccurrenceDate(
+    new Date('2026-05-19T02:00:00.000Z'),
+    new Date('2026-05-12T02:00:00.000Z'),
+    new Date('2026-05-12T03:30:00.000Z'),
+    SAO_PAULO
+  );
+  assert.equal(shifted?.toISOString(), '2026-05-19T03:30:00.000Z');
+});
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import type { Appointment } from "@shared/schema";
+import {
+  DEFAULT_CLINIC_TIMEZONE,
+  addDaysToDateKey,
+  addMonthsToDateKey,
+  getZonedDateKey,
+  getZonedTime,
+  zonedTimeToUtc
+} from "@shared/timezone";
+
+// Hard cap so an open-ended rule (until far in the future) can't flood the agenda
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(["weekly", "biweekly", "monthly"]),
+  count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+  until: z.coerce.date().optional(),
+}).refine(rule => rule.count !== undefined || rule.until !== undefined, {
+  message: "Informe o número de ocorrências (count) ou a data limite (until)",
+});
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// Scope accepted by PUT/DELETE /api/appointments/:id?scope=...
+export const seriesEditScopeSchema = z.enum(["this", "following", "series"]).default("this");
+
+export type SeriesEditScope = z.infer<typeof seriesEditScopeSchema>;
+
+/**
+ * Expands a recurrence rule into the start date of every occurrence,
+ * the first one being `start` itself. Occurrences keep the wall-clock time of
+ * `start` in the clinic timezone, across DST changes. Monthly rules are computed
+ * from the original start so a series starting on the 31st doesn't drift.
+ */
+export function generateOccurrenceDates(start: Date, rule: RecurrenceRule, timeZone: string = DEFAULT_CLINIC_TIMEZONE): Date[] {
+  const dates: Date[] = [];
+  const limit = rule.count ?? MAX_SERIES_OCCURRENCES;
+  const startKey = getZonedDateKey(start, timeZone);
+  const time = getZonedTime(start, timeZone);
+  // "until" is a calendar day; date-only values arrive as UTC midnight
+  const untilKey = rule.until ? rule.until.toISOString().split('T')[0] : undefined;
+
+  for (let i = 0; i < limit; i++) {
+    const dateKey = rule.frequency === "monthly"
+      ? addMonthsToDateKey(startKey, i)
+      : addDaysToDateKey(startKey, (rule.frequency === "biweekly" ? i * 2 : i) * 7);
+
+    if (untilKey && dateKey > untilKey) break;
+    dates.push(i === 0 ? start : zonedTimeToUtc(dateKey, time, timeZone));
+  }
+
+  return dates;
+}
+
+/**
+ * Returns the occurrences affected by an edit on `current` for the given scope.
+ * Occurrences previously edited on their own (recurrence_exception) keep their
+ * changes when the edit targets "following" or the whole series.
+ */
+export function selectSeriesTargets(
+  series: Appointment[],
+  current: Appointment,
+  scope: SeriesEditScope
+): Appointment[] {
+  if (scope === "this" || !current.recurrence_series_id) {
+    return [current];
+  }
+
+  const currentIndex = current.recurrence_index ?? 0;
+  return series.filter(occurrence => {
+    if (occurrence.id === current.id) return true;
+    if (occurrence.recurrence_exception) return false;
+    return scope === "series" || (occurrence.recurrence_index ?? 0) > currentIndex;
+  });
+}
+
+// Wall-clock minutes of an instant in the timezone, counted as if that clock were UTC
+function getWallClockMinutes(date: Date, timeZone: string): number {
+  const [year, month, day] = getZonedDateKey(date, timeZone).split('-').map(Number);
+  const [hour, minute] = getZonedTime(date, timeZone).split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute) / 60000;
+}
+
+/**
+ * Applies the time shift made on the edited occurrence to another occurrence,
+ * e.g. moving one session from 14:00 to 15:00 moves every target one hour.
+ * The shift is taken on the clinic's wall clock, so occurrences on the other
+ * side of a DST change still land on the new time.
+ */
+export function shiftOccurrenceDate(
+  occurrenceDate: Date | null,
+  originalDate: Date | null,
+  updatedDate: Date,
+  timeZone: string = DEFAULT_CLINIC_TIMEZONE
+): Date | null {
+  if (!occurrenceDate || !originalDate) return occurrenceDate;
+  const delta = getWallClockMinutes(updatedDate, timeZone) - getWallClockMinutes(new Date(originalDate), timeZone);
+  const shifted = new Date((getWallClockMinutes(new Date(occurrenceDate), timeZone) + delta) * 60000).toISOString();
+  return zonedTimeToUtc(shifted.slice(0, 10), shifted.slice(11, 16), timeZone);
+}
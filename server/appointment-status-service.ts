@@ -0,0 +1,69 @@
+import type { IStorage } from "./storage";
+import type { Appointment, InsertAppointment } from "@shared/schema";
+import {
+  APPOINTMENT_STATUS_TIMESTAMPS,
+  CANCELLED_APPOINTMENT_STATUSES,
+  canTransitionAppointmentStatus,
+  isAppointmentStatus,
+  type AppointmentStatus
+} from "@shared/appointment-status";
+
+export interface StatusChangeOptions {
+  changedBy?: number | null;
+  reason?: string | null;
+}
+
+/**
+ * Enforces the appointment status lifecycle. Every accepted change stamps the
+ * matching arrival/start/finish time and is appended to the status history.
+ */
+export class AppointmentStatusService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Fields to write for moving an appointment to `status`.
+   * Throws when the status is unknown or the lifecycle does not allow the move.
+   */
+  buildTransition(appointment: Appointment, status: string, options: StatusChangeOptions = {}, now: Date = new Date()): Partial<InsertAppointment> {
+    if (!isAppointmentStatus(status)) {
+      throw new Error('Invalid appointment status');
+    }
+    if (!canTransitionAppointmentStatus(appointment.status, status)) {
+      throw new Error('Invalid status transition');
+    }
+
+    const updates: Partial<InsertAppointment> = { status };
+    const timestampField = APPOINTMENT_STATUS_TIMESTAMPS[status];
+    if (timestampField) {
+      updates[timestampField] = now;
+    }
+    if (CANCELLED_APPOINTMENT_STATUSES.includes(status) && options.reason) {
+      updates.cancellation_reason = options.reason;
+    }
+    return updates;
+  }
+
+  async transition(appointment: Appointment, status: string, options: StatusChangeOptions = {}): Promise<Appointment | undefined> {
+    const updates = this.buildTransition(appointment, status, options);
+    const updated = await this.storage.updateAppointment(appointment.id, updates);
+    if (updated) {
+      await this.recordTransition(appointment, status as AppointmentStatus, options);
+    }
+    return updated;
+  }
+
+  async recordTransition(appointment: Appointment, status: AppointmentStatus, options: StatusChangeOptions = {}): Promise<void> {
+    await this.storage.createAppointmentStatusHistory({
+      appointment_id: appointment.id,
+      clinic_id: appointment.clinic_id,
+      from_status: appointment.status,
+      to_status: status,
+      changed_by: options.changedBy ?? null,
+      reason: options.reason ?? null
+    });
+  }
+}
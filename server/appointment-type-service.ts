@@ -0,0 +1,63 @@
+import type { IStorage } from "./storage";
+import type { AppointmentType, InsertAppointment } from "@shared/schema";
+
+// Preparation and cleanup around an appointment, in minutes
+export interface AppointmentBuffers {
+  before: number;
+  after: number;
+}
+
+export const NO_BUFFERS: AppointmentBuffers = { before: 0, after: 0 };
+
+export function getTypeBuffers(types: AppointmentType[], typeKey?: string | null): AppointmentBuffers {
+  const type = typeKey ? types.find(candidate => candidate.key === typeKey) : undefined;
+  return type ? { before: type.buffer_before_minutes, after: type.buffer_after_minutes } : NO_BUFFERS;
+}
+
+/**
+ * The time an appointment keeps the professional busy: the appointment itself
+ * plus the preparation before and the cleanup after it.
+ */
+export function getOccupiedInterval(start: Date, durationMinutes: number, buffers: AppointmentBuffers): { start: Date; end: Date } {
+  return {
+    start: new Date(start.getTime() - buffers.before * 60000),
+    end: new Date(start.getTime() + (durationMinutes + buffers.after) * 60000),
+  };
+}
+
+/**
+ * Clinic catalog of appointment types. Appointments reference a type by its key
+ * (appointments.appointment_type), so legacy free-text types keep working.
+ */
+export class AppointmentTypeService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async findByKey(clinicId: number, typeKey?: string | null): Promise<AppointmentType | undefined> {
+    if (!typeKey) return undefined;
+    const types = await this.storage.getAppointmentTypes(clinicId);
+    return types.find(type => type.key === typeKey);
+  }
+
+  /**
+   * Fills the duration and price the request left out from the catalog, and
+   * checks the professional is allowed to perform the type.
+   */
+  async applyCatalogDefaults(appointment: InsertAppointment, requestBody: Record<string, any>): Promise<InsertAppointment> {
+    const type = await this.findByKey(appointment.clinic_id, appointment.appointment_type);
+    if (!type) return appointment;
+
+    if (type.professional_ids?.length && !type.professional_ids.includes(appointment.user_id)) {
+      throw new Error('Professional not allowed for appointment type');
+    }
+
+    return {
+      ...appointment,
+      duration_minutes: requestBody.duration_minutes == null ? type.default_duration_minutes : appointment.duration_minutes,
+      payment_amount: requestBody.payment_amount == null ? type.default_price_cents : appointment.payment_amount,
+    };
+  }
+}
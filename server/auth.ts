@@ -1,6 +1,6 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -45,7 +45,7 @@ async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
-export function setupAuth(app: Express, storage: IStorage) {
+export function setupAuth(app: Express, storage: IStorage): RequestHandler[] {
   // Use memory store instead of PostgreSQL due to connection issues
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || 'default-session-secret-for-dev',
@@ -59,9 +59,9 @@ export function setupAuth(app: Express, storage: IStorage) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
-  app.use(passport.initialize());
-  app.use(passport.session());
+  // Also run on WebSocket upgrades, which don't go through express (server/realtime.ts)
+  const sessionMiddleware: RequestHandler[] = [session(sessionSettings), passport.initialize(), passport.session()];
+  app.use(...sessionMiddleware);
 
   passport.use(
     new LocalStrategy(
@@ -206,6 +206,8 @@ export function setupAuth(app: Express, storage: IStorage) {
       role: user.role
     });
   });
+
+  return sessionMiddleware;
 }
 
 // Middleware to check if user is authenticated
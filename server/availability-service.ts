@@ -0,0 +1,444 @@
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import { appointmentResourceIdsSchema, type Appointment, type ClinicResource, type ExternalCalendarEvent } from "@shared/schema";
+import { DEFAULT_CLINIC_TIMEZONE, getDateKeyWeekday, getZonedDateKey, getZonedTime } from "@shared/timezone";
+import { WEEK_DAYS } from "./working-hours-service";
+import { isOfferActive } from "./waitlist-service";
+import { findOverlappingClosure } from "@shared/clinic-closures";
+import { getOccupiedInterval, getTypeBuffers } from "./appointment-type-service";
+import { recurrenceRuleSchema } from "./appointment-recurrence";
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface ConflictDetails {
+  id: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  location?: string;
+  professionalId?: number;
+  professionalName?: string;
+  resourceId?: number;
+  resourceName?: string;
+}
+
+export interface IntervalAvailability extends TimeInterval {
+  available: boolean;
+  conflictType?: 'clinic_closure' | 'appointment' | 'waitlist_hold' | 'resource' | 'google_calendar';
+  conflictDetails?: ConflictDetails;
+}
+
+export interface AvailabilityOptions {
+  excludeAppointmentIds?: number[];
+  excludeSeriesId?: string | null;
+  clinicId: number;
+  // Only this professional's agenda blocks the interval, so other professionals can be booked in parallel
+  professionalId?: number;
+  // Rooms/equipment the appointment reserves; each one is checked against its capacity and hours
+  resourceIds?: number[];
+  // Tentative waitlist holds that must not block the interval (e.g. the hold being confirmed)
+  excludeWaitlistOfferIds?: number[];
+  // Catalog type key of the appointment being booked; its preparation/cleanup buffers must be free too
+  appointmentType?: string | null;
+}
+
+// Body of POST /api/availability/check. The clinic is required: it scopes the agenda and
+// brings its closures, type buffers and resources
+export const availabilityCheckSchema = z.object({
+  startDateTime: z.coerce.date(),
+  endDateTime: z.coerce.date(),
+  clinicId: z.coerce.number().int().positive(),
+  professionalId: z.coerce.number().int().positive().nullish(),
+  excludeAppointmentId: z.coerce.number().int().positive().nullish(),
+  excludeSeriesId: z.string().nullish(),
+  recurrence: recurrenceRuleSchema.optional(),
+  resourceIds: appointmentResourceIdsSchema,
+  appointmentType: z.string().nullish(),
+});
+
+// Body of POST /api/availability/find-slots
+export const findSlotsSchema = z.object({
+  date: z.string().refine(date => !isNaN(new Date(date).getTime()), 'Invalid date'),
+  clinicId: z.coerce.number().int().positive(),
+  professionalId: z.coerce.number().int().positive().nullish(),
+  resourceIds: appointmentResourceIdsSchema,
+  appointmentType: z.string().nullish(),
+  duration: z.number().int().positive().nullish(),
+});
+
+// Appointments that started before the checked range can still run into it
+const APPOINTMENT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks time intervals against the clinic closures, the clinic agenda, the reserved
+ * rooms/equipment and the cached events of the linked calendars. Appointments and calendar events are loaded once for
+ * the whole span, so checking every occurrence of a recurring series costs the same
+ * as checking a single slot.
+ */
+export class AvailabilityService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async checkIntervals(intervals: TimeInterval[], options: AvailabilityOptions): Promise<IntervalAvailability[]> {
+    if (intervals.length === 0) return [];
+
+    const rangeStart = new Date(Math.min(...intervals.map(interval => interval.start.getTime())));
+    const rangeEnd = new Date(Math.max(...intervals.map(interval => interval.end.getTime())));
+
+    // Appointments keep the professional busy through their preparation and cleanup buffers,
+    // so the ones starting shortly after the range can still conflict
+    const appointmentTypes = options.clinicId ? await this.storage.getAppointmentTypes(options.clinicId) : [];
+    const requestedBuffers = getTypeBuffers(appointmentTypes, options.appointmentType);
+    const lookaheadMinutes = requestedBuffers.after + Math.max(0, ...appointmentTypes.map(type => type.buffer_before_minutes));
+
+    const excludedIds = options.excludeAppointmentIds || [];
+    const scopedAppointments = await this.storage.getAppointmentsByDateRange(
+      new Date(rangeStart.getTime() - APPOINTMENT_LOOKBACK_MS),
+      new Date(rangeEnd.getTime() + lookaheadMinutes * 60000),
+      { clinicId: options.clinicId, userId: options.professionalId }
+    );
+    const existingAppointments = scopedAppointments
+      .filter(apt => apt.scheduled_date && !excludedIds.includes(apt.id))
+      .filter(apt => !options.excludeSeriesId || apt.recurrence_series_id !== options.excludeSeriesId);
+
+    // Slots held for a waitlisted contact count as taken until confirmed, skipped or expired
+    const excludedOfferIds = options.excludeWaitlistOfferIds || [];
+    const holds = (await this.storage.getWaitlistOffers({
+      clinicId: options.clinicId,
+      userId: options.professionalId,
+      status: 'pending',
+      slotRange: { start: new Date(rangeStart.getTime() - APPOINTMENT_LOOKBACK_MS), end: rangeEnd }
+    })).filter(offer => isOfferActive(offer) && !excludedOfferIds.includes(offer.id));
+
+    // Events created by our own Google sync are already covered by the appointments above, and
+    // the ones written for the excluded appointments (being moved, or cancelled and not yet
+    // removed from the calendar cache) go with them
+    const syncedEventIds = new Set(scopedAppointments.map(apt => apt.google_calendar_event_id).filter(Boolean));
+    for (const appointmentId of excludedIds) {
+      const excluded = scopedAppointments.find(apt => apt.id === appointmentId) ?? await this.storage.getAppointment(appointmentId);
+      if (excluded?.google_calendar_event_id) syncedEventIds.add(excluded.google_calendar_event_id);
+      for (const link of await this.storage.getCalendarEventLinks(appointmentId)) {
+        syncedEventIds.add(link.external_id);
+      }
+    }
+    const calendarEvents = (await this.getCalendarEvents(rangeStart, rangeEnd, options))
+      .filter(event => !syncedEventIds.has(event.external_id));
+    const professionalName = options.professionalId
+      ? (await this.storage.getUser(options.professionalId))?.name
+      : undefined;
+    const resourceConflicts = await this.checkResources(intervals, options.resourceIds || [], options);
+
+    // Holidays and maintenance days, compared on the clinic's wall clock
+    const closures = options.clinicId ? await this.storage.getClinicClosures(options.clinicId) : [];
+    const clinic = closures.length > 0 ? await this.storage.getClinic(options.clinicId!) : undefined;
+    const timeZone = clinic?.timezone || DEFAULT_CLINIC_TIMEZONE;
+
+    const results: IntervalAvailability[] = [];
+    for (let index = 0; index < intervals.length; index++) {
+      const interval = intervals[index];
+      const occupied = getOccupiedInterval(
+        interval.start,
+        (interval.end.getTime() - interval.start.getTime()) / 60000,
+        requestedBuffers
+      );
+
+      const dateKey = getZonedDateKey(interval.start, timeZone);
+      const closure = closures.length > 0
+        ? findOverlappingClosure(
+            closures,
+            dateKey,
+            getZonedTime(interval.start, timeZone),
+            getZonedDateKey(interval.end, timeZone) === dateKey ? getZonedTime(interval.end, timeZone) : '24:00'
+          )
+        : undefined;
+
+      if (closure) {
+        results.push({
+          ...interval,
+          available: false,
+          conflictType: 'clinic_closure',
+          conflictDetails: {
+            id: closure.id.toString(),
+            title: closure.reason,
+            startTime: interval.start.toISOString(),
+            endTime: interval.end.toISOString()
+          }
+        });
+        continue;
+      }
+      const conflictingAppointment = existingAppointments.find(apt => {
+        const busy = getOccupiedInterval(
+          new Date(apt.scheduled_date!),
+          apt.duration_minutes || 60,
+          getTypeBuffers(appointmentTypes, apt.appointment_type)
+        );
+        return busy.start < occupied.end && busy.end > occupied.start;
+      });
+
+      if (conflictingAppointment) {
+        const contact = await this.storage.getContact(conflictingAppointment.contact_id);
+        results.push({
+          ...interval,
+          available: false,
+          conflictType: 'appointment',
+          conflictDetails: {
+            id: conflictingAppointment.id.toString(),
+            title: `${conflictingAppointment.doctor_name} - ${contact?.name || 'Paciente'}`,
+            startTime: new Date(conflictingAppointment.scheduled_date!).toISOString(),
+            endTime: new Date(new Date(conflictingAppointment.scheduled_date!).getTime() +
+                             (conflictingAppointment.duration_minutes || 60) * 60000).toISOString(),
+            professionalId: conflictingAppointment.user_id,
+            professionalName: conflictingAppointment.doctor_name || professionalName
+          }
+        });
+        continue;
+      }
+
+      const conflictingHold = holds.find(offer =>
+        new Date(offer.slot_start) < interval.end &&
+        new Date(offer.slot_start).getTime() + offer.duration_minutes * 60000 > interval.start.getTime()
+      );
+
+      if (conflictingHold) {
+        results.push({
+          ...interval,
+          available: false,
+          conflictType: 'waitlist_hold',
+          conflictDetails: {
+            id: conflictingHold.id.toString(),
+            title: 'Horário reservado para a lista de espera',
+            startTime: new Date(conflictingHold.slot_start).toISOString(),
+            endTime: new Date(new Date(conflictingHold.slot_start).getTime() + conflictingHold.duration_minutes * 60000).toISOString(),
+            professionalId: conflictingHold.user_id,
+            professionalName
+          }
+        });
+        continue;
+      }
+
+      const resourceConflict = resourceConflicts[index];
+      if (!resourceConflict.available) {
+        results.push(resourceConflict);
+        continue;
+      }
+
+      // All-day events (holidays, reminders) don't take the professional's time
+      const conflictingEvent = calendarEvents.find(event =>
+        !event.all_day && event.starts_at < interval.end && event.ends_at > interval.start
+      );
+
+      if (conflictingEvent) {
+        results.push({
+          ...interval,
+          available: false,
+          conflictType: 'google_calendar',
+          conflictDetails: {
+            id: conflictingEvent.external_id,
+            title: conflictingEvent.summary || 'Evento sem título',
+            startTime: conflictingEvent.starts_at.toISOString(),
+            endTime: conflictingEvent.ends_at.toISOString(),
+            location: conflictingEvent.location || '',
+            professionalId: options.professionalId,
+            professionalName
+          }
+        });
+        continue;
+      }
+
+      results.push({ ...interval, available: true });
+    }
+
+    return results;
+  }
+
+  /**
+   * Checks the intervals against the bookings of the given resources only. A resource
+   * is busy once its overlapping bookings reach its capacity, and closed outside its
+   * opening hours. Used on its own when creating appointments, since a double-booked
+   * room can't be overridden the way a professional conflict can.
+   */
+  async checkResources(
+    intervals: TimeInterval[],
+    resourceIds: number[],
+    options: AvailabilityOptions
+  ): Promise<IntervalAvailability[]> {
+    if (intervals.length === 0) return [];
+    if (resourceIds.length === 0) return intervals.map(interval => ({ ...interval, available: true }));
+
+    const rangeStart = new Date(Math.min(...intervals.map(interval => interval.start.getTime())));
+    const rangeEnd = new Date(Math.max(...intervals.map(interval => interval.end.getTime())));
+
+    const resources: ClinicResource[] = [];
+    for (const resourceId of resourceIds) {
+      const resource = await this.storage.getClinicResource(resourceId);
+      if (!resource || !resource.is_active || (options.clinicId && resource.clinic_id !== options.clinicId)) {
+        throw new Error('Resource not found');
+      }
+      resources.push(resource);
+    }
+
+    // Opening hours of a resource are wall-clock times of its clinic
+    const clinic = await this.storage.getClinic(resources[0].clinic_id);
+    const timeZone = clinic?.timezone || DEFAULT_CLINIC_TIMEZONE;
+
+    const excludedIds = options.excludeAppointmentIds || [];
+    const bookings = (await this.storage.getResourceBookings(
+      resourceIds,
+      new Date(rangeStart.getTime() - APPOINTMENT_LOOKBACK_MS),
+      rangeEnd
+    ))
+      .filter(booking => booking.appointment.scheduled_date && !excludedIds.includes(booking.appointment.id))
+      .filter(booking => !options.excludeSeriesId || booking.appointment.recurrence_series_id !== options.excludeSeriesId);
+
+    return intervals.map(interval => {
+      for (const resource of resources) {
+        if (!isWithinResourceHours(resource, interval, timeZone)) {
+          return {
+            ...interval,
+            available: false,
+            conflictType: 'resource' as const,
+            conflictDetails: {
+              id: `resource-${resource.id}`,
+              title: `${resource.name} - fora do horário de funcionamento`,
+              startTime: interval.start.toISOString(),
+              endTime: interval.end.toISOString(),
+              resourceId: resource.id,
+              resourceName: resource.name
+            }
+          };
+        }
+
+        const overlapping = bookings
+          .filter(booking => booking.resource_id === resource.id)
+          .map(booking => booking.appointment)
+          .filter(apt => overlaps(apt, interval));
+
+        if (overlapping.length >= resource.capacity) {
+          const blocking = overlapping[0];
+          return {
+            ...interval,
+            available: false,
+            conflictType: 'resource' as const,
+            conflictDetails: {
+              id: blocking.id.toString(),
+              title: `${resource.name} - reservado${blocking.doctor_name ? ` por ${blocking.doctor_name}` : ''}`,
+              startTime: new Date(blocking.scheduled_date!).toISOString(),
+              endTime: getAppointmentEnd(blocking).toISOString(),
+              professionalId: blocking.user_id,
+              professionalName: blocking.doctor_name || undefined,
+              resourceId: resource.id,
+              resourceName: resource.name
+            }
+          };
+        }
+      }
+
+      return { ...interval, available: true };
+    });
+  }
+
+  // Events come from the local copy kept by the calendar sync, so checks never wait on Google
+  private async getCalendarEvents(start: Date, end: Date, options: AvailabilityOptions): Promise<ExternalCalendarEvent[]> {
+    try {
+      // Scoped to the professional's own calendars when one is given
+      const integrations = options.professionalId
+        ? await this.storage.getCalendarIntegrations(options.professionalId)
+        : await this.storage.getAllCalendarIntegrations();
+
+      const integrationIds = integrations
+        .filter(integration => integration.sync_enabled)
+        .filter(integration => !options.clinicId || integration.clinic_id === options.clinicId)
+        .map(integration => integration.id);
+
+      return await this.storage.getExternalCalendarEvents(integrationIds, { start, end });
+    } catch (error) {
+      console.error('Error checking calendar conflicts:', error);
+      // Don't fail the availability check if the calendar events can't be read
+      return [];
+    }
+  }
+}
+
+function getAppointmentEnd(apt: Appointment): Date {
+  return new Date(new Date(apt.scheduled_date!).getTime() + (apt.duration_minutes || 60) * 60000);
+}
+
+function overlaps(apt: Appointment, interval: TimeInterval): boolean {
+  return new Date(apt.scheduled_date!) < interval.end && getAppointmentEnd(apt) > interval.start;
+}
+
+function isWithinResourceHours(resource: ClinicResource, interval: TimeInterval, timeZone: string): boolean {
+  const startKey = getZonedDateKey(interval.start, timeZone);
+
+  if (resource.working_days && resource.working_days.length > 0) {
+    const dayKey = WEEK_DAYS[getDateKeyWeekday(startKey)];
+    if (!resource.working_days.includes(dayKey)) return false;
+  }
+
+  if (resource.open_time && resource.close_time) {
+    const startTime = getZonedTime(interval.start, timeZone);
+    const endTime = getZonedTime(interval.end, timeZone);
+    const endsNextDay = getZonedDateKey(interval.end, timeZone) !== startKey;
+    if (startTime < resource.open_time || endsNextDay || endTime > resource.close_time) return false;
+  }
+
+  return true;
+}
+
+export function serializeIntervalAvailability(result: IntervalAvailability) {
+  return {
+    startTime: result.start.toISOString(),
+    endTime: result.end.toISOString(),
+    available: result.available,
+    conflictType: result.conflictType,
+    conflictDetails: result.conflictDetails
+  };
+}
+
+/**
+ * Splits the free time of a working window into consecutive slots of `durationMs`,
+ * skipping busy blocks. Busy blocks must be sorted by start time.
+ */
+export function findFreeSlots(
+  windowStart: Date,
+  windowEnd: Date,
+  busyBlocks: TimeInterval[],
+  durationMs: number
+): TimeInterval[] {
+  const slots: TimeInterval[] = [];
+  let currentTime = new Date(windowStart);
+
+  const pushSlotsUntil = (limit: Date) => {
+    let slotStart = new Date(currentTime);
+    while (slotStart.getTime() + durationMs <= limit.getTime()) {
+      const slotEnd = new Date(slotStart.getTime() + durationMs);
+      slots.push({ start: slotStart, end: slotEnd });
+      slotStart = slotEnd;
+    }
+  };
+
+  for (const block of busyBlocks) {
+    if (block.end <= windowStart || block.start >= windowEnd) continue;
+
+    // Create slots in the gap before this block
+    if (currentTime < block.start) {
+      pushSlotsUntil(block.start < windowEnd ? block.start : windowEnd);
+    }
+
+    // Update current time to after this block
+    currentTime = new Date(Math.max(currentTime.getTime(), block.end.getTime()));
+  }
+
+  // Slots after the last block until the end of the window
+  if (currentTime < windowEnd) {
+    pushSlotsUntil(windowEnd);
+  }
+
+  return slots;
+}
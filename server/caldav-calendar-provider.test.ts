@@ -0,0 +1,135 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type http from "http";
+import type { AddressInfo } from "net";
+import { CalendarProviderError, type CalendarConnection } from "./calendar-providers";
+import { CalDavCalendarProvider } from "./caldav-calendar-provider";
+import { createCalDavFake } from "./dev/caldav-fake";
+
+const provider = new CalDavCalendarProvider();
+let server: http.Server;
+let connection: CalendarConnection;
+let calendarId = '';
+
+const window = {
+  start: new Date('2026-10-01T00:00:00Z'),
+  end: new Date('2026-12-31T00:00:00Z'),
+};
+
+const input = {
+  summary: 'Consulta - Maria Souza',
+  description: 'Retorno; trazer exames',
+  location: 'Rua das Flores, 123',
+  start: new Date('2026-10-20T13:00:00Z'),
+  end: new Date('2026-10-20T13:30:00Z'),
+  timeZone: 'America/Sao_Paulo',
+};
+
+before(async () => {
+  server = createCalDavFake({ username: 'dev', password: 'app-password' }).listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  connection = { accessToken: 'app-password', username: 'dev', serverUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/` };
+});
+
+after(() => {
+  server.close();
+});
+
+test("finds the calendar through the principal and the calendar home", async () => {
+  const calendars = await provider.listCalendars(connection);
+
+  assert.equal(calendars.length, 1);
+  assert.deepEqual(calendars[0], {
+    id: `${connection.serverUrl}calendars/dev/agenda/`,
+    name: 'Agenda',
+    primary: true,
+    timeZone: 'America/Sao_Paulo',
+  });
+  calendarId = calendars[0].id;
+});
+
+test("rejects a wrong password with a 401", async () => {
+  await assert.rejects(
+    provider.listCalendars({ ...connection, accessToken: 'wrong' }),
+    (error: unknown) => error instanceof CalendarProviderError && error.status === 401
+  );
+});
+
+test("created, updated and deleted events are read back, with the cursor skipping unchanged fetches", async () => {
+  const empty = await provider.listEventChanges(connection, calendarId, null, window);
+  assert.deepEqual(empty.events, []);
+  assert.ok(empty.cursor);
+
+  const created = await provider.createEvent(connection, calendarId, input);
+  assert.ok(created.etag);
+
+  const afterCreate = await provider.listEventChanges(connection, calendarId, empty.cursor, window);
+  assert.equal(afterCreate.fullSync, true);
+  assert.notEqual(afterCreate.cursor, empty.cursor);
+  assert.equal(afterCreate.events.length, 1);
+  assert.equal(afterCreate.events[0].id, created.id);
+  assert.equal(afterCreate.events[0].summary, input.summary);
+  assert.equal(afterCreate.events[0].description, input.description);
+  assert.equal(afterCreate.events[0].location, input.location);
+  assert.deepEqual([afterCreate.events[0].start, afterCreate.events[0].end], [input.start, input.end]);
+  assert.equal(afterCreate.events[0].etag, created.etag);
+
+  // Nothing changed since the cursor: no REPORT, no events
+  const unchanged = await provider.listEventChanges(connection, calendarId, afterCreate.cursor, window);
+  assert.deepEqual(unchanged, { events: [], cursor: afterCreate.cursor, fullSync: false });
+
+  const moved = { ...input, start: new Date('2026-10-20T15:00:00Z'), end: new Date('2026-10-20T15:30:00Z') };
+  const updated = await provider.updateEvent(connection, calendarId, created.id, moved, created.etag);
+  assert.notEqual(updated.etag, created.etag);
+  // The event changed since that etag was read
+  await assert.rejects(
+    provider.updateEvent(connection, calendarId, created.id, input, created.etag),
+    (error: unknown) => error instanceof CalendarProviderError && error.status === 412
+  );
+
+  const afterUpdate = await provider.listEventChanges(connection, calendarId, afterCreate.cursor, window);
+  assert.deepEqual(afterUpdate.events.map(event => [event.id, event.start, event.etag]), [[created.id, moved.start, updated.etag]]);
+
+  await provider.deleteEvent(connection, calendarId, created.id);
+  // Already gone: not an error
+  await provider.deleteEvent(connection, calendarId, created.id);
+
+  const afterDelete = await provider.listEventChanges(connection, calendarId, afterUpdate.cursor, window);
+  assert.deepEqual(afterDelete.events, []);
+  assert.notEqual(afterDelete.cursor, afterUpdate.cursor);
+});
+
+test("reads events written by other clients in local time", async () => {
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'UID:external-1',
+    'DTSTART;TZID=America/Sao_Paulo:20261105T090000',
+    'DURATION:PT1H30M',
+    'SUMMARY:Reunião\\, equipe',
+    'STATUS:TENTATIVE',
+    'BEGIN:VALARM',
+    'TRIGGER:-PT15M',
+    'DESCRIPTION:Lembrete',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+  const response = await fetch(`${calendarId}external-1.ics`, {
+    method: 'PUT',
+    headers: { 'Authorization': `Basic ${Buffer.from('dev:app-password').toString('base64')}`, 'Content-Type': 'text/calendar' },
+    body: ics,
+  });
+  assert.equal(response.status, 201);
+
+  const { events } = await provider.listEventChanges(connection, calendarId, null, window);
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].id, 'external-1');
+  assert.equal(events[0].summary, 'Reunião, equipe');
+  assert.equal(events[0].description, undefined);
+  assert.equal(events[0].status, 'tentative');
+  assert.equal(events[0].start?.toISOString(), '2026-11-05T12:00:00.000Z');
+  assert.equal(events[0].end?.toISOString(), '2026-11-05T13:30:00.000Z');
+});
@@ -0,0 +1,346 @@
+import { randomUUID } from "crypto";
+import { DEFAULT_CLINIC_TIMEZONE, zonedTimeToUtc } from "@shared/timezone";
+import {
+  CalendarProviderError,
+  type CalendarConnection,
+  type CalendarProvider,
+  type ProviderCalendar,
+  type ProviderEvent,
+  type ProviderEventChanges,
+  type ProviderEventInput
+} from "./calendar-providers";
+
+/**
+ * CalDAV calendars (iCloud, Nextcloud, Fastmail, Radicale, ...), with basic auth and
+ * an app-specific password. There is no push: the collection's sync token (or ctag)
+ * tells whether anything changed, and a change re-reads the whole window with
+ * recurrences expanded by the server. The tests run it against server/dev/caldav-fake.ts;
+ * try it against a real server with server/dev/caldav-check.ts.
+ */
+
+// ---- multistatus XML ----
+
+interface DavResponse {
+  href: string;
+  props: Record<string, string>; // inner XML of each property from a 200 propstat, without namespace prefixes
+}
+
+const decodeXml = (value: string) => value
+  .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&#13;/g, '\r')
+  .replace(/&amp;/g, '&');
+
+const innerOf = (xml: string, tag: string) => xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))?.[1];
+
+// Servers pick their own namespace prefixes (d:, D:, cal:, none), so they are dropped before matching
+function parseMultistatus(xml: string): DavResponse[] {
+  const plain = xml.replace(/<(\/?)[\w-]+:/g, '<$1').replace(/\sxmlns(:[\w-]+)?="[^"]*"/g, '');
+  const responses: DavResponse[] = [];
+
+  for (const block of plain.match(/<response(?:\s[^>]*)?>[\s\S]*?<\/response>/g) || []) {
+    const props: Record<string, string> = {};
+    for (const propstat of block.match(/<propstat>[\s\S]*?<\/propstat>/g) || []) {
+      if (!/\s200\s/.test(innerOf(propstat, 'status') || '')) continue;
+      const prop = innerOf(propstat, 'prop') || '';
+      for (const match of prop.match(/<([\w-]+)(?:\s[^>]*)?(?:\/>|>[\s\S]*?<\/\1>)/g) || []) {
+        const name = match.match(/^<([\w-]+)/)![1];
+        props[name] = innerOf(match, name) ?? '';
+      }
+    }
+    responses.push({ href: decodeXml((innerOf(block, 'href') || '').trim()), props });
+  }
+  return responses;
+}
+
+// ---- iCalendar ----
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) => value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+const escapeText = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Properties of each VEVENT, keyed by name (the first occurrence wins)
+function parseVEvents(ics: string): Record<string, IcsProperty>[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: Record<string, IcsProperty>[] = [];
+  let current: Record<string, IcsProperty> | null = null;
+  let depth = 0; // nested components (VALARM) inside the event are skipped
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      depth = 0;
+    } else if (line === 'END:VEVENT' && current) {
+      events.push(current);
+      current = null;
+    } else if (current && line.startsWith('BEGIN:')) {
+      depth++;
+    } else if (current && line.startsWith('END:')) {
+      depth--;
+    } else if (current && depth === 0) {
+      const colon = line.indexOf(':');
+      if (colon < 0) continue;
+      const [name, ...paramParts] = line.slice(0, colon).split(';');
+      const params: Record<string, string> = {};
+      for (const part of paramParts) {
+        const [key, value = ''] = part.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+      }
+      const key = name.toUpperCase();
+      if (!current[key]) current[key] = { params, value: line.slice(colon + 1) };
+    }
+  }
+  return events;
+}
+
+function parseIcsDate(property: IcsProperty | undefined): { date: Date; allDay: boolean } | undefined {
+  if (!property) return undefined;
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second, utc] = match;
+
+  if (!hour) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day)), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), allDay: false };
+  }
+  // Local times are read in their TZID; floating ones in the clinic's default zone
+  const zone = property.params.TZID || DEFAULT_CLINIC_TIMEZONE;
+  try {
+    return { date: zonedTimeToUtc(`${year}-${month}-${day}`, `${hour}:${minute}`, zone), allDay: false };
+  } catch {
+    // Zone names Intl doesn't know (Outlook-style "E. South America Standard Time")
+    return { date: zonedTimeToUtc(`${year}-${month}-${day}`, `${hour}:${minute}`, DEFAULT_CLINIC_TIMEZONE), allDay: false };
+  }
+}
+
+// DURATION values such as PT1H30M or P1D
+function parseIcsDuration(value: string | undefined): number | undefined {
+  const match = value?.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part ?? '0');
+  const ms = ((+weeks * 7 + +days) * 86400 + +hours * 3600 + +minutes * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+const formatIcsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 characters are folded
+const foldLine = (line: string) => line.match(/.{1,73}/g)!.join('\r\n ');
+
+function buildEventIcs(uid: string, input: ProviderEventInput): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Clinica//Agenda//PT',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(input.start)}`,
+    `DTEND:${formatIcsDate(input.end)}`,
+    `SUMMARY:${escapeText(input.summary)}`,
+    ...(input.description ? [`DESCRIPTION:${escapeText(input.description)}`] : []),
+    ...(input.location ? [`LOCATION:${escapeText(input.location)}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// What was written, as the provider would list it back
+function toWrittenEvent(uid: string, input: ProviderEventInput, response: Response): ProviderEvent {
+  return {
+    id: uid,
+    status: 'confirmed',
+    summary: input.summary,
+    description: input.description,
+    location: input.location,
+    start: input.start,
+    end: input.end,
+    allDay: false,
+    etag: response.headers.get('etag') || undefined,
+    updatedAt: new Date(),
+  };
+}
+
+function fromVEvent(vevent: Record<string, IcsProperty>, etag?: string): ProviderEvent | undefined {
+  const uid = vevent.UID?.value;
+  const start = parseIcsDate(vevent.DTSTART);
+  if (!uid || !start) return undefined;
+
+  const durationMs = parseIcsDuration(vevent.DURATION?.value);
+  const end = parseIcsDate(vevent.DTEND)?.date
+    ?? new Date(start.date.getTime() + (durationMs ?? (start.allDay ? 86400000 : 0)));
+  const status = vevent.STATUS?.value.toUpperCase();
+  // Expanded occurrences of a series share the UID and differ by RECURRENCE-ID
+  const recurrenceId = vevent['RECURRENCE-ID']?.value;
+  const modified = parseIcsDate(vevent['LAST-MODIFIED'] || vevent.DTSTAMP);
+
+  return {
+    id: recurrenceId ? `${uid}::${recurrenceId}` : uid,
+    status: status === 'CANCELLED' ? 'cancelled' : status === 'TENTATIVE' ? 'tentative' : 'confirmed',
+    summary: vevent.SUMMARY ? unescapeText(vevent.SUMMARY.value) : undefined,
+    description: vevent.DESCRIPTION ? unescapeText(vevent.DESCRIPTION.value) : undefined,
+    location: vevent.LOCATION ? unescapeText(vevent.LOCATION.value) : undefined,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    etag,
+    updatedAt: modified?.date,
+  };
+}
+
+// ---- provider ----
+
+export class CalDavCalendarProvider implements CalendarProvider {
+  readonly name = 'caldav';
+  readonly label = 'CalDAV (iCloud, Nextcloud, ...)';
+  readonly auth = 'password';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private async request(connection: CalendarConnection, method: string, url: string, body?: string, headers: Record<string, string> = {}): Promise<Response> {
+    const credentials = Buffer.from(`${connection.username || ''}:${connection.accessToken}`).toString('base64');
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        ...(body ? { 'Content-Type': method === 'PUT' ? 'text/calendar; charset=utf-8' : 'application/xml; charset=utf-8' } : {}),
+        ...headers,
+      },
+      body,
+    });
+    if (!response.ok && response.status !== 207) {
+      throw new CalendarProviderError(response.status, `CalDAV ${method} failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  private async propfind(connection: CalendarConnection, url: string, depth: '0' | '1', props: string): Promise<DavResponse[]> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/"><d:prop>${props}</d:prop></d:propfind>`;
+    const response = await this.request(connection, 'PROPFIND', url, body, { 'Depth': depth });
+    return parseMultistatus(await response.text());
+  }
+
+  private resolve(base: string, href: string) {
+    return new URL(href, base).toString();
+  }
+
+  // Calendar home of the account: server URL → principal → calendar-home-set (any step may be skipped)
+  private async findCalendarHome(connection: CalendarConnection): Promise<string> {
+    const serverUrl = connection.serverUrl;
+    if (!serverUrl) {
+      throw new CalendarProviderError(400, 'CalDAV server URL missing');
+    }
+
+    const [root] = await this.propfind(connection, serverUrl, '0', '<d:current-user-principal/><c:calendar-home-set/>');
+    const directHome = innerOf(root?.props['calendar-home-set'] || '', 'href');
+    if (directHome) return this.resolve(serverUrl, decodeXml(directHome.trim()));
+
+    const principalHref = innerOf(root?.props['current-user-principal'] || '', 'href');
+    if (!principalHref) return serverUrl;
+
+    const principalUrl = this.resolve(serverUrl, decodeXml(principalHref.trim()));
+    const [principal] = await this.propfind(connection, principalUrl, '0', '<c:calendar-home-set/>');
+    const homeHref = innerOf(principal?.props['calendar-home-set'] || '', 'href');
+    return homeHref ? this.resolve(principalUrl, decodeXml(homeHref.trim())) : principalUrl;
+  }
+
+  // Calendar ids are the absolute URLs of the calendar collections
+  async listCalendars(connection: CalendarConnection): Promise<ProviderCalendar[]> {
+    const home = await this.findCalendarHome(connection);
+    const responses = await this.propfind(connection, home, '1', '<d:resourcetype/><d:displayname/><c:calendar-timezone/>');
+
+    const calendars = responses
+      .filter(response => /<calendar\s*\/?>/.test(response.props.resourcetype || ''))
+      .map(response => {
+        const timeZone = decodeXml(response.props['calendar-timezone'] || '').match(/TZID:([^\r\n]+)/)?.[1];
+        const url = this.resolve(home, response.href);
+        return {
+          id: url,
+          name: decodeXml(response.props.displayname || '') || decodeURIComponent(url.replace(/\/$/, '').split('/').pop() || url),
+          primary: false,
+          timeZone,
+        };
+      });
+    // CalDAV has no default calendar; the first one stands in for it
+    if (calendars.length > 0) calendars[0].primary = true;
+    return calendars;
+  }
+
+  // Changes when anything in the collection changes: sync-token (RFC 6578) or, on older servers, ctag
+  private async getCollectionVersion(connection: CalendarConnection, calendarId: string): Promise<string | undefined> {
+    const [collection] = await this.propfind(connection, calendarId, '0', '<d:sync-token/><cs:getctag/>');
+    const version = collection?.props['sync-token'] || collection?.props.getctag;
+    return version ? decodeXml(version.trim()) : undefined;
+  }
+
+  async listEventChanges(connection: CalendarConnection, calendarId: string, cursor: string | null | undefined, window: { start: Date; end: Date }): Promise<ProviderEventChanges> {
+    const version = await this.getCollectionVersion(connection, calendarId);
+    if (cursor && version && cursor === version) {
+      return { events: [], cursor, fullSync: false };
+    }
+
+    const range = `start="${formatIcsDate(window.start)}" end="${formatIcsDate(window.end)}"`;
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data><c:expand ${range}/></c:calendar-data></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT"><c:time-range ${range}/></c:comp-filter></c:comp-filter></c:filter>
+</c:calendar-query>`;
+    const response = await this.request(connection, 'REPORT', calendarId, body, { 'Depth': '1' });
+
+    const events: ProviderEvent[] = [];
+    for (const member of parseMultistatus(await response.text())) {
+      const data = member.props['calendar-data'];
+      if (!data) continue;
+      const etag = member.props.getetag ? decodeXml(member.props.getetag.trim()) : undefined;
+      for (const vevent of parseVEvents(decodeXml(data))) {
+        const event = fromVEvent(vevent, etag);
+        if (event) events.push(event);
+      }
+    }
+    return { events, cursor: version, fullSync: true };
+  }
+
+  private eventUrl(calendarId: string, uid: string) {
+    return `${calendarId.replace(/\/?$/, '/')}${encodeURIComponent(uid)}.ics`;
+  }
+
+  async createEvent(connection: CalendarConnection, calendarId: string, input: ProviderEventInput): Promise<ProviderEvent> {
+    const uid = randomUUID();
+    const response = await this.request(connection, 'PUT', this.eventUrl(calendarId, uid), buildEventIcs(uid, input), { 'If-None-Match': '*' });
+    return toWrittenEvent(uid, input, response);
+  }
+
+  // Only events this app created are written, so the event id is the UID of their resource
+  async updateEvent(connection: CalendarConnection, calendarId: string, eventId: string, input: ProviderEventInput, etag?: string): Promise<ProviderEvent> {
+    const response = await this.request(
+      connection,
+      'PUT',
+      this.eventUrl(calendarId, eventId),
+      buildEventIcs(eventId, input),
+      etag ? { 'If-Match': etag } : {}
+    );
+    return toWrittenEvent(eventId, input, response);
+  }
+
+  async deleteEvent(connection: CalendarConnection, calendarId: string, eventId: string): Promise<void> {
+    try {
+      await this.request(connection, 'DELETE', this.eventUrl(calendarId, eventId));
+    } catch (error) {
+      if (error instanceof CalendarProviderError && error.status === 404) return;
+      throw error;
+    }
+  }
+}
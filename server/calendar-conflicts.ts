@@ -0,0 +1,65 @@
+import { z } from "zod";
+import type { Appointment, CalendarEventLink } from "@shared/schema";
+import { normalizeAppointmentStatus } from "@shared/appointment-status";
+import type { ProviderEvent } from "./calendar-providers";
+
+// clinic_settings key of the rule applied when a linked event changes in the external calendar
+export const CALENDAR_CONFLICT_SETTING_KEYS = {
+  policy: 'calendar_conflict_policy',
+} as const;
+
+// clinic_wins: the appointment is written back to the calendar; calendar_wins: the appointment
+// follows the calendar; ask: the professional decides from the review queue
+export const CALENDAR_CONFLICT_POLICIES = ['clinic_wins', 'calendar_wins', 'ask'] as const;
+export type CalendarConflictPolicy = typeof CALENDAR_CONFLICT_POLICIES[number];
+export const DEFAULT_CALENDAR_CONFLICT_POLICY: CalendarConflictPolicy = 'ask';
+
+export const resolveCalendarConflictSchema = z.object({
+  resolution: z.enum(['clinic', 'calendar']),
+});
+
+export type CalendarConflictResolution = z.infer<typeof resolveCalendarConflictSchema>['resolution'];
+
+export type CalendarChange =
+  | { kind: 'moved'; start: Date; end: Date }
+  | { kind: 'deleted' };
+
+// Providers round times differently (CalDAV drops milliseconds, Outlook seconds)
+const TIME_TOLERANCE_MS = 60 * 1000;
+
+// Only appointments still ahead and not yet attended follow the calendar
+const RECONCILED_STATUSES = ['agendada', 'confirmada'];
+
+export function isCalendarConflictPolicy(value: string | null | undefined): value is CalendarConflictPolicy {
+  return !!value && (CALENDAR_CONFLICT_POLICIES as readonly string[]).includes(value);
+}
+
+export function canReconcileAppointment(appointment: Appointment, now: Date = new Date()): boolean {
+  const status = normalizeAppointmentStatus(appointment.status);
+  return !!status && RECONCILED_STATUSES.includes(status) &&
+    !!appointment.scheduled_date && new Date(appointment.scheduled_date) > now;
+}
+
+/**
+ * Whether the event is a version we haven't seen: a different etag, or a later update
+ * time when the provider gives no etag. Our own writes come back with the etag we stored.
+ */
+export function hasCalendarSideChange(link: CalendarEventLink, event: ProviderEvent): boolean {
+  if (event.status === 'cancelled') return true;
+  if (link.etag && event.etag) return link.etag !== event.etag;
+  if (link.external_updated_at && event.updatedAt) return event.updatedAt > new Date(link.external_updated_at);
+  return true;
+}
+
+// What the calendar changed about the appointment's time; null when both sides still agree
+export function detectCalendarChange(appointment: Appointment, event: ProviderEvent): CalendarChange | null {
+  if (event.status === 'cancelled') return { kind: 'deleted' };
+  if (!event.start || !event.end || event.allDay || !appointment.scheduled_date) return null;
+
+  const start = new Date(appointment.scheduled_date).getTime();
+  const end = start + (appointment.duration_minutes || 60) * 60000;
+  if (Math.abs(event.start.getTime() - start) < TIME_TOLERANCE_MS && Math.abs(event.end.getTime() - end) < TIME_TOLERANCE_MS) {
+    return null;
+  }
+  return { kind: 'moved', start: event.start, end: event.end };
+}
@@ -0,0 +1,141 @@
+export type CalendarProviderName = 'google' | 'microsoft' | 'caldav';
+
+// What a provider call needs to reach the user's account
+export interface CalendarConnection {
+  accessToken: string; // OAuth access token; for CalDAV, the account (app-specific) password
+  username?: string | null; // CalDAV login
+  serverUrl?: string | null; // CalDAV server or calendar home URL
+}
+
+export interface ProviderTokens {
+  accessToken: string;
+  refreshToken?: string; // providers that rotate refresh tokens send a new one
+  expiresAt?: Date;
+}
+
+// Result of the OAuth code exchange
+export interface ProviderAccount extends ProviderTokens {
+  email?: string;
+  providerUserId?: string;
+}
+
+export interface ProviderCalendar {
+  id: string;
+  name: string;
+  primary: boolean;
+  timeZone?: string;
+}
+
+export interface ProviderEvent {
+  id: string;
+  status: 'confirmed' | 'tentative' | 'cancelled'; // cancelled = deleted at the provider
+  summary?: string;
+  description?: string;
+  location?: string;
+  start?: Date;
+  end?: Date;
+  allDay: boolean;
+  etag?: string;
+  updatedAt?: Date;
+}
+
+export interface ProviderEventInput {
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  timeZone: string; // IANA zone the event is shown in
+}
+
+export interface ProviderEventChanges {
+  events: ProviderEvent[];
+  cursor?: string; // stored in calendar_integrations.sync_token for the next call
+  // events holds every event of the window: the ones not returned were deleted
+  fullSync: boolean;
+}
+
+export interface WatchRequest {
+  channelId: string; // ignored by providers that assign their own id
+  token: string; // echoed back with every notification
+  address: string;
+  ttlSeconds: number;
+}
+
+export interface WatchResult {
+  channelId: string;
+  resourceId: string;
+  expiration: Date;
+}
+
+/**
+ * HTTP-level failure of a provider call. The sync relies on a few statuses:
+ * 401 the account must be reconnected, 404 the event is gone, 410 the sync cursor
+ * expired and a full sync is needed, 412 the event changed since the given etag.
+ */
+export class CalendarProviderError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'CalendarProviderError';
+    this.status = status;
+  }
+}
+
+/**
+ * An external calendar service. OAuth providers implement the authorization methods;
+ * providers that can push changes implement watch/stopWatch and name their webhook path.
+ */
+export interface CalendarProvider {
+  readonly name: CalendarProviderName;
+  readonly label: string;
+  readonly auth: 'oauth' | 'password';
+  readonly webhookPath?: string;
+
+  // Whether the server has the credentials (client id/secret) the provider needs
+  isConfigured(): boolean;
+
+  getAuthorizationUrl?(state: string, redirectUri: string): string;
+  exchangeCode?(code: string, redirectUri: string): Promise<ProviderAccount>;
+  refreshTokens?(refreshToken: string): Promise<ProviderTokens>;
+
+  listCalendars(connection: CalendarConnection): Promise<ProviderCalendar[]>;
+  /**
+   * Changes since the cursor, or every event of the window when there is none.
+   * Throws a 410 error when the cursor is no longer accepted.
+   */
+  listEventChanges(connection: CalendarConnection, calendarId: string, cursor: string | null | undefined, window: { start: Date; end: Date }): Promise<ProviderEventChanges>;
+  createEvent(connection: CalendarConnection, calendarId: string, input: ProviderEventInput): Promise<ProviderEvent>;
+  // With an etag the update only applies if the event is unchanged (412 otherwise)
+  updateEvent(connection: CalendarConnection, calendarId: string, eventId: string, input: ProviderEventInput, etag?: string): Promise<ProviderEvent>;
+  deleteEvent(connection: CalendarConnection, calendarId: string, eventId: string): Promise<void>;
+
+  watch?(connection: CalendarConnection, calendarId: string, request: WatchRequest): Promise<WatchResult>;
+  stopWatch?(connection: CalendarConnection, channelId: string, resourceId: string): Promise<void>;
+}
+
+const providers = new Map<string, CalendarProvider>();
+
+export function registerCalendarProvider(provider: CalendarProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getCalendarProvider(name: string): CalendarProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown calendar provider: ${name}`);
+  }
+  return provider;
+}
+
+export function getCalendarProviders(): CalendarProvider[] {
+  return Array.from(providers.values());
+}
+
+// Shared by the HTTP providers: JSON error body message when there is one
+export async function readProviderError(response: Response): Promise<CalendarProviderError> {
+  const data: any = await response.json().catch(() => ({}));
+  const message = data.error?.message || data.error_description || (typeof data.error === 'string' ? data.error : '') || response.statusText;
+  return new CalendarProviderError(response.status, message);
+}
@@ -0,0 +1,895 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { Request, Response } from "express";
+import type { IStorage } from "./storage";
+import type {
+  Appointment,
+  CalendarEventLink,
+  CalendarIntegration,
+  CalendarSyncConflict,
+  InsertAppointment,
+  InsertExternalCalendarEvent
+} from "@shared/schema";
+import { CANCELLED_APPOINTMENT_STATUSES } from "@shared/appointment-status";
+import { DEFAULT_CLINIC_TIMEZONE } from "@shared/timezone";
+import {
+  CalendarProviderError,
+  getCalendarProvider,
+  getCalendarProviders,
+  type CalendarConnection,
+  type CalendarProvider,
+  type ProviderAccount,
+  type ProviderEvent,
+  type ProviderEventInput
+} from "./calendar-providers";
+import { formatClinicAddress } from "./message-template-service";
+import type { CalendarTokenManager } from "./calendar-token-manager";
+import { AppointmentStatusService } from "./appointment-status-service";
+import {
+  CALENDAR_CONFLICT_SETTING_KEYS,
+  DEFAULT_CALENDAR_CONFLICT_POLICY,
+  canReconcileAppointment,
+  detectCalendarChange,
+  hasCalendarSideChange,
+  isCalendarConflictPolicy,
+  type CalendarChange,
+  type CalendarConflictPolicy,
+  type CalendarConflictResolution
+} from "./calendar-conflicts";
+import { startIntervalJob } from "./interval-job";
+
+const WATCH_TTL_SECONDS = 7 * 24 * 3600; // the longest Google accepts for event channels
+const RENEWAL_WINDOW_MS = 24 * 3600 * 1000; // channels expiring within a day are replaced
+const RENEWAL_INTERVAL_MS = 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 10 * 60 * 1000; // integrations without a live channel are checked this often
+// A full sync copies the events from 30 days ago to a year ahead
+const SYNC_WINDOW_PAST_MS = 30 * 24 * 3600 * 1000;
+const SYNC_WINDOW_FUTURE_MS = 365 * 24 * 3600 * 1000;
+const OAUTH_STATE_TTL_MS = 15 * 60 * 1000;
+
+// Explicit webhook URLs, e.g. a tunnel in development; otherwise APP_BASE_URL + the provider's path
+const WEBHOOK_URL_ENV: Record<string, string> = {
+  google: 'CALENDAR_WEBHOOK_URL',
+  microsoft: 'MICROSOFT_CALENDAR_WEBHOOK_URL',
+};
+
+// Address the provider posts change notifications to; push sync is off without a public URL
+export function getCalendarWebhookAddress(provider: CalendarProvider): string | undefined {
+  if (!provider.webhookPath || !provider.watch) return undefined;
+  const override = process.env[WEBHOOK_URL_ENV[provider.name]];
+  if (override) return override;
+  return process.env.APP_BASE_URL ? `${process.env.APP_BASE_URL}${provider.webhookPath}` : undefined;
+}
+
+function signOAuthState(payload: string): string {
+  const secret = process.env.CALENDAR_OAUTH_STATE_SECRET || process.env.SESSION_SECRET || 'default-calendar-oauth-secret-for-dev';
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * OAuth "state" of a calendar connection: "<user id>.<clinic id>.<provider>.<expiry>.<HMAC>".
+ * The callback has no session, so it learns from here who is connecting.
+ */
+export function createCalendarOAuthState(userId: string, clinicId: number, provider: string, now: Date = new Date()): string {
+  const payload = `${userId}.${clinicId}.${provider}.${Math.floor((now.getTime() + OAUTH_STATE_TTL_MS) / 1000)}`;
+  return `${payload}.${signOAuthState(payload)}`;
+}
+
+export function verifyCalendarOAuthState(state: string, provider: string, now: Date = new Date()): { userId: string; clinicId: number } | null {
+  const [userId, clinicId, stateProvider, expiresAt, signature] = state.split('.');
+  if (!userId || !clinicId || !expiresAt || !signature || stateProvider !== provider) return null;
+
+  const expected = Buffer.from(signOAuthState(`${userId}.${clinicId}.${stateProvider}.${expiresAt}`));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+  if (parseInt(expiresAt) * 1000 <= now.getTime()) return null;
+
+  return { userId, clinicId: parseInt(clinicId) };
+}
+
+export const caldavConnectSchema = z.object({
+  clinic_id: z.number().int().positive(),
+  server_url: z.string().url(),
+  username: z.string().trim().min(1).max(255),
+  password: z.string().min(1).max(255), // app-specific password (iCloud, Fastmail) or the account password
+});
+
+export const linkedCalendarSchema = z.object({
+  calendar_id: z.string().min(1),
+});
+
+// Change notification from a watch channel (Google) or subscription (Microsoft)
+export interface CalendarNotification {
+  channelId?: string;
+  resourceId?: string;
+  resourceState?: string; // sync (channel created), exists, not_exists; Graph sends created/updated/deleted
+  channelToken?: string;
+}
+
+// Express handler of Google's channel notifications (X-Goog-* headers)
+export function createGoogleCalendarWebhookHandler(calendarSync: Pick<CalendarSyncService, 'handleNotification'>) {
+  return async (req: Request, res: Response) => {
+    try {
+      const accepted = await calendarSync.handleNotification({
+        channelId: req.get('x-goog-channel-id'),
+        resourceId: req.get('x-goog-resource-id'),
+        resourceState: req.get('x-goog-resource-state'),
+        channelToken: req.get('x-goog-channel-token')
+      });
+      if (!accepted) {
+        return res.status(404).json({ error: "Unknown channel" });
+      }
+      res.status(200).send();
+    } catch (error) {
+      console.error("Error handling Google Calendar notification:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+}
+
+// After a sync: the changed events and the appointments that changed to follow them
+export type CalendarChangeListener = (integration: CalendarIntegration, events: ProviderEvent[], appointmentIds: number[]) => void | Promise<void>;
+export type CalendarSyncTrigger = 'webhook' | 'renewal' | 'poll' | 'manual' | 'conflict';
+
+export interface CalendarSyncListeners {
+  onChange?: CalendarChangeListener;
+  // An appointment was moved or cancelled because its calendar event was
+  onAppointmentChanged?: (before: Appointment, after: Appointment) => void | Promise<void>;
+  // A calendar change is waiting in the professional's review queue
+  onConflict?: (conflict: CalendarSyncConflict) => void | Promise<void>;
+}
+
+const CALENDAR_DELETION_REASON = 'Evento removido da agenda externa';
+
+// Row of the local event cache for a provider event; undefined for events without dates
+export function toExternalCalendarEvent(integration: CalendarIntegration, event: ProviderEvent, syncedAt: Date): InsertExternalCalendarEvent | undefined {
+  if (!event.start || !event.end) return undefined;
+
+  return {
+    integration_id: integration.id,
+    clinic_id: integration.clinic_id,
+    user_id: integration.user_id,
+    calendar_id: integration.calendar_id!,
+    external_id: event.id,
+    summary: event.summary ?? null,
+    description: event.description ?? null,
+    location: event.location ?? null,
+    starts_at: event.start,
+    ends_at: event.end,
+    all_day: event.allDay,
+    status: event.status,
+    etag: event.etag ?? null,
+    external_updated_at: event.updatedAt ?? null,
+    last_synced_at: syncedAt,
+  };
+}
+
+export function hasActiveWatch(integration: CalendarIntegration, now: Date = new Date()): boolean {
+  return !!integration.watch_channel_id && !!integration.watch_expires_at && new Date(integration.watch_expires_at) > now;
+}
+
+/**
+ * Keeps the local copy of each linked calendar (external_calendar_events) current,
+ * whatever the provider. Providers that push changes get a watch channel and a
+ * notification triggers an incremental sync from the stored cursor; the others are
+ * polled. Appointments are written to the linked calendars from here, and changes
+ * made to their events in the calendar are reconciled by the clinic's conflict rule.
+ */
+export class CalendarSyncService {
+  private storage: IStorage;
+  private tokens: CalendarTokenManager;
+  private listeners: CalendarSyncListeners;
+  private statusService: AppointmentStatusService;
+  private syncing = new Set<number>();
+  private resyncRequested = new Set<number>();
+
+  constructor(storage: IStorage, tokens: CalendarTokenManager, listeners: CalendarSyncListeners = {}) {
+    this.storage = storage;
+    this.tokens = tokens;
+    this.listeners = listeners;
+    this.statusService = new AppointmentStatusService(storage);
+  }
+
+  /**
+   * Opens a watch channel for the integration's calendar, replacing the current one.
+   * The first full sync stores the cursor later notifications continue from.
+   */
+  async startWatch(integration: CalendarIntegration): Promise<CalendarIntegration | undefined> {
+    const provider = getCalendarProvider(integration.provider);
+    if (!provider.watch || !integration.calendar_id) {
+      throw new Error('Integration cannot be watched');
+    }
+    const address = getCalendarWebhookAddress(provider);
+    if (!address) {
+      throw new Error('Calendar webhook URL not configured');
+    }
+
+    if (integration.watch_channel_id && integration.watch_resource_id) {
+      await this.stopWatch(integration);
+    }
+
+    const connection = await this.tokens.getConnection(integration);
+    const token = randomBytes(24).toString('hex');
+    const channel = await provider.watch(connection, integration.calendar_id, {
+      channelId: randomUUID(),
+      token,
+      address,
+      ttlSeconds: WATCH_TTL_SECONDS,
+    });
+
+    const updated = await this.storage.updateCalendarIntegration(integration.id, {
+      watch_channel_id: channel.channelId,
+      watch_resource_id: channel.resourceId,
+      watch_token: token,
+      watch_expires_at: channel.expiration,
+    });
+
+    if (updated && !updated.sync_token) {
+      await this.syncIntegration(updated, 'renewal');
+    }
+    return updated;
+  }
+
+  // Closes the integration's channel at the provider (best effort) and forgets it
+  async stopWatch(integration: CalendarIntegration): Promise<void> {
+    const provider = getCalendarProvider(integration.provider);
+    if (provider.stopWatch && integration.watch_channel_id && integration.watch_resource_id) {
+      try {
+        const connection = await this.tokens.getConnection(integration);
+        await provider.stopWatch(connection, integration.watch_channel_id, integration.watch_resource_id);
+      } catch (error) {
+        // An expired or unknown channel is already gone at the provider
+        console.warn(`Could not stop calendar channel of integration ${integration.id}:`, (error as Error).message);
+      }
+    }
+    await this.storage.updateCalendarIntegration(integration.id, {
+      watch_channel_id: null,
+      watch_resource_id: null,
+      watch_token: null,
+      watch_expires_at: null,
+    });
+  }
+
+  /**
+   * Handles a channel notification. Returns false when the channel is unknown or its
+   * token doesn't match; Google's initial "sync" message only confirms the channel.
+   * The sync itself runs after the caller has answered the provider.
+   */
+  async handleNotification(notification: CalendarNotification): Promise<boolean> {
+    if (!notification.channelId || !notification.resourceId) return false;
+
+    const integration = await this.storage.getCalendarIntegrationByWebhook(notification.channelId, notification.resourceId);
+    if (!integration?.watch_token || !notification.channelToken) return false;
+
+    const expected = Buffer.from(integration.watch_token);
+    const received = Buffer.from(notification.channelToken);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) return false;
+
+    if (notification.resourceState !== 'sync') {
+      setImmediate(() => {
+        this.syncIntegration(integration, 'webhook').catch(error => {
+          console.error(`Error syncing calendar integration ${integration.id}:`, error);
+        });
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Fetches what changed since the stored cursor and hands it to the change
+   * listener. Notifications that arrive while a sync runs are folded into one more pass.
+   */
+  async syncIntegration(integration: CalendarIntegration, trigger: CalendarSyncTrigger): Promise<ProviderEvent[]> {
+    if (this.syncing.has(integration.id)) {
+      this.resyncRequested.add(integration.id);
+      return [];
+    }
+
+    this.syncing.add(integration.id);
+    try {
+      const changed: ProviderEvent[] = [];
+      let current: CalendarIntegration = integration;
+      do {
+        this.resyncRequested.delete(integration.id);
+        const result = await this.runSync(current, trigger);
+        changed.push(...result.events);
+        current = result.integration;
+      } while (this.resyncRequested.has(integration.id));
+      return changed;
+    } finally {
+      this.syncing.delete(integration.id);
+    }
+  }
+
+  private async runSync(integration: CalendarIntegration, trigger: string) {
+    await this.storage.updateCalendarIntegration(integration.id, { sync_in_progress: true, last_sync_trigger: trigger });
+
+    try {
+      // Read the current row: another pass may have stored a newer cursor
+      const fresh = (await this.storage.getCalendarIntegration(integration.id)) ?? integration;
+      const provider = getCalendarProvider(fresh.provider);
+      const connection = await this.tokens.getConnection(fresh);
+
+      const syncedAt = new Date();
+      const window = {
+        start: new Date(syncedAt.getTime() - SYNC_WINDOW_PAST_MS),
+        end: new Date(syncedAt.getTime() + SYNC_WINDOW_FUTURE_MS),
+      };
+      let changes;
+      try {
+        changes = await provider.listEventChanges(connection, fresh.calendar_id!, fresh.sync_token, window);
+      } catch (error) {
+        // 410 Gone: the provider expired the cursor, start over with a full sync
+        if (error instanceof CalendarProviderError && error.status === 410 && fresh.sync_token) {
+          changes = await provider.listEventChanges(connection, fresh.calendar_id!, null, window);
+        } else {
+          throw error;
+        }
+      }
+
+      await this.storeEvents(fresh, changes.events, syncedAt);
+      if (changes.fullSync) {
+        // Whatever a full sync didn't return was deleted while we weren't listening
+        await this.storage.softDeleteStaleExternalCalendarEvents(fresh.id, syncedAt, window.start);
+      }
+
+      const deleted = changes.fullSync ? await this.findMissingLinkedEvents(fresh, changes.events, window) : [];
+      const appointmentIds = await this.reconcileEvents(fresh, [...changes.events, ...deleted]);
+
+      const updated = await this.storage.updateCalendarIntegration(integration.id, {
+        sync_token: changes.cursor ?? fresh.sync_token,
+        last_sync_at: new Date(),
+        sync_errors: null,
+        sync_in_progress: false,
+      });
+
+      if (changes.events.length > 0 || appointmentIds.length > 0) {
+        await this.listeners.onChange?.(updated ?? fresh, changes.events, appointmentIds);
+      }
+      return { integration: updated ?? fresh, events: changes.events };
+    } catch (error) {
+      await this.tokens.recordFailure(integration, error, { sync_in_progress: false });
+      throw error;
+    }
+  }
+
+  private async storeEvents(integration: CalendarIntegration, events: ProviderEvent[], syncedAt: Date) {
+    const cancelled = events.filter(event => event.status === 'cancelled').map(event => event.id);
+    const rows = events
+      .filter(event => event.status !== 'cancelled')
+      .map(event => toExternalCalendarEvent(integration, event, syncedAt))
+      .filter((row): row is InsertExternalCalendarEvent => !!row);
+
+    await this.storage.upsertExternalCalendarEvents(rows);
+    await this.storage.softDeleteExternalCalendarEvents(integration.id, cancelled, syncedAt);
+  }
+
+  // Clears the sync cursor so the next pass copies the whole calendar again
+  async resync(integration: CalendarIntegration): Promise<CalendarIntegration | undefined> {
+    if (!integration.calendar_id) {
+      throw new Error('Integration cannot be synced');
+    }
+    const reset = await this.storage.updateCalendarIntegration(integration.id, { sync_token: null });
+    await this.syncIntegration(reset ?? integration, 'manual');
+    return this.storage.getCalendarIntegration(integration.id);
+  }
+
+  /**
+   * Incremental sync for integrations a notification won't reach: CalDAV, no live
+   * channel, or push sync not configured at all. Integrations synced recently are skipped.
+   */
+  async pollIntegrations(now: Date = new Date()): Promise<{ synced: number; failed: number }> {
+    const result = { synced: 0, failed: 0 };
+    const integrations = (await this.storage.getAllCalendarIntegrations()).filter(integration =>
+      integration.calendar_id &&
+      integration.is_active &&
+      integration.sync_enabled &&
+      !hasActiveWatch(integration, now) &&
+      (!integration.last_sync_at || new Date(integration.last_sync_at).getTime() <= now.getTime() - POLL_INTERVAL_MS / 2)
+    );
+
+    for (const integration of integrations) {
+      try {
+        await this.syncIntegration(integration, 'poll');
+        result.synced++;
+      } catch (error) {
+        console.error(`Error polling calendar integration ${integration.id}:`, error);
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Replaces channels that expire soon and opens one for integrations that have none.
+   * Each integration fails on its own; the others are still renewed.
+   */
+  async renewWatches(now: Date = new Date()): Promise<{ renewed: number; failed: number }> {
+    const result = { renewed: 0, failed: 0 };
+    const canWatch = (integration: CalendarIntegration) => {
+      const provider = getCalendarProviders().find(candidate => candidate.name === integration.provider);
+      return !!provider && !!getCalendarWebhookAddress(provider);
+    };
+    const expiring = (await this.storage.getCalendarIntegrationsForWebhookRenewal(new Date(now.getTime() + RENEWAL_WINDOW_MS)))
+      .filter(canWatch);
+    const unwatched = (await this.storage.getAllCalendarIntegrations())
+      .filter(integration => integration.calendar_id && integration.sync_enabled && !integration.watch_channel_id && canWatch(integration));
+
+    for (const integration of [...expiring, ...unwatched]) {
+      try {
+        await this.startWatch(integration);
+        result.renewed++;
+      } catch (error) {
+        console.error(`Error renewing calendar channel of integration ${integration.id}:`, error);
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Saves a connected account: a new integration linked to the account's default
+   * calendar, or the existing one for the same address with fresh credentials.
+   * The first sync (and the watch channel, where the provider has one) runs afterwards.
+   */
+  async connect(params: {
+    userId: string;
+    clinicId: number;
+    provider: CalendarProvider;
+    account: ProviderAccount;
+    serverUrl?: string | null; // CalDAV
+  }): Promise<CalendarIntegration> {
+    const { userId, clinicId, provider, account } = params;
+    const connection: CalendarConnection = { accessToken: account.accessToken, username: account.email, serverUrl: params.serverUrl };
+    const calendars = await provider.listCalendars(connection);
+    const calendar = calendars.find(candidate => candidate.primary) || calendars[0];
+    if (!calendar) {
+      throw new Error('No calendars found');
+    }
+
+    const credentials = {
+      access_token: account.accessToken,
+      refresh_token: account.refreshToken ?? null,
+      token_expires_at: account.expiresAt ?? null,
+      server_url: params.serverUrl ?? null,
+    };
+    const email = account.email || calendar.id;
+    const existing = await this.storage.getCalendarIntegrationByUserAndProvider(userId, provider.name, email);
+    const integration = existing
+      ? await this.storage.updateCalendarIntegration(existing.id, {
+          ...credentials,
+          // Keep the refresh token we have when the provider didn't send a new one
+          refresh_token: credentials.refresh_token ?? existing.refresh_token,
+          is_active: true,
+          sync_enabled: true,
+          needs_reconnect: false,
+          sync_errors: null,
+        })
+      : await this.storage.createCalendarIntegration({
+          ...credentials,
+          user_id: userId,
+          clinic_id: clinicId,
+          provider: provider.name,
+          provider_user_id: account.providerUserId ?? null,
+          email,
+          calendar_id: calendar.id,
+          calendar_name: calendar.name,
+        });
+    if (!integration) {
+      throw new Error('Integration not found');
+    }
+
+    setImmediate(() => {
+      const first = getCalendarWebhookAddress(provider)
+        ? this.startWatch(integration)
+        : this.syncIntegration(integration, 'manual');
+      first.catch(error => console.error(`Error starting sync of calendar integration ${integration.id}:`, error));
+    });
+    return integration;
+  }
+
+  /**
+   * Switches the integration to another calendar of the same account. The cursor is
+   * dropped, so the next full sync replaces the cached events of the old calendar.
+   */
+  async linkCalendar(integration: CalendarIntegration, calendarId: string): Promise<CalendarIntegration | undefined> {
+    const provider = getCalendarProvider(integration.provider);
+    const calendars = await provider.listCalendars(await this.tokens.getConnection(integration));
+    const calendar = calendars.find(candidate => candidate.id === calendarId);
+    if (!calendar) {
+      throw new Error('Calendar not found');
+    }
+
+    if (integration.watch_channel_id) {
+      await this.stopWatch(integration);
+    }
+    // Events written to the old calendar are not in the new one; they must not read as deleted
+    for (const link of await this.storage.getCalendarEventLinksForIntegration(integration.id)) {
+      await this.storage.deleteCalendarEventLink(link.id);
+    }
+    const updated = await this.storage.updateCalendarIntegration(integration.id, {
+      calendar_id: calendar.id,
+      calendar_name: calendar.name,
+      sync_token: null,
+    });
+    if (!updated) return undefined;
+
+    if (getCalendarWebhookAddress(provider)) {
+      return this.startWatch(updated);
+    }
+    await this.syncIntegration(updated, 'manual');
+    return this.storage.getCalendarIntegration(updated.id);
+  }
+
+  // Calendar integrations of the appointment's professional in its clinic
+  private async getPushTargets(appointment: Appointment): Promise<CalendarIntegration[]> {
+    return (await this.storage.getCalendarIntegrations(appointment.user_id)).filter(integration =>
+      integration.clinic_id === appointment.clinic_id &&
+      integration.is_active &&
+      integration.sync_enabled &&
+      integration.calendar_id
+    );
+  }
+
+  private async buildEventInput(appointment: Appointment): Promise<ProviderEventInput> {
+    const clinic = await this.storage.getClinic(appointment.clinic_id);
+    const contact = appointment.contact_id ? await this.storage.getContact(appointment.contact_id) : undefined;
+    const start = new Date(appointment.scheduled_date!);
+
+    return {
+      summary: contact ? `Consulta - ${contact.name}` : (appointment.specialty || 'Consulta'),
+      description: [appointment.specialty, appointment.doctor_name].filter(Boolean).join(' - ') || undefined,
+      location: (clinic && formatClinicAddress(clinic)) || undefined,
+      start,
+      end: new Date(start.getTime() + (appointment.duration_minutes || 60) * 60000),
+      timeZone: clinic?.timezone || DEFAULT_CLINIC_TIMEZONE,
+    };
+  }
+
+  /**
+   * Writes the appointment to the professional's calendars, or removes it when it was
+   * cancelled. Failures are recorded on the integration and never thrown: the
+   * appointment itself is already saved.
+   */
+  async pushAppointment(appointment: Appointment): Promise<void> {
+    if (CANCELLED_APPOINTMENT_STATUSES.includes(appointment.status) || !appointment.scheduled_date) {
+      return this.removeAppointment(appointment);
+    }
+
+    for (const integration of await this.getPushTargets(appointment)) {
+      try {
+        await this.writeAppointment(appointment, integration);
+      } catch (error) {
+        console.error(`Error writing appointment ${appointment.id} to calendar integration ${integration.id}:`, error);
+        await this.tokens.recordFailure(integration, error);
+      }
+    }
+  }
+
+  /**
+   * Creates or updates the appointment's event in one calendar. Updates carry the etag
+   * we last saw, so an event changed (412) or deleted (404/410) in the calendar since
+   * is not overwritten blindly: unless the clinic's rule is "clinic wins" (or the
+   * professional chose the clinic's version), the calendar is synced right away and
+   * the change reconciled there.
+   */
+  private async writeAppointment(appointment: Appointment, integration: CalendarIntegration, overwrite = false): Promise<void> {
+    const provider = getCalendarProvider(integration.provider);
+    const connection = await this.tokens.getConnection(integration);
+    const link = await this.getAppointmentLink(appointment, integration);
+    const input = await this.buildEventInput(appointment);
+
+    let event: ProviderEvent;
+    if (!link) {
+      event = await provider.createEvent(connection, integration.calendar_id!, input);
+    } else {
+      try {
+        event = await provider.updateEvent(connection, integration.calendar_id!, link.external_id, input, overwrite ? undefined : link.etag ?? undefined);
+      } catch (error) {
+        const changedInCalendar = error instanceof CalendarProviderError && [404, 410, 412].includes(error.status);
+        if (!changedInCalendar) throw error;
+        if (!overwrite && (await this.getConflictPolicy(appointment.clinic_id)) !== 'clinic_wins') {
+          this.syncSoon(integration);
+          return;
+        }
+        event = (error as CalendarProviderError).status === 412
+          ? await provider.updateEvent(connection, integration.calendar_id!, link.external_id, input)
+          : await provider.createEvent(connection, integration.calendar_id!, input);
+      }
+    }
+    await this.saveAppointmentLink(appointment, integration, event);
+  }
+
+  // Google appointments written before the link table only have appointments.google_calendar_event_id
+  private async getAppointmentLink(appointment: Appointment, integration: CalendarIntegration): Promise<Pick<CalendarEventLink, 'external_id' | 'etag'> | undefined> {
+    const links = await this.storage.getCalendarEventLinks(appointment.id);
+    const link = links.find(candidate => candidate.integration_id === integration.id);
+    if (link) return link;
+    if (integration.provider === 'google' && appointment.google_calendar_event_id) {
+      return { external_id: appointment.google_calendar_event_id, etag: null };
+    }
+    return undefined;
+  }
+
+  private async saveAppointmentLink(appointment: Appointment, integration: CalendarIntegration, event: ProviderEvent): Promise<void> {
+    // Agenda screens still match Google events to appointments by this column
+    if (integration.provider === 'google' && appointment.google_calendar_event_id !== event.id) {
+      await this.storage.updateAppointment(appointment.id, { google_calendar_event_id: event.id });
+    }
+    // Written after the appointment update above, so it doesn't read as a clinic-side change
+    await this.storage.upsertCalendarEventLink({
+      appointment_id: appointment.id,
+      integration_id: integration.id,
+      external_id: event.id,
+      etag: event.etag ?? null,
+      external_updated_at: event.updatedAt ?? null,
+      synced_at: new Date(),
+    });
+  }
+
+  // Deletes the appointment's events from the calendars it was written to
+  async removeAppointment(appointment: Appointment): Promise<void> {
+    const links = await this.storage.getCalendarEventLinks(appointment.id);
+
+    for (const link of links) {
+      const integration = await this.storage.getCalendarIntegration(link.integration_id);
+      try {
+        if (integration?.calendar_id) {
+          const provider = getCalendarProvider(integration.provider);
+          await provider.deleteEvent(await this.tokens.getConnection(integration), integration.calendar_id, link.external_id);
+        }
+        await this.storage.deleteCalendarEventLink(link.id);
+      } catch (error) {
+        console.error(`Error removing appointment ${appointment.id} from calendar integration ${link.integration_id}:`, error);
+        if (integration) await this.tokens.recordFailure(integration, error);
+      }
+    }
+
+    if (appointment.google_calendar_event_id) {
+      // A Google event written before the link table
+      if (!links.some(link => link.external_id === appointment.google_calendar_event_id)) {
+        const targets = (await this.getPushTargets(appointment)).filter(integration => integration.provider === 'google');
+        for (const integration of targets) {
+          try {
+            const provider = getCalendarProvider(integration.provider);
+            await provider.deleteEvent(await this.tokens.getConnection(integration), integration.calendar_id!, appointment.google_calendar_event_id);
+          } catch (error) {
+            console.error(`Error removing appointment ${appointment.id} from calendar integration ${integration.id}:`, error);
+            await this.tokens.recordFailure(integration, error);
+          }
+        }
+      }
+      await this.storage.updateAppointment(appointment.id, { google_calendar_event_id: null });
+    }
+  }
+
+  // Reconciles a calendar change found while writing, without holding up the write
+  private syncSoon(integration: CalendarIntegration) {
+    setImmediate(() => {
+      this.syncIntegration(integration, 'conflict').catch(error => {
+        console.error(`Error syncing calendar integration ${integration.id}:`, error);
+      });
+    });
+  }
+
+  async getConflictPolicy(clinicId: number): Promise<CalendarConflictPolicy> {
+    const setting = await this.storage.getClinicSetting(clinicId, CALENDAR_CONFLICT_SETTING_KEYS.policy);
+    return isCalendarConflictPolicy(setting?.setting_value) ? setting!.setting_value as CalendarConflictPolicy : DEFAULT_CALENDAR_CONFLICT_POLICY;
+  }
+
+  /**
+   * A full sync returns every event in the window, so linked events it left out were
+   * deleted in the calendar. Only appointments inside the window count.
+   */
+  private async findMissingLinkedEvents(integration: CalendarIntegration, events: ProviderEvent[], window: { start: Date; end: Date }): Promise<ProviderEvent[]> {
+    const returned = new Set(events.map(event => event.id));
+    const missing: ProviderEvent[] = [];
+
+    for (const link of await this.storage.getCalendarEventLinksForIntegration(integration.id)) {
+      if (returned.has(link.external_id)) continue;
+      const appointment = await this.storage.getAppointment(link.appointment_id);
+      const start = appointment?.scheduled_date ? new Date(appointment.scheduled_date) : null;
+      if (start && start >= window.start && start <= window.end) {
+        missing.push({ id: link.external_id, status: 'cancelled', allDay: false });
+      }
+    }
+    return missing;
+  }
+
+  // Link of a synced event; Google events of older appointments get one on first sight
+  private async findEventLink(integration: CalendarIntegration, externalId: string): Promise<CalendarEventLink | undefined> {
+    const link = await this.storage.getCalendarEventLinkByExternalId(integration.id, externalId);
+    if (link || integration.provider !== 'google') return link;
+
+    const [appointment] = (await this.storage.getAppointmentsByGoogleEventId(externalId))
+      .filter(candidate => candidate.clinic_id === integration.clinic_id);
+    if (!appointment) return undefined;
+    return this.storage.upsertCalendarEventLink({
+      appointment_id: appointment.id,
+      integration_id: integration.id,
+      external_id: externalId,
+      etag: null,
+      external_updated_at: null,
+      synced_at: appointment.updated_at ?? new Date(),
+    });
+  }
+
+  /**
+   * Two-way part of the sync: for each changed event that belongs to an appointment,
+   * the clinic's rule decides whether the appointment follows the calendar, the
+   * appointment is written back over the event, or the professional is asked.
+   * Returns the appointments that changed. Each event fails on its own.
+   */
+  private async reconcileEvents(integration: CalendarIntegration, events: ProviderEvent[]): Promise<number[]> {
+    const changed: number[] = [];
+    for (const event of events) {
+      try {
+        const link = await this.findEventLink(integration, event.id);
+        if (!link || !hasCalendarSideChange(link, event)) continue;
+
+        const appointment = await this.storage.getAppointment(link.appointment_id);
+        if (appointment && await this.reconcileEvent(integration, link, appointment, event)) {
+          changed.push(appointment.id);
+        }
+      } catch (error) {
+        console.error(`Error reconciling event ${event.id} of calendar integration ${integration.id}:`, error);
+      }
+    }
+    return changed;
+  }
+
+  private async reconcileEvent(integration: CalendarIntegration, link: CalendarEventLink, appointment: Appointment, event: ProviderEvent): Promise<boolean> {
+    const change = canReconcileAppointment(appointment) ? detectCalendarChange(appointment, event) : null;
+    if (!change) {
+      // Nothing that matters to the agenda (e.g. a new title): take the calendar's version
+      await this.acceptEventVersion(link, event.etag, event.updatedAt);
+      await this.dismissConflict(appointment.id, integration.id);
+      return false;
+    }
+
+    const policy = await this.getConflictPolicy(appointment.clinic_id);
+    if (policy === 'clinic_wins') {
+      await this.restoreAppointmentEvent(appointment, integration, link, change);
+      return false;
+    }
+    if (policy === 'calendar_wins') {
+      await this.acceptEventVersion(link, event.etag, event.updatedAt);
+      await this.followCalendar(appointment, change);
+      return true;
+    }
+
+    await this.queueConflict(integration, link, appointment, event, change);
+    return false;
+  }
+
+  private async acceptEventVersion(link: CalendarEventLink, etag: string | null | undefined, updatedAt?: Date | null) {
+    await this.storage.upsertCalendarEventLink({
+      appointment_id: link.appointment_id,
+      integration_id: link.integration_id,
+      external_id: link.external_id,
+      etag: etag ?? null,
+      external_updated_at: updatedAt ?? null,
+      synced_at: link.synced_at,
+    });
+  }
+
+  // Clinic's version wins: a deleted event is written again as a new one
+  private async restoreAppointmentEvent(appointment: Appointment, integration: CalendarIntegration, link: CalendarEventLink, change: CalendarChange) {
+    if (change.kind === 'deleted') {
+      await this.storage.deleteCalendarEventLink(link.id);
+      if (integration.provider === 'google') {
+        appointment = (await this.storage.updateAppointment(appointment.id, { google_calendar_event_id: null })) ?? appointment;
+      }
+    }
+    await this.writeAppointment(appointment, integration, true);
+  }
+
+  /**
+   * Calendar's version wins: the appointment moves to the event's time, or is cancelled
+   * when the event was deleted. The other calendars then get the new version.
+   */
+  private async followCalendar(appointment: Appointment, change: CalendarChange): Promise<Appointment | undefined> {
+    let updated: Appointment | undefined;
+    if (change.kind === 'deleted') {
+      updated = await this.statusService.transition(appointment, 'cancelada_dentista', {
+        changedBy: null,
+        reason: CALENDAR_DELETION_REASON,
+      });
+    } else {
+      const updates: Partial<InsertAppointment> = {
+        scheduled_date: change.start,
+        duration_minutes: Math.round((change.end.getTime() - change.start.getTime()) / 60000),
+      };
+      updated = await this.storage.updateAppointment(
+        appointment.id,
+        appointment.recurrence_series_id ? { ...updates, recurrence_exception: true } : updates
+      );
+    }
+    if (!updated) return undefined;
+
+    await this.pushAppointment(updated);
+    await this.listeners.onAppointmentChanged?.(appointment, updated);
+    return updated;
+  }
+
+  // One open conflict per appointment and calendar; a later change of the event replaces it
+  private async queueConflict(integration: CalendarIntegration, link: CalendarEventLink, appointment: Appointment, event: ProviderEvent, change: CalendarChange) {
+    const values = {
+      external_id: event.id,
+      kind: change.kind,
+      calendar_starts_at: change.kind === 'moved' ? change.start : null,
+      calendar_ends_at: change.kind === 'moved' ? change.end : null,
+      appointment_starts_at: appointment.scheduled_date,
+      clinic_changed: !!appointment.updated_at && new Date(appointment.updated_at) > new Date(link.synced_at),
+      external_etag: event.etag ?? null,
+    };
+
+    const existing = await this.storage.getPendingCalendarSyncConflict(appointment.id, integration.id);
+    const conflict = existing
+      ? await this.storage.updateCalendarSyncConflict(existing.id, values)
+      : await this.storage.createCalendarSyncConflict({
+          ...values,
+          clinic_id: appointment.clinic_id,
+          appointment_id: appointment.id,
+          integration_id: integration.id,
+          user_id: integration.user_id,
+          status: 'pending',
+        });
+    if (conflict) await this.listeners.onConflict?.(conflict);
+  }
+
+  // Both sides agree again (the event was put back): the open conflict has nothing left to decide
+  private async dismissConflict(appointmentId: number, integrationId: number) {
+    const existing = await this.storage.getPendingCalendarSyncConflict(appointmentId, integrationId);
+    if (existing) {
+      await this.storage.updateCalendarSyncConflict(existing.id, { status: 'resolved', resolved_at: new Date() });
+    }
+  }
+
+  /**
+   * The professional's decision on a queued conflict: keep the clinic's appointment
+   * (written back to the calendar) or apply the calendar's change to it.
+   */
+  async resolveConflict(conflict: CalendarSyncConflict, resolution: CalendarConflictResolution, resolvedBy: string): Promise<CalendarSyncConflict | undefined> {
+    if (conflict.status !== 'pending') {
+      throw new Error('Conflict already resolved');
+    }
+    const appointment = await this.storage.getAppointment(conflict.appointment_id);
+    const integration = await this.storage.getCalendarIntegration(conflict.integration_id);
+    const link = integration && await this.storage.getCalendarEventLinkByExternalId(integration.id, conflict.external_id);
+    if (!appointment || !integration || !link) {
+      throw new Error('Conflict cannot be resolved');
+    }
+
+    const change: CalendarChange = conflict.kind === 'moved' && conflict.calendar_starts_at && conflict.calendar_ends_at
+      ? { kind: 'moved', start: new Date(conflict.calendar_starts_at), end: new Date(conflict.calendar_ends_at) }
+      : { kind: 'deleted' };
+
+    if (resolution === 'clinic') {
+      await this.restoreAppointmentEvent(appointment, integration, link, change);
+    } else {
+      if (!canReconcileAppointment(appointment)) {
+        throw new Error('Appointment cannot be changed');
+      }
+      await this.acceptEventVersion(link, conflict.external_etag);
+      await this.followCalendar(appointment, change);
+    }
+
+    return this.storage.updateCalendarSyncConflict(conflict.id, {
+      status: 'resolved',
+      resolution,
+      resolved_by: resolvedBy,
+      resolved_at: new Date(),
+    });
+  }
+}
+
+// Renews watch channels every hour in this process
+export function startCalendarWatchRenewal(service: CalendarSyncService, intervalMs: number = RENEWAL_INTERVAL_MS): () => void {
+  return startIntervalJob("📅 Calendar watch channels", () => service.renewWatches(), intervalMs);
+}
+
+// Polls integrations without a live channel every 10 minutes in this process
+export function startCalendarPolling(service: CalendarSyncService, intervalMs: number = POLL_INTERVAL_MS): () => void {
+  return startIntervalJob("📅 Calendar polling", () => service.pollIntegrations(), intervalMs);
+}
@@ -0,0 +1,146 @@
+import type { IStorage } from "./storage";
+import type { CalendarIntegration, InsertCalendarIntegration } from "@shared/schema";
+import { CalendarProviderError, getCalendarProvider, type CalendarConnection } from "./calendar-providers";
+import { startIntervalJob } from "./interval-job";
+
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// The scheduler refreshes tokens that would expire before its next run, with some slack
+const REFRESH_AHEAD_MS = 15 * 60 * 1000;
+
+export const RECONNECT_REQUIRED_ERROR = 'Token expired - re-authentication required';
+
+export type CalendarConnectionStatus = 'connected' | 'reconnect' | 'error' | 'paused';
+
+// State of an integration as the settings screen shows it
+export function getCalendarConnectionStatus(integration: CalendarIntegration): CalendarConnectionStatus {
+  if (integration.needs_reconnect) return 'reconnect';
+  if (!integration.sync_enabled) return 'paused';
+  if (integration.sync_errors) return 'error';
+  return 'connected';
+}
+
+/**
+ * Integration as returned to the client: no credentials, plus the connection status.
+ */
+export function toCalendarConnection(integration: CalendarIntegration) {
+  const { access_token, refresh_token, watch_token, ...rest } = integration;
+  return { ...rest, status: getCalendarConnectionStatus(integration) };
+}
+
+/**
+ * The one place that hands out provider credentials. OAuth access tokens are refreshed
+ * shortly before they expire (on demand and from the scheduler), with a single refresh
+ * per integration at a time: Microsoft rotates refresh tokens, so two concurrent
+ * refreshes would leave the second one with a revoked token. Failures are written to
+ * sync_errors; a rejected credential puts the integration in the "reconnect" state.
+ */
+export class CalendarTokenManager {
+  private storage: IStorage;
+  private refreshing = new Map<number, Promise<CalendarConnection>>();
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getConnection(integration: CalendarIntegration, marginMs: number = TOKEN_REFRESH_MARGIN_MS): Promise<CalendarConnection> {
+    const provider = getCalendarProvider(integration.provider);
+    if (integration.needs_reconnect) {
+      throw new CalendarProviderError(401, 'Integration needs to be reconnected');
+    }
+
+    if (provider.auth === 'password') {
+      if (!integration.access_token) {
+        throw new CalendarProviderError(401, 'No CalDAV password');
+      }
+      return { accessToken: integration.access_token, username: integration.email, serverUrl: integration.server_url };
+    }
+
+    if (integration.access_token && !this.expiresWithin(integration, marginMs)) {
+      return { accessToken: integration.access_token };
+    }
+
+    let pending = this.refreshing.get(integration.id);
+    if (!pending) {
+      pending = this.refresh(integration.id, marginMs).finally(() => this.refreshing.delete(integration.id));
+      this.refreshing.set(integration.id, pending);
+    }
+    return pending;
+  }
+
+  private expiresWithin(integration: CalendarIntegration, marginMs: number): boolean {
+    const expiresAt = integration.token_expires_at ? new Date(integration.token_expires_at).getTime() : 0;
+    return expiresAt - marginMs <= Date.now();
+  }
+
+  private async refresh(integrationId: number, marginMs: number): Promise<CalendarConnection> {
+    // The row we were given may hold a refresh token another pass has already rotated
+    const integration = await this.storage.getCalendarIntegration(integrationId);
+    if (!integration) {
+      throw new Error('Integration not found');
+    }
+    if (integration.access_token && !this.expiresWithin(integration, marginMs)) {
+      return { accessToken: integration.access_token };
+    }
+
+    const provider = getCalendarProvider(integration.provider);
+    try {
+      if (!integration.refresh_token || !provider.refreshTokens) {
+        throw new CalendarProviderError(401, 'No refresh token');
+      }
+      const tokens = await provider.refreshTokens(integration.refresh_token);
+      await this.storage.updateCalendarIntegration(integration.id, {
+        access_token: tokens.accessToken,
+        token_expires_at: tokens.expiresAt ?? null,
+        ...(tokens.refreshToken ? { refresh_token: tokens.refreshToken } : {}),
+      });
+      return { accessToken: tokens.accessToken };
+    } catch (error) {
+      await this.recordFailure(integration, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a failed provider call to the integration. A 401 means the user has to
+   * connect the account again, so syncing stops until they do.
+   */
+  async recordFailure(integration: CalendarIntegration, error: any, extra: Partial<InsertCalendarIntegration> = {}): Promise<void> {
+    const needsReconnect = error instanceof CalendarProviderError && error.status === 401;
+    await this.storage.updateCalendarIntegration(integration.id, {
+      ...extra,
+      sync_errors: needsReconnect ? RECONNECT_REQUIRED_ERROR : (error.message || String(error)),
+      ...(needsReconnect ? { sync_enabled: false, needs_reconnect: true } : {}),
+    });
+  }
+
+  /**
+   * Refreshes the OAuth tokens that expire soon, so requests (and webhook syncs) don't
+   * wait on the token endpoint. Each integration fails on its own.
+   */
+  async refreshExpiring(aheadMs: number = REFRESH_AHEAD_MS): Promise<{ refreshed: number; failed: number }> {
+    const result = { refreshed: 0, failed: 0 };
+    const expiring = (await this.storage.getAllCalendarIntegrations()).filter(integration =>
+      !integration.needs_reconnect &&
+      integration.refresh_token &&
+      getCalendarProvider(integration.provider).auth === 'oauth' &&
+      this.expiresWithin(integration, aheadMs)
+    );
+
+    for (const integration of expiring) {
+      try {
+        await this.getConnection(integration, aheadMs);
+        result.refreshed++;
+      } catch (error) {
+        console.error(`Error refreshing tokens of calendar integration ${integration.id}:`, (error as Error).message);
+        result.failed++;
+      }
+    }
+    return result;
+  }
+}
+
+// Refreshes expiring calendar tokens every 5 minutes in this process
+export function startCalendarTokenRefresh(manager: CalendarTokenManager, intervalMs: number = REFRESH_INTERVAL_MS): () => void {
+  return startIntervalJob("🔑 Calendar tokens", () => manager.refreshExpiring(), intervalMs);
+}
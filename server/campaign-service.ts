@@ -0,0 +1,325 @@
+import { addDays, addMonths } from "date-fns";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { AiTemplate, Appointment, Campaign, CampaignRecipient, Clinic, Contact } from "@shared/schema";
+import { CANCELLED_APPOINTMENT_STATUSES } from "@shared/appointment-status";
+import { canDeliverMessages, getMessageChannel, type MessageChannelAdapter } from "./message-channels";
+import { startIntervalJob } from "./interval-job";
+import { ConversationService } from "./conversation-service";
+import { renderTemplate, resolveTemplateVariables, validateTemplate } from "./message-template-service";
+import { WHATSAPP_SETTING_KEYS, buildWhatsAppTemplate } from "./whatsapp-channel";
+
+const CAMPAIGN_INTERVAL_MS = 60 * 1000;
+
+// Return periods recorded on finished appointments (appointments.return_period) a recall can target
+export const CAMPAIGN_RETURN_PERIODS = {
+  '15_dias': { days: 15 },
+  '1_mes': { months: 1 },
+  '6_meses': { months: 6 },
+  '12_meses': { months: 12 },
+} as const;
+
+type ReturnPeriod = keyof typeof CAMPAIGN_RETURN_PERIODS;
+
+// Appended to every campaign message; "SAIR" is recognized by the inbound reply classifier
+export const CAMPAIGN_OPT_OUT_FOOTER = "\n\nPara não receber mais estas mensagens, responda SAIR.";
+
+export const campaignAudienceSchema = z.object({
+  sources: z.array(z.string()).optional(), // contacts.source
+  contact_statuses: z.array(z.string()).optional(), // contacts.status
+  // Last finished appointment asked for this return, it is now due and nothing was booked since
+  return_due: z.enum(Object.keys(CAMPAIGN_RETURN_PERIODS) as [ReturnPeriod, ...ReturnPeriod[]]).optional(),
+});
+
+export type CampaignAudience = z.infer<typeof campaignAudienceSchema>;
+
+export const campaignSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  template_id: z.number().int().positive(),
+  audience: campaignAudienceSchema,
+  scheduled_at: z.string().datetime().nullable().optional(),
+  send_rate_per_minute: z.number().int().min(1).max(120).optional(),
+});
+
+export const campaignScheduleSchema = z.object({
+  scheduled_at: z.string().datetime().nullable().optional(), // empty = start now
+});
+
+// Campaigns can be edited, scheduled or cancelled until sending starts
+const EDITABLE_STATUSES = ['rascunho', 'agendada'];
+
+// Date the patient was due back after their last finished appointment, if they asked for a return
+export function getReturnDueDate(appointment: Appointment): Date | null {
+  const period = CAMPAIGN_RETURN_PERIODS[appointment.return_period as ReturnPeriod];
+  if (!period || !appointment.scheduled_date) return null;
+  const visit = new Date(appointment.scheduled_date);
+  return 'days' in period ? addDays(visit, period.days) : addMonths(visit, period.months);
+}
+
+/**
+ * Campaigns send one ai_template to an audience built from contact and appointment
+ * filters. When a campaign starts its audience is frozen into campaign_recipients,
+ * which are then sent a few per minute through the message channel.
+ */
+export class CampaignService {
+  private storage: IStorage;
+  private channel: MessageChannelAdapter;
+  private conversationService: ConversationService;
+
+  constructor(storage: IStorage, channel: MessageChannelAdapter = getMessageChannel()) {
+    this.storage = storage;
+    this.channel = channel;
+    this.conversationService = new ConversationService(storage);
+  }
+
+  // Contacts the filters select. Contacts who opted out or have no phone are never included
+  async resolveAudience(clinicId: number, audience: CampaignAudience, now: Date = new Date()): Promise<Contact[]> {
+    let contacts = (await this.storage.getContacts(clinicId))
+      .filter(contact => contact.phone && !contact.campaign_opt_out_at);
+
+    if (audience.sources?.length) {
+      contacts = contacts.filter(contact => audience.sources!.includes(contact.source || ''));
+    }
+    if (audience.contact_statuses?.length) {
+      contacts = contacts.filter(contact => audience.contact_statuses!.includes(contact.status));
+    }
+
+    if (audience.return_due) {
+      const appointments = (await this.storage.getAppointments(clinicId))
+        .filter(appointment => appointment.scheduled_date && !CANCELLED_APPOINTMENT_STATUSES.includes(appointment.status));
+
+      contacts = contacts.filter(contact => {
+        const own = appointments.filter(appointment => appointment.contact_id === contact.id);
+        const lastVisit = own
+          .filter(appointment => appointment.status === 'finalizada')
+          .sort((a, b) => new Date(b.scheduled_date!).getTime() - new Date(a.scheduled_date!).getTime())[0];
+        if (!lastVisit || lastVisit.return_period !== audience.return_due) return false;
+
+        const dueDate = getReturnDueDate(lastVisit);
+        const bookedSince = own.some(appointment =>
+          appointment.id !== lastVisit.id && new Date(appointment.scheduled_date!) > new Date(lastVisit.scheduled_date!)
+        );
+        return !!dueDate && dueDate <= now && !bookedSince;
+      });
+    }
+
+    return contacts;
+  }
+
+  async previewAudience(clinicId: number, audience: CampaignAudience) {
+    const contacts = await this.resolveAudience(clinicId, audience);
+    return {
+      count: contacts.length,
+      sample: contacts.slice(0, 10).map(contact => ({ id: contact.id, name: contact.name })),
+    };
+  }
+
+  // The template must belong to the clinic, be active and render without errors
+  private async getCampaignTemplate(clinicId: number, templateId: number): Promise<AiTemplate> {
+    const template = await this.storage.getAiTemplate(templateId);
+    if (!template || template.clinic_id !== clinicId || template.is_active === false) {
+      throw new Error('Template not found');
+    }
+    if (validateTemplate(template.content, template.variables).length > 0) {
+      throw new Error('Invalid template');
+    }
+    return template;
+  }
+
+  async create(clinicId: number, userId: number | null, input: z.infer<typeof campaignSchema>): Promise<Campaign> {
+    await this.getCampaignTemplate(clinicId, input.template_id);
+    return this.storage.createCampaign({
+      clinic_id: clinicId,
+      name: input.name,
+      template_id: input.template_id,
+      audience: input.audience,
+      status: input.scheduled_at ? 'agendada' : 'rascunho',
+      scheduled_at: input.scheduled_at ? new Date(input.scheduled_at) : null,
+      send_rate_per_minute: input.send_rate_per_minute,
+      created_by: userId,
+    });
+  }
+
+  async update(campaign: Campaign, input: Partial<z.infer<typeof campaignSchema>>): Promise<Campaign | undefined> {
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new Error('Campaign already started');
+    }
+    if (input.template_id) {
+      await this.getCampaignTemplate(campaign.clinic_id, input.template_id);
+    }
+
+    const { scheduled_at, ...rest } = input;
+    return this.storage.updateCampaign(campaign.id, {
+      ...rest,
+      ...(scheduled_at !== undefined
+        ? { scheduled_at: scheduled_at ? new Date(scheduled_at) : null, status: scheduled_at ? 'agendada' : 'rascunho' }
+        : {}),
+    });
+  }
+
+  // Schedules the campaign; without a date it starts on the scheduler's next pass
+  async schedule(campaign: Campaign, scheduledAt?: string | null, now: Date = new Date()): Promise<Campaign | undefined> {
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new Error('Campaign already started');
+    }
+    await this.getCampaignTemplate(campaign.clinic_id, campaign.template_id);
+    return this.storage.updateCampaign(campaign.id, {
+      status: 'agendada',
+      scheduled_at: scheduledAt ? new Date(scheduledAt) : now,
+    });
+  }
+
+  // Stops a campaign; recipients not reached yet are marked as skipped
+  async cancel(campaign: Campaign): Promise<Campaign | undefined> {
+    if (campaign.status === 'concluida' || campaign.status === 'cancelada') {
+      throw new Error('Campaign already finished');
+    }
+    const updated = await this.storage.updateCampaign(campaign.id, { status: 'cancelada', completed_at: new Date() });
+    await this.storage.skipPendingCampaignRecipients(campaign.id, 'Campanha cancelada');
+    return updated;
+  }
+
+  /**
+   * One scheduler pass: due campaigns get their recipient list, then every campaign
+   * that is sending delivers up to send_rate_per_minute messages.
+   */
+  async processDueCampaigns(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const result = { sent: 0, failed: 0 };
+    // On the console channel due campaigns stay scheduled until a real channel is configured
+    if (!canDeliverMessages(this.channel)) return result;
+
+    for (const campaign of await this.storage.getDueCampaigns(now)) {
+      try {
+        const sending = campaign.status === 'agendada' ? await this.start(campaign, now) : campaign;
+        if (!sending) continue;
+
+        const batch = await this.sendBatch(sending);
+        result.sent += batch.sent;
+        result.failed += batch.failed;
+      } catch (error) {
+        console.error(`Error processing campaign ${campaign.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  private async start(campaign: Campaign, now: Date): Promise<Campaign | undefined> {
+    const contacts = await this.resolveAudience(campaign.clinic_id, campaign.audience as CampaignAudience, now);
+    await this.storage.addCampaignRecipients(contacts.map(contact => ({
+      campaign_id: campaign.id,
+      clinic_id: campaign.clinic_id,
+      contact_id: contact.id,
+      recipient: contact.phone,
+      status: 'pending',
+    })));
+    return this.storage.updateCampaign(campaign.id, { status: 'enviando', started_at: now });
+  }
+
+  private async sendBatch(campaign: Campaign): Promise<{ sent: number; failed: number }> {
+    const result = { sent: 0, failed: 0 };
+    const recipients = await this.storage.claimCampaignRecipients(campaign.id, campaign.send_rate_per_minute);
+
+    if (recipients.length === 0) {
+      await this.complete(campaign);
+      return result;
+    }
+
+    const clinic = await this.storage.getClinic(campaign.clinic_id);
+    const template = await this.storage.getAiTemplate(campaign.template_id);
+    if (!clinic || !template) {
+      for (const recipient of recipients) {
+        await this.storage.updateCampaignRecipient(recipient.id, { status: 'failed', error: 'Template ou clínica não encontrados' });
+      }
+      return { sent: 0, failed: recipients.length };
+    }
+
+    const providerTemplate = (await this.storage.getClinicSetting(campaign.clinic_id, WHATSAPP_SETTING_KEYS.campaignTemplate))?.setting_value;
+    for (const recipient of recipients) {
+      const outcome = await this.sendToRecipient(campaign, recipient, clinic, template.content, providerTemplate);
+      if (outcome !== 'skipped') result[outcome]++;
+    }
+    return result;
+  }
+
+  private async sendToRecipient(
+    campaign: Campaign,
+    recipient: CampaignRecipient,
+    clinic: Clinic,
+    template: string,
+    providerTemplate?: string
+  ): Promise<'sent' | 'failed' | 'skipped'> {
+    // Opting out while the campaign is sending still counts
+    const contact = await this.storage.getContact(recipient.contact_id);
+    if (!contact || contact.campaign_opt_out_at) {
+      await this.storage.updateCampaignRecipient(recipient.id, { status: 'skipped', error: contact ? 'Pediu para sair' : 'Contato removido' });
+      return 'skipped';
+    }
+
+    const variables = resolveTemplateVariables({ clinic, contact });
+    const message = renderTemplate(template, variables) + CAMPAIGN_OPT_OUT_FOOTER;
+
+    // A failed send stays failed, as with reminders: the provider may have delivered it anyway.
+    // Campaigns reach patients outside WhatsApp's 24h window, so they go as the clinic's approved template
+    try {
+      const { externalId } = await this.channel.send({
+        clinicId: campaign.clinic_id,
+        to: contact.phone,
+        body: message,
+        template: buildWhatsAppTemplate(providerTemplate, variables, message),
+      });
+      await this.storage.updateCampaignRecipient(recipient.id, {
+        status: 'sent',
+        message,
+        sent_at: new Date(),
+        external_id: externalId ?? null,
+      });
+    } catch (error: any) {
+      console.error(`Error sending campaign ${campaign.id} to contact ${contact.id}:`, error);
+      await this.storage.updateCampaignRecipient(recipient.id, { status: 'failed', message, error: error.message || String(error) });
+      return 'failed';
+    }
+
+    try {
+      const conversation = await this.conversationService.getOrStartConversation(campaign.clinic_id, contact.id);
+      await this.conversationService.recordMessage(conversation, 'ai', message, { ai_action: 'enviou_campanha' });
+    } catch (error) {
+      console.error(`Error recording campaign ${campaign.id} message in the conversation:`, error);
+    }
+    return 'sent';
+  }
+
+  // Closes the campaign and adds its results to analytics_metrics
+  private async complete(campaign: Campaign) {
+    const counts = await this.storage.getCampaignRecipientCounts(campaign.id);
+    if (counts.sending > 0) return; // another pass is still delivering
+
+    const completedAt = new Date();
+    await this.storage.updateCampaign(campaign.id, { status: 'concluida', completed_at: completedAt });
+
+    const metadata = JSON.stringify({ campaign_id: campaign.id, campaign_name: campaign.name, ...counts });
+    await this.storage.createAnalyticsMetric({
+      clinic_id: campaign.clinic_id,
+      metric_type: 'campaign_messages_sent',
+      value: counts.sent,
+      date: completedAt,
+      metadata,
+    });
+    await this.storage.createAnalyticsMetric({
+      clinic_id: campaign.clinic_id,
+      metric_type: 'campaign_messages_failed',
+      value: counts.failed,
+      date: completedAt,
+      metadata,
+    });
+  }
+}
+
+// Runs campaign delivery every minute in this process
+export function startCampaignScheduler(storage: IStorage, intervalMs: number = CAMPAIGN_INTERVAL_MS): () => void {
+  const service = new CampaignService(storage);
+  if (!canDeliverMessages(getMessageChannel())) {
+    console.warn("📣 Campaigns are on hold: the console message channel delivers nothing outside development");
+  }
+  return startIntervalJob("📣 Campaign messages", () => service.processDueCampaigns(), intervalMs);
+}
@@ -0,0 +1,104 @@
+import type { IStorage } from "./storage";
+import type { Appointment, ClinicClosure } from "@shared/schema";
+import { closureAppliesOn, findOverlappingClosure, getBrazilianNationalHolidays, isFullDayClosure } from "@shared/clinic-closures";
+import { DEFAULT_CLINIC_TIMEZONE, addDaysToDateKey, getZonedDateKey, getZonedDayRange, getZonedTime } from "@shared/timezone";
+
+// How far ahead appointments are checked against a yearly closure
+const AFFECTED_LOOKAHEAD_DAYS = 365;
+
+export interface AffectedAppointment {
+  appointment: Appointment;
+  closure: ClinicClosure;
+}
+
+export function serializeAffectedAppointment({ appointment, closure }: AffectedAppointment) {
+  return {
+    appointment_id: appointment.id,
+    contact_id: appointment.contact_id,
+    user_id: appointment.user_id,
+    doctor_name: appointment.doctor_name,
+    scheduled_date: appointment.scheduled_date,
+    duration_minutes: appointment.duration_minutes,
+    closure_id: closure.id,
+    closure_reason: closure.reason,
+  };
+}
+
+/**
+ * Clinic-wide closures: matches appointments against them and imports the
+ * national holiday calendar.
+ */
+export class ClinicClosureService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Booked appointments that fall on the closures between two days of the clinic
+   * calendar (inclusive), i.e. the patients the front desk needs to reschedule.
+   */
+  async getAffectedAppointments(
+    clinicId: number,
+    closures: ClinicClosure[],
+    range?: { start: string; end: string }
+  ): Promise<AffectedAppointment[]> {
+    if (closures.length === 0) return [];
+
+    const clinic = await this.storage.getClinic(clinicId);
+    const timeZone = clinic?.timezone || DEFAULT_CLINIC_TIMEZONE;
+    const today = getZonedDateKey(new Date(), timeZone);
+    const startKey = range?.start || today;
+    const endKey = range?.end || addDaysToDateKey(today, AFFECTED_LOOKAHEAD_DAYS);
+
+    const appointments = await this.storage.getAppointmentsByDateRange(
+      getZonedDayRange(startKey, timeZone).start,
+      getZonedDayRange(endKey, timeZone).end,
+      { clinicId }
+    );
+
+    const affected: AffectedAppointment[] = [];
+    for (const appointment of appointments) {
+      if (!appointment.scheduled_date) continue;
+
+      const start = new Date(appointment.scheduled_date);
+      const end = new Date(start.getTime() + (appointment.duration_minutes || 60) * 60000);
+      const dateKey = getZonedDateKey(start, timeZone);
+      const endTime = getZonedDateKey(end, timeZone) === dateKey ? getZonedTime(end, timeZone) : '24:00';
+
+      const closure = findOverlappingClosure(closures, dateKey, getZonedTime(start, timeZone), endTime);
+      if (closure) affected.push({ appointment, closure });
+    }
+
+    return affected;
+  }
+
+  /**
+   * Adds the national holidays of a year to the clinic closures. Days that already
+   * have a full-day closure are skipped, so importing again is harmless.
+   */
+  async importNationalHolidays(clinicId: number, year: number): Promise<{ created: ClinicClosure[]; skipped: number }> {
+    const existing = await this.storage.getClinicClosures(clinicId);
+    const created: ClinicClosure[] = [];
+    let skipped = 0;
+
+    for (const holiday of getBrazilianNationalHolidays(year)) {
+      const alreadyClosed = existing.some(closure => isFullDayClosure(closure) && closureAppliesOn(closure, holiday.date));
+      if (alreadyClosed) {
+        skipped++;
+        continue;
+      }
+
+      created.push(await this.storage.createClinicClosure({
+        clinic_id: clinicId,
+        date: holiday.date,
+        recurs_yearly: !!holiday.recurs_yearly,
+        reason: holiday.reason || 'Feriado nacional',
+        source: 'national_holiday',
+      }));
+    }
+
+    return { created, skipped };
+  }
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { Contact, Conversation, Message, InsertMessage } from "@shared/schema";
+import { CONVERSATION_STATUSES } from "@shared/schema";
+import type { MessageChannelAdapter } from "./message-channels";
+
+export const staffReplySchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+});
+
+export const conversationUpdateSchema = z.object({
+  status: z.enum(CONVERSATION_STATUSES).optional(),
+  assigned_user_id: z.number().int().positive().nullable().optional(),
+});
+
+export type MessageDetails = Pick<InsertMessage, 'ai_action' | 'appointment_id' | 'intent' | 'sender_user_id' | 'external_id'>;
+
+/**
+ * Patient conversations: each contact has at most one open conversation per clinic,
+ * and every message to or from the patient is appended to it.
+ */
+export class ConversationService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  // The contact's open conversation, started when there is none
+  async getOrStartConversation(clinicId: number, contactId: number): Promise<Conversation> {
+    const open = await this.storage.getOpenConversation(clinicId, contactId);
+    if (open) return open;
+    return this.storage.createConversation({ clinic_id: clinicId, contact_id: contactId, status: 'aberta' });
+  }
+
+  async recordMessage(conversation: Conversation, senderType: string, content: string, details: MessageDetails = {}): Promise<Message> {
+    return this.storage.createMessage({
+      conversation_id: conversation.id,
+      sender_type: senderType,
+      content,
+      ...details,
+    });
+  }
+
+  // Sends an automatic message to the patient and records it in the conversation
+  async sendToContact(
+    channel: MessageChannelAdapter,
+    conversation: Conversation,
+    contact: Contact,
+    content: string,
+    details: MessageDetails = {}
+  ): Promise<Message> {
+    const sent = await channel.send({ clinicId: conversation.clinic_id!, to: contact.phone, body: content });
+    return this.recordMessage(conversation, 'ai', content, { external_id: sent.externalId ?? null, ...details });
+  }
+
+  // Sends a staff member's reply to the patient. Replying reads the conversation and takes it off the queue
+  async sendStaffReply(channel: MessageChannelAdapter, conversation: Conversation, userId: number | null, content: string): Promise<Message> {
+    const contact = conversation.contact_id ? await this.storage.getContact(conversation.contact_id) : undefined;
+    if (!contact) {
+      throw new Error('Contact not found');
+    }
+
+    const sent = await channel.send({ clinicId: conversation.clinic_id!, to: contact.phone, body: content });
+    const message = await this.recordMessage(conversation, 'staff', content, {
+      sender_user_id: userId,
+      external_id: sent.externalId ?? null,
+    });
+    await this.storage.updateConversation(conversation.id, {
+      last_read_at: new Date(),
+      ...(conversation.status === 'aguardando_equipe' ? { status: 'aberta' } : {}),
+    });
+    return message;
+  }
+
+  /**
+   * Assigns, reopens or closes a conversation. Throws when the assignee is not an
+   * active member of the clinic.
+   */
+  async update(conversation: Conversation, updates: z.infer<typeof conversationUpdateSchema>): Promise<Conversation | undefined> {
+    if (updates.assigned_user_id) {
+      const clinicUsers = await this.storage.getClinicUsers(conversation.clinic_id!);
+      if (!clinicUsers.some(clinicUser => clinicUser.user.id === updates.assigned_user_id && clinicUser.is_active)) {
+        throw new Error('Assignee not in clinic');
+      }
+    }
+    return this.storage.updateConversation(conversation.id, updates);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Runs the CalDAV provider against a real server, e.g. a local Radicale:
+ *
+ *   pip install radicale
+ *   python -m radicale --storage-filesystem-folder=/tmp/radicale --auth-type=none
+ *   npx tsx server/dev/caldav-check.ts http://localhost:5232/ dev any-password
+ *
+ * (server/dev/caldav-fake.ts stands in for the server when there is none at hand.)
+ * Creates a test calendar when the account has none (MKCALENDAR), then lists the
+ * calendars and creates, reads back, updates and deletes an event on the first one,
+ * the same calls the sync makes.
+ */
+import { CalDavCalendarProvider } from "../caldav-calendar-provider";
+import type { CalendarConnection } from "../calendar-providers";
+
+async function main() {
+  const [serverUrl, username, password] = process.argv.slice(2);
+  if (!serverUrl || !username || !password) {
+    console.log('usage: caldav-check.ts <server url> <username> <password>');
+    process.exit(1);
+  }
+
+  const provider = new CalDavCalendarProvider();
+  const connection: CalendarConnection = { accessToken: password, username, serverUrl };
+
+  let calendars = await provider.listCalendars(connection);
+  if (calendars.length === 0) {
+    const url = new URL(`${encodeURIComponent(username)}/agenda-teste/`, serverUrl.replace(/\/?$/, '/')).toString();
+    console.log(`no calendars, creating ${url}`);
+    const response = await fetch(url, {
+      method: 'MKCALENDAR',
+      headers: { 'Authorization': `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` },
+    });
+    console.log(`  MKCALENDAR → ${response.status}`);
+    calendars = await provider.listCalendars(connection);
+  }
+  console.log('calendars:', calendars);
+  const calendar = calendars[0];
+  if (!calendar) throw new Error('No calendar to test with');
+
+  const window = { start: new Date(Date.now() - 86400000), end: new Date(Date.now() + 30 * 86400000) };
+  const before = await provider.listEventChanges(connection, calendar.id, null, window);
+  console.log(`events in the window: ${before.events.length}, cursor ${before.cursor}`);
+
+  const start = new Date(Math.ceil(Date.now() / 3600000) * 3600000 + 86400000);
+  const input = {
+    summary: 'Consulta - Teste CalDAV',
+    description: 'Criado por server/dev/caldav-check.ts; pode apagar',
+    location: 'Rua das Flores, 123',
+    start,
+    end: new Date(start.getTime() + 30 * 60000),
+    timeZone: 'America/Sao_Paulo',
+  };
+  const created = await provider.createEvent(connection, calendar.id, input);
+  console.log('created:', created.id, created.etag);
+
+  const unchanged = await provider.listEventChanges(connection, calendar.id, before.cursor, window);
+  const changed = unchanged.events.find(event => event.id === created.id);
+  console.log(`after create: cursor ${unchanged.cursor}, event listed back: ${changed ? `${changed.summary} ${changed.start?.toISOString()}` : 'NO'}`);
+
+  const moved = await provider.updateEvent(connection, calendar.id, created.id, { ...input, start: new Date(start.getTime() + 3600000), end: new Date(start.getTime() + 5400000) }, created.etag);
+  console.log('updated:', moved.etag);
+
+  await provider.deleteEvent(connection, calendar.id, created.id);
+  const after = await provider.listEventChanges(connection, calendar.id, unchanged.cursor, window);
+  console.log(`after delete: event still listed: ${after.events.some(event => event.id === created.id)}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+/**
+ * Fake CalDAV server with one account and one calendar, for the provider tests and
+ * for trying the sync without a real server:
+ *
+ *   npx tsx server/dev/caldav-fake.ts [port]
+ *   npx tsx server/dev/caldav-check.ts http://localhost:<port>/ dev dev-password
+ *
+ * Answers the calls CalDavCalendarProvider makes: PROPFIND for the principal, the
+ * calendar home and the collection's sync-token, REPORT calendar-query over a time
+ * range, and PUT/DELETE of .ics resources with ETag preconditions. Recurrences are
+ * not expanded.
+ */
+import http from "http";
+import { pathToFileURL } from "url";
+
+export interface CalDavFakeOptions {
+  username?: string;
+  password?: string;
+}
+
+interface FakeResource {
+  ics: string;
+  etag: string;
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\r/g, '&#13;');
+
+const multistatus = (responses: { href: string; props: string }[]) => `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">
+${responses.map(({ href, props }) => `  <d:response>
+    <d:href>${escapeXml(href)}</d:href>
+    <d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+  </d:response>`).join('\n')}
+</d:multistatus>`;
+
+// UTC date-times (20260101T120000Z), as the provider writes DTSTART/DTEND and the time range
+const parseUtc = (value: string | undefined) => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6])) : undefined;
+};
+// Events with other dates always match the range
+const icsDate = (ics: string, name: string) => parseUtc(ics.match(new RegExp(`^${name}:(\\S+)`, 'm'))?.[1]);
+
+export function createCalDavFake({ username = 'dev', password = 'dev-password' }: CalDavFakeOptions = {}): http.Server {
+  const principal = `/principals/${username}/`;
+  const home = `/calendars/${username}/`;
+  const calendar = `${home}agenda/`;
+  const resources = new Map<string, FakeResource>(); // by path under the calendar
+  let version = 1; // sync-token of the calendar, bumped on every write
+
+  const authorized = (req: http.IncomingMessage) =>
+    req.headers.authorization === `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+  function handle(req: http.IncomingMessage, res: http.ServerResponse, body: string) {
+    const path = decodeURI(new URL(req.url || '/', 'http://localhost').pathname);
+    const xml = (responses: { href: string; props: string }[]) => {
+      res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' });
+      res.end(multistatus(responses));
+    };
+
+    if (req.method === 'PROPFIND') {
+      if (path === '/') return xml([{ href: '/', props: `<d:current-user-principal><d:href>${principal}</d:href></d:current-user-principal>` }]);
+      if (path === principal) return xml([{ href: principal, props: `<cal:calendar-home-set><d:href>${home}</d:href></cal:calendar-home-set>` }]);
+      if (path === home) {
+        return xml([
+          { href: home, props: '<d:resourcetype><d:collection/></d:resourcetype>' },
+          {
+            href: calendar,
+            props: '<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype><d:displayname>Agenda</d:displayname>'
+              + `<cal:calendar-timezone>${escapeXml('BEGIN:VCALENDAR\r\nBEGIN:VTIMEZONE\r\nTZID:America/Sao_Paulo\r\nEND:VTIMEZONE\r\nEND:VCALENDAR')}</cal:calendar-timezone>`,
+          },
+        ]);
+      }
+      if (path === calendar) return xml([{ href: calendar, props: `<d:sync-token>https://fake.caldav/sync/${version}</d:sync-token>` }]);
+    }
+
+    if (req.method === 'REPORT' && path === calendar) {
+      const start = parseUtc(body.match(/time-range start="([^"]+)"/)?.[1]);
+      const end = parseUtc(body.match(/time-range[^>]*\send="([^"]+)"/)?.[1]);
+      return xml(Array.from(resources.entries())
+        .filter(([, resource]) => {
+          const eventStart = icsDate(resource.ics, 'DTSTART');
+          const eventEnd = icsDate(resource.ics, 'DTEND') ?? eventStart;
+          return !eventStart || !start || !end || (eventStart < end && eventEnd! > start);
+        })
+        .map(([name, resource]) => ({
+          href: `${calendar}${encodeURIComponent(name)}`,
+          props: `<d:getetag>${escapeXml(resource.etag)}</d:getetag><cal:calendar-data>${escapeXml(resource.ics)}</cal:calendar-data>`,
+        })));
+    }
+
+    const name = path.startsWith(calendar) ? path.slice(calendar.length) : '';
+    if (name && req.method === 'PUT') {
+      const existing = resources.get(name);
+      const ifMatch = req.headers['if-match'];
+      if ((req.headers['if-none-match'] === '*' && existing) || (ifMatch && ifMatch !== existing?.etag)) {
+        res.writeHead(412);
+        return res.end();
+      }
+      version++;
+      const etag = `"${version}"`;
+      resources.set(name, { ics: body, etag });
+      res.writeHead(existing ? 204 : 201, { 'ETag': etag });
+      return res.end();
+    }
+    if (name && req.method === 'DELETE') {
+      if (!resources.delete(name)) {
+        res.writeHead(404);
+        return res.end();
+      }
+      version++;
+      res.writeHead(204);
+      return res.end();
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+
+  return http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (!authorized(req)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="caldav"' });
+        return res.end();
+      }
+      handle(req, res, body);
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.argv[2] || '5232', 10);
+  createCalDavFake().listen(port, () => console.log(`Fake CalDAV server on http://localhost:${port}/ (dev / dev-password)`));
+}
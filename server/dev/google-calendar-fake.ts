@@ -0,0 +1,134 @@
+/**
+ * Fake Google Calendar API for exercising push sync and polling locally:
+ *
+ *   npx tsx server/dev/google-calendar-fake.ts [port]
+ *
+ * Run the app with
+ *   GOOGLE_CALENDAR_API_URL=http://localhost:<port>
+ *   GOOGLE_OAUTH_TOKEN_URL=http://localhost:<port>/token
+ *   CALENDAR_WEBHOOK_URL=http://localhost:5000/api/webhooks/google-calendar
+ *
+ * Change events with POST /_fake/calendars/<id>/events (JSON event, upserted by id) or
+ * DELETE /_fake/calendars/<id>/events/<eventId>; every open channel on the calendar is
+ * notified the way Google does it.
+ */
+import express, { type Express } from "express";
+import { randomUUID } from "crypto";
+import { pathToFileURL } from "url";
+
+interface FakeEvent {
+  id: string;
+  status: string;
+  summary?: string;
+  description?: string;
+  start?: { dateTime?: string; date?: string };
+  end?: { dateTime?: string; date?: string };
+  etag: string;
+  updated: string;
+  sequence: number; // change counter the sync tokens point into
+}
+
+// A fresh fake with its own calendars and channels (the tests start one per run)
+export function createGoogleCalendarFake(log: (message: string) => void = console.log): Express {
+  const calendars = new Map<string, Map<string, FakeEvent>>();
+  const channels = new Map<string, { calendarId: string; resourceId: string; token: string; address: string; messageNumber: number }>();
+  let changeCounter = 0;
+
+  const eventsOf = (calendarId: string) => {
+    if (!calendars.has(calendarId)) calendars.set(calendarId, new Map());
+    return calendars.get(calendarId)!;
+  };
+
+  const toApiEvent = ({ sequence, ...event }: FakeEvent) => event;
+
+  async function notifyChannels(calendarId: string) {
+    for (const [id, channel] of Array.from(channels.entries())) {
+      if (channel.calendarId !== calendarId) continue;
+      channel.messageNumber++;
+      const response = await fetch(channel.address, {
+        method: 'POST',
+        headers: {
+          'X-Goog-Channel-ID': id,
+          'X-Goog-Channel-Token': channel.token,
+          'X-Goog-Resource-ID': channel.resourceId,
+          'X-Goog-Resource-State': 'exists',
+          'X-Goog-Message-Number': String(channel.messageNumber),
+        },
+      }).catch(error => ({ status: error.message }));
+      log(`→ notified channel ${id}: ${response.status}`);
+    }
+  }
+
+  const app = express();
+  app.use(express.json());
+
+  app.post('/token', (_req, res) => {
+    res.json({ access_token: `fake-${randomUUID()}`, expires_in: 3600, token_type: 'Bearer' });
+  });
+
+  app.get('/users/me/calendarList', (_req, res) => {
+    const ids = calendars.size > 0 ? Array.from(calendars.keys()) : ['primary'];
+    res.json({ items: ids.map((id, index) => ({ id, summary: id, primary: index === 0, timeZone: 'America/Sao_Paulo' })) });
+  });
+
+  app.post('/calendars/:calendarId/events/watch', (req, res) => {
+    const resourceId = `resource-${req.params.calendarId}`;
+    const ttlSeconds = Number(req.body.params?.ttl || 604800);
+    channels.set(req.body.id, { calendarId: req.params.calendarId, resourceId, token: req.body.token, address: req.body.address, messageNumber: 0 });
+    log(`watch ${req.params.calendarId} → ${req.body.address}`);
+    res.json({ kind: 'api#channel', id: req.body.id, resourceId, expiration: String(Date.now() + ttlSeconds * 1000) });
+  });
+
+  app.post('/channels/stop', (req, res) => {
+    channels.delete(req.body.id);
+    res.status(204).send();
+  });
+
+  app.get('/calendars/:calendarId/events', (req, res) => {
+    const events = Array.from(eventsOf(req.params.calendarId).values());
+    const syncToken = req.query.syncToken?.toString();
+
+    if (syncToken) {
+      const since = Number(syncToken.replace('sync-', ''));
+      if (isNaN(since) || since > changeCounter) {
+        return res.status(410).json({ error: { code: 410, message: 'Sync token is no longer valid, a full sync is required.' } });
+      }
+      return res.json({ items: events.filter(event => event.sequence > since).map(toApiEvent), nextSyncToken: `sync-${changeCounter}` });
+    }
+    res.json({ items: events.filter(event => event.status !== 'cancelled').map(toApiEvent), nextSyncToken: `sync-${changeCounter}` });
+  });
+
+  app.post('/_fake/calendars/:calendarId/events', async (req, res) => {
+    const events = eventsOf(req.params.calendarId);
+    const id = req.body.id || randomUUID().replace(/-/g, '');
+    changeCounter++;
+    const event: FakeEvent = {
+      ...events.get(id),
+      ...req.body,
+      id,
+      status: req.body.status || 'confirmed',
+      etag: `"${changeCounter}"`,
+      updated: new Date().toISOString(),
+      sequence: changeCounter,
+    };
+    events.set(id, event);
+    res.json(toApiEvent(event));
+    await notifyChannels(req.params.calendarId);
+  });
+
+  app.delete('/_fake/calendars/:calendarId/events/:eventId', async (req, res) => {
+    const event = eventsOf(req.params.calendarId).get(req.params.eventId);
+    if (!event) return res.status(404).json({ error: { code: 404, message: 'Not Found' } });
+    changeCounter++;
+    Object.assign(event, { status: 'cancelled', etag: `"${changeCounter}"`, updated: new Date().toISOString(), sequence: changeCounter });
+    res.status(204).send();
+    await notifyChannels(req.params.calendarId);
+  });
+
+  return app;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.argv[2] || '5056', 10);
+  createGoogleCalendarFake().listen(port, () => console.log(`Fake Google Calendar API on http://localhost:${port}`));
+}
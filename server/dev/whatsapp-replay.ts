@@ -0,0 +1,55 @@
+/**
+ * Local WhatsApp testing without Meta:
+ *
+ *   npx tsx server/dev/whatsapp-replay.ts send <fixture.json> [webhook url]
+ *     signs a recorded webhook payload with WHATSAPP_APP_SECRET and posts it to the
+ *     app (http://localhost:5000/api/webhooks/whatsapp by default)
+ *
+ *   npx tsx server/dev/whatsapp-replay.ts fake-api [port]
+ *     fake Graph API that logs outgoing messages; run the app with
+ *     WHATSAPP_API_URL=http://localhost:<port> to send through it
+ */
+import { createHmac, randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import http from "http";
+
+async function sendFixture(fixturePath: string, url: string) {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    throw new Error('Set WHATSAPP_APP_SECRET to the same value the app uses');
+  }
+
+  const body = await readFile(fixturePath);
+  const signature = 'sha256=' + createHmac('sha256', appSecret).update(body).digest('hex');
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': signature },
+    body,
+  });
+  console.log(`${response.status} ${await response.text()}`);
+}
+
+function startFakeApi(port: number) {
+  http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      console.log(`${req.method} ${req.url} ${body}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ messaging_product: 'whatsapp', messages: [{ id: `wamid.fake-${randomUUID()}` }] }));
+    });
+  }).listen(port, () => console.log(`Fake WhatsApp API on http://localhost:${port}`));
+}
+
+const [command, arg, extra] = process.argv.slice(2);
+if (command === 'send' && arg) {
+  sendFixture(arg, extra || 'http://localhost:5000/api/webhooks/whatsapp').catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
+} else if (command === 'fake-api') {
+  startFakeApi(parseInt(arg || '5055', 10));
+} else {
+  console.log('Usage: whatsapp-replay.ts send <fixture.json> [url] | fake-api [port]');
+  process.exit(1);
+}
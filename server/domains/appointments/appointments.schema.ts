@@ -1,7 +1,8 @@
 
-import { pgTable, text, serial, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { APPOINTMENT_STATUSES } from "../../../shared/appointment-status";
 
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
@@ -16,18 +17,39 @@ export const appointments = pgTable("appointments", {
   status: text("status").notNull(), // agendada, confirmada, paciente_aguardando, paciente_em_atendimento, finalizada, faltou, cancelada_paciente, cancelada_dentista
   cancellation_reason: text("cancellation_reason"),
   session_notes: text("session_notes"),
+  observations: text("observations"),
+  next_appointment_suggested: timestamp("next_appointment_suggested"),
+  return_period: text("return_period"), // sem_retorno, 15_dias, 1_mes, 6_meses, 12_meses, outro
+  how_found_clinic: text("how_found_clinic"),
+  tags: text("tags").array(),
+  receive_reminders: boolean("receive_reminders").default(true),
   payment_status: text("payment_status").default("pendente"),
   payment_amount: integer("payment_amount"),
   google_calendar_event_id: text("google_calendar_event_id"),
+  recurrence_series_id: text("recurrence_series_id"),
+  recurrence_rule: text("recurrence_rule"), // weekly, biweekly, monthly
+  recurrence_count: integer("recurrence_count"),
+  recurrence_until: timestamp("recurrence_until"),
+  recurrence_index: integer("recurrence_index"),
+  recurrence_exception: boolean("recurrence_exception").default(false),
+  capacity: integer("capacity"),
+  booking_source: text("booking_source"),
+  arrived_at: timestamp("arrived_at"),
+  started_at: timestamp("started_at"),
+  finished_at: timestamp("finished_at"),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_appointments_user").on(table.user_id),
   index("idx_appointments_contact").on(table.contact_id),
   index("idx_appointments_clinic").on(table.clinic_id),
+  index("idx_appointments_series").on(table.recurrence_series_id),
 ]);
 
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  status: z.enum(APPOINTMENT_STATUSES),
+  capacity: z.number().int().min(2).nullable().optional(),
+}).omit({
   id: true,
   created_at: true,
   updated_at: true,
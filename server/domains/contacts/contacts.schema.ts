@@ -21,6 +21,7 @@ export const contacts = pgTable("contacts", {
   priority: text("priority").default("normal"), // baixa, normal, alta, urgente
   source: text("source").default("whatsapp"), // whatsapp, site, indicacao, outros
   notes: text("notes"),
+  campaign_opt_out_at: timestamp("campaign_opt_out_at"), // pediu para não receber campanhas (lembretes continuam)
   first_contact: timestamp("first_contact").defaultNow(),
   last_interaction: timestamp("last_interaction").defaultNow(),
 });
@@ -29,7 +30,9 @@ export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   contact_id: integer("contact_id").notNull(),
   clinic_id: integer("clinic_id").notNull(),
-  status: text("status").notNull(),
+  status: text("status").notNull(), // aberta, aguardando_equipe, fechada
+  assigned_user_id: integer("assigned_user_id"),
+  last_read_at: timestamp("last_read_at"),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -37,9 +40,13 @@ export const conversations = pgTable("conversations", {
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   conversation_id: integer("conversation_id").notNull(),
-  sender_type: text("sender_type").notNull(), // patient, ai
+  sender_type: text("sender_type").notNull(), // patient, ai, staff
+  sender_user_id: integer("sender_user_id"),
   content: text("content").notNull(),
   ai_action: text("ai_action"), // agendou_consulta, enviou_followup, etc
+  appointment_id: integer("appointment_id"),
+  intent: text("intent"), // confirm, cancel, reschedule, unknown
+  external_id: text("external_id"),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
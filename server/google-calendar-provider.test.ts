@@ -0,0 +1,168 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import type { CalendarIntegration, InsertExternalCalendarEvent } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { registerCalendarProvider, type ProviderEvent } from "./calendar-providers";
+import { CalendarSyncService, createGoogleCalendarWebhookHandler } from "./calendar-sync-service";
+import { CalendarTokenManager } from "./calendar-token-manager";
+import { GoogleCalendarProvider } from "./google-calendar-provider";
+import { createGoogleCalendarFake } from "./dev/google-calendar-fake";
+
+// One connected Google calendar; the storage below keeps its row and event cache in memory
+let integration = {
+  id: 1,
+  user_id: 'user-1',
+  clinic_id: 7,
+  provider: 'google',
+  calendar_id: 'primary',
+  access_token: 'test-token',
+  token_expires_at: new Date(Date.now() + 3600 * 1000),
+  needs_reconnect: false,
+  sync_enabled: true,
+  sync_token: null,
+  watch_channel_id: null,
+  watch_resource_id: null,
+  watch_token: null,
+  watch_expires_at: null,
+} as unknown as CalendarIntegration;
+
+const cachedEvents = new Map<string, InsertExternalCalendarEvent>();
+const fullSyncs: Date[] = [];
+
+const storage = {
+  getCalendarIntegration: async (id: number) => id === integration.id ? integration : undefined,
+  getCalendarIntegrationByWebhook: async (channelId: string, resourceId: string) =>
+    integration.watch_channel_id === channelId && integration.watch_resource_id === resourceId ? integration : undefined,
+  updateCalendarIntegration: async (_id: number, updates: Partial<CalendarIntegration>) => {
+    integration = { ...integration, ...updates };
+    return integration;
+  },
+  upsertExternalCalendarEvents: async (rows: InsertExternalCalendarEvent[]) => {
+    for (const row of rows) cachedEvents.set(row.external_id, row);
+  },
+  softDeleteExternalCalendarEvents: async (_integrationId: number, externalIds: string[]) => {
+    for (const id of externalIds) cachedEvents.delete(id);
+  },
+  softDeleteStaleExternalCalendarEvents: async (_integrationId: number, syncedAt: Date) => {
+    fullSyncs.push(syncedAt);
+  },
+  // No appointment is linked to the calendar's events
+  getCalendarEventLinksForIntegration: async () => [],
+  getCalendarEventLinkByExternalId: async () => undefined,
+  getAppointmentsByGoogleEventId: async () => [],
+} as unknown as IStorage;
+
+// Resolved by the next sync that reports changed events
+let nextChange: Promise<ProviderEvent[]> = Promise.resolve([]);
+let resolveChange: (events: ProviderEvent[]) => void = () => {};
+const expectChange = () => {
+  nextChange = new Promise(resolve => { resolveChange = resolve; });
+};
+
+const calendarSync = new CalendarSyncService(storage, new CalendarTokenManager(storage), {
+  onChange: (_integration, events) => resolveChange(events),
+});
+
+let fakeServer: http.Server;
+let appServer: http.Server;
+let fakeUrl = '';
+
+const urlOf = (server: http.Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+before(async () => {
+  fakeServer = createGoogleCalendarFake(() => {}).listen(0);
+  const app = express();
+  app.post('/api/webhooks/google-calendar', createGoogleCalendarWebhookHandler(calendarSync));
+  appServer = app.listen(0);
+  await Promise.all([fakeServer, appServer].map(server => new Promise(resolve => server.once('listening', resolve))));
+
+  fakeUrl = urlOf(fakeServer);
+  process.env.GOOGLE_CALENDAR_API_URL = fakeUrl;
+  process.env.CALENDAR_WEBHOOK_URL = `${urlOf(appServer)}/api/webhooks/google-calendar`;
+  registerCalendarProvider(new GoogleCalendarProvider());
+});
+
+after(() => {
+  fakeServer.close();
+  appServer.close();
+});
+
+// Changes the calendar "at Google"; the fake notifies the open channels
+async function changeEvent(event: Record<string, unknown>) {
+  const response = await fetch(`${fakeUrl}/_fake/calendars/primary/events`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(event),
+  });
+  assert.equal(response.status, 200);
+}
+
+const tomorrowAt = (hour: number) => {
+  const date = new Date(Date.now() + 24 * 3600 * 1000);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date.toISOString();
+};
+
+test("opening the watch channel runs the first full sync and stores the sync token", async () => {
+  await changeEvent({ id: 'event-a', summary: 'Congresso', start: { dateTime: tomorrowAt(12) }, end: { dateTime: tomorrowAt(13) } });
+
+  const watched = await calendarSync.startWatch(integration);
+
+  assert.ok(watched?.watch_channel_id);
+  assert.equal(watched?.watch_resource_id, 'resource-primary');
+  assert.ok(watched!.watch_expires_at! > new Date());
+  assert.equal(integration.sync_token, 'sync-1');
+  assert.equal(fullSyncs.length, 1);
+  assert.deepEqual(Array.from(cachedEvents.keys()), ['event-a']);
+  assert.equal(cachedEvents.get('event-a')?.starts_at.toISOString(), tomorrowAt(12));
+});
+
+test("a channel notification fetches only what changed since the sync token", async () => {
+  expectChange();
+  await changeEvent({ id: 'event-b', summary: 'Dentista', start: { dateTime: tomorrowAt(15) }, end: { dateTime: tomorrowAt(16) } });
+  const created = await nextChange;
+
+  assert.deepEqual(created.map(event => event.id), ['event-b']);
+  assert.equal(integration.sync_token, 'sync-2');
+  assert.equal(integration.last_sync_trigger, 'webhook');
+  assert.equal(fullSyncs.length, 1);
+
+  expectChange();
+  const deleted = await fetch(`${fakeUrl}/_fake/calendars/primary/events/event-a`, { method: 'DELETE' });
+  assert.equal(deleted.status, 204);
+  const cancelled = await nextChange;
+
+  assert.deepEqual(cancelled.map(event => [event.id, event.status]), [['event-a', 'cancelled']]);
+  assert.deepEqual(Array.from(cachedEvents.keys()), ['event-b']);
+  assert.equal(integration.sync_token, 'sync-3');
+});
+
+test("notifications from an unknown channel or with a wrong token are refused", async () => {
+  const notify = (channelId: string, token: string) => fetch(process.env.CALENDAR_WEBHOOK_URL!, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Channel-ID': channelId,
+      'X-Goog-Channel-Token': token,
+      'X-Goog-Resource-ID': 'resource-primary',
+      'X-Goog-Resource-State': 'exists',
+    },
+  });
+
+  assert.equal((await notify(integration.watch_channel_id!, 'wrong-token')).status, 404);
+  assert.equal((await notify('other-channel', integration.watch_token!)).status, 404);
+});
+
+test("an expired sync token (410 Gone) falls back to a full sync", async () => {
+  await storage.updateCalendarIntegration(integration.id, { sync_token: 'sync-99' });
+
+  const events = await calendarSync.syncIntegration(integration, 'poll');
+
+  assert.deepEqual(events.map(event => event.id), ['event-b']);
+  assert.equal(fullSyncs.length, 2);
+  assert.equal(integration.sync_token, 'sync-3');
+  assert.equal(integration.sync_errors, null);
+  assert.equal(integration.sync_in_progress, false);
+});
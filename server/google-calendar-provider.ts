@@ -0,0 +1,230 @@
+import {
+  CalendarProviderError,
+  readProviderError,
+  type CalendarConnection,
+  type CalendarProvider,
+  type ProviderAccount,
+  type ProviderCalendar,
+  type ProviderEvent,
+  type ProviderEventChanges,
+  type ProviderEventInput,
+  type ProviderTokens,
+  type WatchRequest,
+  type WatchResult
+} from "./calendar-providers";
+
+// The API and token URLs can point at a local fake (see server/dev/google-calendar-fake.ts)
+const DEFAULT_API_URL = 'https://www.googleapis.com/calendar/v3';
+const DEFAULT_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const AUTHORIZATION_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const SCOPES = ['https://www.googleapis.com/auth/calendar'];
+
+export interface GoogleCalendarEvent {
+  id: string;
+  status?: string; // confirmed, tentative, cancelled (deleted)
+  summary?: string;
+  description?: string;
+  location?: string;
+  etag?: string;
+  updated?: string;
+  start?: { dateTime?: string; date?: string; timeZone?: string };
+  end?: { dateTime?: string; date?: string; timeZone?: string };
+}
+
+export function fromGoogleEvent(event: GoogleCalendarEvent): ProviderEvent {
+  const start = event.start?.dateTime || event.start?.date;
+  const end = event.end?.dateTime || event.end?.date || start;
+  return {
+    id: event.id,
+    status: event.status === 'cancelled' || event.status === 'tentative' ? event.status : 'confirmed',
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    start: start ? new Date(start) : undefined,
+    end: end ? new Date(end) : undefined,
+    allDay: !event.start?.dateTime,
+    etag: event.etag,
+    updatedAt: event.updated ? new Date(event.updated) : undefined,
+  };
+}
+
+function toGoogleEvent(input: ProviderEventInput) {
+  return {
+    summary: input.summary,
+    description: input.description,
+    location: input.location,
+    // Writing over an event deleted in the calendar brings it back
+    status: 'confirmed',
+    start: { dateTime: input.start.toISOString(), timeZone: input.timeZone },
+    end: { dateTime: input.end.toISOString(), timeZone: input.timeZone },
+  };
+}
+
+/**
+ * Google Calendar API v3 over plain HTTP, so the base URL can be swapped for a
+ * fake in development. Watch channels push "something changed" notifications;
+ * changes are then read with the sync token.
+ */
+export class GoogleCalendarProvider implements CalendarProvider {
+  readonly name = 'google';
+  readonly label = 'Google Agenda';
+  readonly auth = 'oauth';
+  readonly webhookPath = '/api/webhooks/google-calendar';
+
+  private get apiUrl() {
+    return process.env.GOOGLE_CALENDAR_API_URL || DEFAULT_API_URL;
+  }
+
+  private get tokenUrl() {
+    return process.env.GOOGLE_OAUTH_TOKEN_URL || DEFAULT_TOKEN_URL;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_CLIENT_ID && !!process.env.GOOGLE_CLIENT_SECRET;
+  }
+
+  private async request(connection: CalendarConnection, method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<any> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${connection.accessToken}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) throw await readProviderError(response);
+    if (response.status === 204) return {};
+    return response.json().catch(() => ({}));
+  }
+
+  private async requestTokens(params: Record<string, string>): Promise<any> {
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID || '',
+        client_secret: process.env.GOOGLE_CLIENT_SECRET || '',
+        ...params,
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.access_token) {
+      // A rejected grant (400 invalid_grant) means the user has to authorize again;
+      // other failures are the token endpoint's and are retried later
+      const status = response.status === 400 || response.status === 401 ? 401 : (response.ok ? 502 : response.status);
+      throw new CalendarProviderError(status, data.error_description || data.error || 'Token request failed');
+    }
+    return data;
+  }
+
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID || '',
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: SCOPES.join(' '),
+      access_type: 'offline',
+      prompt: 'consent', // always returns a refresh token
+      state,
+    });
+    return `${AUTHORIZATION_URL}?${params}`;
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<ProviderAccount> {
+    const data = await this.requestTokens({ code, redirect_uri: redirectUri, grant_type: 'authorization_code' });
+    const tokens: ProviderTokens = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: new Date(Date.now() + (data.expires_in || 3600) * 1000),
+    };
+    // The primary calendar's id is the account's address
+    const primary = (await this.listCalendars(tokens)).find(calendar => calendar.primary);
+    return { ...tokens, email: primary?.id, providerUserId: primary?.id };
+  }
+
+  async refreshTokens(refreshToken: string): Promise<ProviderTokens> {
+    const data = await this.requestTokens({ refresh_token: refreshToken, grant_type: 'refresh_token' });
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: new Date(Date.now() + (data.expires_in || 3600) * 1000),
+    };
+  }
+
+  async listCalendars(connection: CalendarConnection): Promise<ProviderCalendar[]> {
+    const data = await this.request(connection, 'GET', '/users/me/calendarList');
+    return (data.items || []).map((calendar: any) => ({
+      id: calendar.id,
+      name: calendar.summaryOverride || calendar.summary || calendar.id,
+      primary: !!calendar.primary,
+      timeZone: calendar.timeZone,
+    }));
+  }
+
+  /**
+   * Events changed since the sync token (deleted ones come with status "cancelled"),
+   * or every event from the window start on when there is no token yet.
+   */
+  async listEventChanges(connection: CalendarConnection, calendarId: string, cursor: string | null | undefined, window: { start: Date; end: Date }): Promise<ProviderEventChanges> {
+    const events: ProviderEvent[] = [];
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ singleEvents: 'true', maxResults: '2500' });
+      // Google rejects timeMin together with a sync token; the token keeps the original window
+      if (cursor) params.set('syncToken', cursor);
+      else params.set('timeMin', window.start.toISOString());
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const data = await this.request(connection, 'GET', `/calendars/${encodeURIComponent(calendarId)}/events?${params}`);
+      events.push(...(data.items || []).map(fromGoogleEvent));
+      pageToken = data.nextPageToken;
+      nextSyncToken = data.nextSyncToken;
+    } while (pageToken);
+
+    return { events, cursor: nextSyncToken, fullSync: !cursor };
+  }
+
+  async createEvent(connection: CalendarConnection, calendarId: string, input: ProviderEventInput): Promise<ProviderEvent> {
+    const data = await this.request(connection, 'POST', `/calendars/${encodeURIComponent(calendarId)}/events`, toGoogleEvent(input));
+    return fromGoogleEvent(data);
+  }
+
+  async updateEvent(connection: CalendarConnection, calendarId: string, eventId: string, input: ProviderEventInput, etag?: string): Promise<ProviderEvent> {
+    const data = await this.request(
+      connection,
+      'PUT',
+      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      toGoogleEvent(input),
+      etag ? { 'If-Match': etag } : {}
+    );
+    return fromGoogleEvent(data);
+  }
+
+  async deleteEvent(connection: CalendarConnection, calendarId: string, eventId: string): Promise<void> {
+    try {
+      await this.request(connection, 'DELETE', `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`);
+    } catch (error) {
+      // Already deleted at Google
+      if (error instanceof CalendarProviderError && (error.status === 404 || error.status === 410)) return;
+      throw error;
+    }
+  }
+
+  async watch(connection: CalendarConnection, calendarId: string, request: WatchRequest): Promise<WatchResult> {
+    const data = await this.request(connection, 'POST', `/calendars/${encodeURIComponent(calendarId)}/events/watch`, {
+      id: request.channelId,
+      type: 'web_hook',
+      address: request.address,
+      token: request.token,
+      params: { ttl: String(request.ttlSeconds) },
+    });
+    return { channelId: request.channelId, resourceId: data.resourceId, expiration: new Date(Number(data.expiration)) };
+  }
+
+  async stopWatch(connection: CalendarConnection, channelId: string, resourceId: string): Promise<void> {
+    await this.request(connection, 'POST', '/channels/stop', { id: channelId, resourceId });
+  }
+}
@@ -0,0 +1,108 @@
+import type { IStorage } from "./storage";
+import type { Appointment, AppointmentParticipant, InsertAppointment, InsertAppointmentParticipant } from "@shared/schema";
+
+export function isGroupSession(appointment: Pick<Appointment, 'capacity'>): boolean {
+  return appointment.capacity != null;
+}
+
+/**
+ * Group sessions (group therapy, classes): one appointment with a number of
+ * seats and a participant list. The appointment's contact_id is the session
+ * holder, who is always one of the participants.
+ */
+export class GroupSessionService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  // Enrolls the holder of a new (or newly converted) group session as a participant
+  async enrollHolder(appointment: Appointment): Promise<AppointmentParticipant | undefined> {
+    if (!isGroupSession(appointment)) return undefined;
+
+    const participants = await this.storage.getAppointmentParticipants(appointment.id);
+    const existing = participants.find(participant => participant.contact_id === appointment.contact_id);
+    if (existing) return existing;
+
+    return this.storage.createAppointmentParticipant({
+      appointment_id: appointment.id,
+      contact_id: appointment.contact_id,
+      payment_amount: appointment.payment_amount,
+    });
+  }
+
+  async enroll(
+    appointment: Appointment,
+    participant: Omit<InsertAppointmentParticipant, 'appointment_id'>
+  ): Promise<AppointmentParticipant> {
+    if (!isGroupSession(appointment)) {
+      throw new Error('Appointment is not a group session');
+    }
+
+    const contact = await this.storage.getContact(participant.contact_id);
+    if (!contact || contact.clinic_id !== appointment.clinic_id) {
+      throw new Error('Contact not found');
+    }
+
+    const participants = await this.storage.getAppointmentParticipants(appointment.id);
+    if (participants.some(existing => existing.contact_id === participant.contact_id)) {
+      throw new Error('Contact already enrolled');
+    }
+
+    const created = await this.storage.createAppointmentParticipant({
+      payment_amount: appointment.payment_amount,
+      ...participant,
+      appointment_id: appointment.id,
+    });
+    if (!created) {
+      throw new Error('Group session is full');
+    }
+    return created;
+  }
+
+  /**
+   * Removes a participant. Removing the holder hands the session over to the
+   * next participant; the last participant can't be removed (cancel the
+   * session instead).
+   */
+  async remove(appointment: Appointment, participant: AppointmentParticipant): Promise<void> {
+    const participants = await this.storage.getAppointmentParticipants(appointment.id);
+    const remaining = participants.filter(existing => existing.id !== participant.id);
+    if (remaining.length === 0) {
+      throw new Error('Cannot remove the last participant');
+    }
+
+    if (participant.contact_id === appointment.contact_id) {
+      await this.storage.updateAppointment(appointment.id, { contact_id: remaining[0].contact_id });
+    }
+    await this.storage.deleteAppointmentParticipant(participant.id);
+  }
+
+  /**
+   * Checks an appointment edit against its participants: the capacity can't drop
+   * below the enrolled count, and the holder of a group session only changes
+   * through the participant list.
+   */
+  async validateUpdate(appointment: Appointment, updates: Partial<InsertAppointment>): Promise<void> {
+    if (isGroupSession(appointment) && updates.contact_id !== undefined && updates.contact_id !== appointment.contact_id) {
+      throw new Error('Group session holder is managed by participants');
+    }
+
+    if (updates.capacity === undefined || updates.capacity === appointment.capacity) return;
+
+    const participants = await this.storage.getAppointmentParticipants(appointment.id);
+    if (updates.capacity === null ? participants.length > 1 : participants.length > updates.capacity) {
+      throw new Error('Capacity below enrolled participants');
+    }
+  }
+
+  // Whether the contact attends the appointment, as its patient or as a group participant
+  async isAttendee(appointment: Appointment, contactId: number): Promise<boolean> {
+    if (appointment.contact_id === contactId) return true;
+    if (!isGroupSession(appointment)) return false;
+
+    const participants = await this.storage.getAppointmentParticipants(appointment.id);
+    return participants.some(participant => participant.contact_id === contactId);
+  }
+}
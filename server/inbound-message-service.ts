@@ -0,0 +1,228 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { Appointment, Contact, Conversation, Message, MessageIntent } from "@shared/schema";
+import { MESSAGE_INTENTS } from "@shared/schema";
+import { getMessageChannel, type MessageChannelAdapter } from "./message-channels";
+import { ConversationService } from "./conversation-service";
+import { AppointmentStatusService } from "./appointment-status-service";
+import { normalizePhone } from "./online-booking-service";
+
+export interface InboundMessage {
+  clinicId: number;
+  from: string; // sender phone number
+  body: string;
+  senderName?: string; // profile name from the channel, used for new contacts
+  externalId?: string; // message id at the channel
+}
+
+export const inboundMessageSchema = z.object({
+  from: z.string().trim().min(8),
+  body: z.string().trim().min(1).max(4000),
+  sender_name: z.string().trim().max(120).optional(),
+});
+
+export interface InboundResult {
+  contact: Contact;
+  conversation: Conversation;
+  message: Message;
+  intent: MessageIntent;
+  appointment?: Appointment;
+  action: 'confirmed' | 'already_confirmed' | 'flagged' | 'queued' | 'opted_out';
+}
+
+export interface ReplyClassifier {
+  classify(text: string): Promise<MessageIntent>;
+}
+
+// Lowercase, without accents or punctuation, so "Não posso!" matches "nao posso"
+function normalizeReply(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The whole reply has to be the opt-out word, so "não consigo parar de tossir" is not one
+const OPT_OUT_PATTERN = /^(sair|parar|pare|stop|descadastrar|nao quero mais receber( mensagens)?)$/;
+const CANCEL_PATTERN = /\b(cancel\w*|desmarc\w*|desist\w*|nao vou|nao irei|nao vou poder ir)\b/;
+const RESCHEDULE_PATTERN = /\b(remarc\w*|reagend\w*|adiar|outro (dia|horario)|mudar|trocar|nao posso|nao consigo|nao poderei)\b/;
+const CONFIRM_PATTERN = /^(sim|s|ss|ok|okay|confirmo|confirmado|confirmada|confirmar|pode confirmar|estarei (la|ai|presente)|vou sim|certo|combinado|positivo)\b/;
+const CONFIRM_EMOJIS = ['👍', '✅', '👌'];
+
+/**
+ * Keyword rules for short replies to reminders. Cancellation and rescheduling are
+ * checked first, so "sim, mas não posso" is never taken as a confirmation.
+ */
+export function classifyReplyByRules(text: string): MessageIntent {
+  const reply = normalizeReply(text);
+  if (OPT_OUT_PATTERN.test(reply)) return 'opt_out';
+  if (CANCEL_PATTERN.test(reply)) return 'cancel';
+  if (RESCHEDULE_PATTERN.test(reply)) return 'reschedule';
+  if (CONFIRM_PATTERN.test(reply) || CONFIRM_EMOJIS.some(emoji => text.trim().startsWith(emoji))) {
+    return /\bnao\b/.test(reply) ? 'unknown' : 'confirm';
+  }
+  return 'unknown';
+}
+
+export class RuleBasedReplyClassifier implements ReplyClassifier {
+  async classify(text: string): Promise<MessageIntent> {
+    return classifyReplyByRules(text);
+  }
+}
+
+/**
+ * Rules first; replies they don't recognize are sent to the AI model. Any model
+ * error falls back to "unknown", which leaves the reply for the front desk.
+ */
+export class AIReplyClassifier implements ReplyClassifier {
+  private openai: OpenAI;
+
+  constructor() {
+    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+
+  async classify(text: string): Promise<MessageIntent> {
+    const byRules = classifyReplyByRules(text);
+    if (byRules !== 'unknown') return byRules;
+
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: "Você classifica respostas de pacientes a um lembrete de consulta. Responda apenas com uma palavra: " +
+              "confirm (vai comparecer), cancel (quer cancelar), reschedule (quer remarcar ou não pode no horário), " +
+              "opt_out (não quer mais receber mensagens da clínica) ou unknown (outro assunto ou dúvida)."
+          },
+          { role: "user", content: text }
+        ],
+        temperature: 0,
+        max_tokens: 5
+      });
+      const answer = response.choices[0].message.content?.trim().toLowerCase() as MessageIntent | undefined;
+      return answer && MESSAGE_INTENTS.includes(answer) ? answer : 'unknown';
+    } catch (error) {
+      console.error("Error classifying reply with AI:", error);
+      return 'unknown';
+    }
+  }
+}
+
+// REPLY_CLASSIFIER=ai turns on the AI fallback (needs OPENAI_API_KEY)
+export function createReplyClassifier(): ReplyClassifier {
+  return process.env.REPLY_CLASSIFIER === 'ai' && process.env.OPENAI_API_KEY
+    ? new AIReplyClassifier()
+    : new RuleBasedReplyClassifier();
+}
+
+export const REPLY_ACKNOWLEDGEMENTS = {
+  confirmed: "Obrigado! Sua consulta está confirmada. Até breve!",
+  flagged: "Recebemos sua mensagem. Nossa equipe vai entrar em contato para ajudar com sua consulta.",
+  optedOut: "Pronto, você não vai mais receber campanhas da clínica. Os lembretes das suas consultas continuam.",
+};
+
+/**
+ * Handles messages patients send to the clinic: the reply is appended to the contact's
+ * conversation, confirmations move the next appointment to "confirmada", opt-out replies
+ * stop campaigns to the contact, and cancel or reschedule requests and unrecognized replies
+ * wait in the front desk queue.
+ */
+export class InboundMessageService {
+  private storage: IStorage;
+  private classifier: ReplyClassifier;
+  private channel: MessageChannelAdapter;
+  private conversationService: ConversationService;
+  private appointmentStatusService: AppointmentStatusService;
+
+  constructor(storage: IStorage, classifier: ReplyClassifier = createReplyClassifier(), channel: MessageChannelAdapter = getMessageChannel()) {
+    this.storage = storage;
+    this.classifier = classifier;
+    this.channel = channel;
+    this.conversationService = new ConversationService(storage);
+    this.appointmentStatusService = new AppointmentStatusService(storage);
+  }
+
+  // Matches the sender to a clinic contact by phone; unknown numbers become new contacts
+  async findOrCreateContact(clinicId: number, phone: string, name?: string): Promise<Contact> {
+    const normalized = normalizePhone(phone);
+    const contacts = await this.storage.getContacts(clinicId);
+    const existing = contacts.find(contact => normalizePhone(contact.phone) === normalized);
+    if (existing) return existing;
+
+    return this.storage.createContact({
+      clinic_id: clinicId,
+      name: name?.trim() || phone,
+      phone,
+      status: 'novo',
+    });
+  }
+
+  // Next appointment the patient can still confirm (the one reminders are about)
+  async findPendingAppointment(clinicId: number, contactId: number, now: Date = new Date()): Promise<Appointment | undefined> {
+    const appointments = await this.storage.getAppointmentsByContact(contactId);
+    return appointments
+      .filter(appointment =>
+        appointment.clinic_id === clinicId &&
+        ['agendada', 'confirmada'].includes(appointment.status) &&
+        appointment.scheduled_date && new Date(appointment.scheduled_date) > now
+      )
+      .sort((a, b) => new Date(a.scheduled_date!).getTime() - new Date(b.scheduled_date!).getTime())[0];
+  }
+
+  async handleInbound(inbound: InboundMessage): Promise<InboundResult> {
+    const contact = await this.findOrCreateContact(inbound.clinicId, inbound.from, inbound.senderName);
+    let conversation = await this.conversationService.getOrStartConversation(inbound.clinicId, contact.id);
+    const appointment = await this.findPendingAppointment(inbound.clinicId, contact.id);
+    const intent = await this.classifier.classify(inbound.body);
+
+    const message = await this.conversationService.recordMessage(conversation, 'patient', inbound.body, {
+      appointment_id: appointment?.id ?? null,
+      intent,
+      external_id: inbound.externalId ?? null,
+    });
+
+    if (intent === 'opt_out') {
+      const updated = await this.storage.updateContact(contact.id, { campaign_opt_out_at: new Date() });
+      await this.acknowledge(conversation, contact, REPLY_ACKNOWLEDGEMENTS.optedOut, 'saiu_das_campanhas');
+      return { contact: updated ?? contact, conversation, message, intent, appointment, action: 'opted_out' };
+    }
+
+    if (intent === 'confirm' && appointment) {
+      if (appointment.status === 'confirmada') {
+        return { contact, conversation, message, intent, appointment, action: 'already_confirmed' };
+      }
+
+      const confirmed = await this.appointmentStatusService.transition(appointment, 'confirmada', {
+        changedBy: null,
+        reason: 'Confirmada pelo paciente por mensagem'
+      });
+      await this.acknowledge(conversation, contact, REPLY_ACKNOWLEDGEMENTS.confirmed, 'confirmou_consulta', appointment.id);
+      return { contact, conversation, message, intent, appointment: confirmed ?? appointment, action: 'confirmed' };
+    }
+
+    // Everything else needs a person: cancel/reschedule requests and replies we couldn't read
+    conversation = (await this.storage.updateConversation(conversation.id, { status: 'aguardando_equipe' })) ?? conversation;
+    if ((intent === 'cancel' || intent === 'reschedule') && appointment) {
+      await this.acknowledge(conversation, contact, REPLY_ACKNOWLEDGEMENTS.flagged, 'encaminhou_recepcao', appointment.id);
+      return { contact, conversation, message, intent, appointment, action: 'flagged' };
+    }
+    return { contact, conversation, message, intent, appointment, action: 'queued' };
+  }
+
+  // The automatic answer is a courtesy: a failed send must not lose the patient's reply
+  private async acknowledge(conversation: Conversation, contact: Contact, content: string, aiAction: string, appointmentId?: number) {
+    try {
+      await this.conversationService.sendToContact(this.channel, conversation, contact, content, {
+        ai_action: aiAction,
+        appointment_id: appointmentId ?? null,
+      });
+    } catch (error) {
+      console.error("Error sending reply acknowledgement:", error);
+    }
+  }
+}
@@ -6,7 +6,12 @@ import { setupAuth } from "./auth";
 import http from "http";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Webhook signatures (e.g. WhatsApp) are computed over the exact bytes received
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
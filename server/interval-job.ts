@@ -0,0 +1,31 @@
+/**
+ * Background jobs that run on a timer in this process (reminders, campaigns,
+ * calendar sync). Each run reports counts, e.g. { sent: 2, failed: 0 }, logged
+ * as "⏰ Appointment reminders: 2 sent, 0 failed" when any of them is non-zero.
+ */
+export type IntervalJobCounts = Record<string, number>;
+
+// Runs the job now and then every intervalMs; a tick is skipped while the previous run is still going
+export function startIntervalJob(label: string, run: () => Promise<IntervalJobCounts>, intervalMs: number): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const counts = await run();
+      if (Object.values(counts).some(count => count > 0)) {
+        console.log(`${label}: ${Object.entries(counts).map(([name, count]) => `${count} ${name}`).join(', ')}`);
+      }
+    } catch (error) {
+      console.error(`Error running job "${label}":`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  return () => clearInterval(timer);
+}
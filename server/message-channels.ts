@@ -0,0 +1,66 @@
+import { appendFile } from "fs/promises";
+
+export interface OutboundMessage {
+  clinicId: number;
+  to: string; // recipient address, e.g. the patient's phone number
+  body: string;
+  // Pre-approved provider template; channels without templates send the body instead
+  template?: { name: string; language: string; parameters: string[] };
+}
+
+export interface SendResult {
+  externalId?: string; // message id at the provider, when it returns one
+}
+
+/**
+ * A delivery channel for patient messages (WhatsApp, SMS, ...).
+ * send() throws when the provider rejects the message.
+ */
+export interface MessageChannelAdapter {
+  readonly name: string;
+  send(message: OutboundMessage): Promise<SendResult>;
+}
+
+/**
+ * Local development channel: logs every message and, when MESSAGE_OUTBOX_FILE is
+ * set, appends it to that file as a JSON line. Nothing reaches a real patient.
+ */
+export class ConsoleMessageAdapter implements MessageChannelAdapter {
+  readonly name = 'console';
+  private outboxFile?: string;
+
+  constructor(outboxFile: string | undefined = process.env.MESSAGE_OUTBOX_FILE) {
+    this.outboxFile = outboxFile;
+  }
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const externalId = `console-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    console.log(`📨 [${this.name}] clinic ${message.clinicId} → ${message.to}: ${message.body}`);
+    if (this.outboxFile) {
+      await appendFile(this.outboxFile, JSON.stringify({ ...message, externalId, sentAt: new Date().toISOString() }) + '\n');
+    }
+    return { externalId };
+  }
+}
+
+// The console channel reaches no one: outside development, automated sends wait for a real channel
+export function canDeliverMessages(adapter: MessageChannelAdapter): boolean {
+  return adapter.name !== 'console' || process.env.NODE_ENV === 'development';
+}
+
+const channels = new Map<string, MessageChannelAdapter>();
+
+export function registerMessageChannel(adapter: MessageChannelAdapter): void {
+  channels.set(adapter.name, adapter);
+}
+
+// Channel outgoing patient messages use, chosen with MESSAGE_CHANNEL (console by default)
+export function getMessageChannel(name: string = process.env.MESSAGE_CHANNEL || 'console'): MessageChannelAdapter {
+  const adapter = channels.get(name);
+  if (!adapter) {
+    throw new Error(`Unknown message channel: ${name}`);
+  }
+  return adapter;
+}
+
+registerMessageChannel(new ConsoleMessageAdapter());
@@ -0,0 +1,296 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { Appointment, Clinic, Contact } from "@shared/schema";
+import { DEFAULT_CLINIC_TIMEZONE, toZonedTime } from "@shared/timezone";
+import { getAppointmentLinkPath, isAppointmentLinkConfigured } from "./appointment-link-service";
+
+/**
+ * Message templates (ai_templates.content):
+ *
+ *   {{nome}}                         variable
+ *   {{data | extenso}}               variable with a formatter
+ *   {{#if valor}}...{{else}}...{{/if}}  block shown when the variable has a value
+ *
+ * Dates are already in the clinic timezone when they reach the template.
+ */
+
+export type TemplateValue = string | number | Date | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+type VariableKind = 'text' | 'date' | 'currency';
+
+interface TemplateVariableDefinition {
+  description: string;
+  kind: VariableKind;
+  format?: TemplateFormatter; // used when the template gives no formatter
+}
+
+const TEMPLATE_FORMATTERS = {
+  curta: { kind: 'date', apply: (value: Date) => format(value, 'dd/MM/yyyy') },
+  extenso: { kind: 'date', apply: (value: Date) => format(value, "EEEE, d 'de' MMMM", { locale: ptBR }) },
+  dia_semana: { kind: 'date', apply: (value: Date) => format(value, 'EEEE', { locale: ptBR }) },
+  hora: { kind: 'date', apply: (value: Date) => format(value, 'HH:mm') },
+  moeda: {
+    kind: 'currency',
+    apply: (cents: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(cents / 100),
+  },
+} as const;
+
+export type TemplateFormatter = keyof typeof TEMPLATE_FORMATTERS;
+
+// Variables a template can use. The first five are the ones the seeded templates were written with
+export const TEMPLATE_VARIABLES: Record<string, TemplateVariableDefinition> = {
+  nome: { description: 'Nome do paciente', kind: 'text' },
+  clinica: { description: 'Nome da clínica', kind: 'text' },
+  doutor: { description: 'Profissional da consulta', kind: 'text' },
+  data: { description: 'Data da consulta', kind: 'date', format: 'curta' },
+  hora: { description: 'Horário da consulta', kind: 'date', format: 'hora' },
+  primeiro_nome: { description: 'Primeiro nome do paciente', kind: 'text' },
+  especialidade: { description: 'Especialidade da consulta', kind: 'text' },
+  valor: { description: 'Valor da consulta', kind: 'currency', format: 'moeda' },
+  endereco: { description: 'Endereço da clínica', kind: 'text' },
+  telefone_clinica: { description: 'Telefone da clínica', kind: 'text' },
+  link: { description: 'Link para o paciente remarcar ou cancelar', kind: 'text' },
+};
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; formatter?: string; raw: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: string[];
+}
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+// Unclosed blocks are closed at the end, so a template with errors still renders
+function parseTemplate(content: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const errors: string[] = [];
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(content)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: content.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[1].trim();
+    if (tag.startsWith('#if')) {
+      const name = tag.slice(3).trim();
+      if (!name) errors.push('Bloco {{#if}} sem variável');
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        errors.push('{{else}} fora de um bloco {{#if}}');
+      } else {
+        top.inElse = true;
+      }
+    } else if (tag === '/if') {
+      if (!stack.pop()) errors.push('{{/if}} sem {{#if}} correspondente');
+    } else {
+      const [name, formatter, ...rest] = tag.split('|').map(part => part.trim());
+      if (!name || rest.length > 0) {
+        errors.push(`Marcação inválida: ${match[0]}`);
+        current().push({ type: 'text', value: match[0] });
+        continue;
+      }
+      current().push({ type: 'variable', name, formatter: formatter || undefined, raw: match[0] });
+    }
+  }
+
+  if (lastIndex < content.length) {
+    current().push({ type: 'text', value: content.slice(lastIndex) });
+  }
+  for (const open of stack) {
+    errors.push(`Bloco {{#if ${open.node.name}}} sem {{/if}}`);
+  }
+  return { nodes: root, errors };
+}
+
+function collectVariables(nodes: TemplateNode[], used: { name: string; formatter?: string }[] = []) {
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      used.push({ name: node.name, formatter: node.formatter });
+    } else if (node.type === 'if') {
+      if (node.name) used.push({ name: node.name });
+      collectVariables(node.then, used);
+      collectVariables(node.otherwise, used);
+    }
+  }
+  return used;
+}
+
+/**
+ * Problems that would make the template render wrong: broken blocks, unknown
+ * variables or formatters, and variables missing from the template's declared list.
+ * An empty list means the template is valid.
+ */
+export function validateTemplate(content: string, declaredVariables: string[] | null | undefined): string[] {
+  const { nodes, errors } = parseTemplate(content);
+  const declared = new Set(declaredVariables || []);
+
+  for (const name of Array.from(declared)) {
+    if (!TEMPLATE_VARIABLES[name]) errors.push(`Variável desconhecida declarada: ${name}`);
+  }
+
+  for (const { name, formatter } of collectVariables(nodes)) {
+    const definition = TEMPLATE_VARIABLES[name];
+    if (!definition) {
+      errors.push(`Variável desconhecida: ${name}`);
+      continue;
+    }
+    if (!declared.has(name)) {
+      errors.push(`Variável não declarada no template: ${name}`);
+    }
+    if (formatter) {
+      const formatterDefinition = TEMPLATE_FORMATTERS[formatter as TemplateFormatter];
+      if (!formatterDefinition) {
+        errors.push(`Formatador desconhecido: ${formatter}`);
+      } else if (formatterDefinition.kind !== definition.kind) {
+        errors.push(`Formatador "${formatter}" não se aplica a ${name}`);
+      }
+    }
+  }
+
+  return Array.from(new Set(errors));
+}
+
+function formatValue(value: TemplateValue, definition: TemplateVariableDefinition | undefined, formatter?: string): string {
+  if (value === null || value === undefined) return '';
+  const formatterName = (formatter || definition?.format) as TemplateFormatter | undefined;
+  const formatterDefinition = formatterName ? TEMPLATE_FORMATTERS[formatterName] : undefined;
+
+  if (value instanceof Date) {
+    return formatterDefinition?.kind === 'date'
+      ? (formatterDefinition.apply as (value: Date) => string)(value)
+      : TEMPLATE_FORMATTERS.curta.apply(value);
+  }
+  if (typeof value === 'number' && formatterDefinition?.kind === 'currency') {
+    return TEMPLATE_FORMATTERS.moeda.apply(value);
+  }
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables): string {
+  return nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'if') {
+      const value = variables[node.name];
+      const present = value !== null && value !== undefined && value !== '' && value !== 0;
+      return renderNodes(present ? node.then : node.otherwise, variables);
+    }
+    // Variables the caller knows nothing about are left as written
+    if (!(node.name in variables)) return node.raw;
+    return formatValue(variables[node.name], TEMPLATE_VARIABLES[node.name], node.formatter);
+  }).join('');
+}
+
+export function renderTemplate(content: string, variables: TemplateVariables): string {
+  return renderNodes(parseTemplate(content).nodes, variables);
+}
+
+export function formatClinicAddress(clinic: Clinic): string {
+  const street = [clinic.address_street, clinic.address_number].filter(Boolean).join(', ');
+  const cityState = [clinic.address_city, clinic.address_state].filter(Boolean).join('/');
+  return [street, clinic.address_complement, clinic.address_neighborhood, cityState].filter(Boolean).join(' - ');
+}
+
+// Variable values for a message about an appointment, taken from the real records
+export function resolveTemplateVariables(context: { clinic: Clinic; contact?: Contact; appointment?: Appointment }): TemplateVariables {
+  const { clinic, contact, appointment } = context;
+  const start = appointment?.scheduled_date
+    ? toZonedTime(appointment.scheduled_date, clinic.timezone || DEFAULT_CLINIC_TIMEZONE)
+    : null;
+
+  return {
+    nome: contact?.name ?? null,
+    primeiro_nome: contact?.name?.trim().split(/\s+/)[0] ?? null,
+    clinica: clinic.name,
+    endereco: formatClinicAddress(clinic) || null,
+    telefone_clinica: clinic.phone || clinic.celular || null,
+    doutor: appointment?.doctor_name ?? null,
+    especialidade: appointment?.specialty ?? null,
+    data: start,
+    hora: start,
+    valor: appointment?.payment_amount ?? null,
+    link: appointment && process.env.APP_BASE_URL && isAppointmentLinkConfigured()
+      ? `${process.env.APP_BASE_URL}${getAppointmentLinkPath(appointment)}`
+      : null,
+  };
+}
+
+// Values used by the preview when no appointment is chosen
+export function getSampleTemplateVariables(clinic?: Clinic): TemplateVariables {
+  const start = new Date(2025, 2, 17, 14, 30);
+  return {
+    nome: 'Maria da Silva',
+    primeiro_nome: 'Maria',
+    clinica: clinic?.name || 'Clínica Exemplo',
+    endereco: (clinic && formatClinicAddress(clinic)) || 'Rua das Flores, 123 - Centro - São Paulo/SP',
+    telefone_clinica: clinic?.phone || clinic?.celular || '(11) 3333-4444',
+    doutor: 'Dra. Ana Souza',
+    especialidade: 'Clínica Geral',
+    data: start,
+    hora: start,
+    valor: 25000,
+    link: `${process.env.APP_BASE_URL || 'https://exemplo.com.br'}/consulta/exemplo`,
+  };
+}
+
+export const templatePreviewSchema = z.object({
+  content: z.string().min(1).max(4000),
+  variables: z.array(z.string()).optional(),
+  appointment_id: z.number().int().positive().optional(),
+});
+
+export class MessageTemplateService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  // Renders with the appointment's real data, or with sample data when none is given
+  async preview(clinicId: number, input: z.infer<typeof templatePreviewSchema>) {
+    const clinic = await this.storage.getClinic(clinicId);
+    if (!clinic) {
+      throw new Error('Clinic not found');
+    }
+
+    let variables = getSampleTemplateVariables(clinic);
+    if (input.appointment_id) {
+      const appointment = await this.storage.getAppointment(input.appointment_id);
+      if (!appointment || appointment.clinic_id !== clinicId) {
+        throw new Error('Appointment not found');
+      }
+      const contact = await this.storage.getContact(appointment.contact_id);
+      variables = resolveTemplateVariables({ clinic, contact, appointment });
+    }
+
+    return {
+      rendered: renderTemplate(input.content, variables),
+      errors: validateTemplate(input.content, input.variables ?? collectDeclaredFallback(input.content)),
+      sample: !input.appointment_id,
+    };
+  }
+}
+
+// Preview without a declared list: treat every variable the content uses as declared
+function collectDeclaredFallback(content: string): string[] {
+  return collectVariables(parseTemplate(content).nodes).map(variable => variable.name);
+}
@@ -0,0 +1,233 @@
+import {
+  CalendarProviderError,
+  readProviderError,
+  type CalendarConnection,
+  type CalendarProvider,
+  type ProviderAccount,
+  type ProviderCalendar,
+  type ProviderEvent,
+  type ProviderEventChanges,
+  type ProviderEventInput,
+  type ProviderTokens,
+  type WatchRequest,
+  type WatchResult
+} from "./calendar-providers";
+
+const DEFAULT_GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+const DEFAULT_LOGIN_URL = 'https://login.microsoftonline.com';
+const SCOPES = ['offline_access', 'User.Read', 'Calendars.ReadWrite'];
+// Graph keeps subscriptions on Outlook events for at most 4230 minutes
+const MAX_SUBSCRIPTION_MINUTES = 4230;
+
+interface GraphEvent {
+  id: string;
+  '@removed'?: { reason: string };
+  '@odata.etag'?: string;
+  subject?: string;
+  bodyPreview?: string;
+  location?: { displayName?: string };
+  start?: { dateTime: string; timeZone: string };
+  end?: { dateTime: string; timeZone: string };
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  showAs?: string; // free, tentative, busy, oof, workingElsewhere
+  lastModifiedDateTime?: string;
+}
+
+// Times are requested in UTC (Prefer: outlook.timezone="UTC"), but Graph leaves out the "Z"
+const fromGraphDateTime = (value?: { dateTime: string }) =>
+  value ? new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(value.dateTime) ? value.dateTime : `${value.dateTime}Z`) : undefined;
+
+const toGraphDateTime = (date: Date) => ({ dateTime: date.toISOString().replace('Z', ''), timeZone: 'UTC' });
+
+function fromGraphEvent(event: GraphEvent): ProviderEvent {
+  if (event['@removed']) {
+    return { id: event.id, status: 'cancelled', allDay: false };
+  }
+  return {
+    id: event.id,
+    status: event.isCancelled ? 'cancelled' : event.showAs === 'tentative' ? 'tentative' : 'confirmed',
+    summary: event.subject,
+    description: event.bodyPreview,
+    location: event.location?.displayName || undefined,
+    start: fromGraphDateTime(event.start),
+    end: fromGraphDateTime(event.end),
+    allDay: !!event.isAllDay,
+    etag: event['@odata.etag'],
+    updatedAt: event.lastModifiedDateTime ? new Date(event.lastModifiedDateTime) : undefined,
+  };
+}
+
+function toGraphEvent(input: ProviderEventInput) {
+  return {
+    subject: input.summary,
+    body: { contentType: 'text', content: input.description || '' },
+    location: input.location ? { displayName: input.location } : undefined,
+    start: toGraphDateTime(input.start),
+    end: toGraphDateTime(input.end),
+    // Shown in the event's own zone in Outlook
+    originalStartTimeZone: input.timeZone,
+    originalEndTimeZone: input.timeZone,
+  };
+}
+
+/**
+ * Microsoft 365 / Outlook calendars through Microsoft Graph. Changes are read with
+ * calendarView delta queries (the delta link is the sync cursor) and pushed through
+ * Graph subscriptions.
+ */
+export class MicrosoftCalendarProvider implements CalendarProvider {
+  readonly name = 'microsoft';
+  readonly label = 'Outlook / Microsoft 365';
+  readonly auth = 'oauth';
+  readonly webhookPath = '/api/webhooks/microsoft-calendar';
+
+  private get graphUrl() {
+    return process.env.MICROSOFT_GRAPH_API_URL || DEFAULT_GRAPH_URL;
+  }
+
+  // "common" accepts both work/school and personal Microsoft accounts
+  private get oauthUrl() {
+    return `${process.env.MICROSOFT_LOGIN_URL || DEFAULT_LOGIN_URL}/${process.env.MICROSOFT_TENANT_ID || 'common'}/oauth2/v2.0`;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.MICROSOFT_CLIENT_ID && !!process.env.MICROSOFT_CLIENT_SECRET;
+  }
+
+  private async request(connection: CalendarConnection, method: string, pathOrUrl: string, body?: unknown, headers: Record<string, string> = {}): Promise<any> {
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${this.graphUrl}${pathOrUrl}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${connection.accessToken}`,
+        'Prefer': 'outlook.timezone="UTC"',
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) throw await readProviderError(response);
+    if (response.status === 204) return {};
+    return response.json().catch(() => ({}));
+  }
+
+  private async requestTokens(params: Record<string, string>): Promise<ProviderTokens> {
+    const response = await fetch(`${this.oauthUrl}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.MICROSOFT_CLIENT_ID || '',
+        client_secret: process.env.MICROSOFT_CLIENT_SECRET || '',
+        scope: SCOPES.join(' '),
+        ...params,
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.access_token) {
+      const status = response.status === 400 || response.status === 401 ? 401 : (response.ok ? 502 : response.status);
+      throw new CalendarProviderError(status, data.error_description || data.error || 'Token request failed');
+    }
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: new Date(Date.now() + (data.expires_in || 3600) * 1000),
+    };
+  }
+
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: process.env.MICROSOFT_CLIENT_ID || '',
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      response_mode: 'query',
+      scope: SCOPES.join(' '),
+      state,
+    });
+    return `${this.oauthUrl}/authorize?${params}`;
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<ProviderAccount> {
+    const tokens = await this.requestTokens({ code, redirect_uri: redirectUri, grant_type: 'authorization_code' });
+    const me = await this.request(tokens, 'GET', '/me?$select=id,mail,userPrincipalName');
+    return { ...tokens, email: me.mail || me.userPrincipalName, providerUserId: me.id };
+  }
+
+  // Microsoft rotates refresh tokens: the new one must replace the stored one
+  async refreshTokens(refreshToken: string): Promise<ProviderTokens> {
+    return this.requestTokens({ refresh_token: refreshToken, grant_type: 'refresh_token' });
+  }
+
+  async listCalendars(connection: CalendarConnection): Promise<ProviderCalendar[]> {
+    const data = await this.request(connection, 'GET', '/me/calendars?$select=id,name,isDefaultCalendar');
+    return (data.value || []).map((calendar: any) => ({
+      id: calendar.id,
+      name: calendar.name,
+      primary: !!calendar.isDefaultCalendar,
+    }));
+  }
+
+  /**
+   * Without a cursor, starts a delta query over the window; otherwise follows the
+   * stored delta link. Graph answers 410 when the delta link expired.
+   */
+  async listEventChanges(connection: CalendarConnection, calendarId: string, cursor: string | null | undefined, window: { start: Date; end: Date }): Promise<ProviderEventChanges> {
+    const events: ProviderEvent[] = [];
+    let url = cursor || `/me/calendars/${encodeURIComponent(calendarId)}/calendarView/delta?${new URLSearchParams({
+      startDateTime: window.start.toISOString(),
+      endDateTime: window.end.toISOString(),
+    })}`;
+    let deltaLink: string | undefined;
+
+    while (url) {
+      const data = await this.request(connection, 'GET', url, undefined, { 'Prefer': 'outlook.timezone="UTC", odata.maxpagesize=200' });
+      events.push(...(data.value || []).map(fromGraphEvent));
+      url = data['@odata.nextLink'];
+      deltaLink = data['@odata.deltaLink'];
+    }
+
+    return { events, cursor: deltaLink, fullSync: !cursor };
+  }
+
+  async createEvent(connection: CalendarConnection, calendarId: string, input: ProviderEventInput): Promise<ProviderEvent> {
+    const data = await this.request(connection, 'POST', `/me/calendars/${encodeURIComponent(calendarId)}/events`, toGraphEvent(input));
+    return fromGraphEvent(data);
+  }
+
+  async updateEvent(connection: CalendarConnection, _calendarId: string, eventId: string, input: ProviderEventInput, etag?: string): Promise<ProviderEvent> {
+    const data = await this.request(
+      connection,
+      'PATCH',
+      `/me/events/${encodeURIComponent(eventId)}`,
+      toGraphEvent(input),
+      etag ? { 'If-Match': etag } : {}
+    );
+    return fromGraphEvent(data);
+  }
+
+  async deleteEvent(connection: CalendarConnection, _calendarId: string, eventId: string): Promise<void> {
+    try {
+      await this.request(connection, 'DELETE', `/me/events/${encodeURIComponent(eventId)}`);
+    } catch (error) {
+      if (error instanceof CalendarProviderError && error.status === 404) return;
+      throw error;
+    }
+  }
+
+  // Graph assigns the subscription id and has no separate resource id, so the id fills both
+  async watch(connection: CalendarConnection, calendarId: string, request: WatchRequest): Promise<WatchResult> {
+    const minutes = Math.min(Math.floor(request.ttlSeconds / 60), MAX_SUBSCRIPTION_MINUTES);
+    const data = await this.request(connection, 'POST', '/subscriptions', {
+      changeType: 'created,updated,deleted',
+      notificationUrl: request.address,
+      resource: `/me/calendars/${calendarId}/events`,
+      expirationDateTime: new Date(Date.now() + minutes * 60000).toISOString(),
+      clientState: request.token,
+    });
+    return { channelId: data.id, resourceId: data.id, expiration: new Date(data.expirationDateTime) };
+  }
+
+  async stopWatch(connection: CalendarConnection, channelId: string): Promise<void> {
+    await this.request(connection, 'DELETE', `/subscriptions/${encodeURIComponent(channelId)}`);
+  }
+}
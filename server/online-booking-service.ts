@@ -0,0 +1,130 @@
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { AppointmentType, Contact } from "@shared/schema";
+import { occupiesAgendaSlot } from "@shared/appointment-status";
+import { ReliabilityService, type ContactReliability } from "./reliability-service";
+
+// clinic_settings keys of the public booking portal
+export const ONLINE_BOOKING_SETTING_KEYS = {
+  enabled: 'online_booking_enabled',
+  windowDays: 'online_booking_window_days',
+  minNoticeHours: 'online_booking_min_notice_hours',
+  maxPendingBookings: 'online_booking_max_pending',
+} as const;
+
+const DEFAULT_WINDOW_DAYS = 30;
+const DEFAULT_MIN_NOTICE_HOURS = 2;
+const DEFAULT_MAX_PENDING_BOOKINGS = 2;
+
+export interface OnlineBookingPolicy {
+  enabled: boolean;
+  windowDays: number; // how far ahead patients can book
+  minNoticeHours: number; // how soon the earliest bookable slot starts
+  maxPendingBookings: number; // upcoming online bookings a patient can hold at once (0 = no limit)
+}
+
+export const onlineBookingRequestSchema = z.object({
+  appointmentType: z.string().min(1),
+  professionalId: z.number().int().positive(),
+  startTime: z.string().datetime(),
+  name: z.string().trim().min(3).max(120),
+  phone: z.string().trim().refine(phone => normalizePhone(phone).length >= 10, 'Telefone inválido'),
+  email: z.string().trim().email().optional().or(z.literal('')),
+  website: z.string().optional(), // honeypot: hidden in the form, only bots fill it
+});
+
+// Services offered when the clinic has no appointment type catalog
+export const DEFAULT_ONLINE_SERVICE = { key: 'consulta', name: 'Consulta', default_duration_minutes: 60, default_price_cents: null };
+
+/**
+ * Digits of a phone number without the Brazilian country code, so "+55 (11) 98888-7777"
+ * and "11988887777" match the same contact.
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length > 11 && digits.startsWith('55') ? digits.slice(2) : digits;
+}
+
+export function isWithinBookingWindow(start: Date, policy: OnlineBookingPolicy, now: Date = new Date()): boolean {
+  const earliest = now.getTime() + policy.minNoticeHours * 3600000;
+  const latest = now.getTime() + policy.windowDays * 24 * 3600000;
+  return start.getTime() >= earliest && start.getTime() <= latest;
+}
+
+// Whether a professional performs a catalog type (a type without professionals is open to all)
+export function performsType(type: Pick<AppointmentType, 'professional_ids'>, professionalId: number): boolean {
+  return !type.professional_ids?.length || type.professional_ids.includes(professionalId);
+}
+
+/**
+ * Rules of the public booking portal: the clinic policy, matching the patient to a
+ * contact and the anti-abuse checks that run before an online booking is created.
+ */
+export class OnlineBookingService {
+  private storage: IStorage;
+  private reliabilityService: ReliabilityService;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+    this.reliabilityService = new ReliabilityService(storage);
+  }
+
+  async getPolicy(clinicId: number): Promise<OnlineBookingPolicy> {
+    const readNumber = async (key: string, fallback: number) => {
+      const setting = await this.storage.getClinicSetting(clinicId, key);
+      const value = setting ? parseInt(setting.setting_value) : NaN;
+      return isNaN(value) || value < 0 ? fallback : value;
+    };
+    const enabled = await this.storage.getClinicSetting(clinicId, ONLINE_BOOKING_SETTING_KEYS.enabled);
+
+    return {
+      enabled: enabled?.setting_value === 'true',
+      windowDays: await readNumber(ONLINE_BOOKING_SETTING_KEYS.windowDays, DEFAULT_WINDOW_DAYS),
+      minNoticeHours: await readNumber(ONLINE_BOOKING_SETTING_KEYS.minNoticeHours, DEFAULT_MIN_NOTICE_HOURS),
+      maxPendingBookings: await readNumber(ONLINE_BOOKING_SETTING_KEYS.maxPendingBookings, DEFAULT_MAX_PENDING_BOOKINGS),
+    };
+  }
+
+  // Matches the patient to a clinic contact by phone, creating the contact on a first booking
+  async findOrCreateContact(clinicId: number, patient: { name: string; phone: string; email?: string | null }): Promise<Contact> {
+    const phone = normalizePhone(patient.phone);
+    const contacts = await this.storage.getContacts(clinicId);
+    const existing = contacts.find(contact => normalizePhone(contact.phone) === phone);
+    if (existing) return existing;
+
+    return this.storage.createContact({
+      clinic_id: clinicId,
+      name: patient.name,
+      phone: patient.phone,
+      email: patient.email || null,
+      status: 'agendado',
+      source: 'site',
+    });
+  }
+
+  /**
+   * Throws when the contact may not book online: blocked by the no-show policy, or
+   * already holding the maximum number of upcoming online bookings.
+   */
+  async assertCanBook(clinicId: number, contact: Contact, policy: OnlineBookingPolicy, now: Date = new Date()): Promise<ContactReliability> {
+    const reliability = await this.reliabilityService.getContactReliability(clinicId, contact.id);
+    if (reliability.self_booking_blocked) {
+      throw new Error('Self booking blocked');
+    }
+
+    if (policy.maxPendingBookings > 0) {
+      const appointments = await this.storage.getAppointmentsByContact(contact.id);
+      const pending = appointments.filter(appointment =>
+        appointment.clinic_id === clinicId &&
+        appointment.booking_source === 'online' &&
+        appointment.scheduled_date && new Date(appointment.scheduled_date) > now &&
+        occupiesAgendaSlot(appointment.status)
+      );
+      if (pending.length >= policy.maxPendingBookings) {
+        throw new Error('Too many pending online bookings');
+      }
+    }
+
+    return reliability;
+  }
+}
@@ -1,4 +1,4 @@
-import { eq, and, like, gte, lte, desc, asc, or, ilike, sql, isNotNull } from "drizzle-orm";
+import { eq, and, like, gte, lte, desc, asc, or, ilike, sql, isNotNull, inArray, notInArray } from "drizzle-orm";
 import { db, pool } from "./db";
 
 // Import from domain schemas
@@ -42,9 +42,56 @@ import {
   type PipelineOpportunity,
   type PipelineHistory,
   type PipelineActivity,
-  type AppointmentTag
+  type AppointmentTag,
+  professional_availability, professional_availability_overrides,
+  type ProfessionalAvailability, type InsertProfessionalAvailability,
+  type ProfessionalAvailabilityOverride, type InsertProfessionalAvailabilityOverride,
+  clinic_resources, appointment_resources,
+  type ClinicResource, type InsertClinicResource,
+  waitlist_entries, waitlist_offers,
+  type WaitlistEntry, type InsertWaitlistEntry,
+  type WaitlistOffer, type InsertWaitlistOffer,
+  appointment_status_history,
+  type AppointmentStatusHistory, type InsertAppointmentStatusHistory,
+  clinic_closures,
+  type ClinicClosure, type InsertClinicClosure,
+  appointment_types,
+  type AppointmentType, type InsertAppointmentType,
+  appointment_participants,
+  type AppointmentParticipant,
+  type InsertAppointmentParticipant,
+  reminder_logs,
+  type ReminderLog,
+  type InsertReminderLog,
+  type ConversationSummary,
+  clinic_settings,
+  type ClinicSetting, type InsertClinicSetting,
+  campaigns,
+  campaign_recipients,
+  CAMPAIGN_RECIPIENT_STATUSES,
+  type Campaign, type InsertCampaign, type CampaignSummary,
+  type CampaignRecipient, type InsertCampaignRecipient, type CampaignRecipientStatus,
+  external_calendar_events,
+  type ExternalCalendarEvent, type InsertExternalCalendarEvent,
+  calendar_event_links,
+  type CalendarEventLink, type InsertCalendarEventLink,
+  calendar_sync_conflicts,
+  type CalendarSyncConflict, type InsertCalendarSyncConflict
 } from "../shared/schema";
 import type { IStorage } from "./storage";
+import { decryptCalendarTokens, encryptCalendarTokens, needsTokenReencryption, reencryptToken } from "./token-encryption";
+
+// Column list shared by the raw SQL appointment queries below
+const APPOINTMENT_COLUMNS = sql.raw(`
+  id, contact_id, clinic_id, user_id, doctor_name, specialty,
+  appointment_type, scheduled_date, duration_minutes, status,
+  cancellation_reason, session_notes, next_appointment_suggested,
+  payment_status, payment_amount, google_calendar_event_id,
+  recurrence_series_id, recurrence_rule, recurrence_count, recurrence_until,
+  recurrence_index, recurrence_exception, capacity, booking_source,
+  arrived_at, started_at, finished_at, return_period, receive_reminders,
+  created_at, updated_at
+`);
 
 export class PostgreSQLStorage implements IStorage {
   constructor() {
@@ -460,7 +507,7 @@ export class PostgreSQLStorage implements IStorage {
 
   // ============ APPOINTMENTS ============
   
-  async getAppointments(clinicId: number, filters?: { status?: string; date?: Date }): Promise<Appointment[]> {
+  async getAppointments(clinicId: number, filters?: { status?: string; dateRange?: { start: Date; end: Date } }): Promise<Appointment[]> {
     try {
       let conditions = [`clinic_id = ${clinicId}`];
 
@@ -468,20 +515,15 @@ export class PostgreSQLStorage implements IStorage {
         conditions.push(`status = '${filters.status}'`);
       }
 
-      if (filters?.date) {
-        const dateStr = filters.date.toISOString().split('T')[0];
-        conditions.push(`DATE(scheduled_date) = '${dateStr}'`);
+      if (filters?.dateRange) {
+        conditions.push(`scheduled_date >= '${filters.dateRange.start.toISOString()}'`);
+        conditions.push(`scheduled_date < '${filters.dateRange.end.toISOString()}'`);
       }
 
       const whereClause = conditions.join(' AND ');
       
       const result = await db.execute(sql`
-        SELECT 
-          id, contact_id, clinic_id, user_id, doctor_name, specialty,
-          appointment_type, scheduled_date, duration_minutes, status,
-          cancellation_reason, session_notes, next_appointment_suggested,
-          payment_status, payment_amount, google_calendar_event_id,
-          created_at, updated_at
+        SELECT ${APPOINTMENT_COLUMNS}
         FROM appointments 
         WHERE ${sql.raw(whereClause)}
         ORDER BY scheduled_date ASC
@@ -519,17 +561,10 @@ export class PostgreSQLStorage implements IStorage {
   async getAppointment(id: number): Promise<Appointment | undefined> {
     try {
       const result = await db.execute(sql`
-        SELECT 
-          id, contact_id, clinic_id, user_id, doctor_name, specialty,
-          appointment_type, scheduled_date, duration_minutes, status,
-          cancellation_reason, session_notes, next_appointment_suggested,
-          payment_status, payment_amount, google_calendar_event_id,
-          created_at, updated_at,
+        SELECT ${APPOINTMENT_COLUMNS},
           observations,
-          return_period,
           how_found_clinic,
-          tags,
-          receive_reminders
+          tags
         FROM appointments 
         WHERE id = ${id}
         LIMIT 1
@@ -571,12 +606,7 @@ export class PostgreSQLStorage implements IStorage {
           UPDATE appointments 
           SET status = ${updates.status}, updated_at = NOW()
           WHERE id = ${id}
-          RETURNING 
-            id, contact_id, clinic_id, user_id, doctor_name, specialty,
-            appointment_type, scheduled_date, duration_minutes, status,
-            cancellation_reason, session_notes, next_appointment_suggested,
-            payment_status, payment_amount, google_calendar_event_id,
-            created_at, updated_at
+          RETURNING ${APPOINTMENT_COLUMNS}
         `);
         
         return result.rows[0] as Appointment;
@@ -611,19 +641,16 @@ export class PostgreSQLStorage implements IStorage {
       .limit(100); // Limitar para melhor performance
   }
 
-  async getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]> {
+  async getAppointmentsByDateRange(startDate: Date, endDate: Date, filters?: { clinicId?: number; userId?: number }): Promise<Appointment[]> {
     try {
       const result = await db.execute(sql`
-        SELECT 
-          id, contact_id, clinic_id, user_id, doctor_name, specialty,
-          appointment_type, scheduled_date, duration_minutes, status,
-          cancellation_reason, session_notes, next_appointment_suggested,
-          payment_status, payment_amount, google_calendar_event_id,
-          created_at, updated_at
+        SELECT ${APPOINTMENT_COLUMNS}
         FROM appointments 
         WHERE scheduled_date >= ${startDate.toISOString()}
           AND scheduled_date <= ${endDate.toISOString()}
-          AND status NOT IN ('cancelled', 'no_show')
+          AND status NOT IN ('cancelled', 'no_show', 'cancelada_paciente', 'cancelada_dentista', 'faltou')
+          ${filters?.clinicId ? sql`AND clinic_id = ${filters.clinicId}` : sql``}
+          ${filters?.userId ? sql`AND user_id = ${filters.userId}` : sql``}
         ORDER BY scheduled_date ASC
       `);
       
@@ -634,6 +661,12 @@ export class PostgreSQLStorage implements IStorage {
     }
   }
 
+  async getAppointmentsBySeries(seriesId: string): Promise<Appointment[]> {
+    return db.select().from(appointments)
+      .where(eq(appointments.recurrence_series_id, seriesId))
+      .orderBy(asc(appointments.recurrence_index), asc(appointments.scheduled_date));
+  }
+
   // ============ ANALYTICS ============
   
   async createAnalyticsMetric(insertMetric: InsertAnalyticsMetric): Promise<AnalyticsMetric> {
@@ -703,6 +736,16 @@ export class PostgreSQLStorage implements IStorage {
     return result[0];
   }
 
+  async findClinicSettingByValue(key: string, value: string): Promise<ClinicSetting | undefined> {
+    const result = await db.select().from(clinic_settings)
+      .where(and(
+        eq(clinic_settings.setting_key, key),
+        eq(clinic_settings.setting_value, value)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
   async setClinicSetting(insertSetting: InsertClinicSetting): Promise<ClinicSetting> {
     // Try to update existing setting first
     const existing = await this.getClinicSetting(
@@ -953,7 +996,7 @@ export class PostgreSQLStorage implements IStorage {
         AND is_active = true
         ORDER BY created_at DESC
       `);
-      return result.rows as CalendarIntegration[];
+      return result.rows.map((row: any) => decryptCalendarTokens(row as CalendarIntegration));
     } catch (error) {
       console.error('Error fetching calendar integrations:', error);
       return [];
@@ -968,7 +1011,7 @@ export class PostgreSQLStorage implements IStorage {
         AND is_active = true
         ORDER BY created_at DESC
       `);
-      return result.rows as CalendarIntegration[];
+      return result.rows.map((row: any) => decryptCalendarTokens(row as CalendarIntegration));
     } catch (error) {
       console.error('Error fetching calendar integrations for clinic:', error);
       return [];
@@ -984,7 +1027,7 @@ export class PostgreSQLStorage implements IStorage {
           AND access_token IS NOT NULL
         ORDER BY created_at DESC
       `);
-      return result.rows as CalendarIntegration[];
+      return result.rows.map((row: any) => decryptCalendarTokens(row as CalendarIntegration));
     } catch (error) {
       console.error('Error fetching all calendar integrations:', error);
       return [];
@@ -999,7 +1042,7 @@ export class PostgreSQLStorage implements IStorage {
         AND is_active = true
         ORDER BY created_at DESC
       `);
-      return result.rows as CalendarIntegration[];
+      return result.rows.map((row: any) => decryptCalendarTokens(row as CalendarIntegration));
     } catch (error) {
       console.error('Error fetching calendar integrations for clinic:', error);
       return [];
@@ -1018,8 +1061,7 @@ export class PostgreSQLStorage implements IStorage {
       );
       
       console.log('📊 Calendar integrations found by email:', result.rows.length);
-      console.log('📋 Integration data:', result.rows);
-      return result.rows as CalendarIntegration[];
+      return result.rows.map((row: any) => decryptCalendarTokens(row as CalendarIntegration));
     } catch (error) {
       console.error('❌ Error in getCalendarIntegrationsByEmail:', error);
       return [];
@@ -1032,32 +1074,35 @@ export class PostgreSQLStorage implements IStorage {
       WHERE id = ${id}
       LIMIT 1
     `);
-    return result.rows[0] as CalendarIntegration | undefined;
+    const row = result.rows[0] as CalendarIntegration | undefined;
+    return row && decryptCalendarTokens(row);
   }
 
   async getCalendarIntegrationByUserAndProvider(
-    userId: number, 
+    userId: string | number, 
     provider: string, 
     email: string
   ): Promise<CalendarIntegration | undefined> {
     const result = await db.execute(sql`
       SELECT * FROM calendar_integrations 
-      WHERE user_id = ${userId} 
+      WHERE user_id = ${userId.toString()} 
       AND provider = ${provider} 
       AND email = ${email}
       LIMIT 1
     `);
-    return result.rows[0] as CalendarIntegration | undefined;
+    const row = result.rows[0] as CalendarIntegration | undefined;
+    return row && decryptCalendarTokens(row);
   }
 
-  async createCalendarIntegration(integration: InsertCalendarIntegration): Promise<CalendarIntegration> {
+  async createCalendarIntegration(values: InsertCalendarIntegration): Promise<CalendarIntegration> {
+    const integration = encryptCalendarTokens(values);
     const pool = (db as any)._.session.client;
     const result = await pool.query(`
       INSERT INTO calendar_integrations 
       (user_id, clinic_id, provider, provider_user_id, email, calendar_id, calendar_name, 
        access_token, refresh_token, token_expires_at, is_active, sync_enabled, 
-       last_sync_at, sync_errors, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW(), NOW())
+       last_sync_at, sync_errors, server_url, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())
       RETURNING *
     `, [
       integration.user_id,
@@ -1073,20 +1118,23 @@ export class PostgreSQLStorage implements IStorage {
       integration.is_active !== false,
       integration.sync_enabled !== false,
       integration.last_sync_at,
-      integration.sync_errors
+      integration.sync_errors,
+      integration.server_url ?? null
     ]);
     
-    console.log('✅ Calendar integration created:', result.rows[0]);
-    return result.rows[0] as CalendarIntegration;
+    console.log('✅ Calendar integration created:', result.rows[0].id);
+    return decryptCalendarTokens(result.rows[0] as CalendarIntegration);
   }
 
   async updateCalendarIntegration(
     id: number, 
-    updates: Partial<InsertCalendarIntegration>
+    changes: Partial<InsertCalendarIntegration>
   ): Promise<CalendarIntegration | undefined> {
-    console.log('🔧 updateCalendarIntegration called with:', { id, updates });
+    // Tokens stay out of the logs
+    console.log('🔧 updateCalendarIntegration called with:', { id, fields: Object.keys(changes) });
     
     try {
+      const updates = encryptCalendarTokens(changes);
       // Build dynamic query only with fields that are being updated
       const setPairs = [];
       const values = [];
@@ -1108,6 +1156,10 @@ export class PostgreSQLStorage implements IStorage {
         setPairs.push(`calendar_id = $${paramIndex++}`);
         values.push(updates.calendar_id);
       }
+      if (updates.server_url !== undefined) {
+        setPairs.push(`server_url = $${paramIndex++}`);
+        values.push(updates.server_url);
+      }
       if (updates.sync_enabled !== undefined) {
         setPairs.push(`sync_enabled = $${paramIndex++}`);
         values.push(updates.sync_enabled);
@@ -1120,6 +1172,10 @@ export class PostgreSQLStorage implements IStorage {
         setPairs.push(`sync_errors = $${paramIndex++}`);
         values.push(updates.sync_errors);
       }
+      if (updates.needs_reconnect !== undefined) {
+        setPairs.push(`needs_reconnect = $${paramIndex++}`);
+        values.push(updates.needs_reconnect);
+      }
       if (updates.is_active !== undefined) {
         setPairs.push(`is_active = $${paramIndex++}`);
         values.push(updates.is_active);
@@ -1142,6 +1198,10 @@ export class PostgreSQLStorage implements IStorage {
         setPairs.push(`watch_resource_id = $${paramIndex++}`);
         values.push(updates.watch_resource_id);
       }
+      if (updates.watch_token !== undefined) {
+        setPairs.push(`watch_token = $${paramIndex++}`);
+        values.push(updates.watch_token);
+      }
       if (updates.watch_expires_at !== undefined) {
         setPairs.push(`watch_expires_at = $${paramIndex++}`);
         values.push(updates.watch_expires_at);
@@ -1165,13 +1225,11 @@ export class PostgreSQLStorage implements IStorage {
       const query = `UPDATE calendar_integrations SET ${setPairs.join(', ')} WHERE id = $${whereParamIndex} RETURNING *`;
       
       console.log('📋 Generated SQL query:', query);
-      console.log('📋 Query parameters:', values);
       
       const pool = (db as any)._.session.client;
       const result = await pool.query(query, values);
-      console.log('✅ Update result:', result.rows[0]);
-      
-      return result.rows[0] as CalendarIntegration | undefined;
+      const row = result.rows[0] as CalendarIntegration | undefined;
+      return row && decryptCalendarTokens(row);
     } catch (error) {
       console.error('❌ Error in updateCalendarIntegration:', error);
       throw error;
@@ -1206,13 +1264,18 @@ export class PostgreSQLStorage implements IStorage {
     return result[0];
   }
 
-  async getMedicalRecordByAppointment(appointmentId: number): Promise<MedicalRecord | undefined> {
+  async getMedicalRecordByAppointment(appointmentId: number, contactId?: number): Promise<MedicalRecord | undefined> {
+    const conditions = [
+      eq(medical_records.appointment_id, appointmentId),
+      eq(medical_records.is_active, true)
+    ];
+    if (contactId !== undefined) {
+      conditions.push(eq(medical_records.contact_id, contactId));
+    }
+
     const result = await db.select()
       .from(medical_records)
-      .where(and(
-        eq(medical_records.appointment_id, appointmentId),
-        eq(medical_records.is_active, true)
-      ))
+      .where(and(...conditions))
       .limit(1);
     return result[0];
   }
@@ -1567,7 +1630,7 @@ export class PostgreSQLStorage implements IStorage {
         AND watch_expires_at <= ${renewalThreshold.toISOString()}
       `);
       
-      return result.rows as CalendarIntegration[];
+      return result.rows.map((row: any) => decryptCalendarTokens(row as CalendarIntegration));
     } catch (error) {
       console.error('❌ Error getting integrations for webhook renewal:', error);
       return [];
@@ -1583,13 +1646,37 @@ export class PostgreSQLStorage implements IStorage {
         LIMIT 1
       `);
       
-      return result.rows[0] as CalendarIntegration | undefined;
+      const row = result.rows[0] as CalendarIntegration | undefined;
+      return row && decryptCalendarTokens(row);
     } catch (error) {
       console.error('❌ Error getting integration by webhook:', error);
       return undefined;
     }
   }
 
+  // Rewrites tokens still in plain text or under an old TOKEN_ENCRYPTION_KEYS key
+  async reencryptCalendarIntegrationTokens(): Promise<number> {
+    const result = await db.execute(sql`
+      SELECT id, access_token, refresh_token FROM calendar_integrations
+      WHERE access_token IS NOT NULL OR refresh_token IS NOT NULL
+    `);
+
+    let updated = 0;
+    for (const row of result.rows as { id: number; access_token: string | null; refresh_token: string | null }[]) {
+      const stale = [row.access_token, row.refresh_token].some(value => value && needsTokenReencryption(value));
+      if (!stale) continue;
+
+      await db.execute(sql`
+        UPDATE calendar_integrations
+        SET access_token = ${row.access_token && reencryptToken(row.access_token)},
+            refresh_token = ${row.refresh_token && reencryptToken(row.refresh_token)}
+        WHERE id = ${row.id}
+      `);
+      updated++;
+    }
+    return updated;
+  }
+
   async getAppointmentsByGoogleEventId(eventId: string): Promise<Appointment[]> {
     try {
       const result = await db.execute(sql`
@@ -1603,6 +1690,780 @@ export class PostgreSQLStorage implements IStorage {
       return [];
     }
   }
+
+  // ============ PROFESSIONAL AVAILABILITY ============
+
+  async getProfessionalAvailability(clinicId: number, userId: number): Promise<ProfessionalAvailability[]> {
+    return db.select()
+      .from(professional_availability)
+      .where(and(
+        eq(professional_availability.clinic_id, clinicId),
+        eq(professional_availability.user_id, userId)
+      ))
+      .orderBy(asc(professional_availability.day_of_week), asc(professional_availability.start_time));
+  }
+
+  async replaceProfessionalAvailability(clinicId: number, userId: number, blocks: InsertProfessionalAvailability[]): Promise<ProfessionalAvailability[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(professional_availability)
+        .where(and(
+          eq(professional_availability.clinic_id, clinicId),
+          eq(professional_availability.user_id, userId)
+        ));
+
+      if (blocks.length === 0) return [];
+
+      return tx.insert(professional_availability)
+        .values(blocks.map(block => ({ ...block, clinic_id: clinicId, user_id: userId })))
+        .returning();
+    });
+  }
+
+  async getProfessionalAvailabilityOverrides(clinicId: number, userId: number, dateRange?: { start: string; end: string }): Promise<ProfessionalAvailabilityOverride[]> {
+    const conditions = [
+      eq(professional_availability_overrides.clinic_id, clinicId),
+      eq(professional_availability_overrides.user_id, userId)
+    ];
+
+    if (dateRange) {
+      conditions.push(
+        gte(professional_availability_overrides.date, dateRange.start),
+        lte(professional_availability_overrides.date, dateRange.end)
+      );
+    }
+
+    return db.select()
+      .from(professional_availability_overrides)
+      .where(and(...conditions))
+      .orderBy(asc(professional_availability_overrides.date), asc(professional_availability_overrides.start_time));
+  }
+
+  async getProfessionalAvailabilityOverride(id: number): Promise<ProfessionalAvailabilityOverride | undefined> {
+    const result = await db.select().from(professional_availability_overrides).where(eq(professional_availability_overrides.id, id));
+    return result[0];
+  }
+
+  async createProfessionalAvailabilityOverride(override: InsertProfessionalAvailabilityOverride): Promise<ProfessionalAvailabilityOverride> {
+    const result = await db.insert(professional_availability_overrides).values(override).returning();
+    return result[0];
+  }
+
+  async deleteProfessionalAvailabilityOverride(id: number): Promise<boolean> {
+    const result = await db.delete(professional_availability_overrides)
+      .where(eq(professional_availability_overrides.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  // ============ CLINIC RESOURCES ============
+
+  async getClinicResources(clinicId: number): Promise<ClinicResource[]> {
+    return db.select()
+      .from(clinic_resources)
+      .where(eq(clinic_resources.clinic_id, clinicId))
+      .orderBy(asc(clinic_resources.type), asc(clinic_resources.name));
+  }
+
+  async getClinicResource(id: number): Promise<ClinicResource | undefined> {
+    const result = await db.select().from(clinic_resources).where(eq(clinic_resources.id, id));
+    return result[0];
+  }
+
+  async createClinicResource(resource: InsertClinicResource): Promise<ClinicResource> {
+    const result = await db.insert(clinic_resources).values(resource).returning();
+    return result[0];
+  }
+
+  async updateClinicResource(id: number, updates: Partial<InsertClinicResource>): Promise<ClinicResource | undefined> {
+    const result = await db.update(clinic_resources)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(clinic_resources.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteClinicResource(id: number): Promise<boolean> {
+    const result = await db.delete(clinic_resources)
+      .where(eq(clinic_resources.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getAppointmentResources(appointmentId: number): Promise<ClinicResource[]> {
+    const result = await db.select({ resource: clinic_resources })
+      .from(appointment_resources)
+      .innerJoin(clinic_resources, eq(appointment_resources.resource_id, clinic_resources.id))
+      .where(eq(appointment_resources.appointment_id, appointmentId))
+      .orderBy(asc(clinic_resources.name));
+    return result.map(row => row.resource);
+  }
+
+  async setAppointmentResources(appointmentId: number, resourceIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(appointment_resources)
+        .where(eq(appointment_resources.appointment_id, appointmentId));
+
+      if (resourceIds.length > 0) {
+        await tx.insert(appointment_resources)
+          .values(resourceIds.map(resource_id => ({ appointment_id: appointmentId, resource_id })));
+      }
+    });
+  }
+
+  async getResourceBookings(resourceIds: number[], startDate: Date, endDate: Date): Promise<{ resource_id: number; appointment: Appointment }[]> {
+    if (resourceIds.length === 0) return [];
+
+    const result = await db.select({ resource_id: appointment_resources.resource_id, appointment: appointments })
+      .from(appointment_resources)
+      .innerJoin(appointments, eq(appointment_resources.appointment_id, appointments.id))
+      .where(and(
+        inArray(appointment_resources.resource_id, resourceIds),
+        gte(appointments.scheduled_date, startDate),
+        lte(appointments.scheduled_date, endDate),
+        notInArray(appointments.status, ['cancelled', 'no_show', 'cancelada_paciente', 'cancelada_dentista', 'faltou'])
+      ))
+      .orderBy(asc(appointments.scheduled_date));
+    return result;
+  }
+
+  // ============ WAITLIST ============
+
+  async getWaitlistEntries(clinicId: number, status?: string): Promise<WaitlistEntry[]> {
+    const conditions = [eq(waitlist_entries.clinic_id, clinicId)];
+    if (status) {
+      conditions.push(eq(waitlist_entries.status, status));
+    }
+
+    return db.select()
+      .from(waitlist_entries)
+      .where(and(...conditions))
+      .orderBy(desc(waitlist_entries.priority), asc(waitlist_entries.created_at));
+  }
+
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const result = await db.select().from(waitlist_entries).where(eq(waitlist_entries.id, id));
+    return result[0];
+  }
+
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const result = await db.insert(waitlist_entries).values(entry).returning();
+    return result[0];
+  }
+
+  async updateWaitlistEntry(id: number, updates: Partial<InsertWaitlistEntry> & { status?: string }): Promise<WaitlistEntry | undefined> {
+    const result = await db.update(waitlist_entries)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(waitlist_entries.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteWaitlistEntry(id: number): Promise<boolean> {
+    const result = await db.delete(waitlist_entries)
+      .where(eq(waitlist_entries.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getWaitlistOffers(filters: { clinicId?: number; status?: string; userId?: number; sourceAppointmentId?: number; slotRange?: { start: Date; end: Date } }): Promise<WaitlistOffer[]> {
+    const conditions = [];
+    if (filters.clinicId) conditions.push(eq(waitlist_offers.clinic_id, filters.clinicId));
+    if (filters.status) conditions.push(eq(waitlist_offers.status, filters.status));
+    if (filters.userId) conditions.push(eq(waitlist_offers.user_id, filters.userId));
+    if (filters.sourceAppointmentId) conditions.push(eq(waitlist_offers.source_appointment_id, filters.sourceAppointmentId));
+    if (filters.slotRange) {
+      conditions.push(
+        gte(waitlist_offers.slot_start, filters.slotRange.start),
+        lte(waitlist_offers.slot_start, filters.slotRange.end)
+      );
+    }
+
+    return db.select()
+      .from(waitlist_offers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(waitlist_offers.slot_start));
+  }
+
+  async getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined> {
+    const result = await db.select().from(waitlist_offers).where(eq(waitlist_offers.id, id));
+    return result[0];
+  }
+
+  async createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer> {
+    const result = await db.insert(waitlist_offers).values(offer).returning();
+    return result[0];
+  }
+
+  async updateWaitlistOffer(id: number, updates: Partial<InsertWaitlistOffer>): Promise<WaitlistOffer | undefined> {
+    const result = await db.update(waitlist_offers)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(waitlist_offers.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // ============ APPOINTMENT STATUS HISTORY ============
+
+  async getAppointmentStatusHistory(appointmentId: number): Promise<AppointmentStatusHistory[]> {
+    return db.select()
+      .from(appointment_status_history)
+      .where(eq(appointment_status_history.appointment_id, appointmentId))
+      .orderBy(asc(appointment_status_history.created_at), asc(appointment_status_history.id));
+  }
+
+  async getContactStatusHistory(contactId: number): Promise<AppointmentStatusHistory[]> {
+    const rows = await db.select({ history: appointment_status_history })
+      .from(appointment_status_history)
+      .innerJoin(appointments, eq(appointment_status_history.appointment_id, appointments.id))
+      .where(eq(appointments.contact_id, contactId))
+      .orderBy(asc(appointment_status_history.created_at));
+    return rows.map(row => row.history);
+  }
+
+  async createAppointmentStatusHistory(entry: InsertAppointmentStatusHistory): Promise<AppointmentStatusHistory> {
+    const result = await db.insert(appointment_status_history).values(entry).returning();
+    return result[0];
+  }
+
+  // ============ CLINIC CLOSURES ============
+
+  async getClinicClosures(clinicId: number): Promise<ClinicClosure[]> {
+    return db.select()
+      .from(clinic_closures)
+      .where(eq(clinic_closures.clinic_id, clinicId))
+      .orderBy(asc(clinic_closures.date), asc(clinic_closures.start_time));
+  }
+
+  async getClinicClosure(id: number): Promise<ClinicClosure | undefined> {
+    const result = await db.select().from(clinic_closures).where(eq(clinic_closures.id, id));
+    return result[0];
+  }
+
+  async createClinicClosure(closure: InsertClinicClosure): Promise<ClinicClosure> {
+    const result = await db.insert(clinic_closures).values(closure).returning();
+    return result[0];
+  }
+
+  async deleteClinicClosure(id: number): Promise<boolean> {
+    const result = await db.delete(clinic_closures)
+      .where(eq(clinic_closures.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  // ============ APPOINTMENT TYPES ============
+
+  async getAppointmentTypes(clinicId: number): Promise<AppointmentType[]> {
+    return db.select()
+      .from(appointment_types)
+      .where(eq(appointment_types.clinic_id, clinicId))
+      .orderBy(asc(appointment_types.name));
+  }
+
+  async getAppointmentType(id: number): Promise<AppointmentType | undefined> {
+    const result = await db.select().from(appointment_types).where(eq(appointment_types.id, id));
+    return result[0];
+  }
+
+  async createAppointmentType(type: InsertAppointmentType): Promise<AppointmentType> {
+    const result = await db.insert(appointment_types).values(type).returning();
+    return result[0];
+  }
+
+  async updateAppointmentType(id: number, updates: Partial<InsertAppointmentType>): Promise<AppointmentType | undefined> {
+    const result = await db.update(appointment_types)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(appointment_types.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAppointmentType(id: number): Promise<boolean> {
+    const result = await db.delete(appointment_types)
+      .where(eq(appointment_types.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  // ============ GROUP SESSION PARTICIPANTS ============
+
+  async getAppointmentParticipants(appointmentId: number): Promise<AppointmentParticipant[]> {
+    return db.select()
+      .from(appointment_participants)
+      .where(eq(appointment_participants.appointment_id, appointmentId))
+      .orderBy(asc(appointment_participants.created_at), asc(appointment_participants.id));
+  }
+
+  async getAppointmentParticipant(id: number): Promise<AppointmentParticipant | undefined> {
+    const result = await db.select().from(appointment_participants).where(eq(appointment_participants.id, id));
+    return result[0];
+  }
+
+  async createAppointmentParticipant(participant: InsertAppointmentParticipant): Promise<AppointmentParticipant | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the session row so two enrollments can't both take the last seat
+      const locked = await tx.execute(sql`SELECT capacity FROM appointments WHERE id = ${participant.appointment_id} FOR UPDATE`);
+      const capacity = locked.rows[0]?.capacity as number | null | undefined;
+
+      if (capacity != null) {
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+          .from(appointment_participants)
+          .where(eq(appointment_participants.appointment_id, participant.appointment_id));
+        if (count >= capacity) return undefined;
+      }
+
+      const result = await tx.insert(appointment_participants).values(participant).returning();
+      return result[0];
+    });
+  }
+
+  async updateAppointmentParticipant(id: number, updates: Partial<InsertAppointmentParticipant>): Promise<AppointmentParticipant | undefined> {
+    const result = await db.update(appointment_participants)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(appointment_participants.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAppointmentParticipant(id: number): Promise<boolean> {
+    const result = await db.delete(appointment_participants)
+      .where(eq(appointment_participants.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getAppointmentParticipantCounts(appointmentIds: number[]): Promise<Map<number, number>> {
+    if (appointmentIds.length === 0) return new Map();
+
+    const rows = await db.select({
+      appointment_id: appointment_participants.appointment_id,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(appointment_participants)
+      .where(inArray(appointment_participants.appointment_id, appointmentIds))
+      .groupBy(appointment_participants.appointment_id);
+    return new Map(rows.map(row => [row.appointment_id, row.count]));
+  }
+
+  // ============ APPOINTMENT REMINDERS ============
+
+  async getReminderLogs(appointmentId: number): Promise<ReminderLog[]> {
+    return db.select()
+      .from(reminder_logs)
+      .where(eq(reminder_logs.appointment_id, appointmentId))
+      .orderBy(desc(reminder_logs.offset_hours));
+  }
+
+  async claimReminderLog(log: InsertReminderLog): Promise<ReminderLog | undefined> {
+    const result = await db.insert(reminder_logs)
+      .values(log)
+      .onConflictDoNothing({
+        target: [reminder_logs.appointment_id, reminder_logs.contact_id, reminder_logs.offset_hours, reminder_logs.scheduled_for],
+      })
+      .returning();
+    return result[0];
+  }
+
+  async updateReminderLog(id: number, updates: Partial<InsertReminderLog>): Promise<ReminderLog | undefined> {
+    const result = await db.update(reminder_logs)
+      .set(updates)
+      .where(eq(reminder_logs.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // ============ PATIENT CONVERSATIONS ============
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const result = await db.select().from(conversations).where(eq(conversations.id, id));
+    return result[0];
+  }
+
+  async getOpenConversation(clinicId: number, contactId: number): Promise<Conversation | undefined> {
+    const result = await db.select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.clinic_id, clinicId),
+        eq(conversations.contact_id, contactId),
+        sql`${conversations.status} <> 'fechada'`
+      ))
+      .orderBy(desc(conversations.updated_at))
+      .limit(1);
+    return result[0];
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const result = await db.insert(conversations).values(conversation).returning();
+    return result[0];
+  }
+
+  async updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const result = await db.update(conversations)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const result = await db.insert(messages).values(message).returning();
+    // Keeps active conversations on top of the inbox
+    if (message.conversation_id) {
+      await db.update(conversations)
+        .set({ updated_at: new Date() })
+        .where(eq(conversations.id, message.conversation_id));
+    }
+    return result[0];
+  }
+
+  async getMessageByExternalId(externalId: string): Promise<Message | undefined> {
+    const result = await db.select().from(messages).where(eq(messages.external_id, externalId)).limit(1);
+    return result[0];
+  }
+
+  async getConversationSummaries(clinicId: number, filters?: { status?: string; assignedUserId?: number }): Promise<ConversationSummary[]> {
+    const result = await db.execute(sql`
+      SELECT c.*,
+        ct.name AS contact_name,
+        ct.phone AS contact_phone,
+        lm.content AS last_message_content,
+        lm.sender_type AS last_message_sender_type,
+        lm.ai_action AS last_message_ai_action,
+        lm.timestamp AS last_message_timestamp,
+        (
+          SELECT count(*)::int FROM messages m
+          WHERE m.conversation_id = c.id
+            AND m.sender_type = 'patient'
+            AND (c.last_read_at IS NULL OR m.timestamp > c.last_read_at)
+        ) AS unread_count
+      FROM conversations c
+      LEFT JOIN contacts ct ON ct.id = c.contact_id
+      LEFT JOIN LATERAL (
+        SELECT content, sender_type, ai_action, timestamp FROM messages
+        WHERE conversation_id = c.id
+        ORDER BY timestamp DESC, id DESC
+        LIMIT 1
+      ) lm ON true
+      WHERE c.clinic_id = ${clinicId}
+        ${filters?.status ? sql`AND c.status = ${filters.status}` : sql``}
+        ${filters?.assignedUserId ? sql`AND c.assigned_user_id = ${filters.assignedUserId}` : sql``}
+      ORDER BY c.updated_at DESC
+      LIMIT 200
+    `);
+
+    return result.rows.map((row: any) => {
+      const {
+        last_message_content, last_message_sender_type, last_message_ai_action, last_message_timestamp,
+        ...conversation
+      } = row;
+      return {
+        ...conversation,
+        last_message: last_message_content == null ? null : {
+          content: last_message_content,
+          sender_type: last_message_sender_type,
+          ai_action: last_message_ai_action,
+          timestamp: last_message_timestamp,
+        },
+      } as ConversationSummary;
+    });
+  }
+
+  async getConversationMessages(conversationId: number, options?: { beforeId?: number; limit?: number }): Promise<Message[]> {
+    return db.select()
+      .from(messages)
+      .where(and(
+        eq(messages.conversation_id, conversationId),
+        options?.beforeId ? sql`${messages.id} < ${options.beforeId}` : undefined
+      ))
+      .orderBy(desc(messages.id))
+      .limit(options?.limit ?? 50);
+  }
+
+  // ============ CAMPAIGNS ============
+
+  private emptyRecipientCounts(): Record<CampaignRecipientStatus, number> {
+    return Object.fromEntries(CAMPAIGN_RECIPIENT_STATUSES.map(status => [status, 0])) as Record<CampaignRecipientStatus, number>;
+  }
+
+  async getCampaigns(clinicId: number): Promise<CampaignSummary[]> {
+    const rows = await db.select()
+      .from(campaigns)
+      .where(eq(campaigns.clinic_id, clinicId))
+      .orderBy(desc(campaigns.created_at));
+    if (rows.length === 0) return [];
+
+    const counts = await db.select({
+      campaign_id: campaign_recipients.campaign_id,
+      status: campaign_recipients.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(campaign_recipients)
+      .where(inArray(campaign_recipients.campaign_id, rows.map(campaign => campaign.id)))
+      .groupBy(campaign_recipients.campaign_id, campaign_recipients.status);
+
+    return rows.map(campaign => {
+      const recipient_counts = this.emptyRecipientCounts();
+      for (const row of counts) {
+        if (row.campaign_id === campaign.id) recipient_counts[row.status as CampaignRecipientStatus] = row.count;
+      }
+      return { ...campaign, recipient_counts };
+    });
+  }
+
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    const result = await db.select().from(campaigns).where(eq(campaigns.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    const result = await db.insert(campaigns).values(campaign).returning();
+    return result[0];
+  }
+
+  async updateCampaign(id: number, updates: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    const result = await db.update(campaigns)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getDueCampaigns(now: Date): Promise<Campaign[]> {
+    return db.select()
+      .from(campaigns)
+      .where(or(
+        eq(campaigns.status, 'enviando'),
+        and(eq(campaigns.status, 'agendada'), lte(campaigns.scheduled_at, now))
+      ))
+      .orderBy(asc(campaigns.scheduled_at));
+  }
+
+  async getCampaignRecipientCounts(campaignId: number): Promise<Record<CampaignRecipientStatus, number>> {
+    const rows = await db.select({
+      status: campaign_recipients.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(campaign_recipients)
+      .where(eq(campaign_recipients.campaign_id, campaignId))
+      .groupBy(campaign_recipients.status);
+
+    const counts = this.emptyRecipientCounts();
+    for (const row of rows) counts[row.status as CampaignRecipientStatus] = row.count;
+    return counts;
+  }
+
+  async getCampaignRecipients(campaignId: number, status?: string): Promise<CampaignRecipient[]> {
+    let whereClause = eq(campaign_recipients.campaign_id, campaignId);
+    if (status) {
+      whereClause = and(whereClause, eq(campaign_recipients.status, status))!;
+    }
+    return db.select().from(campaign_recipients).where(whereClause).orderBy(asc(campaign_recipients.id));
+  }
+
+  async addCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<number> {
+    if (recipients.length === 0) return 0;
+    const result = await db.insert(campaign_recipients)
+      .values(recipients)
+      .onConflictDoNothing({ target: [campaign_recipients.campaign_id, campaign_recipients.contact_id] })
+      .returning({ id: campaign_recipients.id });
+    return result.length;
+  }
+
+  async claimCampaignRecipients(campaignId: number, limit: number): Promise<CampaignRecipient[]> {
+    return db.update(campaign_recipients)
+      .set({ status: 'sending' })
+      .where(sql`${campaign_recipients.id} IN (
+        SELECT id FROM campaign_recipients
+        WHERE campaign_id = ${campaignId} AND status = 'pending'
+        ORDER BY id
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )`)
+      .returning();
+  }
+
+  async updateCampaignRecipient(id: number, updates: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient | undefined> {
+    const result = await db.update(campaign_recipients)
+      .set(updates)
+      .where(eq(campaign_recipients.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async skipPendingCampaignRecipients(campaignId: number, reason: string): Promise<number> {
+    const result = await db.update(campaign_recipients)
+      .set({ status: 'skipped', error: reason })
+      .where(and(eq(campaign_recipients.campaign_id, campaignId), eq(campaign_recipients.status, 'pending')))
+      .returning({ id: campaign_recipients.id });
+    return result.length;
+  }
+
+  // ============ EXTERNAL CALENDAR EVENTS ============
+
+  async getExternalCalendarEvents(integrationIds: number[], range: { start: Date; end: Date }): Promise<ExternalCalendarEvent[]> {
+    if (integrationIds.length === 0) return [];
+    return db.select()
+      .from(external_calendar_events)
+      .where(and(
+        inArray(external_calendar_events.integration_id, integrationIds),
+        sql`${external_calendar_events.deleted_at} IS NULL`,
+        // Events we wrote for an appointment are already in the agenda as that appointment
+        sql`NOT EXISTS (
+          SELECT 1 FROM calendar_event_links l
+          WHERE l.integration_id = ${external_calendar_events.integration_id}
+            AND l.external_id = ${external_calendar_events.external_id}
+        )`,
+        lte(external_calendar_events.starts_at, range.end),
+        gte(external_calendar_events.ends_at, range.start)
+      ))
+      .orderBy(asc(external_calendar_events.starts_at));
+  }
+
+  async upsertExternalCalendarEvents(events: InsertExternalCalendarEvent[]): Promise<void> {
+    // Large full syncs are written in chunks to stay under the query parameter limit
+    for (let index = 0; index < events.length; index += 500) {
+      await db.insert(external_calendar_events)
+        .values(events.slice(index, index + 500))
+        .onConflictDoUpdate({
+          target: [external_calendar_events.integration_id, external_calendar_events.external_id],
+          set: {
+            calendar_id: sql`excluded.calendar_id`,
+            summary: sql`excluded.summary`,
+            description: sql`excluded.description`,
+            location: sql`excluded.location`,
+            starts_at: sql`excluded.starts_at`,
+            ends_at: sql`excluded.ends_at`,
+            all_day: sql`excluded.all_day`,
+            status: sql`excluded.status`,
+            etag: sql`excluded.etag`,
+            external_updated_at: sql`excluded.external_updated_at`,
+            last_synced_at: sql`excluded.last_synced_at`,
+            deleted_at: null,
+            updated_at: new Date(),
+          },
+        });
+    }
+  }
+
+  async softDeleteExternalCalendarEvents(integrationId: number, externalIds: string[], deletedAt: Date): Promise<number> {
+    if (externalIds.length === 0) return 0;
+    const result = await db.update(external_calendar_events)
+      .set({ deleted_at: deletedAt, last_synced_at: deletedAt, updated_at: new Date() })
+      .where(and(
+        eq(external_calendar_events.integration_id, integrationId),
+        inArray(external_calendar_events.external_id, externalIds),
+        sql`${external_calendar_events.deleted_at} IS NULL`
+      ))
+      .returning({ id: external_calendar_events.id });
+    return result.length;
+  }
+
+  async softDeleteStaleExternalCalendarEvents(integrationId: number, syncedBefore: Date, windowStart: Date): Promise<number> {
+    const result = await db.update(external_calendar_events)
+      .set({ deleted_at: syncedBefore, updated_at: new Date() })
+      .where(and(
+        eq(external_calendar_events.integration_id, integrationId),
+        sql`${external_calendar_events.last_synced_at} < ${syncedBefore}`,
+        gte(external_calendar_events.ends_at, windowStart),
+        sql`${external_calendar_events.deleted_at} IS NULL`
+      ))
+      .returning({ id: external_calendar_events.id });
+    return result.length;
+  }
+
+  // ============ CALENDAR EVENT LINKS ============
+
+  async getCalendarEventLinks(appointmentId: number): Promise<CalendarEventLink[]> {
+    return db.select()
+      .from(calendar_event_links)
+      .where(eq(calendar_event_links.appointment_id, appointmentId));
+  }
+
+  async upsertCalendarEventLink(link: InsertCalendarEventLink): Promise<CalendarEventLink> {
+    const [saved] = await db.insert(calendar_event_links)
+      .values(link)
+      .onConflictDoUpdate({
+        target: [calendar_event_links.appointment_id, calendar_event_links.integration_id],
+        set: {
+          external_id: link.external_id,
+          etag: link.etag ?? null,
+          external_updated_at: link.external_updated_at ?? null,
+          synced_at: link.synced_at,
+          updated_at: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteCalendarEventLink(id: number): Promise<boolean> {
+    const result = await db.delete(calendar_event_links)
+      .where(eq(calendar_event_links.id, id))
+      .returning({ id: calendar_event_links.id });
+    return result.length > 0;
+  }
+
+  async getCalendarEventLinksForIntegration(integrationId: number): Promise<CalendarEventLink[]> {
+    return db.select()
+      .from(calendar_event_links)
+      .where(eq(calendar_event_links.integration_id, integrationId));
+  }
+
+  async getCalendarEventLinkByExternalId(integrationId: number, externalId: string): Promise<CalendarEventLink | undefined> {
+    const [link] = await db.select()
+      .from(calendar_event_links)
+      .where(and(
+        eq(calendar_event_links.integration_id, integrationId),
+        eq(calendar_event_links.external_id, externalId)
+      ))
+      .limit(1);
+    return link;
+  }
+
+  // ============ CALENDAR SYNC CONFLICTS ============
+
+  async getCalendarSyncConflicts(userId: string, status: string = 'pending'): Promise<CalendarSyncConflict[]> {
+    return db.select()
+      .from(calendar_sync_conflicts)
+      .where(and(
+        eq(calendar_sync_conflicts.user_id, userId),
+        eq(calendar_sync_conflicts.status, status)
+      ))
+      .orderBy(asc(calendar_sync_conflicts.created_at));
+  }
+
+  async getCalendarSyncConflict(id: number): Promise<CalendarSyncConflict | undefined> {
+    const [conflict] = await db.select()
+      .from(calendar_sync_conflicts)
+      .where(eq(calendar_sync_conflicts.id, id))
+      .limit(1);
+    return conflict;
+  }
+
+  async getPendingCalendarSyncConflict(appointmentId: number, integrationId: number): Promise<CalendarSyncConflict | undefined> {
+    const [conflict] = await db.select()
+      .from(calendar_sync_conflicts)
+      .where(and(
+        eq(calendar_sync_conflicts.appointment_id, appointmentId),
+        eq(calendar_sync_conflicts.integration_id, integrationId),
+        eq(calendar_sync_conflicts.status, 'pending')
+      ))
+      .limit(1);
+    return conflict;
+  }
+
+  async createCalendarSyncConflict(conflict: InsertCalendarSyncConflict): Promise<CalendarSyncConflict> {
+    const [created] = await db.insert(calendar_sync_conflicts).values(conflict).returning();
+    return created;
+  }
+
+  async updateCalendarSyncConflict(id: number, updates: Partial<InsertCalendarSyncConflict>): Promise<CalendarSyncConflict | undefined> {
+    const [updated] = await db.update(calendar_sync_conflicts)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(calendar_sync_conflicts.id, id))
+      .returning();
+    return updated;
+  }
 }
 
 export const postgresStorage = new PostgreSQLStorage();
\ No newline at end of file
@@ -0,0 +1,33 @@
+import type { Request, Response, NextFunction } from "express";
+
+/**
+ * Fixed-window request limiter keyed by client IP, for the public (unauthenticated)
+ * endpoints. Counters live in memory, so each server process limits on its own.
+ */
+export function rateLimit({ windowMs, max, message }: { windowMs: number; max: number; message: string }) {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || req.socket.remoteAddress || 'unknown';
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      // Drop expired windows so the map doesn't grow with every visitor
+      if (hits.size > 10000) {
+        hits.forEach((value, ip) => {
+          if (value.resetAt <= now) hits.delete(ip);
+        });
+      }
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+    if (entry.count > max) {
+      res.setHeader('Retry-After', Math.ceil((entry.resetAt - now) / 1000).toString());
+      return res.status(429).json({ error: message });
+    }
+    next();
+  };
+}
@@ -0,0 +1,87 @@
+import { ServerResponse, type Server, type IncomingMessage } from "http";
+import type { RequestHandler } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import type { IStorage } from "./storage";
+
+// Staff browsers connect to /ws/clinic?clinicId=1 to hear about agenda changes
+const REALTIME_PATH = '/ws/clinic';
+
+export type ClinicEvent =
+  | { type: 'appointments.changed'; appointmentIds: number[] }
+  | { type: 'conversations.changed'; conversationIds: number[] }
+  | { type: 'calendar_conflicts.changed'; conflictIds: number[] };
+
+export interface RealtimeOptions {
+  // The app's session + passport middleware (setupAuth), run on the upgrade request
+  sessionMiddleware: RequestHandler[];
+  storage: Pick<IStorage, 'userHasClinicAccess'>;
+}
+
+const subscribers = new Map<number, Set<WebSocket>>();
+
+// Runs express middleware on a request that never reached express
+async function runMiddleware(request: IncomingMessage, middleware: RequestHandler[]): Promise<void> {
+  const response = new ServerResponse(request);
+  for (const handler of middleware) {
+    await new Promise<void>((resolve, reject) => {
+      handler(request as any, response as any, (error?: unknown) => error ? reject(error) : resolve());
+    });
+  }
+}
+
+/**
+ * Attaches the clinic event socket to the HTTP server. Only logged users of the clinic
+ * (or super admins) are subscribed. Upgrades for other paths (e.g. the Vite HMR socket
+ * in development) are left untouched.
+ */
+export function setupRealtime(server: Server, { sessionMiddleware, storage }: RealtimeOptions): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  const canSubscribe = async (request: IncomingMessage, clinicId: number): Promise<boolean> => {
+    await runMiddleware(request, sessionMiddleware);
+    const user = (request as any).user as Express.User | undefined;
+    if (!user) return false;
+    return user.role === 'super_admin' || storage.userHasClinicAccess(user.id, clinicId);
+  };
+
+  server.on('upgrade', (request: IncomingMessage, socket, head) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (url.pathname !== REALTIME_PATH) return;
+
+    const clinicId = parseInt(url.searchParams.get('clinicId') || '');
+    if (isNaN(clinicId)) {
+      socket.destroy();
+      return;
+    }
+
+    canSubscribe(request, clinicId)
+      .catch(error => {
+        console.error('Error authorizing realtime connection:', error);
+        return false;
+      })
+      .then(allowed => {
+        if (!allowed) {
+          socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          return;
+        }
+
+        wss.handleUpgrade(request, socket, head, (ws) => {
+          if (!subscribers.has(clinicId)) subscribers.set(clinicId, new Set());
+          subscribers.get(clinicId)!.add(ws);
+
+          ws.on('close', () => {
+            subscribers.get(clinicId)?.delete(ws);
+          });
+        });
+      });
+  });
+}
+
+export function broadcastClinicEvent(clinicId: number, event: ClinicEvent): void {
+  const message = JSON.stringify(event);
+  subscribers.get(clinicId)?.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+}
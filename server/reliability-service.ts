@@ -0,0 +1,145 @@
+import type { IStorage } from "./storage";
+import type { Appointment, AppointmentStatusHistory } from "@shared/schema";
+import { normalizeAppointmentStatus } from "@shared/appointment-status";
+
+// clinic_settings keys for the no-show policies (0 disables a threshold)
+export const RELIABILITY_SETTING_KEYS = {
+  confirmationThreshold: 'no_show_confirmation_threshold',
+  selfBookingBlockThreshold: 'no_show_self_booking_block_threshold',
+  lateCancellationHours: 'late_cancellation_hours',
+} as const;
+
+const DEFAULT_LATE_CANCELLATION_HOURS = 24;
+
+export interface ReliabilityPolicy {
+  confirmationThreshold: number;
+  selfBookingBlockThreshold: number;
+  lateCancellationHours: number;
+}
+
+export interface ContactReliability {
+  contact_id: number;
+  score: number | null; // 0-100, null while the contact has no past appointments
+  level: 'alta' | 'media' | 'baixa' | null;
+  stats: {
+    attended: number;
+    no_shows: number;
+    late_cancellations: number;
+    confirmed: number;
+    past_appointments: number;
+  };
+  no_shows: { appointment_id: number; scheduled_date: Date | null; doctor_name: string | null }[];
+  requires_confirmation: boolean;
+  self_booking_blocked: boolean;
+}
+
+/**
+ * Scores a contact's past attendance. The score weighs attendance (80%), where
+ * a late patient cancellation counts as half a no-show, and how often the
+ * contact confirmed their appointments (20%).
+ */
+export function computeReliability(
+  contactId: number,
+  appointments: Appointment[],
+  history: AppointmentStatusHistory[],
+  policy: ReliabilityPolicy,
+  now: Date = new Date()
+): ContactReliability {
+  const historyByAppointment = new Map<number, AppointmentStatusHistory[]>();
+  history.forEach(entry => {
+    if (!historyByAppointment.has(entry.appointment_id)) historyByAppointment.set(entry.appointment_id, []);
+    historyByAppointment.get(entry.appointment_id)!.push(entry);
+  });
+
+  const past = appointments.filter(appointment => appointment.scheduled_date && new Date(appointment.scheduled_date) < now);
+  let attended = 0;
+  let lateCancellations = 0;
+  let confirmed = 0;
+  let confirmable = 0;
+  const noShows: ContactReliability['no_shows'] = [];
+
+  for (const appointment of past) {
+    const status = normalizeAppointmentStatus(appointment.status);
+    const changes = historyByAppointment.get(appointment.id) || [];
+
+    if (status === 'faltou') {
+      noShows.push({ appointment_id: appointment.id, scheduled_date: appointment.scheduled_date, doctor_name: appointment.doctor_name });
+    } else if (status === 'finalizada' || status === 'paciente_em_atendimento' || status === 'paciente_aguardando') {
+      attended++;
+    } else if (status === 'cancelada_paciente') {
+      const cancellation = changes.find(change => change.to_status === 'cancelada_paciente');
+      const cancelledAt = new Date(cancellation?.created_at || appointment.updated_at || appointment.scheduled_date!);
+      const noticeHours = (new Date(appointment.scheduled_date!).getTime() - cancelledAt.getTime()) / 3600000;
+      if (noticeHours < policy.lateCancellationHours) lateCancellations++;
+      continue;
+    } else {
+      continue;
+    }
+
+    confirmable++;
+    if (changes.some(change => change.to_status === 'confirmada')) {
+      confirmed++;
+    }
+  }
+
+  const resolved = attended + noShows.length + lateCancellations;
+  let score: number | null = null;
+  if (resolved > 0) {
+    const attendanceRate = (attended + lateCancellations * 0.5) / resolved;
+    const confirmationRate = confirmable > 0 ? confirmed / confirmable : 1;
+    score = Math.round(100 * (attendanceRate * 0.8 + confirmationRate * 0.2));
+  }
+
+  return {
+    contact_id: contactId,
+    score,
+    level: score === null ? null : score >= 80 ? 'alta' : score >= 50 ? 'media' : 'baixa',
+    stats: {
+      attended,
+      no_shows: noShows.length,
+      late_cancellations: lateCancellations,
+      confirmed,
+      past_appointments: past.length,
+    },
+    no_shows: noShows,
+    requires_confirmation: policy.confirmationThreshold > 0 && noShows.length >= policy.confirmationThreshold,
+    self_booking_blocked: policy.selfBookingBlockThreshold > 0 && noShows.length >= policy.selfBookingBlockThreshold,
+  };
+}
+
+export class ReliabilityService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getPolicy(clinicId: number): Promise<ReliabilityPolicy> {
+    const readNumber = async (key: string, fallback: number) => {
+      const setting = await this.storage.getClinicSetting(clinicId, key);
+      const value = setting ? parseInt(setting.setting_value) : NaN;
+      return isNaN(value) ? fallback : value;
+    };
+
+    return {
+      confirmationThreshold: await readNumber(RELIABILITY_SETTING_KEYS.confirmationThreshold, 0),
+      selfBookingBlockThreshold: await readNumber(RELIABILITY_SETTING_KEYS.selfBookingBlockThreshold, 0),
+      lateCancellationHours: await readNumber(RELIABILITY_SETTING_KEYS.lateCancellationHours, DEFAULT_LATE_CANCELLATION_HOURS),
+    };
+  }
+
+  async getContactReliability(clinicId: number, contactId: number): Promise<ContactReliability> {
+    const [appointments, history, policy] = await Promise.all([
+      this.storage.getAppointmentsByContact(contactId),
+      this.storage.getContactStatusHistory(contactId),
+      this.getPolicy(clinicId),
+    ]);
+
+    return computeReliability(
+      contactId,
+      appointments.filter(appointment => appointment.clinic_id === clinicId),
+      history,
+      policy
+    );
+  }
+}
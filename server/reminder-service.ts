@@ -0,0 +1,176 @@
+import type { IStorage } from "./storage";
+import type { Appointment, Clinic, Contact } from "@shared/schema";
+import { canDeliverMessages, getMessageChannel, type MessageChannelAdapter } from "./message-channels";
+import { startIntervalJob } from "./interval-job";
+import { isGroupSession } from "./group-session-service";
+import { ConversationService } from "./conversation-service";
+import { renderTemplate, resolveTemplateVariables } from "./message-template-service";
+import { WHATSAPP_SETTING_KEYS, buildWhatsAppTemplate } from "./whatsapp-channel";
+
+// clinic_settings key with the reminder offsets in hours, e.g. "48,2" (empty turns reminders off)
+export const REMINDER_SETTING_KEYS = {
+  offsetsHours: 'reminder_offsets_hours',
+} as const;
+
+const DEFAULT_OFFSETS_HOURS = [48, 2];
+const MAX_OFFSET_HOURS = 7 * 24;
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+
+// Only appointments still waiting for the patient get reminders
+const REMINDABLE_STATUSES = ['agendada', 'confirmada'];
+
+// Used when the clinic has no active appointment_confirmation template
+export const DEFAULT_REMINDER_TEMPLATE =
+  "Olá {{nome}}! Lembrete da sua consulta com {{doutor}} em {{data}} às {{hora}} na {{clinica}}.";
+
+export function parseReminderOffsets(value: string | null | undefined): number[] {
+  if (value == null) return DEFAULT_OFFSETS_HOURS;
+  const offsets = value.split(',')
+    .map(part => parseInt(part.trim()))
+    .filter(offset => !isNaN(offset) && offset > 0 && offset <= MAX_OFFSET_HOURS);
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+/**
+ * Offset whose reminder is due: the closest one whose send time has passed.
+ * A booking made 10h ahead gets the 48h reminder right away and the 2h one later.
+ */
+export function getDueReminderOffset(start: Date, offsetsHours: number[], now: Date = new Date()): number | null {
+  if (start <= now) return null;
+  const due = offsetsHours.filter(offset => start.getTime() - offset * 3600000 <= now.getTime());
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * Sends appointment reminders at the clinic offsets. Each reminder is claimed in
+ * reminder_logs before it goes out, so restarts and concurrent runs never repeat it.
+ * Claims are per appointment time: a rescheduled appointment gets the reminders of its new date.
+ */
+export class ReminderService {
+  private storage: IStorage;
+  private channel: MessageChannelAdapter;
+  private conversationService: ConversationService;
+
+  constructor(storage: IStorage, channel: MessageChannelAdapter = getMessageChannel()) {
+    this.storage = storage;
+    this.channel = channel;
+    this.conversationService = new ConversationService(storage);
+  }
+
+  async getOffsets(clinicId: number): Promise<number[]> {
+    const setting = await this.storage.getClinicSetting(clinicId, REMINDER_SETTING_KEYS.offsetsHours);
+    return parseReminderOffsets(setting?.setting_value);
+  }
+
+  async sendDueReminders(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const result = { sent: 0, failed: 0 };
+    // Nothing is claimed on the console channel, so the reminders go out once a real channel is configured
+    if (!canDeliverMessages(this.channel)) return result;
+
+    const horizon = new Date(now.getTime() + MAX_OFFSET_HOURS * 3600000);
+    const appointments = await this.storage.getAppointmentsByDateRange(now, horizon);
+    const clinics = new Map<number, { clinic: Clinic | undefined; offsets: number[]; template: string; providerTemplate?: string }>();
+
+    for (const appointment of appointments) {
+      if (!appointment.scheduled_date || appointment.receive_reminders === false || !REMINDABLE_STATUSES.includes(appointment.status)) {
+        continue;
+      }
+
+      if (!clinics.has(appointment.clinic_id)) {
+        const [template] = await this.storage.getAiTemplates(appointment.clinic_id, 'appointment_confirmation');
+        clinics.set(appointment.clinic_id, {
+          clinic: await this.storage.getClinic(appointment.clinic_id),
+          offsets: await this.getOffsets(appointment.clinic_id),
+          template: template?.content || DEFAULT_REMINDER_TEMPLATE,
+          providerTemplate: (await this.storage.getClinicSetting(appointment.clinic_id, WHATSAPP_SETTING_KEYS.reminderTemplate))?.setting_value,
+        });
+      }
+      const { clinic, offsets, template, providerTemplate } = clinics.get(appointment.clinic_id)!;
+      if (!clinic) continue;
+
+      const offset = getDueReminderOffset(new Date(appointment.scheduled_date), offsets, now);
+      if (offset === null) continue;
+
+      for (const contact of await this.getRecipients(appointment)) {
+        const outcome = await this.sendReminder(appointment, contact, clinic, template, providerTemplate, offset);
+        if (outcome) result[outcome]++;
+      }
+    }
+
+    return result;
+  }
+
+  // The patient, or every enrolled participant of a group session
+  private async getRecipients(appointment: Appointment): Promise<Contact[]> {
+    const contactIds = isGroupSession(appointment)
+      ? (await this.storage.getAppointmentParticipants(appointment.id))
+          .filter(participant => participant.attendance_status === 'inscrito')
+          .map(participant => participant.contact_id)
+      : [appointment.contact_id];
+
+    const contacts = await Promise.all(contactIds.map(id => this.storage.getContact(id)));
+    return contacts.filter((contact): contact is Contact => !!contact?.phone);
+  }
+
+  private async sendReminder(
+    appointment: Appointment,
+    contact: Contact,
+    clinic: Clinic,
+    template: string,
+    providerTemplate: string | undefined,
+    offsetHours: number
+  ): Promise<'sent' | 'failed' | null> {
+    const variables = resolveTemplateVariables({ clinic, contact, appointment });
+    const message = renderTemplate(template, variables);
+
+    const log = await this.storage.claimReminderLog({
+      clinic_id: appointment.clinic_id,
+      appointment_id: appointment.id,
+      contact_id: contact.id,
+      offset_hours: offsetHours,
+      scheduled_for: new Date(appointment.scheduled_date!),
+      channel: this.channel.name,
+      recipient: contact.phone,
+      message,
+      status: 'pending',
+    });
+    if (!log) return null;
+
+    // A failed send stays failed: retrying could reach the patient twice if the provider did deliver it.
+    // Reminders usually go out past WhatsApp's 24h window, where only approved templates are accepted
+    try {
+      const { externalId } = await this.channel.send({
+        clinicId: appointment.clinic_id,
+        to: contact.phone,
+        body: message,
+        template: buildWhatsAppTemplate(providerTemplate, variables, message),
+      });
+      await this.storage.updateReminderLog(log.id, { status: 'sent', sent_at: new Date(), external_id: externalId ?? null });
+    } catch (error: any) {
+      console.error(`Error sending reminder for appointment ${appointment.id}:`, error);
+      await this.storage.updateReminderLog(log.id, { status: 'failed', error: error.message || String(error) });
+      return 'failed';
+    }
+
+    // Keep the reminder in the patient's conversation, so replies to it have context
+    try {
+      const conversation = await this.conversationService.getOrStartConversation(appointment.clinic_id, contact.id);
+      await this.conversationService.recordMessage(conversation, 'ai', message, {
+        ai_action: 'enviou_lembrete',
+        appointment_id: appointment.id,
+      });
+    } catch (error) {
+      console.error(`Error recording reminder for appointment ${appointment.id} in the conversation:`, error);
+    }
+    return 'sent';
+  }
+}
+
+// Runs the reminder pass every few minutes in this process
+export function startReminderScheduler(storage: IStorage, intervalMs: number = REMINDER_INTERVAL_MS): () => void {
+  const service = new ReminderService(storage);
+  if (!canDeliverMessages(getMessageChannel())) {
+    console.warn("⏰ Appointment reminders are on hold: the console message channel delivers nothing outside development");
+  }
+  return startIntervalJob("⏰ Appointment reminders", () => service.sendDueReminders(), intervalMs);
+}
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 // Storage will be imported dynamically to ensure initialization
 import { setupAuth, isAuthenticated, hasClinicAccess } from "./auth";
@@ -8,7 +8,10 @@ import {
   insertClinicSchema, insertContactSchema, insertAppointmentSchema,
   insertAnalyticsMetricSchema, insertClinicSettingSchema, insertAiTemplateSchema,
   insertPipelineStageSchema, insertPipelineOpportunitySchema, insertPipelineActivitySchema,
-  insertClinicInvitationSchema, insertMedicalRecordSchema
+  insertClinicInvitationSchema, insertMedicalRecordSchema,
+  insertClinicResourceSchema, appointmentResourceIdsSchema, insertWaitlistEntrySchema,
+  insertClinicClosureSchema, insertAppointmentTypeSchema, insertAppointmentParticipantSchema,
+  type Appointment, type InsertAppointment, type CalendarIntegration
 } from "@shared/schema";
 import {
   initGoogleCalendarAuth,
@@ -21,7 +24,90 @@ import {
   getUserCalendars,
   updateLinkedCalendarSettings
 } from "./calendar-routes";
-import { googleCalendarService } from "./google-calendar-service";
+import { AvailabilityService, availabilityCheckSchema, findSlotsSchema, serializeIntervalAvailability, findFreeSlots } from "./availability-service";
+import {
+  WorkingHoursService,
+  weeklyAvailabilitySchema,
+  availabilityOverrideSchema,
+  hasOverlappingBlocks,
+  WEEK_DAYS
+} from "./working-hours-service";
+import {
+  recurrenceRuleSchema,
+  seriesEditScopeSchema,
+  generateOccurrenceDates,
+  selectSeriesTargets,
+  shiftOccurrenceDate
+} from "./appointment-recurrence";
+import { WaitlistService, isOfferActive } from "./waitlist-service";
+import { AppointmentStatusService } from "./appointment-status-service";
+import { setupRealtime, broadcastClinicEvent } from "./realtime";
+import { ReliabilityService } from "./reliability-service";
+import { ClinicClosureService, serializeAffectedAppointment } from "./clinic-closure-service";
+import { AppointmentTypeService, getOccupiedInterval, getTypeBuffers } from "./appointment-type-service";
+import { GroupSessionService, isGroupSession } from "./group-session-service";
+import {
+  OnlineBookingService,
+  onlineBookingRequestSchema,
+  isWithinBookingWindow,
+  performsType,
+  DEFAULT_ONLINE_SERVICE
+} from "./online-booking-service";
+import {
+  AppointmentLinkService,
+  getAppointmentLinkPath,
+  verifyAppointmentLinkToken,
+  selfServiceCancelSchema,
+  selfServiceRescheduleSchema
+} from "./appointment-link-service";
+import { startReminderScheduler } from "./reminder-service";
+import {
+  CampaignService,
+  campaignAudienceSchema,
+  campaignSchema,
+  campaignScheduleSchema,
+  startCampaignScheduler
+} from "./campaign-service";
+import { InboundMessageService, inboundMessageSchema } from "./inbound-message-service";
+import { ConversationService, staffReplySchema, conversationUpdateSchema } from "./conversation-service";
+import { getMessageChannel, registerMessageChannel } from "./message-channels";
+import {
+  WHATSAPP_SETTING_KEYS,
+  createWhatsAppAdapterFromEnv,
+  createWhatsAppWebhookHandler
+} from "./whatsapp-channel";
+import {
+  MessageTemplateService,
+  TEMPLATE_VARIABLES,
+  templatePreviewSchema,
+  validateTemplate
+} from "./message-template-service";
+import {
+  CalendarSyncService,
+  caldavConnectSchema,
+  createCalendarOAuthState,
+  createGoogleCalendarWebhookHandler,
+  getCalendarWebhookAddress,
+  startCalendarPolling,
+  linkedCalendarSchema,
+  startCalendarWatchRenewal,
+  verifyCalendarOAuthState
+} from "./calendar-sync-service";
+import { CalendarTokenManager, startCalendarTokenRefresh, toCalendarConnection } from "./calendar-token-manager";
+import { resolveCalendarConflictSchema } from "./calendar-conflicts";
+import { isTokenEncryptionConfigured } from "./token-encryption";
+import {
+  CalendarProviderError,
+  getCalendarProvider,
+  getCalendarProviders,
+  registerCalendarProvider
+} from "./calendar-providers";
+import { GoogleCalendarProvider } from "./google-calendar-provider";
+import { MicrosoftCalendarProvider } from "./microsoft-calendar-provider";
+import { CalDavCalendarProvider } from "./caldav-calendar-provider";
+import { rateLimit } from "./rate-limit";
+import { DEFAULT_CLINIC_TIMEZONE, getZonedDateKey, getZonedDayRange, zonedTimeToUtc } from "@shared/timezone";
+import { CANCELLED_APPOINTMENT_STATUSES, occupiesAgendaSlot } from "@shared/appointment-status";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Import storage dynamically to ensure initialization is complete
@@ -31,7 +117,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ============ AUTHENTICATION ============
   
   // Setup traditional email/password auth (legacy)
-  setupAuth(app, storage);
+  const sessionMiddleware = setupAuth(app, storage);
   
   // Supabase auth routes are handled by frontend
 
@@ -210,745 +296,504 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ============ CONTACTS ============
-  
-  // Get contacts with filters
-  app.get("/api/contacts", async (req, res) => {
+  // ============ PROFESSIONAL AVAILABILITY ============
+
+  const workingHoursService = new WorkingHoursService(storage);
+
+  // Get a professional's weekly template and upcoming date overrides
+  app.get("/api/clinic/:clinicId/professionals/:userId/availability", async (req, res) => {
     try {
-      const { clinic_id, status, search } = req.query;
-      
-      if (!clinic_id) {
-        return res.status(400).json({ error: "clinic_id is required" });
+      const clinicId = parseInt(req.params.clinicId);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(clinicId) || isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid clinic or user ID" });
       }
-      
-      const clinicId = parseInt(clinic_id as string);
-      if (isNaN(clinicId)) {
-        return res.status(400).json({ error: "Invalid clinic ID" });
+
+      if (!(await storage.userHasClinicAccess(userId, clinicId))) {
+        return res.status(404).json({ error: "Professional not found in clinic" });
       }
-      
-      const filters: any = {};
-      if (status) filters.status = status as string;
-      if (search) filters.search = search as string;
-      
-      const contacts = await storage.getContacts(clinicId, filters);
-      res.json(contacts);
+
+      // Today in the clinic's timezone: late evening in São Paulo is already tomorrow in UTC
+      const today = getZonedDateKey(new Date(), await getClinicTimezone(clinicId));
+      const [weekly, overrides] = await Promise.all([
+        storage.getProfessionalAvailability(clinicId, userId),
+        storage.getProfessionalAvailabilityOverrides(clinicId, userId, {
+          start: (req.query.start as string) || today,
+          end: (req.query.end as string) || '9999-12-31'
+        })
+      ]);
+
+      weekly.sort((a, b) =>
+        WEEK_DAYS.indexOf(a.day_of_week as typeof WEEK_DAYS[number]) - WEEK_DAYS.indexOf(b.day_of_week as typeof WEEK_DAYS[number]) ||
+        a.start_time.localeCompare(b.start_time)
+      );
+
+      res.json({ weekly, overrides });
     } catch (error) {
-      console.error("Error fetching contacts:", error);
+      console.error("Error fetching professional availability:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get contact by ID
-  app.get("/api/contacts/:id", async (req, res) => {
+  // Replace a professional's weekly template (an empty list falls back to clinic hours)
+  app.put("/api/clinic/:clinicId/professionals/:userId/availability", async (req, res) => {
     try {
-      const contactId = parseInt(req.params.id);
-      if (isNaN(contactId)) {
-        return res.status(400).json({ error: "Invalid contact ID" });
+      const clinicId = parseInt(req.params.clinicId);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(clinicId) || isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid clinic or user ID" });
       }
-      
-      const contact = await storage.getContact(contactId);
-      if (!contact) {
-        return res.status(404).json({ error: "Contact not found" });
+
+      if (!(await storage.userHasClinicAccess(userId, clinicId))) {
+        return res.status(404).json({ error: "Professional not found in clinic" });
       }
-      
-      res.json(contact);
-    } catch (error) {
-      console.error("Error fetching contact:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
 
-  // Create contact
-  app.post("/api/contacts", async (req, res) => {
-    try {
-      console.log('🚀 POST /api/contacts - Starting contact creation');
-      console.log('📥 Raw request body:', req.body);
-      
-      console.log('🔍 Validating data with insertContactSchema...');
-      const validatedData = insertContactSchema.parse(req.body);
-      console.log('✅ Data validation successful:', validatedData);
-      
-      console.log('💾 Calling storage.createContact...');
-      const contact = await storage.createContact(validatedData);
-      console.log('✅ Contact created successfully in database:', contact);
-      
-      console.log('📤 Sending 201 response with contact data');
-      res.status(201).json(contact);
+      const { blocks } = weeklyAvailabilitySchema.parse(req.body);
+
+      const overlappingDay = WEEK_DAYS.find(day => hasOverlappingBlocks(
+        blocks.filter(block => block.day_of_week === day).map(block => ({ start: block.start_time, end: block.end_time }))
+      ));
+      if (overlappingDay) {
+        return res.status(400).json({ error: `Blocos de horário sobrepostos (${overlappingDay})` });
+      }
+
+      const weekly = await storage.replaceProfessionalAvailability(
+        clinicId,
+        userId,
+        blocks.map(block => ({ ...block, clinic_id: clinicId, user_id: userId }))
+      );
+
+      res.json({ weekly });
     } catch (error: any) {
-      console.error('❌ Error in POST /api/contacts:', error);
-      
       if (error.name === 'ZodError') {
-        console.error('📋 Zod validation errors:', error.errors);
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      
-      console.error("💥 Database/Server error creating contact:", error);
-      console.error("📊 Error stack:", error.stack);
+      console.error("Error updating professional availability:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update contact
-  app.put("/api/contacts/:id", async (req, res) => {
+  // Create a date-specific override (day off, blocked window or extra hours)
+  app.post("/api/clinic/:clinicId/professionals/:userId/availability/overrides", async (req, res) => {
     try {
-      const contactId = parseInt(req.params.id);
-      if (isNaN(contactId)) {
-        return res.status(400).json({ error: "Invalid contact ID" });
+      const clinicId = parseInt(req.params.clinicId);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(clinicId) || isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid clinic or user ID" });
       }
-      
-      const validatedData = insertContactSchema.partial().parse(req.body);
-      const contact = await storage.updateContact(contactId, validatedData);
-      
-      if (!contact) {
-        return res.status(404).json({ error: "Contact not found" });
+
+      if (!(await storage.userHasClinicAccess(userId, clinicId))) {
+        return res.status(404).json({ error: "Professional not found in clinic" });
       }
-      
-      res.json(contact);
+
+      const validatedData = availabilityOverrideSchema.parse(req.body);
+      const override = await storage.createProfessionalAvailabilityOverride({
+        ...validatedData,
+        clinic_id: clinicId,
+        user_id: userId
+      });
+
+      res.status(201).json(override);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error updating contact:", error);
+      console.error("Error creating availability override:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update contact status
-  app.patch("/api/contacts/:id/status", async (req, res) => {
+  // Delete a date-specific override
+  app.delete("/api/clinic/:clinicId/professionals/:userId/availability/overrides/:overrideId", async (req, res) => {
     try {
-      const contactId = parseInt(req.params.id);
-      if (isNaN(contactId)) {
-        return res.status(400).json({ error: "Invalid contact ID" });
-      }
-      
-      const { status } = req.body;
-      if (!status || typeof status !== 'string') {
-        return res.status(400).json({ error: "Valid status is required" });
+      const clinicId = parseInt(req.params.clinicId);
+      const userId = parseInt(req.params.userId);
+      const overrideId = parseInt(req.params.overrideId);
+      if (isNaN(clinicId) || isNaN(userId) || isNaN(overrideId)) {
+        return res.status(400).json({ error: "Invalid clinic, user or override ID" });
       }
-      
-      const contact = await storage.updateContactStatus(contactId, status);
-      
-      if (!contact) {
-        return res.status(404).json({ error: "Contact not found" });
+
+      const existing = await storage.getProfessionalAvailabilityOverride(overrideId);
+      if (!existing || existing.clinic_id !== clinicId || existing.user_id !== userId) {
+        return res.status(404).json({ error: "Override not found" });
       }
-      
-      res.json(contact);
+
+      await storage.deleteProfessionalAvailabilityOverride(overrideId);
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error updating contact status:", error);
+      console.error("Error deleting availability override:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // ============ APPOINTMENTS ============
-  
-  // Simple in-memory cache for Google Calendar events
-  const calendarCache = new Map<string, { events: any[], timestamp: number }>();
-  const CACHE_DURATION = 2 * 60 * 1000; // 2 minutes
-  
-  // Get appointments with filters (including Google Calendar events)
-  app.get("/api/appointments", async (req, res) => {
+  // Effective working hours of a professional on a date (?date=YYYY-MM-DD)
+  app.get("/api/clinic/:clinicId/professionals/:userId/working-hours", async (req, res) => {
     try {
-      console.log('🚀 Appointments API called');
-      const { clinic_id, status, date } = req.query;
-      
-      if (!clinic_id) {
-        return res.status(400).json({ error: "clinic_id is required" });
-      }
-      
-      const clinicId = parseInt(clinic_id as string);
-      if (isNaN(clinicId)) {
-        return res.status(400).json({ error: "Invalid clinic ID" });
+      const clinicId = parseInt(req.params.clinicId);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(clinicId) || isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid clinic or user ID" });
       }
-      
-      const filters: any = {};
-      if (status) filters.status = status as string;
-      if (date) filters.date = new Date(date as string);
-      
-      // Get appointments from database
-      const appointments = await storage.getAppointments(clinicId, filters);
-      console.log('📊 DB appointments found:', appointments.length);
-      
-      // Try to get Google Calendar events if user has integrations
-      let allAppointments = [...appointments];
-      
-      try {
-        // Get calendar integrations for this clinic
-        const integrations = await storage.getCalendarIntegrationsForClinic(clinicId);
-        console.log('📅 Calendar integrations found:', integrations.length);
-        
-        if (integrations.length > 0) {
-          const { googleCalendarService } = await import('./google-calendar-service');
-          
-          // Process all integrations in parallel for better performance
-          const calendarPromises = integrations.map(async (integration) => {
-            if (integration.is_active && integration.sync_enabled && integration.calendar_id) {
-              try {
-                // Get date range for events - optimize to only fetch 7 days instead of 30
-                const timeMin = filters.date 
-                  ? new Date(filters.date.getFullYear(), filters.date.getMonth(), filters.date.getDate()).toISOString()
-                  : new Date().toISOString();
-                const timeMax = filters.date
-                  ? new Date(filters.date.getFullYear(), filters.date.getMonth(), filters.date.getDate() + 1).toISOString()
-                  : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-                
-                // Create cache key for this integration and date range
-                const cacheKey = `${integration.id}_${timeMin}_${timeMax}`;
-                const now = Date.now();
-                
-                // Check cache first
-                const cached = calendarCache.get(cacheKey);
-                let events;
-                
-                if (cached && (now - cached.timestamp) < CACHE_DURATION) {
-                  events = cached.events;
-                  console.log('📊 Using cached Google Calendar events:', events.length);
-                } else {
-                  // Set credentials
-                  googleCalendarService.setCredentials(
-                    integration.access_token!,
-                    integration.refresh_token || undefined,
-                    integration.token_expires_at ? new Date(integration.token_expires_at).getTime() : undefined
-                  );
-                  
-                  events = await googleCalendarService.listEvents(
-                    integration.calendar_id,
-                    timeMin,
-                    timeMax
-                  );
-                  
-                  // Cache the results
-                  calendarCache.set(cacheKey, { events, timestamp: now });
-                  console.log('📊 Fetched and cached Google Calendar events:', events.length);
-                }
-                
-                console.log('📅 Google Calendar events found:', events.length);
-                
-                // Convert Google Calendar events to appointment format
-                for (const event of events) {
-                  if (event.start?.dateTime && event.summary) {
-                    const startDate = new Date(event.start.dateTime);
-                    const endDate = new Date(event.end?.dateTime || event.start.dateTime);
-                    const durationMinutes = Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60));
-                    
-                    // Check if this event is already in our database
-                    const existsInDb = appointments.some(apt => apt.google_calendar_event_id === event.id);
-                    
-                    if (!existsInDb) {
-                      allAppointments.push({
-                        id: `gc_${event.id}`, // Prefix to distinguish from DB appointments
-                        contact_id: null,
-                        user_id: integration.user_id,
-                        clinic_id: clinicId,
-                        doctor_name: event.summary,
-                        specialty: 'Evento do Google Calendar',
-                        appointment_type: 'google_calendar',
-                        scheduled_date: startDate,
-                        duration_minutes: durationMinutes,
-                        status: 'scheduled',
-                        payment_status: 'pending',
-                        payment_amount: 0,
-                        session_notes: event.description || null,
-                        created_at: new Date(),
-                        updated_at: new Date(),
-                        google_calendar_event_id: event.id,
-                        is_google_calendar_event: true
-                      } as any);
-                    }
-                  }
-                }
-              } catch (calError: any) {
-                console.warn(`Google Calendar integration ${integration.id} failed:`, calError.message || 'Unknown error');
-                
-                // If token is expired/invalid, disable the integration
-                if (calError.code === 401 || calError.status === 401 || 
-                    (calError.message && calError.message.includes('authentication credentials'))) {
-                  try {
-                    await storage.updateCalendarIntegration(integration.id, {
-                      sync_enabled: false,
-                      sync_errors: 'Token expired - re-authentication required'
-                    });
-                    console.warn(`Disabled integration ${integration.id} due to authentication failure`);
-                  } catch (updateError) {
-                    console.error('Failed to update integration status:', updateError);
-                  }
-                }
-              }
-            }
-            return null; // Return null for failed integrations
-          });
 
-          // Wait for all calendar integrations to complete in parallel
-          await Promise.allSettled(calendarPromises);
-        }
-      } catch (integrationError) {
-        console.warn('Error fetching calendar integrations:', integrationError);
+      const date = req.query.date as string;
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: "date is required (YYYY-MM-DD)" });
       }
-      
-      console.log('📊 Total appointments (DB + Google):', allAppointments.length);
-      res.json(allAppointments);
-    } catch (error) {
-      console.error('Error fetching appointments:', error);
-      res.status(500).json({ error: 'Failed to fetch appointments' });
-    }
-  });
 
-  // Get appointment by ID
-  app.get("/api/appointments/:id", async (req, res) => {
-    try {
-      const appointmentId = parseInt(req.params.id);
-      if (isNaN(appointmentId)) {
-        return res.status(400).json({ error: "Invalid appointment ID" });
-      }
-      
-      const appointment = await storage.getAppointment(appointmentId);
-      if (!appointment) {
-        return res.status(404).json({ error: "Appointment not found" });
+      const schedule = await workingHoursService.getSchedule(clinicId, userId, date);
+      res.json(schedule);
+    } catch (error: any) {
+      if (error.message === 'Clinic not found') {
+        return res.status(404).json({ error: "Clinic not found" });
       }
-      
-      res.json(appointment);
-    } catch (error) {
-      console.error("Error fetching appointment:", error);
+      console.error("Error fetching working hours:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get appointments by contact
-  app.get("/api/contacts/:contactId/appointments", async (req, res) => {
+  // ============ CLINIC RESOURCES ============
+
+  // List the clinic's rooms and equipment
+  app.get("/api/clinic/:clinicId/resources", async (req, res) => {
     try {
-      const contactId = parseInt(req.params.contactId);
-      if (isNaN(contactId)) {
-        return res.status(400).json({ error: "Invalid contact ID" });
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
-      
-      const appointments = await storage.getAppointmentsByContact(contactId);
-      res.json(appointments);
+
+      const resources = await storage.getClinicResources(clinicId);
+      const includeInactive = req.query.include_inactive === 'true';
+      res.json(includeInactive ? resources : resources.filter(resource => resource.is_active));
     } catch (error) {
-      console.error("Error fetching appointments by contact:", error);
+      console.error("Error fetching clinic resources:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create appointment
-  app.post("/api/appointments", async (req, res) => {
+  // Create a room or piece of equipment
+  app.post("/api/clinic/:clinicId/resources", async (req, res) => {
     try {
-      // Convert scheduled_date string to Date object if it's a string
-      const requestData = {
-        ...req.body,
-        scheduled_date: typeof req.body.scheduled_date === 'string' 
-          ? new Date(req.body.scheduled_date) 
-          : req.body.scheduled_date
-      };
-      
-      const validatedData = insertAppointmentSchema.parse(requestData);
-      const appointment = await storage.createAppointment(validatedData);
-
-      // Sync with Google Calendar if user has active integration
-      try {
-        const { syncAppointmentToGoogleCalendar } = await import('./calendar-routes');
-        await syncAppointmentToGoogleCalendar(appointment);
-      } catch (syncError) {
-        console.error("Error syncing appointment to Google Calendar:", syncError);
-        // Don't fail the appointment creation if sync fails
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
 
-      res.status(201).json(appointment);
+      const validatedData = insertClinicResourceSchema.parse({ ...req.body, clinic_id: clinicId });
+      const resource = await storage.createClinicResource(validatedData);
+      res.status(201).json(resource);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error creating appointment:", error);
+      console.error("Error creating clinic resource:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update appointment
-  app.put("/api/appointments/:id", async (req, res) => {
+  // Update a resource (capacity, opening hours, deactivation...)
+  app.put("/api/clinic/:clinicId/resources/:resourceId", async (req, res) => {
     try {
-      const appointmentId = parseInt(req.params.id);
-      if (isNaN(appointmentId)) {
-        return res.status(400).json({ error: "Invalid appointment ID" });
+      const clinicId = parseInt(req.params.clinicId);
+      const resourceId = parseInt(req.params.resourceId);
+      if (isNaN(clinicId) || isNaN(resourceId)) {
+        return res.status(400).json({ error: "Invalid clinic or resource ID" });
       }
-      
-      const validatedData = insertAppointmentSchema.partial().parse(req.body);
-      const appointment = await storage.updateAppointment(appointmentId, validatedData);
-      
-      if (!appointment) {
-        return res.status(404).json({ error: "Appointment not found" });
+
+      const existing = await storage.getClinicResource(resourceId);
+      if (!existing || existing.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Resource not found" });
       }
-      
-      res.json(appointment);
+
+      const { clinic_id, ...updates } = insertClinicResourceSchema.partial().parse(req.body);
+      const resource = await storage.updateClinicResource(resourceId, updates);
+      res.json(resource);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error updating appointment:", error);
+      console.error("Error updating clinic resource:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update appointment status (PATCH)
-  app.patch("/api/appointments/:id", async (req, res) => {
+  // Delete a resource (its bookings are removed with it)
+  app.delete("/api/clinic/:clinicId/resources/:resourceId", async (req, res) => {
     try {
-      const appointmentId = parseInt(req.params.id);
-      if (isNaN(appointmentId)) {
-        return res.status(400).json({ error: "Invalid appointment ID" });
-      }
-      
-      // Only allow status updates via PATCH
-      const { status } = req.body;
-      if (!status) {
-        return res.status(400).json({ error: "Status is required" });
+      const clinicId = parseInt(req.params.clinicId);
+      const resourceId = parseInt(req.params.resourceId);
+      if (isNaN(clinicId) || isNaN(resourceId)) {
+        return res.status(400).json({ error: "Invalid clinic or resource ID" });
       }
-      
-      const validatedData = { status: status.toString() };
-      const appointment = await storage.updateAppointment(appointmentId, validatedData);
-      
-      if (!appointment) {
-        return res.status(404).json({ error: "Appointment not found" });
+
+      const existing = await storage.getClinicResource(resourceId);
+      if (!existing || existing.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Resource not found" });
       }
-      
-      res.json(appointment);
-    } catch (error: any) {
-      console.error("Error updating appointment status:", error);
+
+      await storage.deleteClinicResource(resourceId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting clinic resource:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Delete appointment
-  app.delete("/api/appointments/:id", async (req, res) => {
+  // Resource reservations in a period (?start=&end=), used by the resource calendar view
+  app.get("/api/clinic/:clinicId/resource-bookings", async (req, res) => {
     try {
-      const appointmentId = parseInt(req.params.id);
-      if (isNaN(appointmentId)) {
-        return res.status(400).json({ error: "Invalid appointment ID" });
-      }
-      
-      // Get appointment before deletion to check if it exists and for Google Calendar sync
-      const appointment = await storage.getAppointment(appointmentId);
-      if (!appointment) {
-        return res.status(404).json({ error: "Appointment not found" });
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
 
-      // Remove from Google Calendar if synced
-      if (appointment.google_calendar_event_id) {
-        try {
-          const { removeAppointmentFromCalendar } = await import('./calendar-routes');
-          await removeAppointmentFromCalendar(appointmentId, appointment.user_id);
-        } catch (syncError) {
-          console.error("Error removing appointment from Google Calendar:", syncError);
-          // Continue with deletion even if Google Calendar sync fails
-        }
-      }
-      
-      const success = await storage.deleteAppointment(appointmentId);
-      
-      if (!success) {
-        return res.status(404).json({ error: "Appointment not found" });
+      const startDate = new Date(req.query.start as string);
+      const endDate = new Date(req.query.end as string);
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return res.status(400).json({ error: "start and end are required" });
       }
-      
-      res.json({ success: true, message: "Appointment deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting appointment:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
 
-  // ============ ANALYTICS ============
-  
-  // Get analytics metrics
-  app.get("/api/analytics", async (req, res) => {
-    try {
-      const { clinic_id, metric_type, start_date, end_date } = req.query;
-      
-      if (!clinic_id) {
-        return res.status(400).json({ error: "clinic_id is required" });
-      }
-      
-      const clinicId = parseInt(clinic_id as string);
-      if (isNaN(clinicId)) {
-        return res.status(400).json({ error: "Invalid clinic ID" });
-      }
-      
-      let dateRange: { start: Date; end: Date } | undefined;
-      if (start_date && end_date) {
-        dateRange = {
-          start: new Date(start_date as string),
-          end: new Date(end_date as string)
-        };
-      }
-      
-      const metrics = await storage.getAnalyticsMetrics(
-        clinicId, 
-        metric_type as string, 
-        dateRange
-      );
-      res.json(metrics);
+      const resources = await storage.getClinicResources(clinicId);
+      const bookings = await storage.getResourceBookings(resources.map(resource => resource.id), startDate, endDate);
+      res.json(bookings.map(booking => ({
+        resource_id: booking.resource_id,
+        appointment_id: booking.appointment.id
+      })));
     } catch (error) {
-      console.error("Error fetching analytics:", error);
+      console.error("Error fetching resource bookings:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create analytics metric
-  app.post("/api/analytics", async (req, res) => {
-    try {
-      const validatedData = insertAnalyticsMetricSchema.parse(req.body);
-      const metric = await storage.createAnalyticsMetric(validatedData);
-      res.status(201).json(metric);
-    } catch (error: any) {
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ error: "Invalid data", details: error.errors });
-      }
-      console.error("Error creating analytics metric:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
+  // ============ CLINIC CLOSURES ============
 
-  // ============ SETTINGS ============
-  
-  // Get clinic settings
-  app.get("/api/clinics/:clinicId/settings", async (req, res) => {
+  const clinicClosureService = new ClinicClosureService(storage);
+
+  // List the clinic's holidays and closure days (one-off, yearly and partial-day)
+  app.get("/api/clinic/:clinicId/closures", async (req, res) => {
     try {
       const clinicId = parseInt(req.params.clinicId);
       if (isNaN(clinicId)) {
         return res.status(400).json({ error: "Invalid clinic ID" });
       }
-      
-      const settings = await storage.getClinicSettings(clinicId);
-      res.json(settings);
+
+      const closures = await storage.getClinicClosures(clinicId);
+      res.json(closures);
     } catch (error) {
-      console.error("Error fetching clinic settings:", error);
+      console.error("Error fetching clinic closures:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get specific clinic setting
-  app.get("/api/clinics/:clinicId/settings/:key", async (req, res) => {
+  // Create a closure; the booked appointments it falls on come back flagged for rescheduling
+  app.post("/api/clinic/:clinicId/closures", async (req, res) => {
     try {
       const clinicId = parseInt(req.params.clinicId);
       if (isNaN(clinicId)) {
         return res.status(400).json({ error: "Invalid clinic ID" });
       }
-      
-      const { key } = req.params;
-      const setting = await storage.getClinicSetting(clinicId, key);
-      
-      if (!setting) {
-        return res.status(404).json({ error: "Setting not found" });
-      }
-      
-      res.json(setting);
-    } catch (error) {
-      console.error("Error fetching clinic setting:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
 
-  // Set clinic setting
-  app.post("/api/clinics/:clinicId/settings", async (req, res) => {
-    try {
-      const clinicId = parseInt(req.params.clinicId);
-      if (isNaN(clinicId)) {
-        return res.status(400).json({ error: "Invalid clinic ID" });
+      const validatedData = insertClinicClosureSchema.parse({ ...req.body, clinic_id: clinicId, source: 'manual' });
+      if (!!validatedData.start_time !== !!validatedData.end_time) {
+        return res.status(400).json({ error: "Informe o início e o fim do fechamento parcial" });
       }
-      
-      const validatedData = insertClinicSettingSchema.parse({
-        ...req.body,
-        clinic_id: clinicId
+      if (validatedData.start_time && validatedData.end_time && validatedData.start_time >= validatedData.end_time) {
+        return res.status(400).json({ error: "O horário final deve ser posterior ao inicial" });
+      }
+
+      const closure = await storage.createClinicClosure(validatedData);
+      const affected = await clinicClosureService.getAffectedAppointments(clinicId, [closure]);
+
+      res.status(201).json({
+        closure,
+        affectedAppointments: affected.map(serializeAffectedAppointment)
       });
-      
-      const setting = await storage.setClinicSetting(validatedData);
-      res.status(201).json(setting);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error setting clinic setting:", error);
+      console.error("Error creating clinic closure:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // ============ AI TEMPLATES ============
-  
-  // Get AI templates
-  app.get("/api/clinics/:clinicId/ai-templates", async (req, res) => {
+  // Import the Brazilian national holidays of a year ({ year }, defaults to the current one)
+  app.post("/api/clinic/:clinicId/closures/import-holidays", async (req, res) => {
     try {
       const clinicId = parseInt(req.params.clinicId);
       if (isNaN(clinicId)) {
         return res.status(400).json({ error: "Invalid clinic ID" });
       }
-      
-      const { template_type } = req.query;
-      const templates = await storage.getAiTemplates(clinicId, template_type as string);
-      res.json(templates);
-    } catch (error) {
-      console.error("Error fetching AI templates:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
 
-  // Get AI template by ID
-  app.get("/api/ai-templates/:id", async (req, res) => {
-    try {
-      const templateId = parseInt(req.params.id);
-      if (isNaN(templateId)) {
-        return res.status(400).json({ error: "Invalid template ID" });
-      }
-      
-      const template = await storage.getAiTemplate(templateId);
-      if (!template) {
-        return res.status(404).json({ error: "Template not found" });
+      const year = req.body?.year ? parseInt(req.body.year) : new Date().getFullYear();
+      if (isNaN(year) || year < 2000 || year > 2100) {
+        return res.status(400).json({ error: "Invalid year" });
       }
-      
-      res.json(template);
+
+      const { created, skipped } = await clinicClosureService.importNationalHolidays(clinicId, year);
+      const affected = await clinicClosureService.getAffectedAppointments(clinicId, created);
+
+      res.status(201).json({
+        created,
+        skipped,
+        affectedAppointments: affected.map(serializeAffectedAppointment)
+      });
     } catch (error) {
-      console.error("Error fetching AI template:", error);
+      console.error("Error importing national holidays:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create AI template
-  app.post("/api/clinics/:clinicId/ai-templates", async (req, res) => {
+  // Upcoming appointments booked on closure days (?start=&end=, YYYY-MM-DD)
+  app.get("/api/clinic/:clinicId/closures/affected-appointments", async (req, res) => {
     try {
       const clinicId = parseInt(req.params.clinicId);
       if (isNaN(clinicId)) {
         return res.status(400).json({ error: "Invalid clinic ID" });
       }
-      
-      const validatedData = insertAiTemplateSchema.parse({
-        ...req.body,
-        clinic_id: clinicId
-      });
-      
-      const template = await storage.createAiTemplate(validatedData);
-      res.status(201).json(template);
-    } catch (error: any) {
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ error: "Invalid data", details: error.errors });
+
+      const { start, end } = req.query;
+      const dateKeyPattern = /^\d{4}-\d{2}-\d{2}$/;
+      if ((start && !dateKeyPattern.test(start as string)) || (end && !dateKeyPattern.test(end as string))) {
+        return res.status(400).json({ error: "start and end must be YYYY-MM-DD" });
       }
-      console.error("Error creating AI template:", error);
+
+      const closures = await storage.getClinicClosures(clinicId);
+      const affected = await clinicClosureService.getAffectedAppointments(
+        clinicId,
+        closures,
+        start && end ? { start: start as string, end: end as string } : undefined
+      );
+      res.json(affected.map(serializeAffectedAppointment));
+    } catch (error) {
+      console.error("Error fetching appointments on closure days:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update AI template
-  app.put("/api/ai-templates/:id", async (req, res) => {
+  // Delete a closure
+  app.delete("/api/clinic/:clinicId/closures/:closureId", async (req, res) => {
     try {
-      const templateId = parseInt(req.params.id);
-      if (isNaN(templateId)) {
-        return res.status(400).json({ error: "Invalid template ID" });
-      }
-      
-      const validatedData = insertAiTemplateSchema.partial().parse(req.body);
-      const template = await storage.updateAiTemplate(templateId, validatedData);
-      
-      if (!template) {
-        return res.status(404).json({ error: "Template not found" });
+      const clinicId = parseInt(req.params.clinicId);
+      const closureId = parseInt(req.params.closureId);
+      if (isNaN(clinicId) || isNaN(closureId)) {
+        return res.status(400).json({ error: "Invalid clinic or closure ID" });
       }
-      
-      res.json(template);
-    } catch (error: any) {
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ error: "Invalid data", details: error.errors });
+
+      const existing = await storage.getClinicClosure(closureId);
+      if (!existing || existing.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Closure not found" });
       }
-      console.error("Error updating AI template:", error);
+
+      await storage.deleteClinicClosure(closureId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting clinic closure:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // ============ PIPELINE STAGES ============
-  
-  // Get pipeline stages
-  app.get("/api/clinics/:clinicId/pipeline-stages", async (req, res) => {
+  // ============ APPOINTMENT TYPES ============
+
+  const appointmentTypeService = new AppointmentTypeService(storage);
+
+  // List the clinic's appointment type catalog
+  app.get("/api/clinic/:clinicId/appointment-types", async (req, res) => {
     try {
       const clinicId = parseInt(req.params.clinicId);
       if (isNaN(clinicId)) {
         return res.status(400).json({ error: "Invalid clinic ID" });
       }
-      
-      const stages = await storage.getPipelineStages(clinicId);
-      res.json(stages);
+
+      const types = await storage.getAppointmentTypes(clinicId);
+      const includeInactive = req.query.include_inactive === 'true';
+      res.json(includeInactive ? types : types.filter(type => type.is_active));
     } catch (error) {
-      console.error("Error fetching pipeline stages:", error);
+      console.error("Error fetching appointment types:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create pipeline stage
-  app.post("/api/clinics/:clinicId/pipeline-stages", async (req, res) => {
+  // Create an appointment type (default duration, buffers, price, color, allowed professionals)
+  app.post("/api/clinic/:clinicId/appointment-types", async (req, res) => {
     try {
       const clinicId = parseInt(req.params.clinicId);
       if (isNaN(clinicId)) {
         return res.status(400).json({ error: "Invalid clinic ID" });
       }
-      
-      const validatedData = insertPipelineStageSchema.parse({
-        ...req.body,
-        clinic_id: clinicId
-      });
-      
-      const stage = await storage.createPipelineStage(validatedData);
-      res.status(201).json(stage);
+
+      const validatedData = insertAppointmentTypeSchema.parse({ ...req.body, clinic_id: clinicId });
+      if (await appointmentTypeService.findByKey(clinicId, validatedData.key)) {
+        return res.status(409).json({ error: "Já existe um tipo de atendimento com esta chave" });
+      }
+
+      const type = await storage.createAppointmentType(validatedData);
+      res.status(201).json(type);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error creating pipeline stage:", error);
+      console.error("Error creating appointment type:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update pipeline stage
-  app.put("/api/pipeline-stages/:id", async (req, res) => {
+  // Update an appointment type. The key is fixed, since appointments reference it
+  app.put("/api/clinic/:clinicId/appointment-types/:typeId", async (req, res) => {
     try {
-      const stageId = parseInt(req.params.id);
-      if (isNaN(stageId)) {
-        return res.status(400).json({ error: "Invalid stage ID" });
+      const clinicId = parseInt(req.params.clinicId);
+      const typeId = parseInt(req.params.typeId);
+      if (isNaN(clinicId) || isNaN(typeId)) {
+        return res.status(400).json({ error: "Invalid clinic or appointment type ID" });
       }
-      
-      const validatedData = insertPipelineStageSchema.partial().parse(req.body);
-      const stage = await storage.updatePipelineStage(stageId, validatedData);
-      
-      if (!stage) {
-        return res.status(404).json({ error: "Stage not found" });
+
+      const existing = await storage.getAppointmentType(typeId);
+      if (!existing || existing.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Appointment type not found" });
       }
-      
-      res.json(stage);
+
+      const { clinic_id, key, ...updates } = insertAppointmentTypeSchema.partial().parse(req.body);
+      const type = await storage.updateAppointmentType(typeId, updates);
+      res.json(type);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error updating pipeline stage:", error);
+      console.error("Error updating appointment type:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Delete pipeline stage
-  app.delete("/api/pipeline-stages/:id", async (req, res) => {
+  // Delete an appointment type (existing appointments keep its key as free text)
+  app.delete("/api/clinic/:clinicId/appointment-types/:typeId", async (req, res) => {
     try {
-      const stageId = parseInt(req.params.id);
-      if (isNaN(stageId)) {
-        return res.status(400).json({ error: "Invalid stage ID" });
+      const clinicId = parseInt(req.params.clinicId);
+      const typeId = parseInt(req.params.typeId);
+      if (isNaN(clinicId) || isNaN(typeId)) {
+        return res.status(400).json({ error: "Invalid clinic or appointment type ID" });
       }
-      
-      const success = await storage.deletePipelineStage(stageId);
-      
-      if (!success) {
-        return res.status(404).json({ error: "Stage not found" });
+
+      const existing = await storage.getAppointmentType(typeId);
+      if (!existing || existing.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Appointment type not found" });
       }
-      
+
+      await storage.deleteAppointmentType(typeId);
       res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting pipeline stage:", error);
+      console.error("Error deleting appointment type:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // ============ PIPELINE OPPORTUNITIES ============
+  // ============ CONTACTS ============
   
-  // Get pipeline opportunities
-  app.get("/api/pipeline-opportunities", async (req, res) => {
+  const reliabilityService = new ReliabilityService(storage);
+
+  // Get contacts with filters
+  app.get("/api/contacts", async (req, res) => {
     try {
-      const { clinic_id, stage_id, status, assigned_to } = req.query;
+      const { clinic_id, status, search } = req.query;
       
       if (!clinic_id) {
         return res.status(400).json({ error: "clinic_id is required" });
@@ -960,1019 +805,3517 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const filters: any = {};
-      if (stage_id) filters.stageId = parseInt(stage_id as string);
       if (status) filters.status = status as string;
-      if (assigned_to) filters.assignedTo = assigned_to as string;
+      if (search) filters.search = search as string;
       
-      const opportunities = await storage.getPipelineOpportunities(clinicId, filters);
-      res.json(opportunities);
+      const contacts = await storage.getContacts(clinicId, filters);
+      res.json(contacts);
     } catch (error) {
-      console.error("Error fetching pipeline opportunities:", error);
+      console.error("Error fetching contacts:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get opportunity by ID
-  app.get("/api/pipeline-opportunities/:id", async (req, res) => {
+  // Get contact by ID
+  app.get("/api/contacts/:id", async (req, res) => {
     try {
-      const opportunityId = parseInt(req.params.id);
-      if (isNaN(opportunityId)) {
-        return res.status(400).json({ error: "Invalid opportunity ID" });
+      const contactId = parseInt(req.params.id);
+      if (isNaN(contactId)) {
+        return res.status(400).json({ error: "Invalid contact ID" });
       }
       
-      const opportunity = await storage.getPipelineOpportunity(opportunityId);
-      if (!opportunity) {
-        return res.status(404).json({ error: "Opportunity not found" });
+      const contact = await storage.getContact(contactId);
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
       }
       
-      res.json(opportunity);
+      res.json(contact);
     } catch (error) {
-      console.error("Error fetching pipeline opportunity:", error);
+      console.error("Error fetching contact:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create pipeline opportunity
-  app.post("/api/pipeline-opportunities", async (req, res) => {
+  // Create contact
+  app.post("/api/contacts", async (req, res) => {
     try {
-      const validatedData = insertPipelineOpportunitySchema.parse(req.body);
-      const opportunity = await storage.createPipelineOpportunity(validatedData);
-      res.status(201).json(opportunity);
+      console.log('🚀 POST /api/contacts - Starting contact creation');
+      console.log('📥 Raw request body:', req.body);
+      
+      console.log('🔍 Validating data with insertContactSchema...');
+      const validatedData = insertContactSchema.parse(req.body);
+      console.log('✅ Data validation successful:', validatedData);
+      
+      console.log('💾 Calling storage.createContact...');
+      const contact = await storage.createContact(validatedData);
+      console.log('✅ Contact created successfully in database:', contact);
+      
+      console.log('📤 Sending 201 response with contact data');
+      res.status(201).json(contact);
     } catch (error: any) {
+      console.error('❌ Error in POST /api/contacts:', error);
+      
       if (error.name === 'ZodError') {
+        console.error('📋 Zod validation errors:', error.errors);
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error creating pipeline opportunity:", error);
+      
+      console.error("💥 Database/Server error creating contact:", error);
+      console.error("📊 Error stack:", error.stack);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update pipeline opportunity
-  app.put("/api/pipeline-opportunities/:id", async (req, res) => {
+  // Update contact
+  app.put("/api/contacts/:id", async (req, res) => {
     try {
-      const opportunityId = parseInt(req.params.id);
-      if (isNaN(opportunityId)) {
-        return res.status(400).json({ error: "Invalid opportunity ID" });
+      const contactId = parseInt(req.params.id);
+      if (isNaN(contactId)) {
+        return res.status(400).json({ error: "Invalid contact ID" });
       }
       
-      const validatedData = insertPipelineOpportunitySchema.partial().parse(req.body);
-      const opportunity = await storage.updatePipelineOpportunity(opportunityId, validatedData);
+      const validatedData = insertContactSchema.partial().parse(req.body);
+      const contact = await storage.updateContact(contactId, validatedData);
       
-      if (!opportunity) {
-        return res.status(404).json({ error: "Opportunity not found" });
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
       }
       
-      res.json(opportunity);
+      res.json(contact);
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error updating pipeline opportunity:", error);
+      console.error("Error updating contact:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Move opportunity to stage
-  app.patch("/api/pipeline-opportunities/:id/move", async (req, res) => {
+  // Update contact status
+  app.patch("/api/contacts/:id/status", async (req, res) => {
     try {
-      const opportunityId = parseInt(req.params.id);
-      if (isNaN(opportunityId)) {
-        return res.status(400).json({ error: "Invalid opportunity ID" });
+      const contactId = parseInt(req.params.id);
+      if (isNaN(contactId)) {
+        return res.status(400).json({ error: "Invalid contact ID" });
       }
       
-      const { stage_id, changed_by, notes } = req.body;
-      if (!stage_id || isNaN(stage_id)) {
-        return res.status(400).json({ error: "Valid stage_id is required" });
+      const { status } = req.body;
+      if (!status || typeof status !== 'string') {
+        return res.status(400).json({ error: "Valid status is required" });
       }
       
-      const opportunity = await storage.moveOpportunityToStage(
-        opportunityId, 
-        parseInt(stage_id), 
-        changed_by, 
-        notes
-      );
+      const contact = await storage.updateContactStatus(contactId, status);
       
-      if (!opportunity) {
-        return res.status(404).json({ error: "Opportunity not found" });
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
       }
       
-      res.json(opportunity);
+      res.json(contact);
     } catch (error) {
-      console.error("Error moving opportunity:", error);
+      console.error("Error updating contact status:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get opportunity history
-  app.get("/api/pipeline-opportunities/:id/history", async (req, res) => {
+  // Attendance history and reliability score of a contact, with the clinic's no-show policies applied
+  app.get("/api/contacts/:id/reliability", async (req, res) => {
     try {
-      const opportunityId = parseInt(req.params.id);
-      if (isNaN(opportunityId)) {
-        return res.status(400).json({ error: "Invalid opportunity ID" });
+      const contactId = parseInt(req.params.id);
+      if (isNaN(contactId)) {
+        return res.status(400).json({ error: "Invalid contact ID" });
       }
-      
-      const history = await storage.getPipelineHistory(opportunityId);
-      res.json(history);
-    } catch (error) {
-      console.error("Error fetching opportunity history:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
 
-  // ============ PIPELINE ACTIVITIES ============
-  
-  // Get opportunity activities
-  app.get("/api/pipeline-opportunities/:id/activities", async (req, res) => {
-    try {
-      const opportunityId = parseInt(req.params.id);
-      if (isNaN(opportunityId)) {
-        return res.status(400).json({ error: "Invalid opportunity ID" });
+      const contact = await storage.getContact(contactId);
+      if (!contact || !contact.clinic_id) {
+        return res.status(404).json({ error: "Contact not found" });
       }
-      
-      const activities = await storage.getPipelineActivities(opportunityId);
-      res.json(activities);
+
+      const reliability = await reliabilityService.getContactReliability(contact.clinic_id, contactId);
+      res.json(reliability);
     } catch (error) {
-      console.error("Error fetching pipeline activities:", error);
+      console.error("Error computing contact reliability:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create pipeline activity
-  app.post("/api/pipeline-activities", async (req, res) => {
+  // ============ APPOINTMENTS ============
+  
+  const availabilityService = new AvailabilityService(storage);
+  const waitlistService = new WaitlistService(storage);
+  const appointmentStatusService = new AppointmentStatusService(storage);
+  const groupSessionService = new GroupSessionService(storage);
+
+  // Days and wall-clock times are always interpreted in the clinic's timezone
+  const getClinicTimezone = async (clinicId?: number | null) => {
+    const clinic = clinicId ? await storage.getClinic(clinicId) : undefined;
+    return clinic?.timezone || DEFAULT_CLINIC_TIMEZONE;
+  };
+
+  // Offers a freed slot to the waitlist without failing the request that freed it
+  const offerFreedSlot = async (appointment: Appointment) => {
     try {
-      const validatedData = insertPipelineActivitySchema.parse(req.body);
-      const activity = await storage.createPipelineActivity(validatedData);
-      res.status(201).json(activity);
-    } catch (error: any) {
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ error: "Invalid data", details: error.errors });
-      }
-      console.error("Error creating pipeline activity:", error);
-      res.status(500).json({ error: "Internal server error" });
+      await waitlistService.handleFreedSlot(appointment);
+    } catch (waitlistError) {
+      console.error("Error offering freed slot to the waitlist:", waitlistError);
     }
+  };
+
+  // Pushes a new or edited appointment to the professional's calendars (cancelled ones are removed);
+  // failures are recorded on the integration, never on the request
+  const syncAppointmentChange = async (appointment: Appointment) => {
+    await calendarSync.pushAppointment(appointment);
+  };
+
+  // Lets connected staff browsers (agenda, reception board) refetch changed appointments
+  const notifyAppointmentsChanged = (clinicId: number, appointmentIds: number[]) => {
+    broadcastClinicEvent(clinicId, { type: 'appointments.changed', appointmentIds });
+  };
+
+  // Same for the conversation inbox
+  const notifyConversationsChanged = (clinicId: number, conversationIds: number[]) => {
+    broadcastClinicEvent(clinicId, { type: 'conversations.changed', conversationIds });
+  };
+
+  registerCalendarProvider(new GoogleCalendarProvider());
+  registerCalendarProvider(new MicrosoftCalendarProvider());
+  registerCalendarProvider(new CalDavCalendarProvider());
+
+  const calendarTokens = new CalendarTokenManager(storage);
+
+  const calendarSync = new CalendarSyncService(storage, calendarTokens, {
+    // A synced calendar change refreshes open agendas; the events themselves are already in the cache
+    onChange: (integration, _events, appointmentIds) => {
+      notifyAppointmentsChanged(integration.clinic_id, appointmentIds);
+    },
+    // An appointment moved or cancelled in the calendar frees its old slot like any other change
+    onAppointmentChanged: async (before, after) => {
+      if (!CANCELLED_APPOINTMENT_STATUSES.includes(before.status)) {
+        await offerFreedSlot(before);
+      }
+      notifyAppointmentsChanged(after.clinic_id, [after.id]);
+    },
+    onConflict: (conflict) => {
+      broadcastClinicEvent(conflict.clinic_id, { type: 'calendar_conflicts.changed', conflictIds: [conflict.id] });
+    },
   });
 
-  // Update pipeline activity
-  app.put("/api/pipeline-activities/:id", async (req, res) => {
+  // Cached events of the linked calendars; nothing here waits on Google
+  const getCachedCalendarEvents = (integrations: CalendarIntegration[], range: { start: Date; end: Date }) =>
+    storage.getExternalCalendarEvents(
+      integrations
+        .filter(integration => integration.is_active && integration.sync_enabled)
+        .map(integration => integration.id),
+      range
+    );
+  
+  // Get appointments with filters (including Google Calendar events)
+  app.get("/api/appointments", async (req, res) => {
     try {
-      const activityId = parseInt(req.params.id);
-      if (isNaN(activityId)) {
-        return res.status(400).json({ error: "Invalid activity ID" });
-      }
+      console.log('🚀 Appointments API called');
+      const { clinic_id, status, date } = req.query;
       
-      const validatedData = insertPipelineActivitySchema.partial().parse(req.body);
-      const activity = await storage.updatePipelineActivity(activityId, validatedData);
+      if (!clinic_id) {
+        return res.status(400).json({ error: "clinic_id is required" });
+      }
       
-      if (!activity) {
-        return res.status(404).json({ error: "Activity not found" });
+      const clinicId = parseInt(clinic_id as string);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
       
-      res.json(activity);
-    } catch (error: any) {
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      const filters: any = {};
+      if (status) filters.status = status as string;
+      if (date) {
+        // ?date=YYYY-MM-DD is a day of the clinic calendar, not a UTC day
+        const timeZone = await getClinicTimezone(clinicId);
+        const dateKey = /^\d{4}-\d{2}-\d{2}$/.test(date as string)
+          ? date as string
+          : getZonedDateKey(new Date(date as string), timeZone);
+        filters.dateRange = getZonedDayRange(dateKey, timeZone);
+      }
+      
+      // Get appointments from database; group sessions carry their occupancy
+      const storedAppointments = await storage.getAppointments(clinicId, filters);
+      const participantCounts = await storage.getAppointmentParticipantCounts(
+        storedAppointments.filter(isGroupSession).map(appointment => appointment.id)
+      );
+      const appointments = storedAppointments.map(appointment => isGroupSession(appointment)
+        ? { ...appointment, participant_count: participantCounts.get(appointment.id) ?? 0 }
+        : appointment
+      );
+      console.log('📊 DB appointments found:', appointments.length);
+      
+      // External calendar events from the local cache, shaped like appointments for the agenda
+      let allAppointments = [...appointments];
+      
+      try {
+        const integrations = await storage.getCalendarIntegrationsForClinic(clinicId);
+        const range = filters.dateRange || { start: new Date(), end: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) };
+        const events = await getCachedCalendarEvents(integrations, range);
+        const ownerOf = new Map(integrations.map(integration => [integration.id, integration.user_id]));
+        console.log('📅 Cached calendar events found:', events.length);
+
+        for (const event of events) {
+          if (event.all_day || !event.summary) continue;
+
+          // Events created by our own sync are already in the list as appointments
+          const existsInDb = appointments.some(apt => apt.google_calendar_event_id === event.external_id);
+          if (existsInDb) continue;
+
+          allAppointments.push({
+            id: `gc_${event.external_id}`, // Prefix to distinguish from DB appointments
+            contact_id: null,
+            user_id: ownerOf.get(event.integration_id),
+            clinic_id: clinicId,
+            doctor_name: event.summary,
+            specialty: 'Evento do Google Calendar',
+            appointment_type: 'google_calendar',
+            scheduled_date: event.starts_at,
+            duration_minutes: Math.round((event.ends_at.getTime() - event.starts_at.getTime()) / (1000 * 60)),
+            status: 'scheduled',
+            payment_status: 'pending',
+            payment_amount: 0,
+            session_notes: event.description || null,
+            created_at: event.created_at,
+            updated_at: event.updated_at,
+            google_calendar_event_id: event.external_id,
+            is_google_calendar_event: true
+          } as any);
+        }
+      } catch (calendarError) {
+        console.warn('Error reading cached calendar events:', calendarError);
       }
-      console.error("Error updating pipeline activity:", error);
-      res.status(500).json({ error: "Internal server error" });
+      
+      console.log('📊 Total appointments (DB + Google):', allAppointments.length);
+      res.json(allAppointments);
+    } catch (error) {
+      console.error('Error fetching appointments:', error);
+      res.status(500).json({ error: 'Failed to fetch appointments' });
     }
   });
 
-  // Complete pipeline activity
-  app.patch("/api/pipeline-activities/:id/complete", async (req, res) => {
+  // Get appointment by ID
+  app.get("/api/appointments/:id", async (req, res) => {
     try {
-      const activityId = parseInt(req.params.id);
-      if (isNaN(activityId)) {
-        return res.status(400).json({ error: "Invalid activity ID" });
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
       }
       
-      const { outcome } = req.body;
-      const activity = await storage.completePipelineActivity(activityId, outcome);
-      
-      if (!activity) {
-        return res.status(404).json({ error: "Activity not found" });
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
       }
       
-      res.json(activity);
+      res.json(appointment);
     } catch (error) {
-      console.error("Error completing pipeline activity:", error);
+      console.error("Error fetching appointment:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // ============ MARA AI INTEGRATION ============
-  
-  const { MaraAIService } = await import('./mara-ai-service.js');
-  const maraService = new MaraAIService(storage);
-  
-  // Chat com Mara AI sobre um contato específico
-  app.post('/api/contacts/:contactId/mara/chat', isAuthenticated, async (req: Request, res: Response) => {
+  // Get appointments by contact
+  app.get("/api/contacts/:contactId/appointments", async (req, res) => {
     try {
       const contactId = parseInt(req.params.contactId);
-      const { question } = req.body;
-      
-      console.log('🤖 Mara AI - Request received:', {
-        contactId,
-        userId: req.user?.id,
-        hasQuestion: !!question
-      });
-
-      if (!question || question.trim().length === 0) {
-        return res.status(400).json({ error: 'Pergunta é obrigatória' });
+      if (isNaN(contactId)) {
+        return res.status(400).json({ error: "Invalid contact ID" });
       }
-
-      // Verificar se o contato existe e pertence ao usuário
-      const contact = await storage.getContact(contactId);
-      console.log('🔍 Mara AI - Contact found:', {
-        contactExists: !!contact,
-        contactClinicId: contact?.clinic_id
-      });
       
-      if (!contact) {
-        return res.status(404).json({ error: 'Contato não encontrado' });
-      }
+      const appointments = await storage.getAppointmentsByContact(contactId);
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching appointments by contact:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Verificar permissão do usuário para acessar este contato
-      const hasAccess = await storage.userHasClinicAccess(req.user.id, contact.clinic_id);
-      
-      console.log('🔍 Mara AI - Access check:', {
-        userId: req.user.id,
-        clinicId: contact.clinic_id,
-        hasAccess
-      });
+  // Create appointment
+  app.post("/api/appointments", async (req, res) => {
+    try {
+      // Convert scheduled_date string to Date object if it's a string
+      const requestData = {
+        ...req.body,
+        scheduled_date: typeof req.body.scheduled_date === 'string' 
+          ? new Date(req.body.scheduled_date) 
+          : req.body.scheduled_date
+      };
       
-      if (!hasAccess) {
-        console.log('Acesso negado - usuário não tem permissão para esta clínica');
-        return res.status(403).json({ error: 'Acesso negado a este contato' });
+      // Duration and price left out of the request come from the appointment type catalog
+      const validatedData = await appointmentTypeService.applyCatalogDefaults(
+        insertAppointmentSchema.parse(requestData),
+        req.body
+      );
+      const resourceIds = appointmentResourceIdsSchema.parse(req.body.resource_ids);
+
+      // A room or piece of equipment can't be double-booked, unlike a professional warning
+      if (resourceIds.length > 0 && validatedData.scheduled_date) {
+        const [resourceCheck] = await availabilityService.checkResources(
+          [{
+            start: validatedData.scheduled_date,
+            end: new Date(validatedData.scheduled_date.getTime() + (validatedData.duration_minutes || 60) * 60000)
+          }],
+          resourceIds,
+          { clinicId: validatedData.clinic_id }
+        );
+        if (!resourceCheck.available) {
+          return res.status(409).json({
+            error: "Recurso indisponível no horário",
+            conflicts: [serializeIntervalAvailability(resourceCheck)]
+          });
+        }
       }
 
-      // Analisar com Mara AI
-      const result = await maraService.analyzeContact(contactId, question, req.user.id);
-      
-      res.json({
-        response: result.response
-      });
+      const appointment = await storage.createAppointment(validatedData);
+      if (resourceIds.length > 0) {
+        await storage.setAppointmentResources(appointment.id, resourceIds);
+      }
+      await groupSessionService.enrollHolder(appointment);
+
+      // Sync with the professional's calendars; doesn't fail the appointment creation
+      await syncAppointmentChange(appointment);
+
+      notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+      res.status(201).json({ ...appointment, resource_ids: resourceIds });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Resource not found') {
+        return res.status(400).json({ error: "Resource not found" });
+      }
+      if (error.message === 'Professional not allowed for appointment type') {
+        return res.status(400).json({ error: "O profissional não realiza este tipo de atendimento" });
+      }
+      console.error("Error creating appointment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create recurring appointment series
+  app.post("/api/appointments/recurring", async (req, res) => {
+    try {
+      const { recurrence, allow_conflicts, resource_ids, ...appointmentData } = req.body;
+      const rule = recurrenceRuleSchema.parse(recurrence);
+      const resourceIds = appointmentResourceIdsSchema.parse(resource_ids);
+      const validatedData = await appointmentTypeService.applyCatalogDefaults(
+        insertAppointmentSchema.parse({
+          ...appointmentData,
+          scheduled_date: typeof appointmentData.scheduled_date === 'string'
+            ? new Date(appointmentData.scheduled_date)
+            : appointmentData.scheduled_date
+        }),
+        appointmentData
+      );
+
+      if (!validatedData.scheduled_date) {
+        return res.status(400).json({ error: "scheduled_date is required for a recurring series" });
+      }
+
+      const occurrenceDates = generateOccurrenceDates(
+        validatedData.scheduled_date,
+        rule,
+        await getClinicTimezone(validatedData.clinic_id)
+      );
+      const durationMs = (validatedData.duration_minutes || 60) * 60000;
+
+      // Every generated occurrence must be free, not just the first one
+      const availability = await availabilityService.checkIntervals(
+        occurrenceDates.map(start => ({ start, end: new Date(start.getTime() + durationMs) })),
+        {
+          clinicId: validatedData.clinic_id,
+          professionalId: validatedData.user_id,
+          resourceIds,
+          appointmentType: validatedData.appointment_type
+        }
+      );
+      const conflicts = availability.filter(result => !result.available);
+      // allow_conflicts overrides agenda conflicts, never a double-booked resource
+      const blocking = allow_conflicts ? conflicts.filter(result => result.conflictType === 'resource') : conflicts;
+      if (blocking.length > 0) {
+        return res.status(409).json({
+          error: "Conflito de horário em uma ou mais ocorrências da série",
+          conflicts: blocking.map(serializeIntervalAvailability)
+        });
+      }
+
+      const seriesId = nanoid();
+      const createdAppointments = [];
+      for (let index = 0; index < occurrenceDates.length; index++) {
+        const appointment = await storage.createAppointment({
+          ...validatedData,
+          scheduled_date: occurrenceDates[index],
+          recurrence_series_id: seriesId,
+          recurrence_rule: rule.frequency,
+          recurrence_count: rule.count ?? null,
+          recurrence_until: rule.until ?? null,
+          recurrence_index: index,
+          recurrence_exception: false
+        });
+        if (resourceIds.length > 0) {
+          await storage.setAppointmentResources(appointment.id, resourceIds);
+        }
+        await groupSessionService.enrollHolder(appointment);
+        createdAppointments.push(appointment);
+        await syncAppointmentChange(appointment);
+      }
+
+      notifyAppointmentsChanged(validatedData.clinic_id, createdAppointments.map(appointment => appointment.id));
+      res.status(201).json({ series_id: seriesId, appointments: createdAppointments });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Resource not found') {
+        return res.status(400).json({ error: "Resource not found" });
+      }
+      if (error.message === 'Professional not allowed for appointment type') {
+        return res.status(400).json({ error: "O profissional não realiza este tipo de atendimento" });
+      }
+      console.error("Error creating recurring appointments:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update appointment. Occurrences of a series accept ?scope=this|following|series
+  app.put("/api/appointments/:id", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
       
-    } catch (error) {
-      console.error('Erro no chat com Mara AI:', error);
-      res.status(500).json({ 
-        error: 'Erro interno do servidor',
-        details: error instanceof Error ? error.message : 'Erro desconhecido'
+      const scope = seriesEditScopeSchema.parse(req.query.scope);
+      const validatedData = insertAppointmentSchema.partial().parse({
+        ...req.body,
+        ...(typeof req.body.scheduled_date === 'string' && { scheduled_date: new Date(req.body.scheduled_date) })
       });
+
+      const resourceIds = req.body.resource_ids !== undefined
+        ? appointmentResourceIdsSchema.parse(req.body.resource_ids)
+        : undefined;
+
+      const current = await storage.getAppointment(appointmentId);
+      if (!current) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+
+      const series = scope !== 'this' && current.recurrence_series_id
+        ? await storage.getAppointmentsBySeries(current.recurrence_series_id)
+        : [];
+      const targets = series.length > 0 ? selectSeriesTargets(series, current, scope) : [current];
+      const timeZone = await getClinicTimezone(current.clinic_id);
+
+      for (const target of targets) {
+        await groupSessionService.validateUpdate(target, validatedData);
+      }
+
+      // Status changes follow the same lifecycle as PATCH; unchanged statuses are left alone
+      const { status: requestedStatus, ...otherFields } = validatedData;
+      const statusOptions = { changedBy: (req as any).user?.id ?? null };
+      const statusUpdates = new Map<number, Partial<InsertAppointment>>();
+      if (requestedStatus) {
+        for (const target of targets) {
+          if (target.status !== requestedStatus) {
+            statusUpdates.set(target.id, appointmentStatusService.buildTransition(target, requestedStatus, statusOptions));
+          }
+        }
+      }
+
+      // Where each target ends up after the edit
+      const getTargetInterval = (target: Appointment) => {
+        const start = validatedData.scheduled_date
+          ? shiftOccurrenceDate(target.scheduled_date, current.scheduled_date, validatedData.scheduled_date, timeZone)
+          : target.scheduled_date;
+        return start
+          ? { start, end: new Date(start.getTime() + (validatedData.duration_minutes ?? target.duration_minutes ?? 60) * 60000) }
+          : null;
+      };
+
+      // Moving appointments (or changing their resources) must not double-book a room or equipment
+      if (resourceIds || validatedData.scheduled_date || validatedData.duration_minutes) {
+        const resourceConflicts = [];
+        for (const target of targets) {
+          const targetResourceIds = resourceIds ?? (await storage.getAppointmentResources(target.id)).map(resource => resource.id);
+          const interval = getTargetInterval(target);
+          if (targetResourceIds.length === 0 || !interval) continue;
+
+          const [resourceCheck] = await availabilityService.checkResources(
+            [interval],
+            targetResourceIds,
+            { clinicId: target.clinic_id, excludeAppointmentIds: targets.map(t => t.id) }
+          );
+          if (!resourceCheck.available) resourceConflicts.push(resourceCheck);
+        }
+
+        if (resourceConflicts.length > 0) {
+          return res.status(409).json({
+            error: "Recurso indisponível no horário",
+            conflicts: resourceConflicts.map(serializeIntervalAvailability)
+          });
+        }
+      }
+
+      // Every moved occurrence (one or many) must be free in the professional's agenda, as on
+      // recurring create; allow_conflicts overrides agenda conflicts (resources were checked above)
+      if (current.recurrence_series_id && (validatedData.scheduled_date || validatedData.duration_minutes)) {
+        const intervals = targets
+          .map(getTargetInterval)
+          .filter((interval): interval is { start: Date; end: Date } => !!interval);
+        const availability = await availabilityService.checkIntervals(intervals, {
+          clinicId: current.clinic_id,
+          professionalId: validatedData.user_id ?? current.user_id,
+          appointmentType: validatedData.appointment_type ?? current.appointment_type,
+          excludeAppointmentIds: targets.map(target => target.id)
+        });
+        const conflicts = availability.filter(result => !result.available);
+        if (conflicts.length > 0 && !req.body.allow_conflicts) {
+          return res.status(409).json({
+            error: targets.length > 1 ? "Conflito de horário em uma ou mais ocorrências da série" : "Conflito de horário",
+            conflicts: conflicts.map(serializeIntervalAvailability)
+          });
+        }
+      }
+
+      if (scope === 'this' || !current.recurrence_series_id) {
+        // Editing a single occurrence detaches it from later series-wide edits
+        const updates = { ...otherFields, ...statusUpdates.get(current.id) };
+        const appointment = await storage.updateAppointment(
+          appointmentId,
+          current.recurrence_series_id ? { ...updates, recurrence_exception: true } : updates
+        );
+
+        if (!appointment) {
+          return res.status(404).json({ error: "Appointment not found" });
+        }
+
+        if (statusUpdates.has(current.id)) {
+          await appointmentStatusService.recordTransition(current, requestedStatus!, statusOptions);
+        }
+
+        if (resourceIds) {
+          await storage.setAppointmentResources(appointmentId, resourceIds);
+        }
+        await groupSessionService.enrollHolder(appointment);
+
+        if (CANCELLED_APPOINTMENT_STATUSES.includes(appointment.status) &&
+            !CANCELLED_APPOINTMENT_STATUSES.includes(current.status)) {
+          await offerFreedSlot(appointment);
+        }
+
+        await syncAppointmentChange(appointment);
+        notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+        return res.json(appointment);
+      }
+
+      // "This and following" starts a new series so earlier occurrences keep the original one
+      const seriesId = scope === 'following' && (current.recurrence_index ?? 0) > 0
+        ? nanoid()
+        : current.recurrence_series_id;
+
+      const { scheduled_date, ...fields } = otherFields;
+      const updatedAppointments = [];
+      for (const target of targets) {
+        const updated = await storage.updateAppointment(target.id, {
+          ...fields,
+          ...statusUpdates.get(target.id),
+          recurrence_series_id: seriesId,
+          ...(scheduled_date && {
+            scheduled_date: shiftOccurrenceDate(target.scheduled_date, current.scheduled_date, scheduled_date, timeZone)
+          })
+        });
+        if (updated) {
+          updatedAppointments.push(updated);
+          await groupSessionService.enrollHolder(updated);
+          if (statusUpdates.has(target.id)) {
+            await appointmentStatusService.recordTransition(target, requestedStatus!, statusOptions);
+          }
+          if (CANCELLED_APPOINTMENT_STATUSES.includes(updated.status) &&
+              !CANCELLED_APPOINTMENT_STATUSES.includes(target.status)) {
+            await offerFreedSlot(updated);
+          }
+          await syncAppointmentChange(updated);
+        }
+        if (resourceIds) {
+          await storage.setAppointmentResources(target.id, resourceIds);
+        }
+      }
+
+      notifyAppointmentsChanged(current.clinic_id, updatedAppointments.map(appointment => appointment.id));
+      res.json({ series_id: seriesId, scope, appointments: updatedAppointments });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Resource not found') {
+        return res.status(400).json({ error: "Resource not found" });
+      }
+      if (error.message === 'Invalid appointment status') {
+        return res.status(400).json({ error: "Invalid appointment status" });
+      }
+      if (error.message === 'Invalid status transition') {
+        return res.status(409).json({ error: "Invalid status transition" });
+      }
+      if (error.message === 'Capacity below enrolled participants') {
+        return res.status(400).json({ error: "A sessão tem mais participantes inscritos do que as vagas informadas" });
+      }
+      if (error.message === 'Group session holder is managed by participants') {
+        return res.status(400).json({ error: "Altere os pacientes da sessão em grupo pela lista de participantes" });
+      }
+      console.error("Error updating appointment:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Gerar resumo do paciente com Mara AI
-  app.get('/api/contacts/:contactId/mara/summary', isAuthenticated, async (req: Request, res: Response) => {
+  // Update appointment status (PATCH)
+  app.patch("/api/appointments/:id", async (req, res) => {
     try {
-      const contactId = parseInt(req.params.contactId);
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
+      
+      // Only allow status updates via PATCH
+      const { status, reason } = req.body;
+      if (!status) {
+        return res.status(400).json({ error: "Status is required" });
+      }
+      
+      const previous = await storage.getAppointment(appointmentId);
+      if (!previous) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
 
-      // Verificar se o contato existe e pertence ao usuário
-      const contact = await storage.getContact(contactId);
-      if (!contact) {
-        return res.status(404).json({ error: 'Contato não encontrado' });
+      const appointment = await appointmentStatusService.transition(previous, status.toString(), {
+        changedBy: (req as any).user?.id ?? null,
+        reason: reason ? reason.toString() : null
+      });
+      
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
       }
 
-      // Verificar permissão do usuário para acessar este contato
-      const userClinics = await storage.getUserClinics(req.user.id);
-      const hasAccess = userClinics.some(clinicUser => clinicUser.clinic.id === contact.clinic_id);
+      if (CANCELLED_APPOINTMENT_STATUSES.includes(appointment.status) &&
+          !CANCELLED_APPOINTMENT_STATUSES.includes(previous.status)) {
+        await offerFreedSlot(appointment);
+      }
       
-      if (!hasAccess) {
-        return res.status(403).json({ error: 'Acesso negado a este contato' });
+      await syncAppointmentChange(appointment);
+      notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+      res.json(appointment);
+    } catch (error: any) {
+      if (error.message === 'Invalid appointment status') {
+        return res.status(400).json({ error: "Invalid appointment status" });
       }
+      if (error.message === 'Invalid status transition') {
+        return res.status(409).json({ error: "Invalid status transition" });
+      }
+      console.error("Error updating appointment status:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Gerar resumo com Mara AI
-      const summary = await maraService.generatePatientSummary(contactId);
+  // Delete appointment. Occurrences of a series accept ?scope=this|following|series
+  app.delete("/api/appointments/:id", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
       
-      res.json({ summary });
+      const scopeResult = seriesEditScopeSchema.safeParse(req.query.scope);
+      if (!scopeResult.success) {
+        return res.status(400).json({ error: "Invalid scope", details: scopeResult.error.errors });
+      }
+
+      // Get appointment before deletion to check if it exists and for Google Calendar sync
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+
+      const targets = appointment.recurrence_series_id && scopeResult.data !== 'this'
+        ? selectSeriesTargets(await storage.getAppointmentsBySeries(appointment.recurrence_series_id), appointment, scopeResult.data)
+        : [appointment];
+
+      let deletedCount = 0;
+      for (const target of targets) {
+        // Calendar failures never block the deletion
+        await calendarSync.removeAppointment(target);
+
+        if (await storage.deleteAppointment(target.id)) {
+          deletedCount++;
+          if (!CANCELLED_APPOINTMENT_STATUSES.includes(target.status)) {
+            await offerFreedSlot(target);
+          }
+        }
+      }
+      
+      if (deletedCount === 0) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
       
+      notifyAppointmentsChanged(appointment.clinic_id, targets.map(target => target.id));
+      res.json({ success: true, message: "Appointment deleted successfully", deleted: deletedCount });
     } catch (error) {
-      console.error('Erro ao gerar resumo com Mara AI:', error);
-      res.status(500).json({ 
-        error: 'Erro interno do servidor',
-        details: error instanceof Error ? error.message : 'Erro desconhecido'
-      });
+      console.error("Error deleting appointment:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // Get the rooms/equipment reserved by an appointment
+  app.get("/api/appointments/:id/resources", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
 
+      const resources = await storage.getAppointmentResources(appointmentId);
+      res.json(resources);
+    } catch (error) {
+      console.error("Error fetching appointment resources:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-  // ============ USER PROFILE AND PASSWORD RESET ============
-  
-  // Update user profile
-  app.put('/api/user/profile', isAuthenticated, async (req: Request, res: Response) => {
+  // Get the status changes of an appointment, oldest first
+  app.get("/api/appointments/:id/status-history", async (req, res) => {
     try {
-      const { name, email, currentPassword, newPassword } = req.body;
-      const userId = req.user.id;
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
 
-      // Validar dados básicos
-      if (!name || !email) {
-        return res.status(400).json({ error: 'Nome e email são obrigatórios' });
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
       }
 
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ error: 'Usuário não encontrado' });
+      const history = await storage.getAppointmentStatusHistory(appointmentId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching appointment status history:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get the patient's self-service link (reschedule/cancel) of an appointment
+  app.get("/api/appointments/:id/manage-link", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
       }
 
-      // Se está alterando senha, validar senha atual
-      if (newPassword && newPassword.trim()) {
-        if (!currentPassword || !currentPassword.trim()) {
-          return res.status(400).json({ error: 'Senha atual é obrigatória para alterar a senha' });
-        }
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
 
-        const bcrypt = require('bcryptjs');
-        const isValidPassword = await bcrypt.compare(currentPassword, user.password);
-        if (!isValidPassword) {
-          return res.status(400).json({ error: 'Senha atual incorreta' });
+      const path = getAppointmentLinkPath(appointment);
+      if (!path) {
+        return res.status(503).json({ error: "Links de consulta indisponíveis: configure APPOINTMENT_LINK_SECRET" });
+      }
+      res.json({ path, expires_at: appointment.scheduled_date });
+    } catch (error) {
+      console.error("Error creating appointment manage link:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get the reminders sent (or attempted) for an appointment
+  app.get("/api/appointments/:id/reminders", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
+
+      const reminders = await storage.getReminderLogs(appointmentId);
+      res.json(reminders);
+    } catch (error) {
+      console.error("Error fetching appointment reminders:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get the participants of a group session, in enrollment order
+  app.get("/api/appointments/:id/participants", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
+
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+
+      const participants = await storage.getAppointmentParticipants(appointmentId);
+      res.json({ capacity: appointment.capacity, participants });
+    } catch (error) {
+      console.error("Error fetching appointment participants:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Enroll a patient in a group session
+  app.post("/api/appointments/:id/participants", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ error: "Invalid appointment ID" });
+      }
+
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+
+      const participantData = insertAppointmentParticipantSchema.omit({ appointment_id: true }).parse(req.body);
+      const participant = await groupSessionService.enroll(appointment, participantData);
+
+      notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+      res.status(201).json(participant);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Appointment is not a group session') {
+        return res.status(400).json({ error: "A consulta não é uma sessão em grupo" });
+      }
+      if (error.message === 'Contact not found') {
+        return res.status(400).json({ error: "Contact not found" });
+      }
+      if (error.message === 'Contact already enrolled') {
+        return res.status(409).json({ error: "O paciente já está inscrito nesta sessão" });
+      }
+      if (error.message === 'Group session is full') {
+        return res.status(409).json({ error: "A sessão em grupo está lotada" });
+      }
+      console.error("Error enrolling appointment participant:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update a participant's attendance or payment
+  app.patch("/api/appointments/:id/participants/:participantId", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      const participantId = parseInt(req.params.participantId);
+      if (isNaN(appointmentId) || isNaN(participantId)) {
+        return res.status(400).json({ error: "Invalid participant ID" });
+      }
+
+      const existing = await storage.getAppointmentParticipant(participantId);
+      if (!existing || existing.appointment_id !== appointmentId) {
+        return res.status(404).json({ error: "Participant not found" });
+      }
+
+      const updates = insertAppointmentParticipantSchema
+        .pick({ attendance_status: true, payment_status: true, payment_amount: true })
+        .parse(req.body);
+      const participant = await storage.updateAppointmentParticipant(participantId, updates);
+      if (!participant) {
+        return res.status(404).json({ error: "Participant not found" });
+      }
+
+      const appointment = await storage.getAppointment(appointmentId);
+      if (appointment) {
+        notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+      }
+      res.json(participant);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating appointment participant:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Remove a participant from a group session
+  app.delete("/api/appointments/:id/participants/:participantId", async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      const participantId = parseInt(req.params.participantId);
+      if (isNaN(appointmentId) || isNaN(participantId)) {
+        return res.status(400).json({ error: "Invalid participant ID" });
+      }
+
+      const appointment = await storage.getAppointment(appointmentId);
+      const participant = await storage.getAppointmentParticipant(participantId);
+      if (!appointment || !participant || participant.appointment_id !== appointmentId) {
+        return res.status(404).json({ error: "Participant not found" });
+      }
+
+      await groupSessionService.remove(appointment, participant);
+
+      notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.message === 'Cannot remove the last participant') {
+        return res.status(400).json({ error: "A sessão precisa de ao menos um participante; cancele a sessão" });
+      }
+      console.error("Error removing appointment participant:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ WAITLIST ============
+
+  // List the clinic waitlist (?status=waiting|offered|booked|cancelled)
+  app.get("/api/clinic/:clinicId/waitlist", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+
+      const entries = await storage.getWaitlistEntries(clinicId, req.query.status as string | undefined);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Add a contact to the waitlist
+  app.post("/api/clinic/:clinicId/waitlist", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+
+      const validatedData = insertWaitlistEntrySchema.parse({ ...req.body, clinic_id: clinicId });
+      const entry = await storage.createWaitlistEntry(validatedData);
+      res.status(201).json(entry);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error creating waitlist entry:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update preferences of a waitlist entry
+  app.put("/api/clinic/:clinicId/waitlist/:entryId", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      const entryId = parseInt(req.params.entryId);
+      if (isNaN(clinicId) || isNaN(entryId)) {
+        return res.status(400).json({ error: "Invalid clinic or entry ID" });
+      }
+
+      const existing = await storage.getWaitlistEntry(entryId);
+      if (!existing || existing.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+
+      const { clinic_id, ...updates } = insertWaitlistEntrySchema.partial().parse(req.body);
+      const entry = await storage.updateWaitlistEntry(entryId, updates);
+      res.json(entry);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating waitlist entry:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Remove a contact from the waitlist (pending offers go with it)
+  app.delete("/api/clinic/:clinicId/waitlist/:entryId", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      const entryId = parseInt(req.params.entryId);
+      if (isNaN(clinicId) || isNaN(entryId)) {
+        return res.status(400).json({ error: "Invalid clinic or entry ID" });
+      }
+
+      const existing = await storage.getWaitlistEntry(entryId);
+      if (!existing || existing.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+
+      await storage.deleteWaitlistEntry(entryId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting waitlist entry:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Front desk queue: pending offers with the contact and entry they belong to
+  app.get("/api/clinic/:clinicId/waitlist/offers", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+
+      await waitlistService.expireStaleOffers(clinicId);
+      const offers = await storage.getWaitlistOffers({
+        clinicId,
+        status: (req.query.status as string) || 'pending'
+      });
+
+      const queue = await Promise.all(offers.map(async (offer) => {
+        const entry = await storage.getWaitlistEntry(offer.waitlist_entry_id);
+        const [contact, professional] = await Promise.all([
+          entry ? storage.getContact(entry.contact_id) : undefined,
+          storage.getUser(offer.user_id)
+        ]);
+        return {
+          ...offer,
+          entry,
+          contact: contact ? { id: contact.id, name: contact.name, phone: contact.phone } : null,
+          professional_name: professional?.name || null
+        };
+      }));
+
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching waitlist offers:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Confirm an offer: books the held slot for the waitlisted contact
+  app.post("/api/clinic/:clinicId/waitlist/offers/:offerId/confirm", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      const offerId = parseInt(req.params.offerId);
+      if (isNaN(clinicId) || isNaN(offerId)) {
+        return res.status(400).json({ error: "Invalid clinic or offer ID" });
+      }
+
+      const offer = await storage.getWaitlistOffer(offerId);
+      if (!offer || offer.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+      if (!isOfferActive(offer)) {
+        return res.status(409).json({ error: "A oferta não está mais pendente" });
+      }
+
+      // Someone may have booked over the hold without going through the availability check.
+      // The cancelled appointment's own calendar event may still be cached; it doesn't count
+      const slotStart = new Date(offer.slot_start);
+      const [availability] = await availabilityService.checkIntervals(
+        [{ start: slotStart, end: new Date(slotStart.getTime() + offer.duration_minutes * 60000) }],
+        {
+          clinicId,
+          professionalId: offer.user_id,
+          excludeWaitlistOfferIds: [offer.id],
+          excludeAppointmentIds: offer.source_appointment_id ? [offer.source_appointment_id] : []
+        }
+      );
+      if (!availability.available) {
+        return res.status(409).json({
+          error: "O horário não está mais disponível",
+          conflicts: [serializeIntervalAvailability(availability)]
+        });
+      }
+
+      const result = await waitlistService.confirmOffer(offer);
+      await syncAppointmentChange(result.appointment);
+
+      notifyAppointmentsChanged(result.appointment.clinic_id, [result.appointment.id]);
+      res.json(result);
+    } catch (error: any) {
+      if (error.message === 'Waitlist entry not found') {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+      if (error.message === 'Offer is no longer pending') {
+        return res.status(409).json({ error: "A oferta não está mais pendente" });
+      }
+      console.error("Error confirming waitlist offer:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Skip an offer: releases the contact and offers the slot to the next one in line
+  app.post("/api/clinic/:clinicId/waitlist/offers/:offerId/skip", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      const offerId = parseInt(req.params.offerId);
+      if (isNaN(clinicId) || isNaN(offerId)) {
+        return res.status(400).json({ error: "Invalid clinic or offer ID" });
+      }
+
+      const offer = await storage.getWaitlistOffer(offerId);
+      if (!offer || offer.clinic_id !== clinicId) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+      if (offer.status !== 'pending') {
+        return res.status(409).json({ error: "A oferta não está mais pendente" });
+      }
+
+      const result = await waitlistService.skipOffer(offer);
+      res.json(result);
+    } catch (error) {
+      console.error("Error skipping waitlist offer:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ ANALYTICS ============
+  
+  // Get analytics metrics
+  app.get("/api/analytics", async (req, res) => {
+    try {
+      const { clinic_id, metric_type, start_date, end_date } = req.query;
+      
+      if (!clinic_id) {
+        return res.status(400).json({ error: "clinic_id is required" });
+      }
+      
+      const clinicId = parseInt(clinic_id as string);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      let dateRange: { start: Date; end: Date } | undefined;
+      if (start_date && end_date) {
+        dateRange = {
+          start: new Date(start_date as string),
+          end: new Date(end_date as string)
+        };
+      }
+      
+      const metrics = await storage.getAnalyticsMetrics(
+        clinicId, 
+        metric_type as string, 
+        dateRange
+      );
+      res.json(metrics);
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create analytics metric
+  app.post("/api/analytics", async (req, res) => {
+    try {
+      const validatedData = insertAnalyticsMetricSchema.parse(req.body);
+      const metric = await storage.createAnalyticsMetric(validatedData);
+      res.status(201).json(metric);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error creating analytics metric:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ SETTINGS ============
+  
+  // Get clinic settings
+  app.get("/api/clinics/:clinicId/settings", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const settings = await storage.getClinicSettings(clinicId);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching clinic settings:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get specific clinic setting
+  app.get("/api/clinics/:clinicId/settings/:key", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const { key } = req.params;
+      const setting = await storage.getClinicSetting(clinicId, key);
+      
+      if (!setting) {
+        return res.status(404).json({ error: "Setting not found" });
+      }
+      
+      res.json(setting);
+    } catch (error) {
+      console.error("Error fetching clinic setting:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Set clinic setting
+  app.post("/api/clinics/:clinicId/settings", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const validatedData = insertClinicSettingSchema.parse({
+        ...req.body,
+        clinic_id: clinicId
+      });
+      
+      const setting = await storage.setClinicSetting(validatedData);
+      res.status(201).json(setting);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error setting clinic setting:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ AI TEMPLATES ============
+  
+  // Get AI templates
+  app.get("/api/clinics/:clinicId/ai-templates", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const { template_type } = req.query;
+      const templates = await storage.getAiTemplates(clinicId, template_type as string);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching AI templates:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Variables templates can use, with their descriptions
+  app.get("/api/ai-template-variables", async (req, res) => {
+    res.json(Object.entries(TEMPLATE_VARIABLES).map(([name, definition]) => ({ name, ...definition })));
+  });
+
+  const messageTemplateService = new MessageTemplateService(storage);
+
+  // Preview a template with sample data, or with a real appointment's data
+  app.post("/api/clinics/:clinicId/ai-templates/preview", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+
+      const input = templatePreviewSchema.parse(req.body);
+      res.json(await messageTemplateService.preview(clinicId, input));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Clinic not found') {
+        return res.status(404).json({ error: "Clinic not found" });
+      }
+      if (error.message === 'Appointment not found') {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      console.error("Error previewing AI template:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get AI template by ID
+  app.get("/api/ai-templates/:id", async (req, res) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      if (isNaN(templateId)) {
+        return res.status(400).json({ error: "Invalid template ID" });
+      }
+      
+      const template = await storage.getAiTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      console.error("Error fetching AI template:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create AI template
+  app.post("/api/clinics/:clinicId/ai-templates", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const validatedData = insertAiTemplateSchema.parse({
+        ...req.body,
+        clinic_id: clinicId
+      });
+
+      const templateErrors = validateTemplate(validatedData.content, validatedData.variables);
+      if (templateErrors.length > 0) {
+        return res.status(400).json({ error: "Invalid template", details: templateErrors });
+      }
+      
+      const template = await storage.createAiTemplate(validatedData);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error creating AI template:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update AI template
+  app.put("/api/ai-templates/:id", async (req, res) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      if (isNaN(templateId)) {
+        return res.status(400).json({ error: "Invalid template ID" });
+      }
+      
+      const validatedData = insertAiTemplateSchema.partial().parse(req.body);
+
+      // Content and declared variables are checked together, whichever of them changes
+      if (validatedData.content !== undefined || validatedData.variables !== undefined) {
+        const existing = await storage.getAiTemplate(templateId);
+        if (!existing) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+        const templateErrors = validateTemplate(
+          validatedData.content ?? existing.content,
+          validatedData.variables !== undefined ? validatedData.variables : existing.variables
+        );
+        if (templateErrors.length > 0) {
+          return res.status(400).json({ error: "Invalid template", details: templateErrors });
+        }
+      }
+
+      const template = await storage.updateAiTemplate(templateId, validatedData);
+      
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      
+      res.json(template);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating AI template:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ PIPELINE STAGES ============
+  
+  // Get pipeline stages
+  app.get("/api/clinics/:clinicId/pipeline-stages", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const stages = await storage.getPipelineStages(clinicId);
+      res.json(stages);
+    } catch (error) {
+      console.error("Error fetching pipeline stages:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create pipeline stage
+  app.post("/api/clinics/:clinicId/pipeline-stages", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const validatedData = insertPipelineStageSchema.parse({
+        ...req.body,
+        clinic_id: clinicId
+      });
+      
+      const stage = await storage.createPipelineStage(validatedData);
+      res.status(201).json(stage);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error creating pipeline stage:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update pipeline stage
+  app.put("/api/pipeline-stages/:id", async (req, res) => {
+    try {
+      const stageId = parseInt(req.params.id);
+      if (isNaN(stageId)) {
+        return res.status(400).json({ error: "Invalid stage ID" });
+      }
+      
+      const validatedData = insertPipelineStageSchema.partial().parse(req.body);
+      const stage = await storage.updatePipelineStage(stageId, validatedData);
+      
+      if (!stage) {
+        return res.status(404).json({ error: "Stage not found" });
+      }
+      
+      res.json(stage);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating pipeline stage:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete pipeline stage
+  app.delete("/api/pipeline-stages/:id", async (req, res) => {
+    try {
+      const stageId = parseInt(req.params.id);
+      if (isNaN(stageId)) {
+        return res.status(400).json({ error: "Invalid stage ID" });
+      }
+      
+      const success = await storage.deletePipelineStage(stageId);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Stage not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting pipeline stage:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ PIPELINE OPPORTUNITIES ============
+  
+  // Get pipeline opportunities
+  app.get("/api/pipeline-opportunities", async (req, res) => {
+    try {
+      const { clinic_id, stage_id, status, assigned_to } = req.query;
+      
+      if (!clinic_id) {
+        return res.status(400).json({ error: "clinic_id is required" });
+      }
+      
+      const clinicId = parseInt(clinic_id as string);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+      
+      const filters: any = {};
+      if (stage_id) filters.stageId = parseInt(stage_id as string);
+      if (status) filters.status = status as string;
+      if (assigned_to) filters.assignedTo = assigned_to as string;
+      
+      const opportunities = await storage.getPipelineOpportunities(clinicId, filters);
+      res.json(opportunities);
+    } catch (error) {
+      console.error("Error fetching pipeline opportunities:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get opportunity by ID
+  app.get("/api/pipeline-opportunities/:id", async (req, res) => {
+    try {
+      const opportunityId = parseInt(req.params.id);
+      if (isNaN(opportunityId)) {
+        return res.status(400).json({ error: "Invalid opportunity ID" });
+      }
+      
+      const opportunity = await storage.getPipelineOpportunity(opportunityId);
+      if (!opportunity) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      
+      res.json(opportunity);
+    } catch (error) {
+      console.error("Error fetching pipeline opportunity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create pipeline opportunity
+  app.post("/api/pipeline-opportunities", async (req, res) => {
+    try {
+      const validatedData = insertPipelineOpportunitySchema.parse(req.body);
+      const opportunity = await storage.createPipelineOpportunity(validatedData);
+      res.status(201).json(opportunity);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error creating pipeline opportunity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update pipeline opportunity
+  app.put("/api/pipeline-opportunities/:id", async (req, res) => {
+    try {
+      const opportunityId = parseInt(req.params.id);
+      if (isNaN(opportunityId)) {
+        return res.status(400).json({ error: "Invalid opportunity ID" });
+      }
+      
+      const validatedData = insertPipelineOpportunitySchema.partial().parse(req.body);
+      const opportunity = await storage.updatePipelineOpportunity(opportunityId, validatedData);
+      
+      if (!opportunity) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      
+      res.json(opportunity);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating pipeline opportunity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Move opportunity to stage
+  app.patch("/api/pipeline-opportunities/:id/move", async (req, res) => {
+    try {
+      const opportunityId = parseInt(req.params.id);
+      if (isNaN(opportunityId)) {
+        return res.status(400).json({ error: "Invalid opportunity ID" });
+      }
+      
+      const { stage_id, changed_by, notes } = req.body;
+      if (!stage_id || isNaN(stage_id)) {
+        return res.status(400).json({ error: "Valid stage_id is required" });
+      }
+      
+      const opportunity = await storage.moveOpportunityToStage(
+        opportunityId, 
+        parseInt(stage_id), 
+        changed_by, 
+        notes
+      );
+      
+      if (!opportunity) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      
+      res.json(opportunity);
+    } catch (error) {
+      console.error("Error moving opportunity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get opportunity history
+  app.get("/api/pipeline-opportunities/:id/history", async (req, res) => {
+    try {
+      const opportunityId = parseInt(req.params.id);
+      if (isNaN(opportunityId)) {
+        return res.status(400).json({ error: "Invalid opportunity ID" });
+      }
+      
+      const history = await storage.getPipelineHistory(opportunityId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching opportunity history:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ PIPELINE ACTIVITIES ============
+  
+  // Get opportunity activities
+  app.get("/api/pipeline-opportunities/:id/activities", async (req, res) => {
+    try {
+      const opportunityId = parseInt(req.params.id);
+      if (isNaN(opportunityId)) {
+        return res.status(400).json({ error: "Invalid opportunity ID" });
+      }
+      
+      const activities = await storage.getPipelineActivities(opportunityId);
+      res.json(activities);
+    } catch (error) {
+      console.error("Error fetching pipeline activities:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create pipeline activity
+  app.post("/api/pipeline-activities", async (req, res) => {
+    try {
+      const validatedData = insertPipelineActivitySchema.parse(req.body);
+      const activity = await storage.createPipelineActivity(validatedData);
+      res.status(201).json(activity);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error creating pipeline activity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update pipeline activity
+  app.put("/api/pipeline-activities/:id", async (req, res) => {
+    try {
+      const activityId = parseInt(req.params.id);
+      if (isNaN(activityId)) {
+        return res.status(400).json({ error: "Invalid activity ID" });
+      }
+      
+      const validatedData = insertPipelineActivitySchema.partial().parse(req.body);
+      const activity = await storage.updatePipelineActivity(activityId, validatedData);
+      
+      if (!activity) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      
+      res.json(activity);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating pipeline activity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Complete pipeline activity
+  app.patch("/api/pipeline-activities/:id/complete", async (req, res) => {
+    try {
+      const activityId = parseInt(req.params.id);
+      if (isNaN(activityId)) {
+        return res.status(400).json({ error: "Invalid activity ID" });
+      }
+      
+      const { outcome } = req.body;
+      const activity = await storage.completePipelineActivity(activityId, outcome);
+      
+      if (!activity) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      
+      res.json(activity);
+    } catch (error) {
+      console.error("Error completing pipeline activity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ MARA AI INTEGRATION ============
+  
+  const { MaraAIService } = await import('./mara-ai-service.js');
+  const maraService = new MaraAIService(storage);
+  
+  // Chat com Mara AI sobre um contato específico
+  app.post('/api/contacts/:contactId/mara/chat', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const contactId = parseInt(req.params.contactId);
+      const { question } = req.body;
+      
+      console.log('🤖 Mara AI - Request received:', {
+        contactId,
+        userId: req.user?.id,
+        hasQuestion: !!question
+      });
+
+      if (!question || question.trim().length === 0) {
+        return res.status(400).json({ error: 'Pergunta é obrigatória' });
+      }
+
+      // Verificar se o contato existe e pertence ao usuário
+      const contact = await storage.getContact(contactId);
+      console.log('🔍 Mara AI - Contact found:', {
+        contactExists: !!contact,
+        contactClinicId: contact?.clinic_id
+      });
+      
+      if (!contact) {
+        return res.status(404).json({ error: 'Contato não encontrado' });
+      }
+
+      // Verificar permissão do usuário para acessar este contato
+      const hasAccess = await storage.userHasClinicAccess(req.user.id, contact.clinic_id);
+      
+      console.log('🔍 Mara AI - Access check:', {
+        userId: req.user.id,
+        clinicId: contact.clinic_id,
+        hasAccess
+      });
+      
+      if (!hasAccess) {
+        console.log('Acesso negado - usuário não tem permissão para esta clínica');
+        return res.status(403).json({ error: 'Acesso negado a este contato' });
+      }
+
+      // Analisar com Mara AI
+      const result = await maraService.analyzeContact(contactId, question, req.user.id);
+      
+      res.json({
+        response: result.response
+      });
+      
+    } catch (error) {
+      console.error('Erro no chat com Mara AI:', error);
+      res.status(500).json({ 
+        error: 'Erro interno do servidor',
+        details: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  // Gerar resumo do paciente com Mara AI
+  app.get('/api/contacts/:contactId/mara/summary', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const contactId = parseInt(req.params.contactId);
+
+      // Verificar se o contato existe e pertence ao usuário
+      const contact = await storage.getContact(contactId);
+      if (!contact) {
+        return res.status(404).json({ error: 'Contato não encontrado' });
+      }
+
+      // Verificar permissão do usuário para acessar este contato
+      const userClinics = await storage.getUserClinics(req.user.id);
+      const hasAccess = userClinics.some(clinicUser => clinicUser.clinic.id === contact.clinic_id);
+      
+      if (!hasAccess) {
+        return res.status(403).json({ error: 'Acesso negado a este contato' });
+      }
+
+      // Gerar resumo com Mara AI
+      const summary = await maraService.generatePatientSummary(contactId);
+      
+      res.json({ summary });
+      
+    } catch (error) {
+      console.error('Erro ao gerar resumo com Mara AI:', error);
+      res.status(500).json({ 
+        error: 'Erro interno do servidor',
+        details: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+
+
+  // ============ USER PROFILE AND PASSWORD RESET ============
+  
+  // Update user profile
+  app.put('/api/user/profile', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { name, email, currentPassword, newPassword } = req.body;
+      const userId = req.user.id;
+
+      // Validar dados básicos
+      if (!name || !email) {
+        return res.status(400).json({ error: 'Nome e email são obrigatórios' });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'Usuário não encontrado' });
+      }
+
+      // Se está alterando senha, validar senha atual
+      if (newPassword && newPassword.trim()) {
+        if (!currentPassword || !currentPassword.trim()) {
+          return res.status(400).json({ error: 'Senha atual é obrigatória para alterar a senha' });
+        }
+
+        const bcrypt = require('bcryptjs');
+        const isValidPassword = await bcrypt.compare(currentPassword, user.password);
+        if (!isValidPassword) {
+          return res.status(400).json({ error: 'Senha atual incorreta' });
+        }
+
+        // Hash da nova senha
+        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        await storage.updateUser(userId, {
+          name,
+          email,
+          password: hashedPassword,
+          updated_at: new Date(),
+        });
+      } else {
+        // Apenas atualizar nome e email (sem alterar senha)
+        await storage.updateUser(userId, {
+          name,
+          email,
+          updated_at: new Date(),
+        });
+      }
+
+      const updatedUser = await storage.getUser(userId);
+      res.json({
+        message: 'Perfil atualizado com sucesso',
+        user: {
+          id: updatedUser.id,
+          name: updatedUser.name,
+          email: updatedUser.email,
+          role: updatedUser.role,
+        }
+      });
+
+    } catch (error) {
+      console.error('Erro ao atualizar perfil:', error);
+      res.status(500).json({ 
+        error: 'Erro interno do servidor',
+        details: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  // Request password reset
+  app.post('/api/auth/request-password-reset', async (req: Request, res: Response) => {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({ error: 'Email é obrigatório' });
+      }
+
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        // Não revelar se o email existe ou não por segurança
+        return res.json({ message: 'Se o email estiver registrado, você receberá as instruções' });
+      }
+
+      // Gerar token único
+      const crypto = require('crypto');
+      const token = crypto.randomBytes(32).toString('hex');
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hora
+
+      // Salvar token no banco
+      await storage.createPasswordResetToken({
+        user_id: user.id,
+        token,
+        expires_at: expiresAt,
+        used: false,
+      });
+
+      // Em um ambiente real, aqui enviaria o email
+      // Por enquanto, vamos apenas retornar o token no console para teste
+      console.log(`\n🔑 TOKEN DE RECUPERAÇÃO DE SENHA:`);
+      console.log(`Email: ${email}`);
+      console.log(`Token: ${token}`);
+      console.log(`Expira em: ${expiresAt.toLocaleString('pt-BR')}`);
+      console.log(`Link de recuperação: http://localhost:5000/recuperar-senha?token=${token}\n`);
+
+      res.json({ 
+        message: 'Se o email estiver registrado, você receberá as instruções',
+        // REMOVER EM PRODUÇÃO - apenas para desenvolvimento
+        token: process.env.NODE_ENV === 'development' ? token : undefined
+      });
+
+    } catch (error) {
+      console.error('Erro ao solicitar reset de senha:', error);
+      res.status(500).json({ 
+        error: 'Erro interno do servidor',
+        details: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  // Reset password with token
+  app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
+    try {
+      const { token, password } = req.body;
+
+      if (!token || !password) {
+        return res.status(400).json({ error: 'Token e nova senha são obrigatórios' });
+      }
+
+      if (password.length < 6) {
+        return res.status(400).json({ error: 'Nova senha deve ter pelo menos 6 caracteres' });
+      }
+
+      // Buscar token válido
+      const resetToken = await storage.getPasswordResetToken(token);
+      if (!resetToken) {
+        return res.status(400).json({ error: 'Token inválido ou expirado' });
+      }
+
+      if (resetToken.used) {
+        return res.status(400).json({ error: 'Token já foi utilizado' });
+      }
+
+      if (new Date() > new Date(resetToken.expires_at)) {
+        return res.status(400).json({ error: 'Token expirado' });
+      }
+
+      // Hash da nova senha
+      const bcrypt = require('bcryptjs');
+      const hashedPassword = await bcrypt.hash(password, 10);
+
+      // Atualizar senha do usuário
+      await storage.updateUser(resetToken.user_id, {
+        password: hashedPassword,
+        updated_at: new Date(),
+      });
+
+      // Marcar token como usado
+      await storage.markPasswordResetTokenAsUsed(resetToken.id);
+
+      res.json({ message: 'Senha alterada com sucesso' });
+
+    } catch (error) {
+      console.error('Erro ao resetar senha:', error);
+      res.status(500).json({ 
+        error: 'Erro interno do servidor',
+        details: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  // ============ GOOGLE CALENDAR INTEGRATION ============
+  
+  // Custom auth middleware for calendar routes that works with Supabase
+  const calendarAuth = async (req: any, res: any, next: any) => {
+    try {
+      let accessToken = null;
+      
+      // Try Authorization header first (Bearer token)
+      const authHeader = req.headers.authorization;
+      if (authHeader && authHeader.startsWith('Bearer ')) {
+        accessToken = authHeader.split(' ')[1];
+        console.log('🔑 Calendar auth: Using Bearer token from header');
+      } else {
+        // Fallback to cookies (Supabase session)
+        const cookies = req.headers.cookie;
+        if (cookies) {
+          const accessTokenMatch = cookies.match(/sb-[^=]+-auth-token=([^;]+)/);
+          if (accessTokenMatch) {
+            try {
+              const tokenData = JSON.parse(decodeURIComponent(accessTokenMatch[1]));
+              accessToken = tokenData.access_token;
+              console.log('🔑 Calendar auth: Using token from cookies');
+            } catch (parseError) {
+              console.log('⚠️ Calendar auth: Failed to parse cookie token');
+            }
+          }
+        }
+      }
+      
+      if (!accessToken) {
+        console.log('❌ Calendar auth: No access token found');
+        return res.status(401).json({ error: "Acesso negado" });
+      }
+      
+      // Verify token with Supabase
+      const { supabaseAdmin } = await import('./supabase-client');
+      const { data: { user }, error } = await supabaseAdmin.auth.getUser(accessToken);
+      
+      if (error || !user) {
+        console.log('❌ Calendar auth: Token validation failed:', error?.message);
+        return res.status(401).json({ error: "Acesso negado" });
+      }
+
+      console.log('✅ Calendar auth: User authenticated:', user.email);
+      
+      // Get user profile
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('*')
+        .eq('id', user.id)
+        .single();
+      
+      // Set user in request
+      req.user = {
+        id: user.id,
+        email: user.email,
+        name: profile?.name || user.user_metadata?.name || '',
+        role: profile?.role || 'user',
+        clinic_id: profile?.clinic_id
+      };
+      
+      console.log('👤 Calendar auth: User data set for', req.user.email);
+      next();
+    } catch (error) {
+      console.error('❌ Calendar auth error:', error);
+      res.status(401).json({ error: "Acesso negado" });
+    }
+  };
+  
+  // Initialize Google Calendar OAuth
+  app.get('/api/calendar/auth/google', calendarAuth, initGoogleCalendarAuth);
+  
+  // Google Calendar OAuth callback
+  app.get('/api/calendar/callback/google', handleGoogleCalendarCallback);
+  
+  // Get user's calendar integrations
+  app.get('/api/calendar/integrations', calendarAuth, getUserCalendarIntegrations);
+  
+  // Update calendar sync preferences
+  app.put('/api/calendar/integrations/:integrationId/sync', calendarAuth, updateCalendarSyncPreferences);
+  
+  // Delete calendar integration
+  app.delete('/api/calendar/integrations/:integrationId', calendarAuth, deleteCalendarIntegration);
+  
+  // Calendar providers the clinic can connect, for the integrations screen
+  app.get('/api/calendar/providers', calendarAuth, (_req, res) => {
+    res.json(getCalendarProviders().map(provider => ({
+      name: provider.name,
+      label: provider.label,
+      auth: provider.auth,
+      configured: provider.isConfigured(),
+      push: !!getCalendarWebhookAddress(provider)
+    })));
+  });
+
+  // The user's connected calendars with their status ("reconnect" when the provider refused the credentials)
+  app.get('/api/calendar/connections', calendarAuth, async (req: any, res) => {
+    try {
+      const integrations = await storage.getCalendarIntegrations(req.user.id);
+      res.json(integrations.map(toCalendarConnection));
+    } catch (error) {
+      console.error("Error fetching calendar connections:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ CALENDAR SYNC CONFLICTS ============
+
+  // Review queue: calendar changes to the professional's appointments waiting for a decision
+  app.get('/api/calendar/conflicts', calendarAuth, async (req: any, res) => {
+    try {
+      const conflicts = await storage.getCalendarSyncConflicts(req.user.id);
+      const enriched = await Promise.all(conflicts.map(async (conflict) => {
+        const appointment = await storage.getAppointment(conflict.appointment_id);
+        const contact = appointment?.contact_id ? await storage.getContact(appointment.contact_id) : undefined;
+        const integration = await storage.getCalendarIntegration(conflict.integration_id);
+        return {
+          ...conflict,
+          appointment,
+          contact_name: contact?.name ?? null,
+          provider: integration?.provider ?? null,
+          calendar_email: integration?.email ?? null,
+        };
+      }));
+      res.json(enriched);
+    } catch (error) {
+      console.error("Error fetching calendar conflicts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // resolution "clinic" writes the appointment back to the calendar; "calendar" applies the calendar's change
+  app.post('/api/calendar/conflicts/:conflictId/resolve', calendarAuth, async (req: any, res) => {
+    try {
+      const conflictId = parseInt(req.params.conflictId);
+      if (isNaN(conflictId)) {
+        return res.status(400).json({ error: "Invalid conflict ID" });
+      }
+
+      const conflict = await storage.getCalendarSyncConflict(conflictId);
+      if (!conflict || conflict.user_id !== req.user.id) {
+        return res.status(404).json({ error: "Conflito não encontrado" });
+      }
+
+      const { resolution } = resolveCalendarConflictSchema.parse(req.body);
+      const resolved = await calendarSync.resolveConflict(conflict, resolution, req.user.id);
+      broadcastClinicEvent(conflict.clinic_id, { type: 'calendar_conflicts.changed', conflictIds: [conflict.id] });
+      res.json(resolved);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Conflict already resolved') {
+        return res.status(409).json({ error: "Este conflito já foi resolvido" });
+      }
+      if (error.message === 'Conflict cannot be resolved') {
+        return res.status(409).json({ error: "A consulta ou a agenda deste conflito não existe mais" });
+      }
+      if (error.message === 'Appointment cannot be changed' || error.message === 'Invalid status transition') {
+        return res.status(409).json({ error: "A consulta já foi realizada ou cancelada e não pode seguir a agenda" });
+      }
+      if (error instanceof CalendarProviderError && error.status === 401) {
+        return res.status(409).json({ error: "A conexão com a agenda expirou. Reconecte a agenda." });
+      }
+      console.error("Error resolving calendar conflict:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  const getCalendarRedirectUri = (req: any, provider: string) =>
+    `${process.env.APP_BASE_URL || `${req.protocol}://${req.get('host')}`}/api/calendar/callback/${provider}`;
+
+  // OAuth connection of other providers (Google keeps the routes above); answers with the URL to open
+  app.get('/api/calendar/auth/:provider', calendarAuth, async (req: any, res) => {
+    try {
+      const provider = getCalendarProviders().find(candidate => candidate.name === req.params.provider);
+      if (!provider?.getAuthorizationUrl || !provider.isConfigured()) {
+        return res.status(404).json({ error: "Provedor de agenda indisponível" });
+      }
+
+      const clinicId = req.query.clinic_id ? parseInt(req.query.clinic_id as string) : req.user.clinic_id;
+      if (!clinicId || isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+
+      const state = createCalendarOAuthState(req.user.id, clinicId, provider.name);
+      res.json({ authUrl: provider.getAuthorizationUrl(state, getCalendarRedirectUri(req, provider.name)) });
+    } catch (error) {
+      console.error("Error starting calendar authorization:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // OAuth callback: saves the account and sends the user back to the settings screen
+  app.get('/api/calendar/callback/:provider', async (req, res) => {
+    const providerName = req.params.provider;
+    try {
+      const provider = getCalendarProviders().find(candidate => candidate.name === providerName);
+      const state = verifyCalendarOAuthState(String(req.query.state || ''), providerName);
+      if (!provider?.exchangeCode || !state || !req.query.code) {
+        return res.redirect(`/configuracoes?calendar=error&provider=${encodeURIComponent(providerName)}`);
+      }
+
+      const account = await provider.exchangeCode(String(req.query.code), getCalendarRedirectUri(req, provider.name));
+      await calendarSync.connect({ userId: state.userId, clinicId: state.clinicId, provider, account });
+      res.redirect(`/configuracoes?calendar=connected&provider=${provider.name}`);
+    } catch (error) {
+      console.error(`Error finishing ${providerName} calendar authorization:`, error);
+      res.redirect(`/configuracoes?calendar=error&provider=${encodeURIComponent(providerName)}`);
+    }
+  });
+
+  // CalDAV accounts (iCloud, Nextcloud, ...) connect with the server URL and an app password
+  app.post('/api/calendar/integrations/caldav', calendarAuth, async (req: any, res) => {
+    try {
+      const data = caldavConnectSchema.parse(req.body);
+      const integration = await calendarSync.connect({
+        userId: req.user.id,
+        clinicId: data.clinic_id,
+        provider: getCalendarProvider('caldav'),
+        account: { accessToken: data.password, email: data.username },
+        serverUrl: data.server_url
+      });
+      res.status(201).json(toCalendarConnection(integration));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error instanceof CalendarProviderError && error.status === 401) {
+        return res.status(400).json({ error: "Usuário ou senha de app inválidos" });
+      }
+      if (error instanceof CalendarProviderError || error.message === 'No calendars found') {
+        return res.status(400).json({ error: "Nenhuma agenda encontrada nesse servidor CalDAV" });
+      }
+      console.error("Error connecting CalDAV calendar:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Calendars of Outlook/CalDAV accounts; Google integrations fall through to getUserCalendars
+  app.get('/api/calendar/integrations/:integrationId/calendars', calendarAuth, async (req: any, res, next) => {
+    try {
+      const integration = await storage.getCalendarIntegration(parseInt(req.params.integrationId));
+      if (!integration || integration.provider === 'google') return next();
+      if (integration.user_id !== req.user.id) {
+        return res.status(404).json({ error: "Integração não encontrada" });
+      }
+
+      const provider = getCalendarProvider(integration.provider);
+      const calendars = await provider.listCalendars(await calendarTokens.getConnection(integration));
+      res.json(calendars.map(calendar => ({ ...calendar, selected: calendar.id === integration.calendar_id })));
+    } catch (error: any) {
+      if (error instanceof CalendarProviderError && error.status === 401) {
+        return res.status(409).json({ error: "A conexão com a agenda expirou. Reconecte a agenda." });
+      }
+      console.error("Error listing provider calendars:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get user calendars from Google Calendar
+  app.get('/api/calendar/integrations/:integrationId/calendars', calendarAuth, getUserCalendars);
+
+  // Linked calendar of Outlook/CalDAV accounts; Google integrations fall through to updateLinkedCalendarSettings
+  app.put('/api/calendar/integrations/:integrationId/linked-calendar', calendarAuth, async (req: any, res, next) => {
+    try {
+      const integration = await storage.getCalendarIntegration(parseInt(req.params.integrationId));
+      if (!integration || integration.provider === 'google') return next();
+      if (integration.user_id !== req.user.id) {
+        return res.status(404).json({ error: "Integração não encontrada" });
+      }
+
+      const { calendar_id } = linkedCalendarSchema.parse(req.body);
+      const updated = await calendarSync.linkCalendar(integration, calendar_id);
+      res.json(updated ? toCalendarConnection(updated) : null);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Calendar not found') {
+        return res.status(404).json({ error: "Agenda não encontrada nesta conta" });
+      }
+      console.error("Error updating linked calendar:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+  
+  // Update linked calendar settings
+  app.put('/api/calendar/integrations/:integrationId/linked-calendar', calendarAuth, updateLinkedCalendarSettings);
+
+  // Start (or restart) push notifications for an integration's calendar
+  app.post('/api/calendar/integrations/:integrationId/watch', calendarAuth, async (req: any, res) => {
+    try {
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return res.status(400).json({ error: "Invalid integration ID" });
+      }
+
+      const integration = await storage.getCalendarIntegration(integrationId);
+      if (!integration || integration.user_id !== req.user.id) {
+        return res.status(404).json({ error: "Integração não encontrada" });
+      }
+
+      const updated = await calendarSync.startWatch(integration);
+      res.json({ watch_expires_at: updated?.watch_expires_at, last_sync_at: updated?.last_sync_at });
+    } catch (error: any) {
+      if (error.message === 'Calendar webhook URL not configured') {
+        return res.status(503).json({ error: "Sincronização automática indisponível: APP_BASE_URL não configurada" });
+      }
+      if (error.message === 'Integration cannot be watched') {
+        return res.status(400).json({ error: "Esta agenda não envia notificações de mudança; ela é sincronizada periodicamente" });
+      }
+      console.error("Error starting calendar watch:", error);
+      res.status(500).json({ error: "Erro ao ativar a sincronização automática" });
+    }
+  });
+
+  // Stop push notifications for an integration's calendar
+  app.delete('/api/calendar/integrations/:integrationId/watch', calendarAuth, async (req: any, res) => {
+    try {
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return res.status(400).json({ error: "Invalid integration ID" });
+      }
+
+      const integration = await storage.getCalendarIntegration(integrationId);
+      if (!integration || integration.user_id !== req.user.id) {
+        return res.status(404).json({ error: "Integração não encontrada" });
+      }
+
+      await calendarSync.stopWatch(integration);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error stopping calendar watch:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Copy the integration's calendar again from scratch (drops the sync token)
+  app.post('/api/calendar/integrations/:integrationId/resync', calendarAuth, async (req: any, res) => {
+    try {
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return res.status(400).json({ error: "Invalid integration ID" });
+      }
+
+      const integration = await storage.getCalendarIntegration(integrationId);
+      if (!integration || integration.user_id !== req.user.id) {
+        return res.status(404).json({ error: "Integração não encontrada" });
+      }
+
+      const updated = await calendarSync.resync(integration);
+      res.json({ last_sync_at: updated?.last_sync_at, sync_errors: updated?.sync_errors ?? null });
+    } catch (error: any) {
+      if (error.message === 'Integration cannot be synced') {
+        return res.status(400).json({ error: "Esta integração não tem uma agenda vinculada" });
+      }
+      if (error instanceof CalendarProviderError && error.status === 401) {
+        return res.status(409).json({ error: "A conexão com a agenda expirou. Reconecte a agenda." });
+      }
+      console.error("Error resyncing calendar integration:", error);
+      res.status(500).json({ error: "Erro ao sincronizar a agenda" });
+    }
+  });
+
+  // Google Calendar channel notifications. Answered right away; the sync runs afterwards
+  app.post('/api/webhooks/google-calendar', createGoogleCalendarWebhookHandler(calendarSync));
+
+  // Microsoft Graph subscription notifications. Graph first checks the URL with a validationToken
+  app.post('/api/webhooks/microsoft-calendar', async (req, res) => {
+    try {
+      if (req.query.validationToken) {
+        return res.type('text/plain').send(String(req.query.validationToken));
+      }
+
+      const notifications: any[] = Array.isArray(req.body?.value) ? req.body.value : [];
+      let accepted = 0;
+      for (const notification of notifications) {
+        const known = await calendarSync.handleNotification({
+          channelId: notification.subscriptionId,
+          resourceId: notification.subscriptionId,
+          resourceState: notification.changeType,
+          channelToken: notification.clientState
+        });
+        if (known) accepted++;
+      }
+      if (notifications.length > 0 && accepted === 0) {
+        return res.status(404).json({ error: "Unknown subscription" });
+      }
+      res.status(202).send();
+    } catch (error) {
+      console.error("Error handling Microsoft Graph notification:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Check availability for appointment scheduling
+  app.post('/api/availability/check', async (req, res) => {
+    try {
+      const { startDateTime, endDateTime, excludeAppointmentId, excludeSeriesId, recurrence, clinicId, professionalId, resourceIds, appointmentType } =
+        availabilityCheckSchema.parse(req.body);
+
+      // With a recurrence rule every generated occurrence is checked, not only the first one
+      const durationMs = endDateTime.getTime() - startDateTime.getTime();
+      const occurrenceStarts = recurrence
+        ? generateOccurrenceDates(startDateTime, recurrence, await getClinicTimezone(clinicId))
+        : [startDateTime];
+
+      const results = await availabilityService.checkIntervals(
+        occurrenceStarts.map(start => ({ start, end: new Date(start.getTime() + durationMs) })),
+        {
+          excludeAppointmentIds: excludeAppointmentId ? [excludeAppointmentId] : [],
+          excludeSeriesId,
+          clinicId,
+          professionalId: professionalId ?? undefined,
+          resourceIds,
+          appointmentType
+        }
+      );
+
+      const firstConflict = results.find(result => !result.available);
+      const response: Record<string, any> = firstConflict
+        ? {
+            available: false,
+            conflict: true,
+            conflictType: firstConflict.conflictType,
+            conflictDetails: firstConflict.conflictDetails
+          }
+        : {
+            available: true,
+            conflict: false
+          };
+
+      if (recurrence) {
+        response.occurrences = results.map(serializeIntervalAvailability);
+        response.conflictCount = results.filter(result => !result.available).length;
+      }
+
+      res.json(response);
+
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Resource not found') {
+        return res.status(400).json({ error: "Resource not found" });
+      }
+      console.error('Error checking availability:', error);
+      res.status(500).json({ error: 'Failed to check availability' });
+    }
+  });
+
+  /**
+   * Free slots of a day in the clinic calendar, for the agenda and the public booking
+   * portal. Returns the working blocks and busy blocks the slots were computed from.
+   */
+  const findAvailableSlots = async ({ date, clinicId, professionalId, resourceIds = [], appointmentType, ...options }: {
+    date: string;
+    clinicId: number;
+    professionalId?: number | null;
+    resourceIds?: number[];
+    appointmentType?: string | null;
+    duration?: number | null;
+    excludeAppointmentIds?: number[]; // appointments being moved don't block their own new slot
+  }) => {
+    // The catalog type sets the default duration and the buffers around each slot
+    const appointmentTypes = await storage.getAppointmentTypes(clinicId);
+    const catalogType = appointmentTypes.find(type => type.key === appointmentType);
+    const duration: number = options.duration ?? catalogType?.default_duration_minutes ?? 60;
+    const requestedBuffers = getTypeBuffers(appointmentTypes, appointmentType);
+
+    // Working blocks come from the professional's schedule (or the clinic hours).
+    // The day and its hours are read in the clinic timezone, whatever the server's is.
+    const timeZone = await getClinicTimezone(clinicId);
+    const dateKey = /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : getZonedDateKey(new Date(date), timeZone);
+    const schedule = await workingHoursService.getSchedule(clinicId, professionalId ?? null, dateKey);
+    const workingBlocks = schedule.blocks;
+    const workingHours = workingBlocks.length > 0
+      ? { start: workingBlocks[0].start, end: workingBlocks[workingBlocks.length - 1].end }
+      : null;
+
+    const toDateTime = (time: string) => zonedTimeToUtc(dateKey, time, timeZone);
+
+    if (workingBlocks.length === 0) {
+      return { date: dateKey, timeZone, duration, workingHours, workingBlocks, scheduleSource: schedule.source, availableSlots: [], busyBlocks: [] };
+    }
+
+    // Set up start and end of day
+    const dayStart = toDateTime(workingBlocks[0].start);
+    const dayEnd = toDateTime(workingBlocks[workingBlocks.length - 1].end);
+
+    // Get the appointments for the day, scoped to the professional's agenda when given
+    const appointments = await storage.getAppointmentsByDateRange(dayStart, dayEnd, {
+      clinicId,
+      userId: professionalId ?? undefined
+    });
+    
+    // Calendar events of the day, from the local cache
+    let calendarEvents: Awaited<ReturnType<typeof getCachedCalendarEvents>> = [];
+    try {
+      const integrations = professionalId
+        ? await storage.getCalendarIntegrations(professionalId)
+        : await storage.getAllCalendarIntegrations();
+      calendarEvents = await getCachedCalendarEvents(
+        integrations.filter(integration => integration.clinic_id === clinicId),
+        { start: dayStart, end: dayEnd }
+      );
+    } catch (error) {
+      console.error('Error reading cached calendar events:', error);
+    }
+
+    // Convert appointments to time blocks
+    const busyBlocks: { start: Date; end: Date; type: string; title: string }[] = [];
+    
+    // Add appointment blocks, including their preparation and cleanup buffers
+    appointments.forEach(apt => {
+      if (options.excludeAppointmentIds?.includes(apt.id)) return;
+      if (apt.scheduled_date && occupiesAgendaSlot(apt.status)) {
+        const { start, end } = getOccupiedInterval(
+          new Date(apt.scheduled_date),
+          apt.duration_minutes || 60,
+          getTypeBuffers(appointmentTypes, apt.appointment_type)
+        );
+        busyBlocks.push({
+          start,
+          end,
+          type: 'appointment',
+          title: `${apt.doctor_name} - Consulta`
+        });
+      }
+    });
+
+    // Slots held for the waitlist are not free either
+    const holds = await storage.getWaitlistOffers({
+      clinicId: clinicId ?? undefined,
+      userId: professionalId ?? undefined,
+      status: 'pending',
+      slotRange: { start: dayStart, end: dayEnd }
+    });
+    holds.filter(offer => isOfferActive(offer)).forEach(offer => {
+      const start = new Date(offer.slot_start);
+      busyBlocks.push({
+        start,
+        end: new Date(start.getTime() + offer.duration_minutes * 60000),
+        type: 'waitlist_hold',
+        title: 'Reservado - lista de espera'
+      });
+    });
+
+    // Add calendar event blocks
+    calendarEvents.forEach(event => {
+      if (!event.all_day) {
+        busyBlocks.push({
+          start: event.starts_at,
+          end: event.ends_at,
+          type: 'calendar_event',
+          title: event.summary || 'Evento'
+        });
+      }
+    });
+
+    // Sort busy blocks by start time
+    busyBlocks.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    // Find available slots inside each working block. The new appointment's own buffers
+    // must not overlap a busy block either, so the blocks are widened by them
+    const slotDuration = duration * 60000; // Convert to milliseconds
+    const blockingIntervals = busyBlocks.map(block => ({
+      start: new Date(block.start.getTime() - requestedBuffers.after * 60000),
+      end: new Date(block.end.getTime() + requestedBuffers.before * 60000)
+    }));
+    const freeSlots = workingBlocks.flatMap(block =>
+      findFreeSlots(toDateTime(block.start), toDateTime(block.end), blockingIntervals, slotDuration)
+    );
+
+    // Drop the slots where a required room/equipment is already taken or closed
+    const resourceAvailability = await availabilityService.checkResources(
+      freeSlots,
+      resourceIds,
+      { clinicId, excludeAppointmentIds: options.excludeAppointmentIds }
+    );
+    const availableSlots = resourceAvailability.filter(slot => slot.available).map(slot => ({
+      startTime: slot.start.toISOString(),
+      endTime: slot.end.toISOString(),
+      duration
+    }));
+
+    return {
+      date: dateKey,
+      timeZone,
+      duration,
+      workingHours,
+      workingBlocks,
+      scheduleSource: schedule?.source,
+      availableSlots,
+      busyBlocks
+    };
+  };
+
+  // Find available time slots
+  app.post('/api/availability/find-slots', async (req, res) => {
+    try {
+      const { busyBlocks, ...result } = await findAvailableSlots(findSlotsSchema.parse(req.body));
+
+      res.json({
+        ...result,
+        busyBlocks: busyBlocks.map(block => ({
+          startTime: block.start.toISOString(),
+          endTime: block.end.toISOString(),
+          type: block.type,
+          title: block.title
+        }))
+      });
+
+    } catch (error: any) {
+      if (error.message === 'Clinic not found') {
+        return res.status(404).json({ error: "Clinic not found" });
+      }
+      if (error.message === 'Resource not found') {
+        return res.status(400).json({ error: "Resource not found" });
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error('Error finding available slots:', error);
+      res.status(500).json({ error: 'Failed to find available slots' });
+    }
+  });
+  
+  // Check time slot availability
+  app.post("/api/calendar/check-availability", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { startDateTime, endDateTime, excludeAppointmentId } = req.body;
+      
+      if (!startDateTime || !endDateTime) {
+        return res.status(400).json({ error: "Data e hora de início e fim são obrigatórias" });
+      }
+
+      const startDate = new Date(startDateTime);
+      const endDate = new Date(endDateTime);
+
+      // Only the agenda of the professional being booked (the logged user by default) counts
+      const professionalId = req.body.professionalId ? Number(req.body.professionalId) : userId;
+      let clinicId = req.body.clinicId ? Number(req.body.clinicId) : undefined;
+      if (!clinicId && userId) {
+        const userClinics = await storage.getUserClinics(userId);
+        clinicId = userClinics[0]?.clinic_id;
+      }
+
+      // Get the professional's appointments around the time range (earlier ones may still overlap it)
+      const appointments = await storage.getAppointmentsByDateRange(
+        new Date(startDate.getTime() - 24 * 60 * 60 * 1000),
+        endDate,
+        { clinicId, userId: professionalId }
+      );
+
+      // Filter out the appointment being edited (if any)
+      const conflictingAppointments = appointments.filter(apt => 
+        apt.id !== excludeAppointmentId && 
+        apt.scheduled_date
+      );
+
+      // Check for conflicts with existing appointments
+      const hasConflict = conflictingAppointments.some(apt => {
+        const aptStart = new Date(apt.scheduled_date!);
+        const aptDuration = apt.duration_minutes || 60;
+        const aptEnd = new Date(aptStart.getTime() + aptDuration * 60000);
+
+        // Check if there's any overlap
+        return (startDate < aptEnd && endDate > aptStart);
+      });
+
+      if (hasConflict) {
+        const conflictingApt = conflictingAppointments.find(apt => {
+          const aptStart = new Date(apt.scheduled_date!);
+          const aptDuration = apt.duration_minutes || 60;
+          const aptEnd = new Date(aptStart.getTime() + aptDuration * 60000);
+          return (startDate < aptEnd && endDate > aptStart);
+        });
+
+        return res.json({
+          available: false,
+          conflict: true,
+          conflictType: 'appointment',
+          conflictDetails: {
+            id: conflictingApt?.id,
+            title: `${conflictingApt?.appointment_type} - ${conflictingApt?.doctor_name}`,
+            startTime: conflictingApt?.scheduled_date,
+            endTime: new Date(new Date(conflictingApt?.scheduled_date!).getTime() + (conflictingApt?.duration_minutes || 60) * 60000),
+            professionalId: conflictingApt?.user_id,
+            professionalName: conflictingApt?.doctor_name
+          }
+        });
+      }
+
+      // Check conflicts with the professional's cached calendar events
+      try {
+        const integrations = await storage.getCalendarIntegrations(professionalId);
+        const events = await getCachedCalendarEvents(integrations, { start: startDate, end: endDate });
+
+        const calendarConflict = events.find(event =>
+          !event.all_day && // Skip all-day events
+          // Skip events that are already in our system
+          !conflictingAppointments.some(apt => apt.google_calendar_event_id === event.external_id) &&
+          startDate < event.ends_at && endDate > event.starts_at
+        );
+
+        if (calendarConflict) {
+          return res.json({
+            available: false,
+            conflict: true,
+            conflictType: 'google_calendar',
+            conflictDetails: {
+              id: calendarConflict.external_id,
+              title: calendarConflict.summary || 'Evento do Google Calendar',
+              startTime: calendarConflict.starts_at,
+              endTime: calendarConflict.ends_at,
+              location: calendarConflict.location
+            }
+          });
         }
+      } catch (calendarError) {
+        console.error('Error checking calendar availability:', calendarError);
+        // Continue without the calendar check if there's an error
+      }
+
+      res.json({
+        available: true,
+        conflict: false
+      });
+
+    } catch (error: any) {
+      console.error("Error checking availability:", error);
+      res.status(500).json({ error: "Erro ao verificar disponibilidade" });
+    }
+  });
+
+  // ============ ONLINE BOOKING (public, no login) ============
+
+  const onlineBookingService = new OnlineBookingService(storage);
+  const publicLookupLimit = rateLimit({ windowMs: 60 * 1000, max: 60, message: "Muitas consultas de horário. Tente novamente em instantes." });
+  const publicBookingLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 5, message: "Muitas tentativas de agendamento. Tente novamente mais tarde." });
+
+  // Services and professionals a clinic offers online; undefined when the portal is off
+  const getOnlineBookingCatalog = async (clinicId: number) => {
+    const clinic = await storage.getClinic(clinicId);
+    if (!clinic) return undefined;
+
+    const policy = await onlineBookingService.getPolicy(clinicId);
+    if (!policy.enabled) return undefined;
+
+    const types = (await storage.getAppointmentTypes(clinicId)).filter(type => type.is_active);
+    const services = types.length > 0 ? types : [{ ...DEFAULT_ONLINE_SERVICE, professional_ids: null }];
+    const professionals = (await storage.getClinicUsers(clinicId))
+      .filter(clinicUser => clinicUser.is_active && clinicUser.is_professional)
+      .map(clinicUser => ({ id: clinicUser.user.id, name: clinicUser.user.name }));
+
+    return { clinic, policy, services, professionals };
+  };
+
+  // Free slots of a professional (or of every professional that performs the service) on a day
+  const findOnlineBookingSlots = async (
+    catalog: NonNullable<Awaited<ReturnType<typeof getOnlineBookingCatalog>>>,
+    date: string,
+    serviceKey: string,
+    professionalId?: number
+  ) => {
+    const service = catalog.services.find(candidate => candidate.key === serviceKey);
+    if (!service) return [];
+
+    const professionals = catalog.professionals.filter(professional =>
+      (!professionalId || professional.id === professionalId) && performsType(service, professional.id)
+    );
+
+    const slots = [];
+    for (const professional of professionals) {
+      const { availableSlots } = await findAvailableSlots({
+        date,
+        clinicId: catalog.clinic.id,
+        professionalId: professional.id,
+        appointmentType: serviceKey,
+        duration: service.default_duration_minutes
+      });
+      slots.push(...availableSlots
+        .filter(slot => isWithinBookingWindow(new Date(slot.startTime), catalog.policy))
+        .map(slot => ({ ...slot, professionalId: professional.id, professionalName: professional.name })));
+    }
+    return slots.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  };
+
+  // Get what the booking portal of a clinic offers
+  app.get("/api/public/booking/:clinicId", publicLookupLimit, async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
 
-        // Hash da nova senha
-        const hashedPassword = await bcrypt.hash(newPassword, 10);
-        await storage.updateUser(userId, {
-          name,
-          email,
-          password: hashedPassword,
-          updated_at: new Date(),
-        });
-      } else {
-        // Apenas atualizar nome e email (sem alterar senha)
-        await storage.updateUser(userId, {
-          name,
-          email,
-          updated_at: new Date(),
-        });
+      const catalog = await getOnlineBookingCatalog(clinicId);
+      if (!catalog) {
+        return res.status(404).json({ error: "Agendamento online indisponível" });
       }
 
-      const updatedUser = await storage.getUser(userId);
+      const { clinic, policy, services, professionals } = catalog;
       res.json({
-        message: 'Perfil atualizado com sucesso',
-        user: {
-          id: updatedUser.id,
-          name: updatedUser.name,
-          email: updatedUser.email,
-          role: updatedUser.role,
-        }
+        clinic: {
+          id: clinic.id,
+          name: clinic.name,
+          phone: clinic.phone || clinic.celular,
+          address_city: clinic.address_city,
+          address_state: clinic.address_state
+        },
+        timeZone: clinic.timezone || DEFAULT_CLINIC_TIMEZONE,
+        windowDays: policy.windowDays,
+        minNoticeHours: policy.minNoticeHours,
+        services: services.map(service => ({
+          key: service.key,
+          name: service.name,
+          duration_minutes: service.default_duration_minutes,
+          price_cents: service.default_price_cents,
+          professional_ids: professionals.filter(professional => performsType(service, professional.id)).map(professional => professional.id)
+        })),
+        professionals
       });
-
     } catch (error) {
-      console.error('Erro ao atualizar perfil:', error);
-      res.status(500).json({ 
-        error: 'Erro interno do servidor',
-        details: error instanceof Error ? error.message : 'Erro desconhecido'
-      });
+      console.error("Error fetching online booking catalog:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Request password reset
-  app.post('/api/auth/request-password-reset', async (req: Request, res: Response) => {
+  // Get the bookable slots of a day (only start times; the agenda itself stays private)
+  app.post("/api/public/booking/:clinicId/slots", publicLookupLimit, async (req, res) => {
     try {
-      const { email } = req.body;
-
-      if (!email) {
-        return res.status(400).json({ error: 'Email é obrigatório' });
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
 
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        // Não revelar se o email existe ou não por segurança
-        return res.json({ message: 'Se o email estiver registrado, você receberá as instruções' });
+      const { date, appointmentType, professionalId } = req.body;
+      if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || typeof appointmentType !== 'string') {
+        return res.status(400).json({ error: "date (YYYY-MM-DD) and appointmentType are required" });
       }
 
-      // Gerar token único
-      const crypto = require('crypto');
-      const token = crypto.randomBytes(32).toString('hex');
-      const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hora
-
-      // Salvar token no banco
-      await storage.createPasswordResetToken({
-        user_id: user.id,
-        token,
-        expires_at: expiresAt,
-        used: false,
-      });
-
-      // Em um ambiente real, aqui enviaria o email
-      // Por enquanto, vamos apenas retornar o token no console para teste
-      console.log(`\n🔑 TOKEN DE RECUPERAÇÃO DE SENHA:`);
-      console.log(`Email: ${email}`);
-      console.log(`Token: ${token}`);
-      console.log(`Expira em: ${expiresAt.toLocaleString('pt-BR')}`);
-      console.log(`Link de recuperação: http://localhost:5000/recuperar-senha?token=${token}\n`);
+      const catalog = await getOnlineBookingCatalog(clinicId);
+      if (!catalog) {
+        return res.status(404).json({ error: "Agendamento online indisponível" });
+      }
 
-      res.json({ 
-        message: 'Se o email estiver registrado, você receberá as instruções',
-        // REMOVER EM PRODUÇÃO - apenas para desenvolvimento
-        token: process.env.NODE_ENV === 'development' ? token : undefined
+      const slots = await findOnlineBookingSlots(catalog, date, appointmentType, professionalId ? Number(professionalId) : undefined);
+      res.json({
+        date,
+        slots: slots.map(slot => ({
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          professionalId: slot.professionalId,
+          professionalName: slot.professionalName
+        }))
       });
-
     } catch (error) {
-      console.error('Erro ao solicitar reset de senha:', error);
-      res.status(500).json({ 
-        error: 'Erro interno do servidor',
-        details: error instanceof Error ? error.message : 'Erro desconhecido'
-      });
+      console.error("Error finding online booking slots:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Reset password with token
-  app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
+  // Book an appointment from the portal. The patient is matched to a contact by phone
+  app.post("/api/public/booking/:clinicId/appointments", publicBookingLimit, async (req, res) => {
     try {
-      const { token, password } = req.body;
-
-      if (!token || !password) {
-        return res.status(400).json({ error: 'Token e nova senha são obrigatórios' });
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
 
-      if (password.length < 6) {
-        return res.status(400).json({ error: 'Nova senha deve ter pelo menos 6 caracteres' });
+      const booking = onlineBookingRequestSchema.parse(req.body);
+      if (booking.website) {
+        return res.status(400).json({ error: "Invalid data" });
       }
 
-      // Buscar token válido
-      const resetToken = await storage.getPasswordResetToken(token);
-      if (!resetToken) {
-        return res.status(400).json({ error: 'Token inválido ou expirado' });
+      const catalog = await getOnlineBookingCatalog(clinicId);
+      if (!catalog) {
+        return res.status(404).json({ error: "Agendamento online indisponível" });
       }
 
-      if (resetToken.used) {
-        return res.status(400).json({ error: 'Token já foi utilizado' });
+      const service = catalog.services.find(candidate => candidate.key === booking.appointmentType);
+      const professional = catalog.professionals.find(candidate => candidate.id === booking.professionalId);
+      if (!service || !professional || !performsType(service, professional.id)) {
+        return res.status(400).json({ error: "Serviço ou profissional indisponível" });
       }
 
-      if (new Date() > new Date(resetToken.expires_at)) {
-        return res.status(400).json({ error: 'Token expirado' });
+      // Only a slot the portal itself would offer can be booked
+      const start = new Date(booking.startTime);
+      const timeZone = catalog.clinic.timezone || DEFAULT_CLINIC_TIMEZONE;
+      const slots = await findOnlineBookingSlots(catalog, getZonedDateKey(start, timeZone), service.key, professional.id);
+      if (!slots.some(slot => new Date(slot.startTime).getTime() === start.getTime())) {
+        return res.status(409).json({ error: "Este horário não está mais disponível. Escolha outro horário." });
       }
 
-      // Hash da nova senha
-      const bcrypt = require('bcryptjs');
-      const hashedPassword = await bcrypt.hash(password, 10);
+      const contact = await onlineBookingService.findOrCreateContact(clinicId, booking);
+      const reliability = await onlineBookingService.assertCanBook(clinicId, contact, catalog.policy);
 
-      // Atualizar senha do usuário
-      await storage.updateUser(resetToken.user_id, {
-        password: hashedPassword,
-        updated_at: new Date(),
+      const appointmentData = await appointmentTypeService.applyCatalogDefaults(insertAppointmentSchema.parse({
+        contact_id: contact.id,
+        clinic_id: clinicId,
+        user_id: professional.id,
+        doctor_name: professional.name,
+        specialty: service.name,
+        appointment_type: service.key,
+        scheduled_date: start,
+        duration_minutes: service.default_duration_minutes,
+        status: 'agendada',
+        payment_status: 'pendente',
+        booking_source: 'online'
+      }), {});
+      const appointment = await storage.createAppointment(appointmentData);
+      await syncAppointmentChange(appointment);
+
+      notifyAppointmentsChanged(clinicId, [appointment.id]);
+      res.status(201).json({
+        appointment_id: appointment.id,
+        scheduled_date: appointment.scheduled_date,
+        duration_minutes: appointment.duration_minutes,
+        service_name: service.name,
+        professional_name: professional.name,
+        clinic_name: catalog.clinic.name,
+        clinic_phone: catalog.clinic.phone || catalog.clinic.celular,
+        timeZone,
+        requires_confirmation: reliability.requires_confirmation,
+        manage_path: getAppointmentLinkPath(appointment)
       });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Self booking blocked') {
+        return res.status(403).json({ error: "Não foi possível agendar online. Entre em contato com a clínica para marcar seu horário." });
+      }
+      if (error.message === 'Too many pending online bookings') {
+        return res.status(409).json({ error: "Você já tem agendamentos online pendentes. Entre em contato com a clínica para marcar outro horário." });
+      }
+      console.error("Error creating online booking:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Marcar token como usado
-      await storage.markPasswordResetTokenAsUsed(resetToken.id);
+  // ============ SELF-SERVICE APPOINTMENT LINKS (public, signed token) ============
 
-      res.json({ message: 'Senha alterada com sucesso' });
+  const appointmentLinkService = new AppointmentLinkService(storage);
+  const selfServiceChangeLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 10, message: "Muitas alterações seguidas. Tente novamente mais tarde." });
+
+  // Appointment behind a management link; undefined when the token is invalid or expired
+  const loadLinkedAppointment = async (token: string) => {
+    const appointmentId = verifyAppointmentLinkToken(token);
+    if (appointmentId === null) return undefined;
+
+    const appointment = await storage.getAppointment(appointmentId);
+    if (!appointment) return undefined;
+    const clinic = await storage.getClinic(appointment.clinic_id);
+    if (!clinic) return undefined;
+
+    const cutoffHours = await appointmentLinkService.getCutoffHours(clinic.id);
+    return { appointment, clinic, cutoffHours };
+  };
+
+  // What the patient sees on the management page (no clinical or payment data)
+  const serializeLinkedAppointment = async ({ appointment, clinic, cutoffHours }: NonNullable<Awaited<ReturnType<typeof loadLinkedAppointment>>>) => {
+    const catalogType = appointment.appointment_type
+      ? (await storage.getAppointmentTypes(clinic.id)).find(type => type.key === appointment.appointment_type)
+      : undefined;
+    const policy = await onlineBookingService.getPolicy(clinic.id);
+
+    return {
+      appointment_id: appointment.id,
+      scheduled_date: appointment.scheduled_date,
+      duration_minutes: appointment.duration_minutes,
+      status: appointment.status,
+      service_name: catalogType?.name || appointment.specialty || DEFAULT_ONLINE_SERVICE.name,
+      professional_name: appointment.doctor_name,
+      clinic_name: clinic.name,
+      clinic_phone: clinic.phone || clinic.celular,
+      timeZone: clinic.timezone || DEFAULT_CLINIC_TIMEZONE,
+      cutoff_hours: cutoffHours,
+      window_days: policy.windowDays, // how far ahead the new slot can be
+      change_deadline: appointmentLinkService.getChangeDeadline(appointment, cutoffHours),
+      can_change: appointmentLinkService.canChange(appointment, cutoffHours)
+    };
+  };
+
+  // Slots the appointment can move to on a day: same professional, type, duration and resources
+  const findRescheduleSlots = async (appointment: Appointment, date: string) => {
+    const policy = await onlineBookingService.getPolicy(appointment.clinic_id);
+    const resourceIds = (await storage.getAppointmentResources(appointment.id)).map(resource => resource.id);
+    const { availableSlots } = await findAvailableSlots({
+      date,
+      clinicId: appointment.clinic_id,
+      professionalId: appointment.user_id,
+      resourceIds,
+      appointmentType: appointment.appointment_type,
+      duration: appointment.duration_minutes,
+      excludeAppointmentIds: [appointment.id]
+    });
+    return availableSlots.filter(slot => isWithinBookingWindow(new Date(slot.startTime), policy));
+  };
 
+  const sendSelfServiceError = (res: Response, error: any, cutoffHours?: number) => {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: "Invalid data", details: error.errors });
+    }
+    if (error.message === 'Appointment cannot be changed' || error.message === 'Invalid status transition') {
+      return res.status(409).json({ error: "Esta consulta não pode mais ser alterada pelo link. Entre em contato com a clínica." });
+    }
+    if (error.message === 'Change cutoff passed') {
+      return res.status(409).json({ error: `Alterações pelo link só são permitidas até ${cutoffHours}h antes da consulta. Entre em contato com a clínica.` });
+    }
+    return undefined;
+  };
+
+  // Get the appointment behind a management link
+  app.get("/api/public/appointments/:token", publicLookupLimit, async (req, res) => {
+    try {
+      const linked = await loadLinkedAppointment(req.params.token);
+      if (!linked) {
+        return res.status(404).json({ error: "Link inválido ou expirado" });
+      }
+
+      res.json(await serializeLinkedAppointment(linked));
     } catch (error) {
-      console.error('Erro ao resetar senha:', error);
-      res.status(500).json({ 
-        error: 'Erro interno do servidor',
-        details: error instanceof Error ? error.message : 'Erro desconhecido'
+      console.error("Error fetching linked appointment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Cancel the appointment from the management link, with the patient's reason
+  app.post("/api/public/appointments/:token/cancel", selfServiceChangeLimit, async (req, res) => {
+    let cutoffHours: number | undefined;
+    try {
+      const linked = await loadLinkedAppointment(req.params.token);
+      if (!linked) {
+        return res.status(404).json({ error: "Link inválido ou expirado" });
+      }
+      cutoffHours = linked.cutoffHours;
+
+      const { reason } = selfServiceCancelSchema.parse(req.body);
+      appointmentLinkService.assertCanChange(linked.appointment, linked.cutoffHours);
+
+      const appointment = await appointmentStatusService.transition(linked.appointment, 'cancelada_paciente', {
+        changedBy: null,
+        reason
       });
+      if (!appointment) {
+        return res.status(404).json({ error: "Link inválido ou expirado" });
+      }
+
+      await offerFreedSlot(appointment);
+      await syncAppointmentChange(appointment);
+      notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+      res.json(await serializeLinkedAppointment({ ...linked, appointment }));
+    } catch (error: any) {
+      if (sendSelfServiceError(res, error, cutoffHours)) return;
+      console.error("Error cancelling appointment from link:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // ============ GOOGLE CALENDAR INTEGRATION ============
-  
-  // Custom auth middleware for calendar routes that works with Supabase
-  const calendarAuth = async (req: any, res: any, next: any) => {
+  // Get the slots the appointment can be moved to on a day
+  app.post("/api/public/appointments/:token/slots", publicLookupLimit, async (req, res) => {
     try {
-      let accessToken = null;
-      
-      // Try Authorization header first (Bearer token)
-      const authHeader = req.headers.authorization;
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        accessToken = authHeader.split(' ')[1];
-        console.log('🔑 Calendar auth: Using Bearer token from header');
-      } else {
-        // Fallback to cookies (Supabase session)
-        const cookies = req.headers.cookie;
-        if (cookies) {
-          const accessTokenMatch = cookies.match(/sb-[^=]+-auth-token=([^;]+)/);
-          if (accessTokenMatch) {
-            try {
-              const tokenData = JSON.parse(decodeURIComponent(accessTokenMatch[1]));
-              accessToken = tokenData.access_token;
-              console.log('🔑 Calendar auth: Using token from cookies');
-            } catch (parseError) {
-              console.log('⚠️ Calendar auth: Failed to parse cookie token');
-            }
-          }
-        }
+      const { date } = req.body;
+      if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: "date (YYYY-MM-DD) is required" });
       }
-      
-      if (!accessToken) {
-        console.log('❌ Calendar auth: No access token found');
-        return res.status(401).json({ error: "Acesso negado" });
+
+      const linked = await loadLinkedAppointment(req.params.token);
+      if (!linked) {
+        return res.status(404).json({ error: "Link inválido ou expirado" });
       }
-      
-      // Verify token with Supabase
-      const { supabaseAdmin } = await import('./supabase-client');
-      const { data: { user }, error } = await supabaseAdmin.auth.getUser(accessToken);
-      
-      if (error || !user) {
-        console.log('❌ Calendar auth: Token validation failed:', error?.message);
-        return res.status(401).json({ error: "Acesso negado" });
+      if (!appointmentLinkService.canChange(linked.appointment, linked.cutoffHours)) {
+        return res.json({ date, slots: [] });
       }
 
-      console.log('✅ Calendar auth: User authenticated:', user.email);
-      
-      // Get user profile
-      const { data: profile } = await supabaseAdmin
-        .from('profiles')
-        .select('*')
-        .eq('id', user.id)
-        .single();
-      
-      // Set user in request
-      req.user = {
-        id: user.id,
-        email: user.email,
-        name: profile?.name || user.user_metadata?.name || '',
-        role: profile?.role || 'user',
-        clinic_id: profile?.clinic_id
-      };
-      
-      console.log('👤 Calendar auth: User data set for', req.user.email);
-      next();
+      const slots = await findRescheduleSlots(linked.appointment, date);
+      res.json({
+        date,
+        slots: slots.map(slot => ({ startTime: slot.startTime, endTime: slot.endTime }))
+      });
     } catch (error) {
-      console.error('❌ Calendar auth error:', error);
-      res.status(401).json({ error: "Acesso negado" });
+      console.error("Error finding reschedule slots:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
-  };
-  
-  // Initialize Google Calendar OAuth
-  app.get('/api/calendar/auth/google', calendarAuth, initGoogleCalendarAuth);
-  
-  // Google Calendar OAuth callback
-  app.get('/api/calendar/callback/google', handleGoogleCalendarCallback);
-  
-  // Get user's calendar integrations
-  app.get('/api/calendar/integrations', calendarAuth, getUserCalendarIntegrations);
-  
-  // Update calendar sync preferences
-  app.put('/api/calendar/integrations/:integrationId/sync', calendarAuth, updateCalendarSyncPreferences);
-  
-  // Delete calendar integration
-  app.delete('/api/calendar/integrations/:integrationId', calendarAuth, deleteCalendarIntegration);
-  
-  // Get user calendars from Google Calendar
-  app.get('/api/calendar/integrations/:integrationId/calendars', calendarAuth, getUserCalendars);
-  
-  // Update linked calendar settings
-  app.put('/api/calendar/integrations/:integrationId/linked-calendar', calendarAuth, updateLinkedCalendarSettings);
+  });
+
+  // Move the appointment to another free slot. Returns a new link, since links expire at the old start
+  app.post("/api/public/appointments/:token/reschedule", selfServiceChangeLimit, async (req, res) => {
+    let cutoffHours: number | undefined;
+    try {
+      const linked = await loadLinkedAppointment(req.params.token);
+      if (!linked) {
+        return res.status(404).json({ error: "Link inválido ou expirado" });
+      }
+      cutoffHours = linked.cutoffHours;
+
+      const { startTime } = selfServiceRescheduleSchema.parse(req.body);
+      const current = linked.appointment;
+      appointmentLinkService.assertCanChange(current, linked.cutoffHours);
+
+      // Only a slot the page itself would offer can be taken
+      const start = new Date(startTime);
+      const slots = await findRescheduleSlots(current, getZonedDateKey(start, linked.clinic.timezone || DEFAULT_CLINIC_TIMEZONE));
+      if (!slots.some(slot => new Date(slot.startTime).getTime() === start.getTime())) {
+        return res.status(409).json({ error: "Este horário não está mais disponível. Escolha outro horário." });
+      }
+
+      const updates: Partial<InsertAppointment> = { scheduled_date: start };
+      const appointment = await storage.updateAppointment(
+        current.id,
+        current.recurrence_series_id ? { ...updates, recurrence_exception: true } : updates
+      );
+      if (!appointment) {
+        return res.status(404).json({ error: "Link inválido ou expirado" });
+      }
+
+      await offerFreedSlot(current);
+      await syncAppointmentChange(appointment);
+      notifyAppointmentsChanged(appointment.clinic_id, [appointment.id]);
+      res.json({
+        ...(await serializeLinkedAppointment({ ...linked, appointment })),
+        manage_path: getAppointmentLinkPath(appointment)
+      });
+    } catch (error: any) {
+      if (sendSelfServiceError(res, error, cutoffHours)) return;
+      console.error("Error rescheduling appointment from link:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-  // Check availability for appointment scheduling
-  app.post('/api/availability/check', async (req, res) => {
+  // ============ PATIENT MESSAGES ============
+
+  // WhatsApp is available as MESSAGE_CHANNEL=whatsapp once its access token is set
+  const whatsappAdapter = createWhatsAppAdapterFromEnv(async (clinicId) =>
+    (await storage.getClinicSetting(clinicId, WHATSAPP_SETTING_KEYS.phoneNumberId))?.setting_value
+  );
+  if (whatsappAdapter) {
+    registerMessageChannel(whatsappAdapter);
+  }
+
+  const inboundMessageService = new InboundMessageService(storage);
+
+  // Receive a message from a patient (channels without their own webhook, e.g. the console channel)
+  app.post("/api/clinics/:clinicId/messages/inbound", async (req, res) => {
     try {
-      const { startDateTime, endDateTime, excludeAppointmentId } = req.body;
-      
-      if (!startDateTime || !endDateTime) {
-        return res.status(400).json({ error: "Start and end datetime are required" });
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
 
-      const startDate = new Date(startDateTime);
-      const endDate = new Date(endDateTime);
+      const inbound = inboundMessageSchema.parse(req.body);
+      const result = await inboundMessageService.handleInbound({
+        clinicId,
+        from: inbound.from,
+        body: inbound.body,
+        senderName: inbound.sender_name
+      });
 
-      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-        return res.status(400).json({ error: "Invalid datetime format" });
+      if (result.action === 'confirmed' && result.appointment) {
+        notifyAppointmentsChanged(clinicId, [result.appointment.id]);
       }
-
-      // Check for conflicts with existing appointments
-      const existingAppointments = await storage.getAppointmentsByDateRange(startDate, endDate);
-      
-      let conflictingAppointment = null;
-      if (excludeAppointmentId) {
-        conflictingAppointment = existingAppointments.find(apt => 
-          apt.id !== excludeAppointmentId && 
-          new Date(apt.scheduled_date!) < endDate &&
-          new Date(apt.scheduled_date!).getTime() + ((apt.duration_minutes || 60) * 60000) > startDate.getTime()
-        );
-      } else {
-        conflictingAppointment = existingAppointments.find(apt => 
-          new Date(apt.scheduled_date!) < endDate &&
-          new Date(apt.scheduled_date!).getTime() + ((apt.duration_minutes || 60) * 60000) > startDate.getTime()
-        );
+      notifyConversationsChanged(clinicId, [result.conversation.id]);
+      res.status(201).json({
+        conversation_id: result.conversation.id,
+        message_id: result.message.id,
+        intent: result.intent,
+        action: result.action,
+        appointment_id: result.appointment?.id ?? null
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
+      console.error("Error handling inbound message:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      if (conflictingAppointment) {
-        // Get contact name for the conflicting appointment
-        const contact = await storage.getContact(conflictingAppointment.contact_id);
-        return res.json({
-          available: false,
-          conflict: true,
-          conflictType: 'appointment',
-          conflictDetails: {
-            id: conflictingAppointment.id.toString(),
-            title: `${conflictingAppointment.doctor_name} - ${contact?.name || 'Paciente'}`,
-            startTime: conflictingAppointment.scheduled_date,
-            endTime: new Date(new Date(conflictingAppointment.scheduled_date!).getTime() + 
-                             (conflictingAppointment.duration_minutes || 60) * 60000).toISOString()
-          }
-        });
+  // Webhook subscription check from Meta (echoes the challenge when the verify token matches)
+  app.get("/api/webhooks/whatsapp", (req, res) => {
+    const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+    if (verifyToken && req.query['hub.mode'] === 'subscribe' && req.query['hub.verify_token'] === verifyToken) {
+      return res.status(200).send(req.query['hub.challenge']);
+    }
+    res.status(403).json({ error: "Forbidden" });
+  });
+
+  // Receive WhatsApp Cloud API events
+  app.post("/api/webhooks/whatsapp", createWhatsAppWebhookHandler({
+    storage,
+    inboundMessageService,
+    onReceived: (clinicId, result) => {
+      if (result.action === 'confirmed' && result.appointment) {
+        notifyAppointmentsChanged(clinicId, [result.appointment.id]);
       }
+      notifyConversationsChanged(clinicId, [result.conversation.id]);
+    }
+  }));
 
-      // Check for conflicts with Google Calendar events
-      try {
-        // Get all active calendar integrations
-        const integrations = await storage.getAllCalendarIntegrations();
-        
-        for (const integration of integrations) {
-          if (!integration.sync_enabled || !integration.access_token) continue;
-          
-          try {
-            const events = await googleCalendarService.getEvents(
-              integration.access_token,
-              integration.refresh_token || '',
-              startDate,
-              endDate,
-              integration.linked_calendar_id || 'primary'
-            );
-
-            const conflictingEvent = events.find(event => {
-              if (!event.start?.dateTime || !event.end?.dateTime) return false;
-              
-              const eventStart = new Date(event.start.dateTime);
-              const eventEnd = new Date(event.end.dateTime);
-              
-              return eventStart < endDate && eventEnd > startDate;
-            });
-
-            if (conflictingEvent) {
-              return res.json({
-                available: false,
-                conflict: true,
-                conflictType: 'google_calendar',
-                conflictDetails: {
-                  id: conflictingEvent.id || 'unknown',
-                  title: conflictingEvent.summary || 'Evento sem título',
-                  startTime: conflictingEvent.start?.dateTime || startDateTime,
-                  endTime: conflictingEvent.end?.dateTime || endDateTime,
-                  location: conflictingEvent.location || ''
-                }
-              });
-            }
-          } catch (calendarError) {
-            console.error('Error checking calendar events:', calendarError);
-            // Continue checking other integrations even if one fails
-          }
-        }
-      } catch (error) {
-        console.error('Error checking Google Calendar conflicts:', error);
-        // Don't fail the availability check if Google Calendar check fails
+  // ============ CONVERSATIONS (inbox) ============
+
+  const conversationService = new ConversationService(storage);
+
+  // List the conversations of a clinic with their last message and unread count
+  app.get("/api/clinic/:clinicId/conversations", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
 
-      res.json({
-        available: true,
-        conflict: false
+      const { status, assigned_user_id } = req.query;
+      const conversations = await storage.getConversationSummaries(clinicId, {
+        status: status ? status.toString() : undefined,
+        assignedUserId: assigned_user_id ? parseInt(assigned_user_id.toString()) || undefined : undefined
       });
-
+      res.json(conversations);
     } catch (error) {
-      console.error('Error checking availability:', error);
-      res.status(500).json({ error: 'Failed to check availability' });
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Find available time slots
-  app.post('/api/availability/find-slots', async (req, res) => {
+  // Get a page of messages, newest first (?before=<message id> for older ones)
+  app.get("/api/conversations/:id/messages", async (req, res) => {
     try {
-      const { date, duration = 60, workingHours = { start: '08:00', end: '18:00' } } = req.body;
-      
-      if (!date) {
-        return res.status(400).json({ error: "Date is required" });
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
       }
 
-      const targetDate = new Date(date);
-      if (isNaN(targetDate.getTime())) {
-        return res.status(400).json({ error: "Invalid date format" });
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
       }
 
-      // Set up start and end of day
-      const dayStart = new Date(targetDate);
-      const [startHour, startMinute] = workingHours.start.split(':').map(Number);
-      dayStart.setHours(startHour, startMinute, 0, 0);
-
-      const dayEnd = new Date(targetDate);
-      const [endHour, endMinute] = workingHours.end.split(':').map(Number);
-      dayEnd.setHours(endHour, endMinute, 0, 0);
-
-      // Get all appointments for the day
-      const appointments = await storage.getAppointmentsByDateRange(dayStart, dayEnd);
-      
-      // Get Google Calendar events for the day
-      let calendarEvents: any[] = [];
-      try {
-        const integrations = await storage.getAllCalendarIntegrations();
-        
-        for (const integration of integrations) {
-          if (!integration.sync_enabled || !integration.access_token) continue;
-          
-          try {
-            const events = await googleCalendarService.getEvents(
-              integration.access_token,
-              integration.refresh_token || '',
-              dayStart,
-              dayEnd,
-              integration.linked_calendar_id || 'primary'
-            );
-            calendarEvents.push(...events);
-          } catch (error: any) {
-            console.warn(`Google Calendar token expired or invalid for integration ${integration.id}. Continuing without calendar events.`);
-            
-            // If token is expired/invalid, mark integration as needing re-authentication
-            if (error.code === 401 || error.status === 401) {
-              try {
-                await storage.updateCalendarIntegration(integration.id, {
-                  sync_enabled: false,
-                  sync_errors: 'Token expired - re-authentication required'
-                });
-              } catch (updateError) {
-                console.error('Failed to update integration status:', updateError);
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Error fetching Google Calendar events:', error);
-      }
-
-      // Convert appointments to time blocks
-      const busyBlocks: { start: Date; end: Date; type: string; title: string }[] = [];
-      
-      // Add appointment blocks
-      appointments.forEach(apt => {
-        if (apt.scheduled_date && apt.status !== 'cancelled') {
-          const start = new Date(apt.scheduled_date);
-          const end = new Date(start.getTime() + (apt.duration_minutes || 60) * 60000);
-          busyBlocks.push({
-            start,
-            end,
-            type: 'appointment',
-            title: `${apt.doctor_name} - Consulta`
-          });
-        }
-      });
-
-      // Add calendar event blocks
-      calendarEvents.forEach(event => {
-        if (event.start?.dateTime && event.end?.dateTime) {
-          busyBlocks.push({
-            start: new Date(event.start.dateTime),
-            end: new Date(event.end.dateTime),
-            type: 'calendar_event',
-            title: event.summary || 'Evento'
-          });
-        }
+      const beforeId = req.query.before ? parseInt(req.query.before.toString()) : undefined;
+      const limit = Math.min(parseInt(req.query.limit?.toString() || '50') || 50, 100);
+      const messages = await storage.getConversationMessages(conversationId, {
+        beforeId: beforeId && !isNaN(beforeId) ? beforeId : undefined,
+        limit
       });
+      res.json({ messages, has_more: messages.length === limit });
+    } catch (error) {
+      console.error("Error fetching conversation messages:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Sort busy blocks by start time
-      busyBlocks.sort((a, b) => a.start.getTime() - b.start.getTime());
-
-      // Find available slots
-      const availableSlots: { startTime: string; endTime: string; duration: number }[] = [];
-      const slotDuration = duration * 60000; // Convert to milliseconds
-
-      let currentTime = new Date(dayStart);
-
-      for (const block of busyBlocks) {
-        // Check if there's a gap before this block
-        if (currentTime < block.start) {
-          const gapDuration = block.start.getTime() - currentTime.getTime();
-          
-          // Create slots in this gap
-          let slotStart = new Date(currentTime);
-          while (slotStart.getTime() + slotDuration <= block.start.getTime()) {
-            const slotEnd = new Date(slotStart.getTime() + slotDuration);
-            availableSlots.push({
-              startTime: slotStart.toISOString(),
-              endTime: slotEnd.toISOString(),
-              duration
-            });
-            slotStart = new Date(slotStart.getTime() + slotDuration);
-          }
-        }
-        
-        // Update current time to after this block
-        currentTime = new Date(Math.max(currentTime.getTime(), block.end.getTime()));
-      }
-
-      // Check for slots after the last block until end of day
-      if (currentTime < dayEnd) {
-        let slotStart = new Date(currentTime);
-        while (slotStart.getTime() + slotDuration <= dayEnd.getTime()) {
-          const slotEnd = new Date(slotStart.getTime() + slotDuration);
-          availableSlots.push({
-            startTime: slotStart.toISOString(),
-            endTime: slotEnd.toISOString(),
-            duration
-          });
-          slotStart = new Date(slotStart.getTime() + slotDuration);
-        }
+  // Send a staff reply to the patient
+  app.post("/api/conversations/:id/messages", async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
       }
 
-      res.json({
-        date: targetDate.toISOString().split('T')[0],
-        duration,
-        workingHours,
-        availableSlots,
-        busyBlocks: busyBlocks.map(block => ({
-          startTime: block.start.toISOString(),
-          endTime: block.end.toISOString(),
-          type: block.type,
-          title: block.title
-        }))
-      });
+      const { content } = staffReplySchema.parse(req.body);
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
 
-    } catch (error) {
-      console.error('Error finding available slots:', error);
-      res.status(500).json({ error: 'Failed to find available slots' });
+      const message = await conversationService.sendStaffReply(getMessageChannel(), conversation, (req as any).user?.id ?? null, content);
+      notifyConversationsChanged(conversation.clinic_id!, [conversation.id]);
+      res.status(201).json(message);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Contact not found') {
+        return res.status(400).json({ error: "Contato da conversa não encontrado" });
+      }
+      console.error("Error sending staff reply:", error);
+      res.status(500).json({ error: "Não foi possível enviar a mensagem" });
     }
   });
-  
-  // Manual sync from Google Calendar to system
-  app.post("/api/calendar/sync-from-google", isAuthenticated, async (req, res) => {
+
+  // Assign, reopen or close a conversation
+  app.patch("/api/conversations/:id", async (req, res) => {
     try {
-      const userId = (req as any).user?.id;
-      if (!userId) {
-        return res.status(401).json({ error: "Não autenticado" });
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
       }
 
-      const { syncCalendarEventsToSystem } = await import('./calendar-routes');
-      
-      // Get user's calendar integrations
-      const integrations = await storage.getCalendarIntegrations(userId);
-      const googleIntegration = integrations.find(i => i.provider === 'google' && i.is_active);
-      
-      if (!googleIntegration) {
-        return res.status(404).json({ error: "Nenhuma integração do Google Calendar encontrada" });
+      const updates = conversationUpdateSchema.parse(req.body);
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
       }
 
-      await syncCalendarEventsToSystem(userId, googleIntegration.id);
-      
-      res.json({ success: true, message: "Sincronização concluída com sucesso" });
+      const updated = await conversationService.update(conversation, updates);
+      notifyConversationsChanged(conversation.clinic_id!, [conversation.id]);
+      res.json(updated);
     } catch (error: any) {
-      console.error("Error syncing from Google Calendar:", error);
-      res.status(500).json({ error: "Erro na sincronização", details: error.message });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message === 'Assignee not in clinic') {
+        return res.status(400).json({ error: "Usuário não pertence à clínica" });
+      }
+      console.error("Error updating conversation:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Check time slot availability
-  app.post("/api/calendar/check-availability", isAuthenticated, async (req, res) => {
+  // Mark a conversation as read
+  app.post("/api/conversations/:id/read", async (req, res) => {
     try {
-      const userId = (req as any).user?.id;
-      const { startDateTime, endDateTime, excludeAppointmentId } = req.body;
-      
-      if (!startDateTime || !endDateTime) {
-        return res.status(400).json({ error: "Data e hora de início e fim são obrigatórias" });
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
       }
 
-      const startDate = new Date(startDateTime);
-      const endDate = new Date(endDateTime);
+      const conversation = await storage.updateConversation(conversationId, { last_read_at: new Date() });
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error marking conversation as read:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Get all appointments for the clinic in the time range
-      const appointments = await storage.getAppointments(1, { 
-        startDate: startDate, 
-        endDate: endDate 
-      });
+  // ============ CAMPAIGNS ============
 
-      // Filter out the appointment being edited (if any)
-      const conflictingAppointments = appointments.filter(apt => 
-        apt.id !== excludeAppointmentId && 
-        apt.status !== 'cancelled' &&
-        apt.scheduled_date
-      );
+  const campaignService = new CampaignService(storage);
 
-      // Check for conflicts with existing appointments
-      const hasConflict = conflictingAppointments.some(apt => {
-        const aptStart = new Date(apt.scheduled_date!);
-        const aptDuration = apt.duration_minutes || 60;
-        const aptEnd = new Date(aptStart.getTime() + aptDuration * 60000);
+  // Maps campaign service errors to responses; undefined for unexpected errors
+  const campaignErrorResponse = (error: any): [number, string] | undefined => {
+    switch (error.message) {
+      case 'Template not found': return [400, "Template não encontrado ou inativo"];
+      case 'Invalid template': return [400, "O template tem erros; corrija-o antes de usar na campanha"];
+      case 'Campaign already started': return [409, "A campanha já começou a ser enviada"];
+      case 'Campaign already finished': return [409, "A campanha já foi encerrada"];
+      default: return undefined;
+    }
+  };
 
-        // Check if there's any overlap
-        return (startDate < aptEnd && endDate > aptStart);
-      });
+  // List the campaigns of a clinic with recipient counts
+  app.get("/api/clinic/:clinicId/campaigns", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
 
-      if (hasConflict) {
-        const conflictingApt = conflictingAppointments.find(apt => {
-          const aptStart = new Date(apt.scheduled_date!);
-          const aptDuration = apt.duration_minutes || 60;
-          const aptEnd = new Date(aptStart.getTime() + aptDuration * 60000);
-          return (startDate < aptEnd && endDate > aptStart);
-        });
+      res.json(await storage.getCampaigns(clinicId));
+    } catch (error) {
+      console.error("Error fetching campaigns:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-        return res.json({
-          available: false,
-          conflict: true,
-          conflictType: 'appointment',
-          conflictDetails: {
-            id: conflictingApt?.id,
-            title: `${conflictingApt?.appointment_type} - ${conflictingApt?.doctor_name}`,
-            startTime: conflictingApt?.scheduled_date,
-            endTime: new Date(new Date(conflictingApt?.scheduled_date!).getTime() + (conflictingApt?.duration_minutes || 60) * 60000)
-          }
-        });
+  // Count the contacts an audience selects right now
+  app.post("/api/clinic/:clinicId/campaigns/audience-preview", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
       }
 
-      // Check Google Calendar conflicts
-      try {
-        const integrations = await storage.getCalendarIntegrations(userId);
-        const googleIntegration = integrations.find(i => i.provider === 'google' && i.is_active);
-        
-        if (googleIntegration) {
-          const { google } = await import('googleapis');
-          
-          // Set up OAuth2 client
-          const oauth2Client = new google.auth.OAuth2(
-            process.env.GOOGLE_CLIENT_ID,
-            process.env.GOOGLE_CLIENT_SECRET,
-            process.env.GOOGLE_REDIRECT_URI
-          );
+      const audience = campaignAudienceSchema.parse(req.body);
+      res.json(await campaignService.previewAudience(clinicId, audience));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error previewing campaign audience:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-          oauth2Client.setCredentials({
-            access_token: googleIntegration.access_token,
-            refresh_token: googleIntegration.refresh_token,
-            expiry_date: new Date(googleIntegration.token_expires_at || Date.now()).getTime()
-          });
+  // Create a campaign (a draft, or scheduled when scheduled_at is given)
+  app.post("/api/clinic/:clinicId/campaigns", async (req, res) => {
+    try {
+      const clinicId = parseInt(req.params.clinicId);
+      if (isNaN(clinicId)) {
+        return res.status(400).json({ error: "Invalid clinic ID" });
+      }
+
+      const input = campaignSchema.parse(req.body);
+      const campaign = await campaignService.create(clinicId, (req as any).user?.id ?? null, input);
+      res.status(201).json(campaign);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      const mapped = campaignErrorResponse(error);
+      if (mapped) {
+        return res.status(mapped[0]).json({ error: mapped[1] });
+      }
+      console.error("Error creating campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-          // Refresh token if needed
-          const now = new Date();
-          const expiryDate = new Date(googleIntegration.token_expires_at || Date.now());
-          const fiveMinutesFromNow = new Date(now.getTime() + 5 * 60 * 1000);
+  // Get a campaign with its recipient counts
+  app.get("/api/campaigns/:id", async (req, res) => {
+    try {
+      const campaignId = parseInt(req.params.id);
+      if (isNaN(campaignId)) {
+        return res.status(400).json({ error: "Invalid campaign ID" });
+      }
 
-          if (expiryDate <= fiveMinutesFromNow) {
-            try {
-              const { credentials } = await oauth2Client.refreshAccessToken();
-              await storage.updateCalendarIntegration(googleIntegration.id, {
-                access_token: credentials.access_token!,
-                refresh_token: credentials.refresh_token || googleIntegration.refresh_token,
-                token_expires_at: new Date(credentials.expiry_date!)
-              });
-            } catch (refreshError) {
-              console.error('Error refreshing token for availability check:', refreshError);
-            }
-          }
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      res.json({ ...campaign, recipient_counts: await storage.getCampaignRecipientCounts(campaignId) });
+    } catch (error) {
+      console.error("Error fetching campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-          const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+  // Get the delivery status of each recipient (?status=failed to filter)
+  app.get("/api/campaigns/:id/recipients", async (req, res) => {
+    try {
+      const campaignId = parseInt(req.params.id);
+      if (isNaN(campaignId)) {
+        return res.status(400).json({ error: "Invalid campaign ID" });
+      }
 
-          // Get events from Google Calendar for the time range
-          const calendarResponse = await calendar.events.list({
-            calendarId: googleIntegration.calendar_id || 'primary',
-            timeMin: startDate.toISOString(),
-            timeMax: endDate.toISOString(),
-            singleEvents: true,
-            orderBy: 'startTime',
-          });
+      const recipients = await storage.getCampaignRecipients(campaignId, req.query.status?.toString());
+      res.json(recipients);
+    } catch (error) {
+      console.error("Error fetching campaign recipients:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-          const googleEvents = calendarResponse.data.items || [];
-          
-          // Check for conflicts with Google Calendar events
-          const googleConflict = googleEvents.find(event => {
-            if (!event.start?.dateTime || !event.end?.dateTime) {
-              return false; // Skip all-day events
-            }
+  // Update a campaign that has not started
+  app.put("/api/campaigns/:id", async (req, res) => {
+    try {
+      const campaignId = parseInt(req.params.id);
+      if (isNaN(campaignId)) {
+        return res.status(400).json({ error: "Invalid campaign ID" });
+      }
 
-            const eventStart = new Date(event.start.dateTime);
-            const eventEnd = new Date(event.end.dateTime);
+      const input = campaignSchema.partial().parse(req.body);
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
 
-            // Check if this event is already synced to our system
-            const isSyncedEvent = conflictingAppointments.some(apt => 
-              apt.google_calendar_event_id === event.id
-            );
+      res.json(await campaignService.update(campaign, input));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      const mapped = campaignErrorResponse(error);
+      if (mapped) {
+        return res.status(mapped[0]).json({ error: mapped[1] });
+      }
+      console.error("Error updating campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-            if (isSyncedEvent) {
-              return false; // Skip events that are already in our system
-            }
+  // Schedule a campaign (no date = send now)
+  app.post("/api/campaigns/:id/schedule", async (req, res) => {
+    try {
+      const campaignId = parseInt(req.params.id);
+      if (isNaN(campaignId)) {
+        return res.status(400).json({ error: "Invalid campaign ID" });
+      }
 
-            // Check for overlap
-            return (startDate < eventEnd && endDate > eventStart);
-          });
+      const { scheduled_at } = campaignScheduleSchema.parse(req.body);
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
 
-          if (googleConflict) {
-            return res.json({
-              available: false,
-              conflict: true,
-              conflictType: 'google_calendar',
-              conflictDetails: {
-                id: googleConflict.id,
-                title: googleConflict.summary || 'Evento do Google Calendar',
-                startTime: googleConflict.start?.dateTime,
-                endTime: googleConflict.end?.dateTime,
-                location: googleConflict.location
-              }
-            });
-          }
-        }
-      } catch (googleError) {
-        console.error('Error checking Google Calendar availability:', googleError);
-        // Continue without Google Calendar check if there's an error
+      res.json(await campaignService.schedule(campaign, scheduled_at));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
+      const mapped = campaignErrorResponse(error);
+      if (mapped) {
+        return res.status(mapped[0]).json({ error: mapped[1] });
+      }
+      console.error("Error scheduling campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      res.json({
-        available: true,
-        conflict: false
-      });
+  // Cancel a campaign; recipients not reached yet are skipped
+  app.post("/api/campaigns/:id/cancel", async (req, res) => {
+    try {
+      const campaignId = parseInt(req.params.id);
+      if (isNaN(campaignId)) {
+        return res.status(400).json({ error: "Invalid campaign ID" });
+      }
+
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
 
+      res.json(await campaignService.cancel(campaign));
     } catch (error: any) {
-      console.error("Error checking availability:", error);
-      res.status(500).json({ error: "Erro ao verificar disponibilidade" });
+      const mapped = campaignErrorResponse(error);
+      if (mapped) {
+        return res.status(mapped[0]).json({ error: mapped[1] });
+      }
+      console.error("Error cancelling campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
   // ============ MEDICAL RECORDS ============
 
+  // A record linked to an appointment belongs to its patient or, in a group session, to one of its participants
+  const isRecordAppointmentValid = async (appointmentId: number | null | undefined, contactId: number) => {
+    if (!appointmentId) return true;
+    const appointment = await storage.getAppointment(appointmentId);
+    return !!appointment && await groupSessionService.isAttendee(appointment, contactId);
+  };
+
   // Get medical records for a contact
   app.get("/api/contacts/:contactId/medical-records", isAuthenticated, async (req, res) => {
     try {
@@ -2012,6 +4355,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log('🔍 Data before validation:', dataToValidate);
       const validatedData = insertMedicalRecordSchema.parse(dataToValidate);
+      if (!(await isRecordAppointmentValid(validatedData.appointment_id, validatedData.contact_id))) {
+        return res.status(400).json({ error: "Contact is not a participant of the appointment" });
+      }
       
       console.log('💾 Creating medical record:', validatedData);
       const record = await storage.createMedicalRecord(validatedData);
@@ -2027,15 +4373,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get medical record by appointment
+  // Get medical record by appointment. Group sessions hold one record per participant (?contact_id=)
   app.get("/api/appointments/:appointmentId/medical-record", isAuthenticated, async (req, res) => {
     try {
       const appointmentId = parseInt(req.params.appointmentId);
       if (isNaN(appointmentId)) {
         return res.status(400).json({ error: "Invalid appointment ID" });
       }
+
+      const contactId = req.query.contact_id ? parseInt(req.query.contact_id as string) : undefined;
+      if (contactId !== undefined && isNaN(contactId)) {
+        return res.status(400).json({ error: "Invalid contact ID" });
+      }
       
-      const record = await storage.getMedicalRecordByAppointment(appointmentId);
+      const record = await storage.getMedicalRecordByAppointment(appointmentId, contactId);
       if (!record) {
         return res.status(404).json({ error: "Medical record not found" });
       }
@@ -2056,6 +4407,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         created_by: userId,
         updated_by: userId
       });
+      if (!(await isRecordAppointmentValid(validatedData.appointment_id, validatedData.contact_id))) {
+        return res.status(400).json({ error: "Contact is not a participant of the appointment" });
+      }
       
       const record = await storage.createMedicalRecord(validatedData);
       res.status(201).json(record);
@@ -2118,5 +4472,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, { sessionMiddleware, storage });
+
+  // Background jobs run in every server process; setting a job's *_ENABLED variable to false turns it off
+  if (process.env.REMINDERS_ENABLED !== 'false') {
+    startReminderScheduler(storage);
+  }
+
+  if (process.env.CAMPAIGNS_ENABLED !== 'false') {
+    startCampaignScheduler(storage);
+  }
+
+  // Watch channels need a public webhook URL
+  if (process.env.CALENDAR_PUSH_ENABLED !== 'false' && getCalendarProviders().some(provider => getCalendarWebhookAddress(provider))) {
+    startCalendarWatchRenewal(calendarSync);
+  }
+
+  // Calendars without a live channel are kept current by polling
+  if (process.env.CALENDAR_POLLING_ENABLED !== 'false') {
+    startCalendarPolling(calendarSync);
+  }
+
+  // OAuth tokens are refreshed before they expire
+  if (process.env.CALENDAR_TOKEN_REFRESH_ENABLED !== 'false') {
+    startCalendarTokenRefresh(calendarTokens);
+  }
+
+  // Tokens still in plain text, or under a key that was rotated out, move to the current key
+  if (isTokenEncryptionConfigured()) {
+    storage.reencryptCalendarIntegrationTokens()
+      .then(count => {
+        if (count) console.log(`🔑 Calendar tokens re-encrypted for ${count} integrations`);
+      })
+      .catch(error => console.error("Error re-encrypting calendar tokens:", error));
+  }
+
   return httpServer;
 }
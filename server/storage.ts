@@ -20,6 +20,24 @@ import {
   type MedicalRecord, type InsertMedicalRecord,
   type PasswordResetToken, type InsertPasswordResetToken,
   type AppointmentTag, type InsertAppointmentTag,
+  type ProfessionalAvailability, type InsertProfessionalAvailability,
+  type ProfessionalAvailabilityOverride, type InsertProfessionalAvailabilityOverride,
+  type ClinicResource, type InsertClinicResource,
+  type WaitlistEntry, type InsertWaitlistEntry,
+  type WaitlistOffer, type InsertWaitlistOffer,
+  type AppointmentStatusHistory, type InsertAppointmentStatusHistory,
+  type ClinicClosure, type InsertClinicClosure,
+  type AppointmentType, type InsertAppointmentType,
+  type AppointmentParticipant, type InsertAppointmentParticipant,
+  type ReminderLog, type InsertReminderLog,
+  type Conversation, type InsertConversation,
+  type Message, type InsertMessage,
+  type ConversationSummary,
+  type Campaign, type InsertCampaign, type CampaignSummary,
+  type CampaignRecipient, type InsertCampaignRecipient, type CampaignRecipientStatus,
+  type ExternalCalendarEvent, type InsertExternalCalendarEvent,
+  type CalendarEventLink, type InsertCalendarEventLink,
+  type CalendarSyncConflict, type InsertCalendarSyncConflict,
 } from "@shared/schema";
 
 export interface IStorage {
@@ -56,13 +74,14 @@ export interface IStorage {
   updateContactStatus(id: number, status: string): Promise<Contact | undefined>;
 
   // Appointments
-  getAppointments(clinicId: number, filters?: { status?: string; date?: Date }): Promise<Appointment[]>;
+  getAppointments(clinicId: number, filters?: { status?: string; dateRange?: { start: Date; end: Date } }): Promise<Appointment[]>;
   getAppointment(id: number): Promise<Appointment | undefined>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   updateAppointment(id: number, appointment: Partial<InsertAppointment>): Promise<Appointment | undefined>;
   deleteAppointment(id: number): Promise<boolean>;
   getAppointmentsByContact(contactId: number): Promise<Appointment[]>;
-  getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]>;
+  getAppointmentsByDateRange(startDate: Date, endDate: Date, filters?: { clinicId?: number; userId?: number }): Promise<Appointment[]>;
+  getAppointmentsBySeries(seriesId: string): Promise<Appointment[]>;
 
   // Analytics
   createAnalyticsMetric(metric: InsertAnalyticsMetric): Promise<AnalyticsMetric>;
@@ -72,6 +91,8 @@ export interface IStorage {
   getClinicSettings(clinicId: number): Promise<ClinicSetting[]>;
   getClinicSetting(clinicId: number, key: string): Promise<ClinicSetting | undefined>;
   setClinicSetting(setting: InsertClinicSetting): Promise<ClinicSetting>;
+  // Setting of any clinic with this key and value (e.g. the clinic that owns a WhatsApp number)
+  findClinicSettingByValue(key: string, value: string): Promise<ClinicSetting | undefined>;
 
   // AI Templates
   getAiTemplates(clinicId: number, templateType?: string): Promise<AiTemplate[]>;
@@ -106,12 +127,12 @@ export interface IStorage {
 
 
   // Calendar Integrations
-  getCalendarIntegrations(userId: number): Promise<CalendarIntegration[]>;
+  getCalendarIntegrations(userId: string | number): Promise<CalendarIntegration[]>;
   getCalendarIntegrationsForClinic(clinicId: number): Promise<CalendarIntegration[]>;
   getAllCalendarIntegrations(): Promise<CalendarIntegration[]>;
   getCalendarIntegrationsByEmail(userEmail: string): Promise<CalendarIntegration[]>;
   getCalendarIntegration(id: number): Promise<CalendarIntegration | undefined>;
-  getCalendarIntegrationByUserAndProvider(userId: number, provider: string, email: string): Promise<CalendarIntegration | undefined>;
+  getCalendarIntegrationByUserAndProvider(userId: string | number, provider: string, email: string): Promise<CalendarIntegration | undefined>;
   createCalendarIntegration(integration: InsertCalendarIntegration): Promise<CalendarIntegration>;
   updateCalendarIntegration(id: number, updates: Partial<InsertCalendarIntegration>): Promise<CalendarIntegration | undefined>;
   deleteCalendarIntegration(id: number): Promise<boolean>;
@@ -120,6 +141,7 @@ export interface IStorage {
   // Advanced Calendar Sync Methods
   getCalendarIntegrationsForWebhookRenewal(renewalThreshold: Date): Promise<CalendarIntegration[]>;
   getCalendarIntegrationByWebhook(channelId: string, resourceId: string): Promise<CalendarIntegration | undefined>;
+  reencryptCalendarIntegrationTokens(): Promise<number>;
   getAppointmentsByGoogleEventId(eventId: string): Promise<Appointment[]>;
 
   // User Management
@@ -135,7 +157,7 @@ export interface IStorage {
   // Medical Records
   getMedicalRecords(contactId: number): Promise<MedicalRecord[]>;
   getMedicalRecord(id: number): Promise<MedicalRecord | undefined>;
-  getMedicalRecordByAppointment(appointmentId: number): Promise<MedicalRecord | undefined>;
+  getMedicalRecordByAppointment(appointmentId: number, contactId?: number): Promise<MedicalRecord | undefined>;
   createMedicalRecord(record: InsertMedicalRecord): Promise<MedicalRecord>;
 
   updateMedicalRecord(id: number, updates: Partial<InsertMedicalRecord>): Promise<MedicalRecord | undefined>;
@@ -151,6 +173,119 @@ export interface IStorage {
   createAppointmentTag(tag: InsertAppointmentTag): Promise<AppointmentTag>;
   updateAppointmentTag(id: number, updates: Partial<InsertAppointmentTag>): Promise<AppointmentTag | undefined>;
   deleteAppointmentTag(id: number): Promise<boolean>;
+
+  // Professional Availability
+  getProfessionalAvailability(clinicId: number, userId: number): Promise<ProfessionalAvailability[]>;
+  replaceProfessionalAvailability(clinicId: number, userId: number, blocks: InsertProfessionalAvailability[]): Promise<ProfessionalAvailability[]>;
+  getProfessionalAvailabilityOverrides(clinicId: number, userId: number, dateRange?: { start: string; end: string }): Promise<ProfessionalAvailabilityOverride[]>;
+  getProfessionalAvailabilityOverride(id: number): Promise<ProfessionalAvailabilityOverride | undefined>;
+  createProfessionalAvailabilityOverride(override: InsertProfessionalAvailabilityOverride): Promise<ProfessionalAvailabilityOverride>;
+  deleteProfessionalAvailabilityOverride(id: number): Promise<boolean>;
+
+  // Clinic Resources (rooms, equipment)
+  getClinicResources(clinicId: number): Promise<ClinicResource[]>;
+  getClinicResource(id: number): Promise<ClinicResource | undefined>;
+  createClinicResource(resource: InsertClinicResource): Promise<ClinicResource>;
+  updateClinicResource(id: number, updates: Partial<InsertClinicResource>): Promise<ClinicResource | undefined>;
+  deleteClinicResource(id: number): Promise<boolean>;
+  getAppointmentResources(appointmentId: number): Promise<ClinicResource[]>;
+  setAppointmentResources(appointmentId: number, resourceIds: number[]): Promise<void>;
+  getResourceBookings(resourceIds: number[], startDate: Date, endDate: Date): Promise<{ resource_id: number; appointment: Appointment }[]>;
+
+  // Waitlist
+  getWaitlistEntries(clinicId: number, status?: string): Promise<WaitlistEntry[]>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  updateWaitlistEntry(id: number, updates: Partial<InsertWaitlistEntry> & { status?: string }): Promise<WaitlistEntry | undefined>;
+  deleteWaitlistEntry(id: number): Promise<boolean>;
+  getWaitlistOffers(filters: { clinicId?: number; status?: string; userId?: number; sourceAppointmentId?: number; slotRange?: { start: Date; end: Date } }): Promise<WaitlistOffer[]>;
+  getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined>;
+  createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer>;
+  updateWaitlistOffer(id: number, updates: Partial<InsertWaitlistOffer>): Promise<WaitlistOffer | undefined>;
+
+  // Appointment Status History
+  getAppointmentStatusHistory(appointmentId: number): Promise<AppointmentStatusHistory[]>;
+  createAppointmentStatusHistory(entry: InsertAppointmentStatusHistory): Promise<AppointmentStatusHistory>;
+  getContactStatusHistory(contactId: number): Promise<AppointmentStatusHistory[]>;
+
+  // Clinic Closures (holidays, maintenance days)
+  getClinicClosures(clinicId: number): Promise<ClinicClosure[]>;
+  getClinicClosure(id: number): Promise<ClinicClosure | undefined>;
+  createClinicClosure(closure: InsertClinicClosure): Promise<ClinicClosure>;
+  deleteClinicClosure(id: number): Promise<boolean>;
+
+  // Appointment Types (clinic catalog)
+  getAppointmentTypes(clinicId: number): Promise<AppointmentType[]>;
+  getAppointmentType(id: number): Promise<AppointmentType | undefined>;
+  createAppointmentType(type: InsertAppointmentType): Promise<AppointmentType>;
+  updateAppointmentType(id: number, updates: Partial<InsertAppointmentType>): Promise<AppointmentType | undefined>;
+  deleteAppointmentType(id: number): Promise<boolean>;
+
+  // Group session participants
+  getAppointmentParticipants(appointmentId: number): Promise<AppointmentParticipant[]>;
+  getAppointmentParticipant(id: number): Promise<AppointmentParticipant | undefined>;
+  // Resolves to undefined when the session is already full
+  createAppointmentParticipant(participant: InsertAppointmentParticipant): Promise<AppointmentParticipant | undefined>;
+  updateAppointmentParticipant(id: number, updates: Partial<InsertAppointmentParticipant>): Promise<AppointmentParticipant | undefined>;
+  deleteAppointmentParticipant(id: number): Promise<boolean>;
+  getAppointmentParticipantCounts(appointmentIds: number[]): Promise<Map<number, number>>;
+
+  // Appointment reminders
+  getReminderLogs(appointmentId: number): Promise<ReminderLog[]>;
+  // Resolves to undefined when this reminder was already claimed (sent before or by another process)
+  claimReminderLog(log: InsertReminderLog): Promise<ReminderLog | undefined>;
+  updateReminderLog(id: number, updates: Partial<InsertReminderLog>): Promise<ReminderLog | undefined>;
+
+  // Patient conversations
+  getConversation(id: number): Promise<Conversation | undefined>;
+  // Latest conversation of the contact that isn't closed
+  getOpenConversation(clinicId: number, contactId: number): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation | undefined>;
+  createMessage(message: InsertMessage): Promise<Message>;
+  getMessageByExternalId(externalId: string): Promise<Message | undefined>;
+  // Inbox rows of a clinic, most recently active first
+  getConversationSummaries(clinicId: number, filters?: { status?: string; assignedUserId?: number }): Promise<ConversationSummary[]>;
+  // Newest first; pass the oldest loaded message id as beforeId to page back
+  getConversationMessages(conversationId: number, options?: { beforeId?: number; limit?: number }): Promise<Message[]>;
+
+  // Campaigns
+  getCampaigns(clinicId: number): Promise<CampaignSummary[]>;
+  getCampaign(id: number): Promise<Campaign | undefined>;
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  updateCampaign(id: number, updates: Partial<InsertCampaign>): Promise<Campaign | undefined>;
+  // Scheduled campaigns whose start time has passed, plus the ones still sending
+  getDueCampaigns(now: Date): Promise<Campaign[]>;
+  getCampaignRecipientCounts(campaignId: number): Promise<Record<CampaignRecipientStatus, number>>;
+  getCampaignRecipients(campaignId: number, status?: string): Promise<CampaignRecipient[]>;
+  // Contacts already in the campaign are left as they are; resolves to the number added
+  addCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<number>;
+  // Moves up to `limit` pending recipients to "sending"; concurrent runs never claim the same one
+  claimCampaignRecipients(campaignId: number, limit: number): Promise<CampaignRecipient[]>;
+  updateCampaignRecipient(id: number, updates: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient | undefined>;
+  skipPendingCampaignRecipients(campaignId: number, reason: string): Promise<number>;
+
+  // External calendar events (local cache of the linked calendars)
+  getExternalCalendarEvents(integrationIds: number[], range: { start: Date; end: Date }): Promise<ExternalCalendarEvent[]>;
+  // Inserts or refreshes events by (integration_id, external_id); a refreshed event is no longer deleted
+  upsertExternalCalendarEvents(events: InsertExternalCalendarEvent[]): Promise<void>;
+  softDeleteExternalCalendarEvents(integrationId: number, externalIds: string[], deletedAt: Date): Promise<number>;
+  // After a full sync: events in the synced window the provider no longer returned are marked as deleted
+  softDeleteStaleExternalCalendarEvents(integrationId: number, syncedBefore: Date, windowStart: Date): Promise<number>;
+
+  // Calendar event links (appointments pushed to external calendars)
+  getCalendarEventLinks(appointmentId: number): Promise<CalendarEventLink[]>;
+  getCalendarEventLinksForIntegration(integrationId: number): Promise<CalendarEventLink[]>;
+  getCalendarEventLinkByExternalId(integrationId: number, externalId: string): Promise<CalendarEventLink | undefined>;
+  upsertCalendarEventLink(link: InsertCalendarEventLink): Promise<CalendarEventLink>;
+  deleteCalendarEventLink(id: number): Promise<boolean>;
+
+  // Calendar sync conflicts (review queue of the professional)
+  getCalendarSyncConflicts(userId: string, status?: string): Promise<CalendarSyncConflict[]>;
+  getCalendarSyncConflict(id: number): Promise<CalendarSyncConflict | undefined>;
+  getPendingCalendarSyncConflict(appointmentId: number, integrationId: number): Promise<CalendarSyncConflict | undefined>;
+  createCalendarSyncConflict(conflict: InsertCalendarSyncConflict): Promise<CalendarSyncConflict>;
+  updateCalendarSyncConflict(id: number, updates: Partial<InsertCalendarSyncConflict>): Promise<CalendarSyncConflict | undefined>;
 }
 
 export class MemStorage implements IStorage {
@@ -434,6 +569,7 @@ export class MemStorage implements IStorage {
       priority: insertContact.priority || null,
       source: insertContact.source || null,
       notes: insertContact.notes || null,
+      campaign_opt_out_at: insertContact.campaign_opt_out_at || null,
       first_contact: now,
       last_interaction: now
     };
@@ -459,7 +595,7 @@ export class MemStorage implements IStorage {
   }
 
   // Appointments
-  async getAppointments(clinicId: number, filters?: { status?: string; date?: Date }): Promise<Appointment[]> {
+  async getAppointments(clinicId: number, filters?: { status?: string; dateRange?: { start: Date; end: Date } }): Promise<Appointment[]> {
     const allAppointments = Array.from(this.appointments.values())
       .filter(appointment => appointment.clinic_id === clinicId);
 
@@ -469,12 +605,12 @@ export class MemStorage implements IStorage {
       filteredAppointments = filteredAppointments.filter(appointment => appointment.status === filters.status);
     }
 
-    if (filters?.date) {
-      const targetDate = filters.date;
+    if (filters?.dateRange) {
+      const { start, end } = filters.dateRange;
       filteredAppointments = filteredAppointments.filter(appointment => {
         if (!appointment.scheduled_date) return false;
         const appointmentDate = new Date(appointment.scheduled_date);
-        return appointmentDate.toDateString() === targetDate.toDateString();
+        return appointmentDate >= start && appointmentDate < end;
       });
     }
 
@@ -543,6 +679,12 @@ export class MemStorage implements IStorage {
       });
   }
 
+  async getAppointmentsBySeries(seriesId: string): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter(appointment => appointment.recurrence_series_id === seriesId)
+      .sort((a, b) => (a.recurrence_index ?? 0) - (b.recurrence_index ?? 0));
+  }
+
   // Analytics
   async createAnalyticsMetric(insertMetric: InsertAnalyticsMetric): Promise<AnalyticsMetric> {
     const id = this.currentId++;
@@ -591,6 +733,11 @@ export class MemStorage implements IStorage {
     return this.clinicSettings.get(`${clinicId}-${key}`);
   }
 
+  async findClinicSettingByValue(key: string, value: string): Promise<ClinicSetting | undefined> {
+    return Array.from(this.clinicSettings.values())
+      .find(setting => setting.setting_key === key && setting.setting_value === value);
+  }
+
   async setClinicSetting(insertSetting: InsertClinicSetting): Promise<ClinicSetting> {
     const id = this.currentId++;
     const key = `${insertSetting.clinic_id}-${insertSetting.setting_key}`;
@@ -894,7 +1041,7 @@ export class MemStorage implements IStorage {
     return undefined;
   }
 
-  async getMedicalRecordByAppointment(appointmentId: number): Promise<MedicalRecord | undefined> {
+  async getMedicalRecordByAppointment(appointmentId: number, contactId?: number): Promise<MedicalRecord | undefined> {
     return undefined;
   }
 
@@ -940,7 +1087,7 @@ export class MemStorage implements IStorage {
 
 
 
-  async getCalendarIntegrations(userId: number): Promise<CalendarIntegration[]> {
+  async getCalendarIntegrations(userId: string | number): Promise<CalendarIntegration[]> {
     return [];
   }
 
@@ -956,7 +1103,7 @@ export class MemStorage implements IStorage {
     return undefined;
   }
   
-  async getCalendarIntegrationByUserAndProvider(userId: number, provider: string, email: string): Promise<CalendarIntegration | undefined> {
+  async getCalendarIntegrationByUserAndProvider(userId: string | number, provider: string, email: string): Promise<CalendarIntegration | undefined> {
     return undefined;
   }
   
@@ -975,6 +1122,339 @@ export class MemStorage implements IStorage {
   async deleteGoogleCalendarEvents(userId: string | number, calendarId?: string): Promise<number> {
     return 0;
   }
+
+  async getCalendarIntegrationsForWebhookRenewal(renewalThreshold: Date): Promise<CalendarIntegration[]> {
+    return [];
+  }
+
+  async getCalendarIntegrationByWebhook(channelId: string, resourceId: string): Promise<CalendarIntegration | undefined> {
+    return undefined;
+  }
+
+  async reencryptCalendarIntegrationTokens(): Promise<number> {
+    return 0;
+  }
+
+  // Professional Availability (stub implementations for MemStorage)
+  async getProfessionalAvailability(clinicId: number, userId: number): Promise<ProfessionalAvailability[]> {
+    return [];
+  }
+
+  async replaceProfessionalAvailability(clinicId: number, userId: number, blocks: InsertProfessionalAvailability[]): Promise<ProfessionalAvailability[]> {
+    throw new Error("MemStorage does not support professional availability");
+  }
+
+  async getProfessionalAvailabilityOverrides(clinicId: number, userId: number, dateRange?: { start: string; end: string }): Promise<ProfessionalAvailabilityOverride[]> {
+    return [];
+  }
+
+  async getProfessionalAvailabilityOverride(id: number): Promise<ProfessionalAvailabilityOverride | undefined> {
+    return undefined;
+  }
+
+  async createProfessionalAvailabilityOverride(override: InsertProfessionalAvailabilityOverride): Promise<ProfessionalAvailabilityOverride> {
+    throw new Error("MemStorage does not support professional availability");
+  }
+
+  async deleteProfessionalAvailabilityOverride(id: number): Promise<boolean> {
+    return false;
+  }
+
+  // Clinic Resources (stub implementations for MemStorage)
+  async getClinicResources(clinicId: number): Promise<ClinicResource[]> {
+    return [];
+  }
+
+  async getClinicResource(id: number): Promise<ClinicResource | undefined> {
+    return undefined;
+  }
+
+  async createClinicResource(resource: InsertClinicResource): Promise<ClinicResource> {
+    throw new Error("MemStorage does not support clinic resources");
+  }
+
+  async updateClinicResource(id: number, updates: Partial<InsertClinicResource>): Promise<ClinicResource | undefined> {
+    return undefined;
+  }
+
+  async deleteClinicResource(id: number): Promise<boolean> {
+    return false;
+  }
+
+  async getAppointmentResources(appointmentId: number): Promise<ClinicResource[]> {
+    return [];
+  }
+
+  async setAppointmentResources(appointmentId: number, resourceIds: number[]): Promise<void> {
+    throw new Error("MemStorage does not support clinic resources");
+  }
+
+  async getResourceBookings(resourceIds: number[], startDate: Date, endDate: Date): Promise<{ resource_id: number; appointment: Appointment }[]> {
+    return [];
+  }
+
+  // Waitlist (stub implementations for MemStorage)
+  async getWaitlistEntries(clinicId: number, status?: string): Promise<WaitlistEntry[]> {
+    return [];
+  }
+
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    return undefined;
+  }
+
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    throw new Error("MemStorage does not support waitlist");
+  }
+
+  async updateWaitlistEntry(id: number, updates: Partial<InsertWaitlistEntry> & { status?: string }): Promise<WaitlistEntry | undefined> {
+    return undefined;
+  }
+
+  async deleteWaitlistEntry(id: number): Promise<boolean> {
+    return false;
+  }
+
+  async getWaitlistOffers(filters: { clinicId?: number; status?: string; userId?: number; sourceAppointmentId?: number; slotRange?: { start: Date; end: Date } }): Promise<WaitlistOffer[]> {
+    return [];
+  }
+
+  async getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined> {
+    return undefined;
+  }
+
+  async createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer> {
+    throw new Error("MemStorage does not support waitlist");
+  }
+
+  async updateWaitlistOffer(id: number, updates: Partial<InsertWaitlistOffer>): Promise<WaitlistOffer | undefined> {
+    return undefined;
+  }
+
+  // Appointment Status History (stub implementations for MemStorage)
+  async getAppointmentStatusHistory(appointmentId: number): Promise<AppointmentStatusHistory[]> {
+    return [];
+  }
+
+  async getContactStatusHistory(contactId: number): Promise<AppointmentStatusHistory[]> {
+    return [];
+  }
+
+  async createAppointmentStatusHistory(entry: InsertAppointmentStatusHistory): Promise<AppointmentStatusHistory> {
+    return { id: this.currentId++, ...entry, from_status: entry.from_status ?? null, changed_by: entry.changed_by ?? null, reason: entry.reason ?? null, created_at: new Date() };
+  }
+
+  // Clinic Closures (stub implementations for MemStorage)
+  async getClinicClosures(clinicId: number): Promise<ClinicClosure[]> {
+    return [];
+  }
+
+  async getClinicClosure(id: number): Promise<ClinicClosure | undefined> {
+    return undefined;
+  }
+
+  async createClinicClosure(closure: InsertClinicClosure): Promise<ClinicClosure> {
+    throw new Error("MemStorage does not support clinic closures");
+  }
+
+  async deleteClinicClosure(id: number): Promise<boolean> {
+    return false;
+  }
+
+  // Appointment Types (stub implementations for MemStorage)
+  async getAppointmentTypes(clinicId: number): Promise<AppointmentType[]> {
+    return [];
+  }
+
+  async getAppointmentType(id: number): Promise<AppointmentType | undefined> {
+    return undefined;
+  }
+
+  async createAppointmentType(type: InsertAppointmentType): Promise<AppointmentType> {
+    throw new Error("MemStorage does not support appointment types");
+  }
+
+  async updateAppointmentType(id: number, updates: Partial<InsertAppointmentType>): Promise<AppointmentType | undefined> {
+    return undefined;
+  }
+
+  async deleteAppointmentType(id: number): Promise<boolean> {
+    return false;
+  }
+
+  // Group Session Participants (stub implementations for MemStorage)
+  async getAppointmentParticipants(appointmentId: number): Promise<AppointmentParticipant[]> {
+    return [];
+  }
+
+  async getAppointmentParticipant(id: number): Promise<AppointmentParticipant | undefined> {
+    return undefined;
+  }
+
+  async createAppointmentParticipant(participant: InsertAppointmentParticipant): Promise<AppointmentParticipant | undefined> {
+    throw new Error("MemStorage does not support group sessions");
+  }
+
+  async updateAppointmentParticipant(id: number, updates: Partial<InsertAppointmentParticipant>): Promise<AppointmentParticipant | undefined> {
+    return undefined;
+  }
+
+  async deleteAppointmentParticipant(id: number): Promise<boolean> {
+    return false;
+  }
+
+  async getAppointmentParticipantCounts(appointmentIds: number[]): Promise<Map<number, number>> {
+    return new Map();
+  }
+
+  // Appointment Reminders (stub implementations for MemStorage)
+  async getReminderLogs(appointmentId: number): Promise<ReminderLog[]> {
+    return [];
+  }
+
+  async claimReminderLog(log: InsertReminderLog): Promise<ReminderLog | undefined> {
+    throw new Error("MemStorage does not support appointment reminders");
+  }
+
+  async updateReminderLog(id: number, updates: Partial<InsertReminderLog>): Promise<ReminderLog | undefined> {
+    return undefined;
+  }
+
+  // Patient Conversations (stub implementations for MemStorage)
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return undefined;
+  }
+
+  async getOpenConversation(clinicId: number, contactId: number): Promise<Conversation | undefined> {
+    return undefined;
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    throw new Error("MemStorage does not support conversations");
+  }
+
+  async updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    return undefined;
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    throw new Error("MemStorage does not support conversations");
+  }
+
+  async getMessageByExternalId(externalId: string): Promise<Message | undefined> {
+    return undefined;
+  }
+
+  async getConversationSummaries(clinicId: number, filters?: { status?: string; assignedUserId?: number }): Promise<ConversationSummary[]> {
+    return [];
+  }
+
+  async getConversationMessages(conversationId: number, options?: { beforeId?: number; limit?: number }): Promise<Message[]> {
+    return [];
+  }
+
+  // Campaigns (stub implementations for MemStorage)
+  async getCampaigns(clinicId: number): Promise<CampaignSummary[]> {
+    return [];
+  }
+
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    return undefined;
+  }
+
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    throw new Error("MemStorage does not support campaigns");
+  }
+
+  async updateCampaign(id: number, updates: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    return undefined;
+  }
+
+  async getDueCampaigns(now: Date): Promise<Campaign[]> {
+    return [];
+  }
+
+  async getCampaignRecipientCounts(campaignId: number): Promise<Record<CampaignRecipientStatus, number>> {
+    return { pending: 0, sending: 0, sent: 0, failed: 0, skipped: 0 };
+  }
+
+  async getCampaignRecipients(campaignId: number, status?: string): Promise<CampaignRecipient[]> {
+    return [];
+  }
+
+  async addCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<number> {
+    throw new Error("MemStorage does not support campaigns");
+  }
+
+  async claimCampaignRecipients(campaignId: number, limit: number): Promise<CampaignRecipient[]> {
+    return [];
+  }
+
+  async updateCampaignRecipient(id: number, updates: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient | undefined> {
+    return undefined;
+  }
+
+  async skipPendingCampaignRecipients(campaignId: number, reason: string): Promise<number> {
+    return 0;
+  }
+
+  // External Calendar Events (stub implementations for MemStorage)
+  async getExternalCalendarEvents(integrationIds: number[], range: { start: Date; end: Date }): Promise<ExternalCalendarEvent[]> {
+    return [];
+  }
+
+  async upsertExternalCalendarEvents(events: InsertExternalCalendarEvent[]): Promise<void> {
+    throw new Error("MemStorage does not support external calendar events");
+  }
+
+  async softDeleteExternalCalendarEvents(integrationId: number, externalIds: string[], deletedAt: Date): Promise<number> {
+    return 0;
+  }
+
+  async softDeleteStaleExternalCalendarEvents(integrationId: number, syncedBefore: Date, windowStart: Date): Promise<number> {
+    return 0;
+  }
+
+  // Calendar Event Links (stub implementations for MemStorage)
+  async getCalendarEventLinks(appointmentId: number): Promise<CalendarEventLink[]> {
+    return [];
+  }
+
+  async upsertCalendarEventLink(link: InsertCalendarEventLink): Promise<CalendarEventLink> {
+    throw new Error("MemStorage does not support calendar event links");
+  }
+
+  async deleteCalendarEventLink(id: number): Promise<boolean> {
+    return false;
+  }
+
+  async getCalendarEventLinksForIntegration(integrationId: number): Promise<CalendarEventLink[]> {
+    return [];
+  }
+
+  async getCalendarEventLinkByExternalId(integrationId: number, externalId: string): Promise<CalendarEventLink | undefined> {
+    return undefined;
+  }
+
+  // Calendar Sync Conflicts (stub implementations for MemStorage)
+  async getCalendarSyncConflicts(userId: string, status?: string): Promise<CalendarSyncConflict[]> {
+    return [];
+  }
+
+  async getCalendarSyncConflict(id: number): Promise<CalendarSyncConflict | undefined> {
+    return undefined;
+  }
+
+  async getPendingCalendarSyncConflict(appointmentId: number, integrationId: number): Promise<CalendarSyncConflict | undefined> {
+    return undefined;
+  }
+
+  async createCalendarSyncConflict(conflict: InsertCalendarSyncConflict): Promise<CalendarSyncConflict> {
+    throw new Error("MemStorage does not support calendar sync conflicts");
+  }
+
+  async updateCalendarSyncConflict(id: number, updates: Partial<InsertCalendarSyncConflict>): Promise<CalendarSyncConflict | undefined> {
+    return undefined;
+  }
 }
 
 import { postgresStorage } from "./postgres-storage";
@@ -1086,7 +1566,7 @@ async function initializePostgreSQLData() {
       specialty: "Psicologia Clínica",
       appointment_type: "primeira_consulta",
       scheduled_date: tomorrow,
-      status: "agendado",
+      status: "agendada",
       duration_minutes: 60,
       payment_status: "pendente",
       payment_amount: 15000
@@ -1107,6 +1587,27 @@ async function initializePostgreSQLData() {
         setting_value: "60",
         setting_type: "number",
         description: "Duração padrão da sessão em minutos"
+      }),
+      postgresStorage.setClinicSetting({
+        clinic_id: clinic.id,
+        setting_key: "late_cancellation_hours",
+        setting_value: "24",
+        setting_type: "number",
+        description: "Cancelamentos com menos horas de antecedência contam como tardios"
+      }),
+      postgresStorage.setClinicSetting({
+        clinic_id: clinic.id,
+        setting_key: "no_show_confirmation_threshold",
+        setting_value: "2",
+        setting_type: "number",
+        description: "Exigir confirmação após N faltas (0 = desativado)"
+      }),
+      postgresStorage.setClinicSetting({
+        clinic_id: clinic.id,
+        setting_key: "no_show_self_booking_block_threshold",
+        setting_value: "3",
+        setting_type: "number",
+        description: "Bloquear agendamento online após N faltas (0 = desativado)"
       })
     ]);
 
@@ -0,0 +1,150 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface TokenKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedSource: string | undefined;
+let cachedKeys: TokenKey[] = [];
+let warnedUnencrypted = false;
+
+/**
+ * Key-encryption keys from TOKEN_ENCRYPTION_KEYS: "<id>:<32 bytes in base64>", comma
+ * separated. The first key encrypts; the others only decrypt. To rotate, put the new
+ * key first, let the startup re-encryption run, then drop the old one.
+ */
+function getKeys(): TokenKey[] {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS || '';
+  if (source === cachedSource) return cachedKeys;
+
+  cachedKeys = source.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id) || key.length !== 32) {
+      throw new Error('Invalid TOKEN_ENCRYPTION_KEYS entry');
+    }
+    return { id, key };
+  });
+  cachedSource = source;
+  return cachedKeys;
+}
+
+function findKey(id: string): TokenKey {
+  const key = getKeys().find(candidate => candidate.id === id);
+  if (!key) throw new Error(`Unknown token encryption key: ${id}`);
+  return key;
+}
+
+// AES-256-GCM; the output is iv + auth tag + ciphertext
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function unseal(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+// "enc:v1:<key id>:<wrapped data key>:<sealed token>"
+function parse(value: string) {
+  const [, , keyId, wrappedKey, sealedToken] = value.split(':');
+  if (!keyId || !wrappedKey || !sealedToken) throw new Error('Malformed encrypted token');
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, 'base64url'),
+    sealedToken: Buffer.from(sealedToken, 'base64url'),
+  };
+}
+
+export function isTokenEncryptionConfigured(): boolean {
+  return getKeys().length > 0;
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/**
+ * Envelope encryption: each token gets its own random data key, and only that data
+ * key is encrypted with the environment key. Without TOKEN_ENCRYPTION_KEYS the token
+ * is kept as is (development setups), with a warning.
+ */
+export function encryptToken(value: string): string {
+  if (isEncryptedToken(value)) return value;
+
+  const [active] = getKeys();
+  if (!active) {
+    if (!warnedUnencrypted) {
+      console.warn('⚠️ TOKEN_ENCRYPTION_KEYS not set: calendar tokens are stored unencrypted');
+      warnedUnencrypted = true;
+    }
+    return value;
+  }
+
+  const dataKey = randomBytes(32);
+  const sealedToken = seal(dataKey, Buffer.from(value, 'utf8'));
+  const wrappedKey = seal(active.key, dataKey);
+  return `${PREFIX}:${active.id}:${wrappedKey.toString('base64url')}:${sealedToken.toString('base64url')}`;
+}
+
+// Values written before encryption was turned on are plain text and come back unchanged
+export function decryptToken(value: string): string {
+  if (!isEncryptedToken(value)) return value;
+
+  const { keyId, wrappedKey, sealedToken } = parse(value);
+  const dataKey = unseal(findKey(keyId).key, wrappedKey);
+  return unseal(dataKey, sealedToken).toString('utf8');
+}
+
+// Plain text, or encrypted with a key other than the current one
+export function needsTokenReencryption(value: string): boolean {
+  const [active] = getKeys();
+  if (!active) return false;
+  return !isEncryptedToken(value) || parse(value).keyId !== active.id;
+}
+
+/**
+ * Moves a token to the current key. Only the data key is re-wrapped, the token
+ * itself is not decrypted again.
+ */
+export function reencryptToken(value: string): string {
+  if (!isEncryptedToken(value)) return encryptToken(value);
+
+  const [active] = getKeys();
+  const { keyId, wrappedKey, sealedToken } = parse(value);
+  if (!active || keyId === active.id) return value;
+
+  const dataKey = unseal(findKey(keyId).key, wrappedKey);
+  return `${PREFIX}:${active.id}:${seal(active.key, dataKey).toString('base64url')}:${sealedToken.toString('base64url')}`;
+}
+
+type TokenFields = { access_token?: string | null; refresh_token?: string | null };
+
+// Calendar integration values on their way to the database
+export function encryptCalendarTokens<T extends TokenFields>(values: T): T {
+  return {
+    ...values,
+    ...(values.access_token ? { access_token: encryptToken(values.access_token) } : {}),
+    ...(values.refresh_token ? { refresh_token: encryptToken(values.refresh_token) } : {}),
+  };
+}
+
+// Calendar integration rows read from the database
+export function decryptCalendarTokens<T extends TokenFields>(row: T): T {
+  return {
+    ...row,
+    ...(row.access_token ? { access_token: decryptToken(row.access_token) } : {}),
+    ...(row.refresh_token ? { refresh_token: decryptToken(row.refresh_token) } : {}),
+  };
+}
@@ -0,0 +1,189 @@
+import type { IStorage } from "./storage";
+import type { Appointment, WaitlistEntry, WaitlistOffer } from "@shared/schema";
+import { DEFAULT_CLINIC_TIMEZONE, getDateKeyWeekday, getZonedDateKey, getZonedTime } from "@shared/timezone";
+import { WEEK_DAYS } from "./working-hours-service";
+
+// How long a tentative hold stays reserved while the front desk reaches the contact
+const OFFER_HOLD_MS = 2 * 60 * 60 * 1000;
+
+export interface FreedSlot {
+  clinicId: number;
+  userId: number;
+  start: Date;
+  durationMinutes: number;
+  sourceAppointmentId?: number | null;
+}
+
+export function isOfferActive(offer: WaitlistOffer, now: Date = new Date()): boolean {
+  return offer.status === 'pending' && new Date(offer.expires_at) > now;
+}
+
+/**
+ * Returns the waiting contacts that fit a freed slot, best candidate first:
+ * higher priority, then contacts who asked for this professional, then whoever
+ * has been waiting the longest. Preferred days and times are read in the clinic timezone.
+ */
+export function rankWaitlistEntries(entries: WaitlistEntry[], slot: FreedSlot, timeZone: string = DEFAULT_CLINIC_TIMEZONE): WaitlistEntry[] {
+  const dayKey = WEEK_DAYS[getDateKeyWeekday(getZonedDateKey(slot.start, timeZone))];
+  const startTime = getZonedTime(slot.start, timeZone);
+
+  return entries
+    .filter(entry => entry.status === 'waiting' && entry.clinic_id === slot.clinicId)
+    .filter(entry => entry.duration_minutes <= slot.durationMinutes)
+    .filter(entry => !entry.preferred_user_id || entry.preferred_user_id === slot.userId)
+    .filter(entry => !entry.preferred_days?.length || entry.preferred_days.includes(dayKey))
+    .filter(entry => {
+      const endTime = getZonedTime(new Date(slot.start.getTime() + entry.duration_minutes * 60000), timeZone);
+      return (!entry.preferred_start_time || startTime >= entry.preferred_start_time) &&
+        (!entry.preferred_end_time || endTime <= entry.preferred_end_time);
+    })
+    .sort((a, b) =>
+      b.priority - a.priority ||
+      Number(!!b.preferred_user_id) - Number(!!a.preferred_user_id) ||
+      new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+    );
+}
+
+/**
+ * Offers freed slots to the clinic waitlist. Each offer holds the slot for one
+ * contact until the front desk confirms it (booking the appointment) or skips it
+ * (passing the slot on to the next ranked contact).
+ */
+export class WaitlistService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async handleFreedSlot(appointment: Appointment): Promise<WaitlistOffer | null> {
+    if (!appointment.scheduled_date || new Date(appointment.scheduled_date) <= new Date()) {
+      return null;
+    }
+
+    return this.offerNext({
+      clinicId: appointment.clinic_id,
+      userId: appointment.user_id,
+      start: new Date(appointment.scheduled_date),
+      durationMinutes: appointment.duration_minutes || 60,
+      sourceAppointmentId: appointment.id
+    });
+  }
+
+  async confirmOffer(offer: WaitlistOffer): Promise<{ offer: WaitlistOffer; appointment: Appointment }> {
+    if (!isOfferActive(offer)) {
+      throw new Error('Offer is no longer pending');
+    }
+
+    const entry = await this.storage.getWaitlistEntry(offer.waitlist_entry_id);
+    if (!entry) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    const professional = await this.storage.getUser(offer.user_id);
+    const appointment = await this.storage.createAppointment({
+      contact_id: entry.contact_id,
+      clinic_id: offer.clinic_id,
+      user_id: offer.user_id,
+      doctor_name: professional?.name || null,
+      appointment_type: entry.appointment_type,
+      scheduled_date: new Date(offer.slot_start),
+      duration_minutes: entry.duration_minutes,
+      status: 'agendada',
+      session_notes: entry.notes
+    });
+
+    const confirmed = await this.storage.updateWaitlistOffer(offer.id, {
+      status: 'confirmed',
+      appointment_id: appointment.id
+    });
+    await this.storage.updateWaitlistEntry(entry.id, { status: 'booked' });
+
+    return { offer: confirmed!, appointment };
+  }
+
+  async skipOffer(offer: WaitlistOffer): Promise<{ offer: WaitlistOffer; nextOffer: WaitlistOffer | null }> {
+    if (offer.status !== 'pending') {
+      throw new Error('Offer is no longer pending');
+    }
+
+    const skipped = await this.storage.updateWaitlistOffer(offer.id, { status: 'skipped' });
+    await this.releaseEntry(offer.waitlist_entry_id);
+
+    const nextOffer = new Date(offer.slot_start) > new Date()
+      ? await this.offerNext(this.slotFromOffer(offer))
+      : null;
+
+    return { offer: skipped!, nextOffer };
+  }
+
+  /**
+   * Expires holds nobody acted on in time and passes their slots on.
+   * Called lazily whenever the queue is read.
+   */
+  async expireStaleOffers(clinicId: number): Promise<void> {
+    const pending = await this.storage.getWaitlistOffers({ clinicId, status: 'pending' });
+
+    for (const offer of pending.filter(offer => !isOfferActive(offer))) {
+      await this.storage.updateWaitlistOffer(offer.id, { status: 'expired' });
+      await this.releaseEntry(offer.waitlist_entry_id);
+
+      if (new Date(offer.slot_start) > new Date()) {
+        await this.offerNext(this.slotFromOffer(offer));
+      }
+    }
+  }
+
+  private async offerNext(slot: FreedSlot): Promise<WaitlistOffer | null> {
+    // Contacts already offered this exact slot are not offered it again
+    const previousOffers = await this.storage.getWaitlistOffers({
+      clinicId: slot.clinicId,
+      userId: slot.userId,
+      slotRange: { start: slot.start, end: slot.start }
+    });
+    if (previousOffers.some(offer => isOfferActive(offer))) {
+      return null;
+    }
+
+    const offeredEntryIds = previousOffers.map(offer => offer.waitlist_entry_id);
+    const entries = await this.storage.getWaitlistEntries(slot.clinicId, 'waiting');
+    const clinic = await this.storage.getClinic(slot.clinicId);
+    const [candidate] = rankWaitlistEntries(
+      entries.filter(entry => !offeredEntryIds.includes(entry.id)),
+      slot,
+      clinic?.timezone || DEFAULT_CLINIC_TIMEZONE
+    );
+    if (!candidate) return null;
+
+    const offer = await this.storage.createWaitlistOffer({
+      clinic_id: slot.clinicId,
+      waitlist_entry_id: candidate.id,
+      user_id: slot.userId,
+      slot_start: slot.start,
+      duration_minutes: slot.durationMinutes,
+      source_appointment_id: slot.sourceAppointmentId ?? null,
+      status: 'pending',
+      expires_at: new Date(Math.min(Date.now() + OFFER_HOLD_MS, slot.start.getTime()))
+    });
+    await this.storage.updateWaitlistEntry(candidate.id, { status: 'offered' });
+
+    return offer;
+  }
+
+  private async releaseEntry(entryId: number): Promise<void> {
+    const entry = await this.storage.getWaitlistEntry(entryId);
+    if (entry?.status === 'offered') {
+      await this.storage.updateWaitlistEntry(entryId, { status: 'waiting' });
+    }
+  }
+
+  private slotFromOffer(offer: WaitlistOffer): FreedSlot {
+    return {
+      clinicId: offer.clinic_id,
+      userId: offer.user_id,
+      start: new Date(offer.slot_start),
+      durationMinutes: offer.duration_minutes,
+      sourceAppointmentId: offer.source_appointment_id
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { readFile } from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import type { InboundMessage, InboundResult } from "./inbound-message-service";
+import { WhatsAppMessageAdapter, createWhatsAppWebhookHandler } from "./whatsapp-channel";
+
+const APP_SECRET = 'test-app-secret';
+const PHONE_NUMBER_ID = '106540352242922'; // the number the fixtures were delivered to
+
+// Messages already stored by external id, as messages.external_id would hold them
+const storedExternalIds = new Set<string>();
+const handled: InboundMessage[] = [];
+
+const storage = {
+  getMessageByExternalId: async (externalId: string) => storedExternalIds.has(externalId) ? ({ id: 1 } as any) : undefined,
+  findClinicSettingByValue: async (_key: string, value: string) => value === PHONE_NUMBER_ID ? ({ clinic_id: 7 } as any) : undefined,
+};
+
+const inboundMessageService = {
+  handleInbound: async (inbound: InboundMessage): Promise<InboundResult> => {
+    handled.push(inbound);
+    storedExternalIds.add(inbound.externalId!);
+    return { action: 'queued', conversation: { id: 1 } } as InboundResult;
+  },
+};
+
+let webhookUrl = '';
+let server: http.Server;
+
+before(async () => {
+  process.env.WHATSAPP_APP_SECRET = APP_SECRET;
+  const app = express();
+  app.use(express.json({ verify: (req, _res, buf) => { (req as any).rawBody = buf; } }));
+  app.post('/api/webhooks/whatsapp', createWhatsAppWebhookHandler({ storage, inboundMessageService }));
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/whatsapp`;
+});
+
+after(() => {
+  server.close();
+});
+
+const readFixture = (name: string) => readFile(new URL(`./dev/whatsapp-fixtures/${name}`, import.meta.url));
+
+// Posts a recorded payload the way Meta does, signed with the app secret
+async function deliver(body: Buffer, signature = 'sha256=' + createHmac('sha256', APP_SECRET).update(body).digest('hex')) {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': signature },
+    body,
+  });
+  return { status: response.status, data: await response.json() };
+}
+
+test("webhook rejects deliveries with a wrong signature", async () => {
+  const body = await readFixture('text-message.json');
+  const result = await deliver(body, 'sha256=' + createHmac('sha256', 'other-secret').update(body).digest('hex'));
+  assert.equal(result.status, 401);
+  assert.equal(handled.length, 0);
+});
+
+test("webhook hands a text message to the inbound flow once, even when Meta retries it", async () => {
+  const body = await readFixture('text-message.json');
+
+  const first = await deliver(body);
+  assert.equal(first.status, 200);
+  assert.deepEqual(first.data, { received: 1 });
+  assert.equal(handled.length, 1);
+  assert.deepEqual(handled[0], {
+    clinicId: 7,
+    from: '5511987654321',
+    body: 'Sim, confirmo!',
+    senderName: 'Maria Souza',
+    externalId: 'wamid.HBgNNTUxMTk4NzY1NDMyMRUCABIYFjNFQjBDMEQ3RjE2QjQ1NzY0QUFBAA==',
+  });
+
+  const retry = await deliver(body);
+  assert.deepEqual(retry.data, { received: 0 });
+  assert.equal(handled.length, 1);
+});
+
+test("webhook reads quick-reply buttons and skips delivery statuses", async () => {
+  const button = await deliver(await readFixture('button-reply.json'));
+  assert.deepEqual(button.data, { received: 1 });
+  assert.equal(handled.at(-1)?.body, 'Preciso remarcar');
+  assert.equal(handled.at(-1)?.senderName, 'João Lima');
+
+  const status = await deliver(await readFixture('status-update.json'));
+  assert.deepEqual(status.data, { received: 0 });
+});
+
+test("adapter posts text and template messages to the Graph API", async () => {
+  const requests: { url?: string; authorization?: string; body: any }[] = [];
+  const graphApi = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ messaging_product: 'whatsapp', messages: [{ id: `wamid.fake-${requests.length}` }] }));
+    });
+  }).listen(0);
+  await new Promise(resolve => graphApi.once('listening', resolve));
+
+  try {
+    const adapter = new WhatsAppMessageAdapter({
+      accessToken: 'test-token',
+      apiUrl: `http://127.0.0.1:${(graphApi.address() as AddressInfo).port}`,
+      resolvePhoneNumberId: async clinicId => clinicId === 7 ? PHONE_NUMBER_ID : undefined,
+    });
+
+    const text = await adapter.send({ clinicId: 7, to: '(11) 98765-4321', body: 'Olá!' });
+    const template = await adapter.send({
+      clinicId: 7,
+      to: '11987654321',
+      body: 'Olá!',
+      template: { name: 'lembrete_consulta', language: 'pt_BR', parameters: ['Maria', '20/10/2026'] },
+    });
+
+    assert.equal(text.externalId, 'wamid.fake-1');
+    assert.equal(template.externalId, 'wamid.fake-2');
+    assert.equal(requests[0].url, `/${PHONE_NUMBER_ID}/messages`);
+    assert.equal(requests[0].authorization, 'Bearer test-token');
+    assert.deepEqual(requests[0].body, {
+      messaging_product: 'whatsapp',
+      to: '5511987654321',
+      type: 'text',
+      text: { body: 'Olá!', preview_url: true },
+    });
+    assert.deepEqual(requests[1].body, {
+      messaging_product: 'whatsapp',
+      to: '5511987654321',
+      type: 'template',
+      template: {
+        name: 'lembrete_consulta',
+        language: { code: 'pt_BR' },
+        components: [{ type: 'body', parameters: [{ type: 'text', text: 'Maria' }, { type: 'text', text: '20/10/2026' }] }],
+      },
+    });
+
+    await assert.rejects(adapter.send({ clinicId: 8, to: '11987654321', body: 'Olá!' }), /No WhatsApp number configured/);
+  } finally {
+    graphApi.close();
+  }
+});
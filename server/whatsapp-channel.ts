@@ -0,0 +1,262 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { MessageChannelAdapter, OutboundMessage, SendResult } from "./message-channels";
+import type { InboundMessage, InboundResult } from "./inbound-message-service";
+import { renderTemplate, type TemplateVariables } from "./message-template-service";
+
+// clinic_settings keys: the clinic's WhatsApp Business phone number id, and the approved
+// templates (json, see whatsAppTemplateSettingSchema) reminders and campaigns are sent with
+export const WHATSAPP_SETTING_KEYS = {
+  phoneNumberId: 'whatsapp_phone_number_id',
+  reminderTemplate: 'whatsapp_reminder_template',
+  campaignTemplate: 'whatsapp_campaign_template',
+} as const;
+
+/**
+ * An approved template, e.g. {"name": "lembrete_consulta", "language": "pt_BR",
+ * "parameters": ["{{primeiro_nome}}", "{{data | extenso}}", "{{hora}}"]}. Each parameter
+ * is a message template filling {{1}}, {{2}}... in order; {{mensagem}} is the text
+ * that would otherwise go out as free text.
+ */
+export const whatsAppTemplateSettingSchema = z.object({
+  name: z.string().trim().min(1),
+  language: z.string().trim().min(2).default('pt_BR'),
+  parameters: z.array(z.string()).default([]),
+});
+
+// Template to send for a clinic setting value; undefined when the clinic set none
+export function buildWhatsAppTemplate(settingValue: string | undefined, variables: TemplateVariables, body: string): OutboundMessage['template'] {
+  if (!settingValue) return undefined;
+
+  let setting: z.infer<typeof whatsAppTemplateSettingSchema>;
+  try {
+    setting = whatsAppTemplateSettingSchema.parse(JSON.parse(settingValue));
+  } catch {
+    throw new Error('Invalid WhatsApp template setting');
+  }
+
+  const values = { ...variables, mensagem: body };
+  return {
+    name: setting.name,
+    language: setting.language,
+    // The API rejects parameters with line breaks or empty text
+    parameters: setting.parameters.map(parameter => renderTemplate(parameter, values).replace(/\s+/g, ' ').trim() || '-'),
+  };
+}
+
+const DEFAULT_API_URL = 'https://graph.facebook.com/v19.0';
+
+// Cloud API webhook payload (only the fields we read)
+export interface WhatsAppWebhookPayload {
+  object?: string;
+  entry?: {
+    changes?: {
+      field?: string;
+      value?: {
+        metadata?: { phone_number_id?: string; display_phone_number?: string };
+        contacts?: { wa_id?: string; profile?: { name?: string } }[];
+        messages?: WhatsAppWebhookMessage[];
+        statuses?: { id?: string; status?: string; recipient_id?: string }[];
+      };
+    }[];
+  }[];
+}
+
+interface WhatsAppWebhookMessage {
+  id: string;
+  from: string;
+  timestamp?: string;
+  type: string;
+  text?: { body?: string };
+  button?: { text?: string };
+  interactive?: { button_reply?: { title?: string }; list_reply?: { title?: string } };
+}
+
+export interface WhatsAppInboundMessage {
+  phoneNumberId: string; // clinic number that received the message
+  externalId: string;
+  from: string;
+  senderName?: string;
+  body: string;
+}
+
+// Placeholder text for media we don't download, so the inbox still shows that something arrived
+const MEDIA_LABELS: Record<string, string> = {
+  image: '[Imagem recebida]',
+  audio: '[Áudio recebido]',
+  video: '[Vídeo recebido]',
+  document: '[Documento recebido]',
+  sticker: '[Figurinha recebida]',
+  location: '[Localização recebida]',
+};
+
+/**
+ * Checks the X-Hub-Signature-256 header ("sha256=<hex HMAC of the raw body>") that
+ * Meta signs every webhook with, using the app secret.
+ */
+export function verifyWhatsAppSignature(rawBody: Buffer, signatureHeader: string | undefined, appSecret: string): boolean {
+  if (!signatureHeader?.startsWith('sha256=')) return false;
+  const expected = Buffer.from(createHmac('sha256', appSecret).update(rawBody).digest('hex'));
+  const received = Buffer.from(signatureHeader.slice('sha256='.length));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// WhatsApp ids are digits with the country code; Brazilian numbers without one get 55
+export function toWhatsAppNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 10 || digits.length === 11 ? `55${digits}` : digits;
+}
+
+// Patient messages in a webhook delivery; delivery statuses and other fields are skipped
+export function parseWhatsAppWebhook(payload: WhatsAppWebhookPayload): WhatsAppInboundMessage[] {
+  const inbound: WhatsAppInboundMessage[] = [];
+
+  for (const entry of payload.entry || []) {
+    for (const change of entry.changes || []) {
+      const value = change.value;
+      const phoneNumberId = value?.metadata?.phone_number_id;
+      if (!value?.messages || !phoneNumberId) continue;
+
+      for (const message of value.messages) {
+        const body = message.text?.body
+          ?? message.button?.text
+          ?? message.interactive?.button_reply?.title
+          ?? message.interactive?.list_reply?.title
+          ?? MEDIA_LABELS[message.type];
+        if (!body) continue;
+
+        inbound.push({
+          phoneNumberId,
+          externalId: message.id,
+          from: message.from,
+          senderName: value.contacts?.find(contact => contact.wa_id === message.from)?.profile?.name,
+          body,
+        });
+      }
+    }
+  }
+
+  return inbound;
+}
+
+export interface WhatsAppWebhookOptions {
+  storage: Pick<IStorage, 'getMessageByExternalId' | 'findClinicSettingByValue'>;
+  inboundMessageService: { handleInbound(inbound: InboundMessage): Promise<InboundResult> };
+  onReceived?: (clinicId: number, result: InboundResult) => void;
+}
+
+/**
+ * POST /api/webhooks/whatsapp: checks the signature of the raw body (kept by the JSON
+ * parser as req.rawBody) and hands each new patient message to the inbound flow.
+ * Deliveries Meta retries are recognized by message id.
+ */
+export function createWhatsAppWebhookHandler({ storage, inboundMessageService, onReceived }: WhatsAppWebhookOptions) {
+  return async (req: Request, res: Response) => {
+    try {
+      const appSecret = process.env.WHATSAPP_APP_SECRET;
+      if (!appSecret) {
+        return res.status(503).json({ error: "WhatsApp webhook not configured" });
+      }
+
+      const rawBody: Buffer | undefined = (req as any).rawBody;
+      if (!rawBody || !verifyWhatsAppSignature(rawBody, req.get('x-hub-signature-256'), appSecret)) {
+        return res.status(401).json({ error: "Invalid signature" });
+      }
+
+      let received = 0;
+      for (const inbound of parseWhatsAppWebhook(req.body as WhatsAppWebhookPayload)) {
+        if (await storage.getMessageByExternalId(inbound.externalId)) continue;
+
+        const clinicId = (await storage.findClinicSettingByValue(WHATSAPP_SETTING_KEYS.phoneNumberId, inbound.phoneNumberId))?.clinic_id;
+        if (!clinicId) {
+          console.warn(`WhatsApp message for unknown phone number id ${inbound.phoneNumberId} ignored`);
+          continue;
+        }
+
+        const result = await inboundMessageService.handleInbound({
+          clinicId,
+          from: inbound.from,
+          body: inbound.body,
+          senderName: inbound.senderName,
+          externalId: inbound.externalId
+        });
+        onReceived?.(clinicId, result);
+        received++;
+      }
+
+      res.status(200).json({ received });
+    } catch (error) {
+      console.error("Error handling WhatsApp webhook:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+}
+
+export interface WhatsAppAdapterConfig {
+  accessToken: string;
+  apiUrl?: string; // point at a local fake Graph API in development
+  defaultPhoneNumberId?: string;
+  // Number a clinic sends from; falls back to defaultPhoneNumberId
+  resolvePhoneNumberId?: (clinicId: number) => Promise<string | undefined>;
+}
+
+/**
+ * WhatsApp Cloud API channel. Sends free text, or a pre-approved template when the
+ * message carries one (required outside the 24h customer service window).
+ */
+export class WhatsAppMessageAdapter implements MessageChannelAdapter {
+  readonly name = 'whatsapp';
+  private config: WhatsAppAdapterConfig;
+
+  constructor(config: WhatsAppAdapterConfig) {
+    this.config = config;
+  }
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const phoneNumberId = (await this.config.resolvePhoneNumberId?.(message.clinicId)) || this.config.defaultPhoneNumberId;
+    if (!phoneNumberId) {
+      throw new Error(`No WhatsApp number configured for clinic ${message.clinicId}`);
+    }
+
+    const content = message.template
+      ? {
+          type: 'template',
+          template: {
+            name: message.template.name,
+            language: { code: message.template.language },
+            components: message.template.parameters.length > 0
+              ? [{ type: 'body', parameters: message.template.parameters.map(text => ({ type: 'text', text })) }]
+              : [],
+          },
+        }
+      : { type: 'text', text: { body: message.body, preview_url: true } };
+
+    const response = await fetch(`${this.config.apiUrl || DEFAULT_API_URL}/${phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ messaging_product: 'whatsapp', to: toWhatsAppNumber(message.to), ...content }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`WhatsApp API error ${response.status}: ${data.error?.message || response.statusText}`);
+    }
+    return { externalId: data.messages?.[0]?.id };
+  }
+}
+
+// Adapter configured from WHATSAPP_* variables; undefined when no access token is set
+export function createWhatsAppAdapterFromEnv(resolvePhoneNumberId?: WhatsAppAdapterConfig['resolvePhoneNumberId']): WhatsAppMessageAdapter | undefined {
+  if (!process.env.WHATSAPP_ACCESS_TOKEN) return undefined;
+  return new WhatsAppMessageAdapter({
+    accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+    apiUrl: process.env.WHATSAPP_API_URL,
+    defaultPhoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+    resolvePhoneNumberId,
+  });
+}
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { Clinic, ProfessionalAvailabilityOverride } from "@shared/schema";
+import { getDateKeyWeekday } from "@shared/timezone";
+import { getClosuresOn, isFullDayClosure } from "@shared/clinic-closures";
+
+export const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Horário deve estar no formato HH:mm");
+
+const blockRangeRefinement = {
+  check: (block: { start_time?: string | null; end_time?: string | null }) =>
+    !block.start_time || !block.end_time || block.start_time < block.end_time,
+  message: "O horário final deve ser posterior ao inicial",
+};
+
+// Body of PUT /api/clinic/:clinicId/professionals/:userId/availability
+export const weeklyAvailabilitySchema = z.object({
+  blocks: z.array(z.object({
+    day_of_week: z.enum(WEEK_DAYS),
+    start_time: timeSchema,
+    end_time: timeSchema,
+  }).refine(blockRangeRefinement.check, blockRangeRefinement.message)),
+});
+
+// Body of POST /api/clinic/:clinicId/professionals/:userId/availability/overrides
+export const availabilityOverrideSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato YYYY-MM-DD"),
+  is_available: z.boolean().default(false),
+  start_time: timeSchema.nullable().optional(),
+  end_time: timeSchema.nullable().optional(),
+  reason: z.string().nullable().optional(),
+}).refine(blockRangeRefinement.check, blockRangeRefinement.message)
+  .refine(override => !override.is_available || (override.start_time && override.end_time), {
+    message: "Informe o horário do expediente extra",
+  });
+
+export interface WorkingBlock {
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface WorkingSchedule {
+  date: string; // YYYY-MM-DD
+  isWorkingDay: boolean;
+  blocks: WorkingBlock[];
+  source: 'clinic' | 'professional' | 'override' | 'closure';
+  reason?: string | null;
+}
+
+export function getDayOfWeekKey(date: string): string {
+  return WEEK_DAYS[getDateKeyWeekday(date)];
+}
+
+/**
+ * Clinic-wide hours as blocks: the lunch break splits the day in two.
+ */
+export function getClinicBlocks(clinic: Clinic, date: string): WorkingBlock[] {
+  const workingDays = clinic.working_days || ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+  if (!workingDays.includes(getDayOfWeekKey(date))) return [];
+
+  const start = clinic.work_start || '08:00';
+  const end = clinic.work_end || '18:00';
+
+  if (clinic.has_lunch_break && clinic.lunch_start && clinic.lunch_end) {
+    return [
+      { start, end: clinic.lunch_start },
+      { start: clinic.lunch_end, end }
+    ].filter(block => block.start < block.end);
+  }
+
+  return [{ start, end }];
+}
+
+/**
+ * Removes a blocked window from a list of blocks, splitting blocks when needed.
+ */
+export function subtractWindow(blocks: WorkingBlock[], window: WorkingBlock): WorkingBlock[] {
+  return blocks.flatMap(block => {
+    if (window.end <= block.start || window.start >= block.end) return [block];
+
+    const remaining: WorkingBlock[] = [];
+    if (window.start > block.start) remaining.push({ start: block.start, end: window.start });
+    if (window.end < block.end) remaining.push({ start: window.end, end: block.end });
+    return remaining;
+  });
+}
+
+/**
+ * Returns true when the blocks overlap each other. Used to validate weekly templates.
+ */
+export function hasOverlappingBlocks(blocks: WorkingBlock[]): boolean {
+  const sorted = [...blocks].sort((a, b) => a.start.localeCompare(b.start));
+  return sorted.some((block, index) => index > 0 && block.start < sorted[index - 1].end);
+}
+
+/**
+ * Resolves the working hours of a professional on a given date.
+ * Precedence: clinic closures > date overrides > professional weekly template > clinic hours.
+ */
+export class WorkingHoursService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getSchedule(clinicId: number, userId: number | null | undefined, date: string): Promise<WorkingSchedule> {
+    const clinic = await this.storage.getClinic(clinicId);
+    if (!clinic) {
+      throw new Error('Clinic not found');
+    }
+
+    let blocks = getClinicBlocks(clinic, date);
+    let source: WorkingSchedule['source'] = 'clinic';
+    let reason: string | null = null;
+
+    if (userId) {
+      const template = await this.storage.getProfessionalAvailability(clinicId, userId);
+      if (template.length > 0) {
+        const dayKey = getDayOfWeekKey(date);
+        blocks = template
+          .filter(block => block.day_of_week === dayKey)
+          .map(block => ({ start: block.start_time, end: block.end_time }));
+        source = 'professional';
+      }
+
+      const overrides = await this.storage.getProfessionalAvailabilityOverrides(clinicId, userId, { start: date, end: date });
+      if (overrides.length > 0) {
+        blocks = this.applyOverrides(blocks, overrides);
+        source = 'override';
+        reason = overrides.find(override => override.reason)?.reason || null;
+      }
+    }
+
+    // Holidays and other clinic closures apply to every professional
+    const closures = getClosuresOn(await this.storage.getClinicClosures(clinicId), date);
+    if (closures.length > 0) {
+      for (const closure of closures) {
+        blocks = isFullDayClosure(closure) ? [] : subtractWindow(blocks, { start: closure.start_time!, end: closure.end_time! });
+      }
+      source = 'closure';
+      reason = closures[0].reason;
+    }
+
+    blocks.sort((a, b) => a.start.localeCompare(b.start));
+
+    return {
+      date,
+      isWorkingDay: blocks.length > 0,
+      blocks,
+      source,
+      reason
+    };
+  }
+
+  private applyOverrides(blocks: WorkingBlock[], overrides: ProfessionalAvailabilityOverride[]): WorkingBlock[] {
+    // A day off wins over everything else
+    if (overrides.some(override => !override.is_available && !override.start_time)) {
+      return [];
+    }
+
+    // Extra/replacement hours for the day replace the weekly template
+    const replacement = overrides
+      .filter(override => override.is_available && override.start_time && override.end_time)
+      .map(override => ({ start: override.start_time!, end: override.end_time! }));
+
+    let result = replacement.length > 0 ? replacement : blocks;
+
+    for (const override of overrides) {
+      if (!override.is_available && override.start_time && override.end_time) {
+        result = subtractWindow(result, { start: override.start_time, end: override.end_time });
+      }
+    }
+
+    return result;
+  }
+}
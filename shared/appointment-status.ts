@@ -0,0 +1,77 @@
+// Appointment status lifecycle shared by the API and the agenda UI
+
+export const APPOINTMENT_STATUSES = [
+  'agendada',
+  'confirmada',
+  'paciente_aguardando',
+  'paciente_em_atendimento',
+  'finalizada',
+  'faltou',
+  'cancelada_paciente',
+  'cancelada_dentista',
+] as const;
+
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+const CANCELLATIONS: AppointmentStatus[] = ['cancelada_paciente', 'cancelada_dentista'];
+
+// Statuses that give the slot back to the agenda
+export const CANCELLED_APPOINTMENT_STATUSES: string[] = CANCELLATIONS;
+
+// Allowed next statuses. Finished, missed and cancelled appointments are final.
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  agendada: ['confirmada', 'paciente_aguardando', 'faltou', ...CANCELLATIONS],
+  confirmada: ['paciente_aguardando', 'faltou', ...CANCELLATIONS],
+  paciente_aguardando: ['paciente_em_atendimento', ...CANCELLATIONS],
+  paciente_em_atendimento: ['finalizada'],
+  finalizada: [],
+  faltou: [],
+  cancelada_paciente: [],
+  cancelada_dentista: [],
+};
+
+// Timestamp recorded on the appointment when it enters a status
+export const APPOINTMENT_STATUS_TIMESTAMPS: Partial<Record<AppointmentStatus, 'arrived_at' | 'started_at' | 'finished_at'>> = {
+  paciente_aguardando: 'arrived_at',
+  paciente_em_atendimento: 'started_at',
+  finalizada: 'finished_at',
+};
+
+// Values written by older versions of the app
+const LEGACY_APPOINTMENT_STATUSES: Record<string, AppointmentStatus> = {
+  pendente: 'agendada',
+  pending: 'agendada',
+  scheduled: 'agendada',
+  agendado: 'agendada',
+  confirmed: 'confirmada',
+  realizada: 'finalizada',
+  completed: 'finalizada',
+  cancelada: 'cancelada_paciente',
+  cancelled: 'cancelada_paciente',
+  no_show: 'faltou',
+};
+
+export function isAppointmentStatus(status: string): status is AppointmentStatus {
+  return (APPOINTMENT_STATUSES as readonly string[]).includes(status);
+}
+
+export function normalizeAppointmentStatus(status: string | null | undefined): AppointmentStatus | null {
+  if (!status) return null;
+  if (isAppointmentStatus(status)) return status;
+  return LEGACY_APPOINTMENT_STATUSES[status] ?? null;
+}
+
+export function getNextAppointmentStatuses(status: string): AppointmentStatus[] {
+  const current = normalizeAppointmentStatus(status);
+  return current ? APPOINTMENT_STATUS_TRANSITIONS[current] : [...APPOINTMENT_STATUSES];
+}
+
+export function canTransitionAppointmentStatus(from: string, to: string): boolean {
+  return isAppointmentStatus(to) && getNextAppointmentStatuses(from).includes(to);
+}
+
+// Whether an appointment in this status still takes up its time on the agenda
+export function occupiesAgendaSlot(status: string): boolean {
+  const current = normalizeAppointmentStatus(status);
+  return !current || (current !== 'faltou' && !CANCELLED_APPOINTMENT_STATUSES.includes(current));
+}
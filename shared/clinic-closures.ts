@@ -0,0 +1,95 @@
+// Clinic closures (holidays, maintenance days) shared by the slot finder and the agenda UI.
+// A closure is a calendar day ("YYYY-MM-DD") in the clinic timezone, optionally
+// repeating every year and optionally limited to a window of the day.
+
+export interface ClosureRule {
+  date: string; // YYYY-MM-DD - first day for yearly closures
+  recurs_yearly: boolean | null;
+  start_time: string | null; // HH:mm - empty closes the whole day
+  end_time: string | null; // HH:mm
+  reason: string | null;
+}
+
+export function closureAppliesOn(closure: ClosureRule, dateKey: string): boolean {
+  if (!closure.recurs_yearly) return closure.date === dateKey;
+  return dateKey >= closure.date && closure.date.slice(5) === dateKey.slice(5);
+}
+
+export function isFullDayClosure(closure: ClosureRule): boolean {
+  return !closure.start_time || !closure.end_time;
+}
+
+export function getClosuresOn<T extends ClosureRule>(closures: T[], dateKey: string): T[] {
+  return closures.filter(closure => closureAppliesOn(closure, dateKey));
+}
+
+// True when a full-day closure falls on the date (partial closures leave the day open)
+export function isClosedDay(closures: ClosureRule[], dateKey: string): boolean {
+  return getClosuresOn(closures, dateKey).some(isFullDayClosure);
+}
+
+// True when the wall-clock time ("HH:mm") falls inside a closure of the date
+export function isClosedAt(closures: ClosureRule[], dateKey: string, time: string): boolean {
+  return getClosuresOn(closures, dateKey).some(closure =>
+    isFullDayClosure(closure) || (time >= closure.start_time! && time < closure.end_time!)
+  );
+}
+
+/**
+ * The closure that overlaps a wall-clock window ("HH:mm", end exclusive) of the
+ * date, if any. Windows running past midnight are passed with end "24:00".
+ */
+export function findOverlappingClosure<T extends ClosureRule>(closures: T[], dateKey: string, startTime: string, endTime: string): T | undefined {
+  return getClosuresOn(closures, dateKey).find(closure =>
+    isFullDayClosure(closure) || (startTime < closure.end_time! && endTime > closure.start_time!)
+  );
+}
+
+// Easter Sunday (anonymous Gregorian algorithm), the base of the movable holidays
+function getEasterDateKey(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Brazilian national holidays (Lei 662/1949 and later laws) of a year. Fixed-date
+ * holidays recur yearly; Good Friday moves with Easter, so it is a one-off closure.
+ * Pontos facultativos (Carnaval, Corpus Christi) and state/city holidays are left
+ * for each clinic to add.
+ */
+export function getBrazilianNationalHolidays(year: number): Omit<ClosureRule, 'start_time' | 'end_time'>[] {
+  const fixed: [string, string, number?][] = [
+    ['01-01', 'Confraternização Universal'],
+    ['04-21', 'Tiradentes'],
+    ['05-01', 'Dia do Trabalho'],
+    ['09-07', 'Independência do Brasil'],
+    ['10-12', 'Nossa Senhora Aparecida'],
+    ['11-02', 'Finados'],
+    ['11-15', 'Proclamação da República'],
+    ['11-20', 'Dia Nacional de Zumbi e da Consciência Negra', 2024],
+    ['12-25', 'Natal'],
+  ];
+
+  const [, easterMonth, easterDay] = getEasterDateKey(year).split('-').map(Number);
+  const goodFriday = new Date(Date.UTC(year, easterMonth - 1, easterDay - 2)).toISOString().split('T')[0];
+
+  return [
+    ...fixed
+      .filter(([, , since]) => !since || year >= since)
+      .map(([monthDay, reason]) => ({ date: `${year}-${monthDay}`, recurs_yearly: true, reason })),
+    { date: goodFriday, recurs_yearly: false, reason: 'Sexta-feira Santa' },
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
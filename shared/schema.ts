@@ -1,6 +1,7 @@
 import { pgTable, text, serial, integer, boolean, timestamp, varchar, decimal, date, jsonb, index, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { APPOINTMENT_STATUSES } from "./appointment-status";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -45,6 +46,7 @@ export const clinic_users = pgTable("clinic_users", {
   clinic_id: integer("clinic_id").notNull(),
   user_id: integer("user_id").notNull(),
   role: varchar("role").notNull().default("user"), // admin, manager, user, readonly
+  is_professional: boolean("is_professional").notNull().default(false), // Controlled only by admins
   permissions: jsonb("permissions"), // Specific permissions for this clinic
   is_active: boolean("is_active").notNull().default(true),
   invited_by: integer("invited_by"),
@@ -132,6 +134,7 @@ export const contacts = pgTable("contacts", {
   priority: text("priority").default("normal"), // baixa, normal, alta, urgente
   source: text("source").default("whatsapp"), // whatsapp, site, indicacao, outros
   notes: text("notes"),
+  campaign_opt_out_at: timestamp("campaign_opt_out_at"), // pediu para não receber campanhas (lembretes continuam)
   first_contact: timestamp("first_contact").defaultNow(),
   last_interaction: timestamp("last_interaction").defaultNow(),
 });
@@ -140,7 +143,9 @@ export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   contact_id: integer("contact_id").references(() => contacts.id),
   clinic_id: integer("clinic_id").references(() => clinics.id),
-  status: text("status").notNull(),
+  status: text("status").notNull(), // aberta, aguardando_equipe, fechada
+  assigned_user_id: integer("assigned_user_id").references(() => users.id), // responsável na equipe
+  last_read_at: timestamp("last_read_at"), // mensagens do paciente depois disso contam como não lidas
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -148,11 +153,17 @@ export const conversations = pgTable("conversations", {
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   conversation_id: integer("conversation_id").references(() => conversations.id),
-  sender_type: text("sender_type").notNull(), // patient, ai
+  sender_type: text("sender_type").notNull(), // patient, ai, staff
+  sender_user_id: integer("sender_user_id").references(() => users.id), // autor das respostas da equipe
   content: text("content").notNull(),
   ai_action: text("ai_action"), // agendou_consulta, enviou_followup, etc
+  appointment_id: integer("appointment_id").references(() => appointments.id, { onDelete: "set null" }), // consulta a que a mensagem se refere
+  intent: text("intent"), // resposta do paciente: confirm, cancel, reschedule, unknown
+  external_id: text("external_id"), // id da mensagem no canal (ex.: WhatsApp), evita processar o mesmo webhook duas vezes
   timestamp: timestamp("timestamp").defaultNow(),
-});
+}, (table) => [
+  unique().on(table.external_id),
+]);
 
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
@@ -176,12 +187,28 @@ export const appointments = pgTable("appointments", {
   payment_status: text("payment_status").default("pendente"), // pendente, pago, isento
   payment_amount: integer("payment_amount"), // valor em centavos
   google_calendar_event_id: text("google_calendar_event_id"), // Link to Google Calendar event
+  // Recorrência: todas as ocorrências de uma série compartilham o mesmo recurrence_series_id
+  recurrence_series_id: text("recurrence_series_id"),
+  recurrence_rule: text("recurrence_rule"), // weekly, biweekly, monthly
+  recurrence_count: integer("recurrence_count"), // número total de ocorrências (quando definido)
+  recurrence_until: timestamp("recurrence_until"), // data limite da série (quando definida)
+  recurrence_index: integer("recurrence_index"), // posição da ocorrência na série (0 = primeira)
+  recurrence_exception: boolean("recurrence_exception").default(false), // ocorrência editada individualmente
+  // Sessão em grupo: número de vagas (vazio = consulta individual). Os pacientes ficam em
+  // appointment_participants; contact_id aponta para o titular, que também é participante
+  capacity: integer("capacity"),
+  booking_source: text("booking_source"), // online = portal de autoagendamento; vazio = agenda da clínica
+  // Marcos do atendimento, preenchidos nas transições de status
+  arrived_at: timestamp("arrived_at"), // paciente_aguardando
+  started_at: timestamp("started_at"), // paciente_em_atendimento
+  finished_at: timestamp("finished_at"), // finalizada
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_appointments_user").on(table.user_id),
   index("idx_appointments_contact").on(table.contact_id),
   index("idx_appointments_clinic").on(table.clinic_id),
+  index("idx_appointments_series").on(table.recurrence_series_id),
 ]);
 
 // Tabela para etiquetas de consultas (appointment tags)
@@ -339,7 +366,10 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   timestamp: true,
 });
 
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  status: z.enum(APPOINTMENT_STATUSES),
+  capacity: z.number().int().min(2).nullable().optional(),
+}).omit({
   id: true,
   created_at: true,
   updated_at: true,
@@ -431,22 +461,34 @@ export const calendar_integrations = pgTable("calendar_integrations", {
   id: serial("id").primaryKey(),
   user_id: text("user_id").notNull(), // Changed to TEXT for Supabase UUIDs
   clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
-  provider: text("provider").notNull(),
+  provider: text("provider").notNull(), // google, microsoft, caldav
   provider_user_id: text("provider_user_id"),
   email: text("email"),
   calendar_id: text("calendar_id"),
   calendar_name: text("calendar_name"),
-  access_token: text("access_token"),
+  server_url: text("server_url"), // CalDAV: servidor ou calendar home da conta
+  // Tokens são gravados cifrados (server/token-encryption.ts); o storage devolve o texto puro
+  access_token: text("access_token"), // CalDAV: senha de app da conta
   refresh_token: text("refresh_token"),
   token_expires_at: timestamp("token_expires_at"),
   is_active: boolean("is_active").default(true),
   sync_enabled: boolean("sync_enabled").default(true),
+  needs_reconnect: boolean("needs_reconnect").default(false), // o provedor recusou as credenciais; só volta a sincronizar após reconectar
   last_sync_at: timestamp("last_sync_at"),
   sync_errors: text("sync_errors"), // Changed from text to match actual structure
+  // Push sync: Google notifies the watch channel and we fetch only what changed since sync_token
+  sync_token: text("sync_token"),
+  watch_channel_id: text("watch_channel_id"),
+  watch_resource_id: text("watch_resource_id"),
+  watch_token: text("watch_token"), // segredo que o Google devolve em cada notificação do canal
+  watch_expires_at: timestamp("watch_expires_at"),
+  sync_in_progress: boolean("sync_in_progress").default(false),
+  last_sync_trigger: text("last_sync_trigger"), // webhook, renewal, poll, manual, conflict
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_calendar_user").on(table.user_id),
+  index("idx_calendar_watch_channel").on(table.watch_channel_id),
   index("idx_calendar_clinic").on(table.clinic_id),
   unique().on(table.user_id, table.email, table.provider),
 ]);
@@ -460,6 +502,103 @@ export const insertCalendarIntegrationSchema = createInsertSchema(calendar_integ
 export type CalendarIntegration = typeof calendar_integrations.$inferSelect;
 export type InsertCalendarIntegration = z.infer<typeof insertCalendarIntegrationSchema>;
 
+// Cópia local dos eventos das agendas externas, mantida pela sincronização incremental.
+// Agenda, busca de horários e checagem de conflitos leem daqui, sem chamar o Google
+export const external_calendar_events = pgTable("external_calendar_events", {
+  id: serial("id").primaryKey(),
+  integration_id: integer("integration_id").references(() => calendar_integrations.id, { onDelete: "cascade" }).notNull(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  user_id: text("user_id").notNull(), // dono da integração (mesmo formato de calendar_integrations.user_id)
+  calendar_id: text("calendar_id").notNull(),
+  external_id: text("external_id").notNull(), // id do evento no provedor
+  summary: text("summary"),
+  description: text("description"),
+  location: text("location"),
+  starts_at: timestamp("starts_at").notNull(),
+  ends_at: timestamp("ends_at").notNull(),
+  all_day: boolean("all_day").notNull().default(false),
+  status: text("status"), // confirmed, tentative
+  etag: text("etag"),
+  external_updated_at: timestamp("external_updated_at"), // última alteração no provedor
+  deleted_at: timestamp("deleted_at"), // removido no provedor (exclusão lógica)
+  last_synced_at: timestamp("last_synced_at").notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.integration_id, table.external_id),
+  index("idx_external_events_range").on(table.integration_id, table.starts_at),
+]);
+
+export const insertExternalCalendarEventSchema = createInsertSchema(external_calendar_events).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type ExternalCalendarEvent = typeof external_calendar_events.$inferSelect;
+export type InsertExternalCalendarEvent = z.infer<typeof insertExternalCalendarEventSchema>;
+
+// Consulta enviada para uma agenda externa. No Google o id do evento também fica em
+// appointments.google_calendar_event_id, que as telas antigas ainda leem
+export const calendar_event_links = pgTable("calendar_event_links", {
+  id: serial("id").primaryKey(),
+  appointment_id: integer("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  integration_id: integer("integration_id").references(() => calendar_integrations.id, { onDelete: "cascade" }).notNull(),
+  external_id: text("external_id").notNull(),
+  etag: text("etag"), // versão do evento que escrevemos ou aceitamos por último
+  external_updated_at: timestamp("external_updated_at"),
+  synced_at: timestamp("synced_at").notNull(), // consulta alterada depois disso = mudança do lado da clínica
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.appointment_id, table.integration_id),
+  index("idx_calendar_event_links_external").on(table.integration_id, table.external_id),
+]);
+
+export const insertCalendarEventLinkSchema = createInsertSchema(calendar_event_links).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type CalendarEventLink = typeof calendar_event_links.$inferSelect;
+export type InsertCalendarEventLink = z.infer<typeof insertCalendarEventLinkSchema>;
+
+// Evento vinculado que mudou na agenda externa e espera a decisão do profissional
+// (regra da clínica "perguntar"); resolvido mantendo a consulta ou aplicando a agenda
+export const calendar_sync_conflicts = pgTable("calendar_sync_conflicts", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  appointment_id: integer("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  integration_id: integer("integration_id").references(() => calendar_integrations.id, { onDelete: "cascade" }).notNull(),
+  user_id: text("user_id").notNull(), // dono da integração, quem revisa
+  external_id: text("external_id").notNull(),
+  kind: text("kind").notNull(), // moved, deleted
+  calendar_starts_at: timestamp("calendar_starts_at"), // horário na agenda externa (moved)
+  calendar_ends_at: timestamp("calendar_ends_at"),
+  appointment_starts_at: timestamp("appointment_starts_at"), // horário da consulta quando o conflito foi detectado
+  clinic_changed: boolean("clinic_changed").default(false), // a consulta também mudou desde a última sincronização
+  external_etag: text("external_etag"),
+  status: text("status").notNull().default("pending"), // pending, resolved
+  resolution: text("resolution"), // clinic, calendar; vazio quando os dois lados voltaram a coincidir
+  resolved_by: text("resolved_by"),
+  resolved_at: timestamp("resolved_at"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_calendar_sync_conflicts_user").on(table.user_id, table.status),
+  index("idx_calendar_sync_conflicts_appointment").on(table.appointment_id, table.integration_id),
+]);
+
+export const insertCalendarSyncConflictSchema = createInsertSchema(calendar_sync_conflicts).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type CalendarSyncConflict = typeof calendar_sync_conflicts.$inferSelect;
+export type InsertCalendarSyncConflict = z.infer<typeof insertCalendarSyncConflictSchema>;
+
 // Tabela para prontuários médicos vinculados às consultas
 export const medical_records = pgTable("medical_records", {
   id: serial("id").primaryKey(),
@@ -541,3 +680,396 @@ export const updateUserProfileSchema = createInsertSchema(users).omit({
 });
 
 export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
+
+// Tabela para a grade semanal de atendimento de cada profissional (vínculo clinic_users).
+// Cada linha é um bloco de horário; um mesmo dia pode ter vários blocos (ex.: manhã e tarde).
+export const professional_availability = pgTable("professional_availability", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  user_id: integer("user_id").references(() => users.id).notNull(),
+  day_of_week: text("day_of_week").notNull(), // monday, tuesday, ..., sunday
+  start_time: text("start_time").notNull(), // HH:mm
+  end_time: text("end_time").notNull(), // HH:mm
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_professional_availability_member").on(table.clinic_id, table.user_id),
+]);
+
+// Tabela para exceções da grade em datas específicas (folgas, plantões extras, horários reduzidos)
+export const professional_availability_overrides = pgTable("professional_availability_overrides", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  user_id: integer("user_id").references(() => users.id).notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD
+  is_available: boolean("is_available").notNull().default(false), // false = bloqueio, true = expediente do dia
+  start_time: text("start_time"), // HH:mm - vazio com is_available=false bloqueia o dia inteiro
+  end_time: text("end_time"), // HH:mm
+  reason: text("reason"),
+  created_at: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_professional_overrides_member_date").on(table.clinic_id, table.user_id, table.date),
+]);
+
+export const insertProfessionalAvailabilitySchema = createInsertSchema(professional_availability).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const insertProfessionalAvailabilityOverrideSchema = createInsertSchema(professional_availability_overrides).omit({
+  id: true,
+  created_at: true,
+});
+
+export type ProfessionalAvailability = typeof professional_availability.$inferSelect;
+export type InsertProfessionalAvailability = z.infer<typeof insertProfessionalAvailabilitySchema>;
+export type ProfessionalAvailabilityOverride = typeof professional_availability_overrides.$inferSelect;
+export type InsertProfessionalAvailabilityOverride = z.infer<typeof insertProfessionalAvailabilityOverrideSchema>;
+
+// Catálogo de tipos de atendimento da clínica. appointments.appointment_type guarda a key do tipo.
+// Os intervalos de preparo e limpeza bloqueiam a agenda do profissional antes e depois da consulta.
+export const appointment_types = pgTable("appointment_types", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  key: text("key").notNull(), // primeira_consulta, retorno, avaliacao, emergencia...
+  name: text("name").notNull(),
+  default_duration_minutes: integer("default_duration_minutes").notNull().default(60),
+  buffer_before_minutes: integer("buffer_before_minutes").notNull().default(0), // preparo
+  buffer_after_minutes: integer("buffer_after_minutes").notNull().default(0), // limpeza
+  default_price_cents: integer("default_price_cents"), // valor em centavos
+  color: text("color"), // hex, ex.: #3b82f6
+  professional_ids: integer("professional_ids").array(), // vazio = todos os profissionais
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.clinic_id, table.key),
+]);
+
+export const insertAppointmentTypeSchema = createInsertSchema(appointment_types, {
+  key: z.string().regex(/^[a-z0-9_]+$/, "Use apenas letras minúsculas, números e _"),
+  name: z.string().min(1, "Nome é obrigatório"),
+  default_duration_minutes: z.number().int().min(5).max(24 * 60),
+  buffer_before_minutes: z.number().int().min(0).max(240),
+  buffer_after_minutes: z.number().int().min(0).max(240),
+  default_price_cents: z.number().int().min(0).nullable().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor deve estar no formato #RRGGBB").nullable().optional(),
+  professional_ids: z.array(z.number().int()).nullable().optional(),
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type AppointmentType = typeof appointment_types.$inferSelect;
+export type InsertAppointmentType = z.infer<typeof insertAppointmentTypeSchema>;
+
+// Tabela para fechamentos da clínica (feriados, manutenção). Valem para todos os profissionais
+// e podem se repetir todo ano ou bloquear apenas parte do dia.
+export const clinic_closures = pgTable("clinic_closures", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD - primeiro ano quando recurs_yearly
+  recurs_yearly: boolean("recurs_yearly").notNull().default(false),
+  start_time: text("start_time"), // HH:mm - vazio fecha o dia inteiro
+  end_time: text("end_time"), // HH:mm
+  reason: text("reason").notNull(),
+  source: text("source").notNull().default("manual"), // manual, national_holiday
+  created_at: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_clinic_closures_clinic_date").on(table.clinic_id, table.date),
+]);
+
+export const insertClinicClosureSchema = createInsertSchema(clinic_closures, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato YYYY-MM-DD"),
+  start_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Horário deve estar no formato HH:mm").nullable().optional(),
+  end_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Horário deve estar no formato HH:mm").nullable().optional(),
+  reason: z.string().min(1, "Informe o motivo do fechamento"),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+export type ClinicClosure = typeof clinic_closures.$inferSelect;
+export type InsertClinicClosure = z.infer<typeof insertClinicClosureSchema>;
+
+// Tabela para recursos agendáveis da clínica (salas, equipamentos) compartilhados entre profissionais
+export const clinic_resources = pgTable("clinic_resources", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // room, equipment
+  capacity: integer("capacity").notNull().default(1), // agendamentos simultâneos permitidos
+  working_days: text("working_days").array(), // vazio = segue os dias da clínica
+  open_time: text("open_time"), // HH:mm - vazio = sem restrição de horário
+  close_time: text("close_time"), // HH:mm
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_clinic_resources_clinic").on(table.clinic_id),
+]);
+
+// Tabela de vínculo entre consultas e os recursos que elas reservam
+export const appointment_resources = pgTable("appointment_resources", {
+  id: serial("id").primaryKey(),
+  appointment_id: integer("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  resource_id: integer("resource_id").references(() => clinic_resources.id, { onDelete: "cascade" }).notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.appointment_id, table.resource_id),
+  index("idx_appointment_resources_resource").on(table.resource_id),
+]);
+
+export const insertClinicResourceSchema = createInsertSchema(clinic_resources, {
+  type: z.enum(["room", "equipment"]),
+  capacity: z.number().int().min(1),
+  open_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+  close_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const insertAppointmentResourceSchema = createInsertSchema(appointment_resources).omit({
+  id: true,
+  created_at: true,
+});
+
+export type ClinicResource = typeof clinic_resources.$inferSelect;
+export type InsertClinicResource = z.infer<typeof insertClinicResourceSchema>;
+export type AppointmentResource = typeof appointment_resources.$inferSelect;
+export type InsertAppointmentResource = z.infer<typeof insertAppointmentResourceSchema>;
+
+// Recursos reservados por uma consulta (campo resource_ids nas rotas de agendamento)
+export const appointmentResourceIdsSchema = z.array(z.number().int().positive()).default([]);
+
+// Tabela para a lista de espera da clínica: pacientes aguardando um horário que vague
+export const waitlist_entries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  contact_id: integer("contact_id").references(() => contacts.id).notNull(),
+  preferred_user_id: integer("preferred_user_id").references(() => users.id), // vazio = qualquer profissional
+  preferred_days: text("preferred_days").array(), // monday, tuesday, ... - vazio = qualquer dia
+  preferred_start_time: text("preferred_start_time"), // HH:mm
+  preferred_end_time: text("preferred_end_time"), // HH:mm
+  duration_minutes: integer("duration_minutes").notNull().default(30),
+  appointment_type: text("appointment_type"),
+  priority: integer("priority").notNull().default(0), // maior = atendido primeiro
+  notes: text("notes"),
+  status: text("status").notNull().default("waiting"), // waiting, offered, booked, cancelled
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_waitlist_entries_clinic_status").on(table.clinic_id, table.status),
+]);
+
+// Tabela para as ofertas de horário vago: reserva provisória até a recepção confirmar ou pular
+export const waitlist_offers = pgTable("waitlist_offers", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  waitlist_entry_id: integer("waitlist_entry_id").references(() => waitlist_entries.id, { onDelete: "cascade" }).notNull(),
+  user_id: integer("user_id").references(() => users.id).notNull(), // profissional do horário vago
+  slot_start: timestamp("slot_start").notNull(),
+  duration_minutes: integer("duration_minutes").notNull(), // duração do horário vago
+  source_appointment_id: integer("source_appointment_id"), // consulta cancelada que liberou o horário
+  appointment_id: integer("appointment_id"), // consulta criada ao confirmar
+  status: text("status").notNull().default("pending"), // pending, confirmed, skipped, expired
+  expires_at: timestamp("expires_at").notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_waitlist_offers_clinic_status").on(table.clinic_id, table.status),
+  index("idx_waitlist_offers_slot").on(table.user_id, table.slot_start),
+]);
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlist_entries, {
+  preferred_start_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+  preferred_end_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+  duration_minutes: z.number().int().min(5),
+}).omit({
+  id: true,
+  status: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const insertWaitlistOfferSchema = createInsertSchema(waitlist_offers).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type WaitlistEntry = typeof waitlist_entries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistOffer = typeof waitlist_offers.$inferSelect;
+export type InsertWaitlistOffer = z.infer<typeof insertWaitlistOfferSchema>;
+
+// Tabela para o histórico de status das consultas
+export const appointment_status_history = pgTable("appointment_status_history", {
+  id: serial("id").primaryKey(),
+  appointment_id: integer("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  from_status: text("from_status"),
+  to_status: text("to_status").notNull(),
+  changed_by: integer("changed_by").references(() => users.id), // vazio = alteração automática
+  reason: text("reason"),
+  created_at: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_appointment_status_history_appointment").on(table.appointment_id),
+]);
+
+export const insertAppointmentStatusHistorySchema = createInsertSchema(appointment_status_history).omit({
+  id: true,
+  created_at: true,
+});
+
+export type AppointmentStatusHistory = typeof appointment_status_history.$inferSelect;
+export type InsertAppointmentStatusHistory = z.infer<typeof insertAppointmentStatusHistorySchema>;
+
+// Participantes de uma sessão em grupo (terapia em grupo, aulas), com presença e pagamento individuais
+export const PARTICIPANT_ATTENDANCE_STATUSES = ["inscrito", "presente", "faltou"] as const;
+export const PARTICIPANT_PAYMENT_STATUSES = ["pendente", "pago", "isento"] as const;
+
+export const appointment_participants = pgTable("appointment_participants", {
+  id: serial("id").primaryKey(),
+  appointment_id: integer("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  contact_id: integer("contact_id").references(() => contacts.id).notNull(),
+  attendance_status: text("attendance_status").notNull().default("inscrito"), // inscrito, presente, faltou
+  payment_status: text("payment_status").notNull().default("pendente"), // pendente, pago, isento
+  payment_amount: integer("payment_amount"), // valor em centavos
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.appointment_id, table.contact_id),
+  index("idx_appointment_participants_contact").on(table.contact_id),
+]);
+
+export const insertAppointmentParticipantSchema = createInsertSchema(appointment_participants, {
+  attendance_status: z.enum(PARTICIPANT_ATTENDANCE_STATUSES).optional(),
+  payment_status: z.enum(PARTICIPANT_PAYMENT_STATUSES).optional(),
+  payment_amount: z.number().int().min(0).nullable().optional(),
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type AppointmentParticipant = typeof appointment_participants.$inferSelect;
+export type InsertAppointmentParticipant = z.infer<typeof insertAppointmentParticipantSchema>;
+
+// Lembretes automáticos enviados antes das consultas. A chave única impede reenvio após reinícios
+export const REMINDER_LOG_STATUSES = ["pending", "sent", "failed"] as const;
+
+export const reminder_logs = pgTable("reminder_logs", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  appointment_id: integer("appointment_id").references(() => appointments.id, { onDelete: "cascade" }).notNull(),
+  contact_id: integer("contact_id").references(() => contacts.id).notNull(),
+  offset_hours: integer("offset_hours").notNull(), // antecedência do lembrete (ex.: 48, 2)
+  // Horário da consulta quando o lembrete foi enviado: remarcada, ela recebe os lembretes da nova data
+  scheduled_for: timestamp("scheduled_for"),
+  channel: text("channel").notNull(), // console, whatsapp, ...
+  recipient: text("recipient"),
+  message: text("message"),
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  error: text("error"),
+  external_id: text("external_id"), // id da mensagem no provedor
+  sent_at: timestamp("sent_at"),
+  created_at: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.appointment_id, table.contact_id, table.offset_hours, table.scheduled_for),
+  index("idx_reminder_logs_clinic").on(table.clinic_id, table.created_at),
+]);
+
+export const insertReminderLogSchema = createInsertSchema(reminder_logs, {
+  status: z.enum(REMINDER_LOG_STATUSES).optional(),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+export type ReminderLog = typeof reminder_logs.$inferSelect;
+export type InsertReminderLog = z.infer<typeof insertReminderLogSchema>;
+
+// Estados de uma conversa (aguardando_equipe = na fila da recepção) e intenções das respostas dos pacientes
+export const CONVERSATION_STATUSES = ["aberta", "aguardando_equipe", "fechada"] as const;
+export const MESSAGE_INTENTS = ["confirm", "cancel", "reschedule", "opt_out", "unknown"] as const;
+export type MessageIntent = typeof MESSAGE_INTENTS[number];
+
+// Linha da caixa de entrada: a conversa, o paciente, a última mensagem e quantas o paciente mandou sem leitura
+export type ConversationSummary = Conversation & {
+  contact_name: string | null;
+  contact_phone: string | null;
+  last_message: Pick<Message, 'content' | 'sender_type' | 'ai_action' | 'timestamp'> | null;
+  unread_count: number;
+};
+
+// Campanhas de mensagens em massa (recall, avisos). O público é definido por filtros e vira
+// uma lista de destinatários quando o envio começa
+export const CAMPAIGN_STATUSES = ["rascunho", "agendada", "enviando", "concluida", "cancelada"] as const;
+export const CAMPAIGN_RECIPIENT_STATUSES = ["pending", "sending", "sent", "failed", "skipped"] as const;
+
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  name: text("name").notNull(),
+  template_id: integer("template_id").references(() => ai_templates.id).notNull(),
+  audience: jsonb("audience").notNull(), // filtros do público (origem, status, retorno vencido)
+  status: text("status").notNull().default("rascunho"), // rascunho, agendada, enviando, concluida, cancelada
+  scheduled_at: timestamp("scheduled_at"), // início do envio
+  send_rate_per_minute: integer("send_rate_per_minute").notNull().default(20),
+  created_by: integer("created_by").references(() => users.id),
+  started_at: timestamp("started_at"),
+  completed_at: timestamp("completed_at"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_campaigns_clinic").on(table.clinic_id, table.created_at),
+  index("idx_campaigns_status").on(table.status, table.scheduled_at),
+]);
+
+export const campaign_recipients = pgTable("campaign_recipients", {
+  id: serial("id").primaryKey(),
+  campaign_id: integer("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }).notNull(),
+  clinic_id: integer("clinic_id").references(() => clinics.id).notNull(),
+  contact_id: integer("contact_id").references(() => contacts.id).notNull(),
+  recipient: text("recipient"),
+  message: text("message"),
+  status: text("status").notNull().default("pending"), // pending, sending, sent, failed, skipped
+  error: text("error"), // motivo da falha ou de ter sido pulado
+  external_id: text("external_id"), // id da mensagem no provedor
+  sent_at: timestamp("sent_at"),
+  created_at: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.campaign_id, table.contact_id),
+  index("idx_campaign_recipients_status").on(table.campaign_id, table.status),
+]);
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  status: z.enum(CAMPAIGN_STATUSES).optional(),
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const insertCampaignRecipientSchema = createInsertSchema(campaign_recipients, {
+  status: z.enum(CAMPAIGN_RECIPIENT_STATUSES).optional(),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type CampaignRecipient = typeof campaign_recipients.$inferSelect;
+export type InsertCampaignRecipient = z.infer<typeof insertCampaignRecipientSchema>;
+export type CampaignRecipientStatus = typeof CAMPAIGN_RECIPIENT_STATUSES[number];
+
+// Campanha com a contagem de destinatários por status
+export type CampaignSummary = Campaign & {
+  recipient_counts: Record<CampaignRecipientStatus, number>;
+};
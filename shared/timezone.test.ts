@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addMonthsToDateKey,
+  getZonedDateKey,
+  getZonedDayRange,
+  getZonedTime,
+  zonedTimeToUtc
+} from "./timezone";
+
+const NEW_YORK = 'America/New_York';
+const SAO_PAULO = 'America/Sao_Paulo';
+const HOUR_MS = 3600000;
+
+test("zonedTimeToUtc moves a time skipped by the spring-forward jump past it", () => {
+  // New York skips 02:00-03:00 on 2026-03-08
+  assert.equal(zonedTimeToUtc('2026-03-08', '02:30', NEW_YORK).toISOString(), '2026-03-08T07:30:00.000Z');
+  assert.equal(zonedTimeToUtc('2026-03-08', '03:00', NEW_YORK).toISOString(), '2026-03-08T07:00:00.000Z');
+  assert.equal(zonedTimeToUtc('2026-03-08', '01:59', NEW_YORK).toISOString(), '2026-03-08T06:59:00.000Z');
+});
+
+test("zonedTimeToUtc resolves a repeated time to its first occurrence", () => {
+  // New York repeats 01:00-02:00 on 2026-11-01 (EDT, then EST)
+  assert.equal(zonedTimeToUtc('2026-11-01', '01:30', NEW_YORK).toISOString(), '2026-11-01T05:30:00.000Z');
+  assert.equal(zonedTimeToUtc('2026-11-01', '02:00', NEW_YORK).toISOString(), '2026-11-01T07:00:00.000Z');
+});
+
+test("getZonedDayRange is 23 hours long on the spring-forward day", () => {
+  const { start, end } = getZonedDayRange('2026-03-08', NEW_YORK);
+  assert.equal(start.toISOString(), '2026-03-08T05:00:00.000Z');
+  assert.equal(end.getTime() - start.getTime(), 23 * HOUR_MS);
+});
+
+test("getZonedDayRange is 25 hours long on the fall-back day", () => {
+  const { start, end } = getZonedDayRange('2026-11-01', NEW_YORK);
+  assert.equal(start.toISOString(), '2026-11-01T04:00:00.000Z');
+  assert.equal(end.getTime() - start.getTime(), 25 * HOUR_MS);
+});
+
+test("getZonedDayRange handles São Paulo's former DST, which moved midnight itself", () => {
+  // 2018-11-04 started at 01:00 (midnight skipped); 2019-02-16 ran until the second 23:59
+  const skipped = getZonedDayRange('2018-11-04', SAO_PAULO);
+  assert.equal(skipped.start.toISOString(), '2018-11-04T03:00:00.000Z');
+  assert.equal(skipped.end.getTime() - skipped.start.getTime(), 23 * HOUR_MS);
+
+  const repeated = getZonedDayRange('2019-02-16', SAO_PAULO);
+  assert.equal(repeated.end.toISOString(), '2019-02-17T03:00:00.000Z');
+  assert.equal(repeated.end.getTime() - repeated.start.getTime(), 25 * HOUR_MS);
+});
+
+test("São Paulo bookings near midnight stay on their local day", () => {
+  const lateEvening = zonedTimeToUtc('2026-05-10', '23:30', SAO_PAULO);
+  assert.equal(lateEvening.toISOString(), '2026-05-11T02:30:00.000Z');
+  assert.equal(getZonedDateKey(lateEvening, SAO_PAULO), '2026-05-10');
+  assert.equal(getZonedTime(lateEvening, SAO_PAULO), '23:30');
+
+  const day = getZonedDayRange('2026-05-10', SAO_PAULO);
+  assert.ok(lateEvening >= day.start && lateEvening < day.end);
+
+  const afterMidnight = zonedTimeToUtc('2026-05-11', '00:15', SAO_PAULO);
+  assert.equal(getZonedDateKey(afterMidnight, SAO_PAULO), '2026-05-11');
+  assert.ok(afterMidnight >= day.end);
+});
+
+test("addMonthsToDateKey clamps to the last day of shorter months", () => {
+  assert.equal(addMonthsToDateKey('2026-01-31', 1), '2026-02-28');
+  assert.equal(addMonthsToDateKey('2028-01-31', 1), '2028-02-29');
+  assert.equal(addMonthsToDateKey('2026-12-15', 1), '2027-01-15');
+});
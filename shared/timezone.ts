@@ -0,0 +1,132 @@
+// Clinic-timezone date math shared by the API and the agenda UI.
+// Dates cross the wire as UTC instants; days and wall-clock times ("YYYY-MM-DD",
+// "HH:mm") are always read in the clinic's IANA timezone, never the host's.
+
+export const DEFAULT_CLINIC_TIMEZONE = 'America/Sao_Paulo';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ * (e.g. -3h for America/Sao_Paulo).
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * The UTC instant of a wall-clock time in the timezone. Times skipped by a DST
+ * jump are moved forward by the jump (02:30 becomes 03:30); repeated times
+ * resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(dateKey: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  const guessOffset = getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  const guess = wallClockAsUtc - guessOffset;
+  const actualOffset = getTimeZoneOffsetMs(new Date(guess), timeZone);
+  if (actualOffset === guessOffset) return new Date(guess);
+
+  const adjusted = wallClockAsUtc - actualOffset;
+  return getTimeZoneOffsetMs(new Date(adjusted), timeZone) === actualOffset
+    ? new Date(adjusted)
+    : new Date(Math.max(guess, adjusted));
+}
+
+// Calendar day ("YYYY-MM-DD") of an instant in the timezone
+export function getZonedDateKey(date: Date | string, timeZone: string): string {
+  const parts = getZonedParts(new Date(date), timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+// Wall-clock time ("HH:mm") of an instant in the timezone
+export function getZonedTime(date: Date | string, timeZone: string): string {
+  const parts = getZonedParts(new Date(date), timeZone);
+  return `${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * A Date whose local fields show the timezone's wall clock, for code that
+ * formats or lays out dates with date-fns in the browser. Never send it back
+ * to the API; convert wall-clock values with `zonedTimeToUtc` instead.
+ */
+export function toZonedTime(date: Date | string, timeZone: string): Date {
+  const parts = getZonedParts(new Date(date), timeZone);
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Day of the week (0 = Sunday) of a calendar day, independent of any timezone
+export function getDateKeyWeekday(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// Adds months keeping the day of the month, clamped to the last day (Jan 31 + 1 month = Feb 28/29)
+export function addMonthsToDateKey(dateKey: string, months: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// UTC bounds [start, end) of a calendar day in the timezone (23 or 25 hours long on DST days)
+export function getZonedDayRange(dateKey: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(dateKey, '00:00', timeZone),
+    end: zonedTimeToUtc(addDaysToDateKey(dateKey, 1), '00:00', timeZone),
+  };
+}